@@ -0,0 +1,16 @@
+#!/usr/bin/env node
+// Runs the TypeScript sources directly, the same way the npm scripts do.
+const fs = require('fs');
+const path = require('path');
+
+if (fs.existsSync('.env')) {
+  process.loadEnvFile('.env');
+}
+
+require('ts-node').register({ project: path.join(__dirname, '..', 'tsconfig.json') });
+
+require('../src/cli')
+  .run(process.argv.slice(2))
+  .then(code => {
+    process.exitCode = code;
+  });
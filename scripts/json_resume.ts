@@ -0,0 +1,90 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  formatUnmappedReport,
+  jsonResumeToProfile,
+  loadProfile,
+  parseJsonResume,
+  profileToJsonResume,
+  saveProfileVersion
+} from '../src/profile';
+
+class JsonResumeConverter {
+  private profilePath: string;
+
+  constructor(profilePath?: string) {
+    this.profilePath = profilePath || path.join(__dirname, '..', 'data', 'profile.json');
+  }
+
+  exportResume(outputPath: string): void {
+    const profile = loadProfile(this.profilePath);
+    const { data, unmapped } = profileToJsonResume(profile);
+
+    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+    fs.writeFileSync(outputPath, JSON.stringify(data, null, 2));
+    console.log(`✅ JSON Resume written to ${outputPath}`);
+    console.log(formatUnmappedReport('Profile → JSON Resume', unmapped));
+  }
+
+  importResume(resumePath: string, force: boolean): void {
+    const resume = parseJsonResume(JSON.parse(fs.readFileSync(resumePath, 'utf-8')), resumePath);
+    const { data, unmapped } = jsonResumeToProfile(resume);
+
+    if (fs.existsSync(this.profilePath) && !force) {
+      throw new Error(`${this.profilePath} already exists; pass --force to replace it`);
+    }
+
+    const snapshot = saveProfileVersion(this.profilePath, data, undefined, { source: 'manual', detail: `JSON Resume import of ${resumePath}` });
+    console.log(`✅ Profile written to ${this.profilePath} (version v${snapshot.version})`);
+    console.log(formatUnmappedReport('JSON Resume → profile', unmapped));
+  }
+
+  // Converts the profile to JSON Resume and back without writing anything, listing what is lost each way.
+  roundTrip(): void {
+    const profile = loadProfile(this.profilePath);
+    const exported = profileToJsonResume(profile);
+    const imported = jsonResumeToProfile(exported.data);
+
+    console.log(formatUnmappedReport('Profile → JSON Resume', exported.unmapped));
+    console.log(formatUnmappedReport('JSON Resume → profile', imported.unmapped));
+  }
+}
+
+function optionValue(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const converter = new JsonResumeConverter(optionValue(args, '--profile'));
+
+  switch (command) {
+    case 'export':
+      converter.exportResume(optionValue(args, '--out') || path.join(__dirname, '..', 'output', 'resume.json'));
+      break;
+    case 'import':
+      if (!args[0] || args[0].startsWith('--')) {
+        throw new Error('Usage: json_resume.ts import <resume.json> [--profile <path>] [--force]');
+      }
+      converter.importResume(args[0], args.includes('--force'));
+      break;
+    case 'roundtrip':
+      converter.roundTrip();
+      break;
+    default:
+      console.log('Usage: json_resume.ts <export|import|roundtrip> [--profile <path>] [--out <path>] [--force]');
+      process.exit(command ? 1 : 0);
+  }
+}
+
+if (require.main === module) {
+  try {
+    main();
+  } catch (error) {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+export default JsonResumeConverter;
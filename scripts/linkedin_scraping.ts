@@ -1,59 +1,23 @@
-import { chromium } from 'playwright';
-import * as fs from 'fs';
-
-const STATE_FILE = 'state.json';
-
-(async () => {
-  const email = process.env.LINKEDIN_EMAIL;
-  const password = process.env.LINKEDIN_PASSWORD;
-  const username = process.env.LINKEDIN_USERNAME;
-
-  if (!username || !password || !email) {
-    console.error('Missing LinkedIn username or password in .env file');
-    return;
-  }
-
-  const browser = await chromium.launch({ headless: false });
-  let context;
-
-  if (fs.existsSync(STATE_FILE)) {
-    const state = JSON.parse(fs.readFileSync(STATE_FILE, 'utf-8'));
-    context = await browser.newContext({ storageState: state });
-    console.log('Loaded saved state.');
-  } else {
-    context = await browser.newContext();
-    const page = await context.newPage();
-    await page.goto('https://linkedin.com');
-    await page.click('[data-tracking-control-name="guest_homepage-basic_nav-header-signin"]');
-    
-    await page.waitForSelector('#username');
-    await page.type('#username', email);
-    await page.type('#password', password);
-    await page.click('button[type="submit"][aria-label="Sign in"]');
-
-    await page.waitForURL('**/feed/**', { timeout: 60000 });
-    console.log('Login successful.');
-
-    const storageState = await context.storageState();
-    fs.writeFileSync(STATE_FILE, JSON.stringify(storageState, null, 2));
-    console.log('Storage state saved.');
-    await page.close();
+import { PDFDataExtractor } from '../src/collectors';
+import { LINKEDIN_WEB_SECTIONS, collectLinkedInProfile, linkedInCredentialsFromEnv, mergeLinkedInSections } from '../src/collectors/linkedin';
+import { DEFAULT_PROFILE_PATH } from '../src/paths';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const { pdfPath, sections } = await collectLinkedInProfile({
+    ...linkedInCredentialsFromEnv(),
+    headless: args.includes('--headless'),
+    sections: args.includes('--sections') ? LINKEDIN_WEB_SECTIONS : []
+  });
+  if (!args.includes('--download-only')) {
+    await new PDFDataExtractor({ pdfPath }).extractAndMerge();
+    if (sections) mergeLinkedInSections(sections, { profilePath: DEFAULT_PROFILE_PATH });
   }
-
-  const page = await context.newPage();
-  await page.goto(`https://www.linkedin.com/in/${username}/`);
-
-  await page.waitForSelector('main');
-  await new Promise(resolve => setTimeout(resolve, 3000));
-
-  await page.locator('button:has-text("Recursos")').locator(':visible').click();
-
-  const downloadPromise = page.waitForEvent('download');
-  await page.getByRole('button', { name: 'Salvar como PDF' }).click();
-  const download = await downloadPromise;
-
-  await download.saveAs('profile.pdf');
-  console.log('Profile saved as profile.pdf');
-
-  await browser.close();
-})();
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
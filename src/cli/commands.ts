@@ -0,0 +1,564 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CVGenerator, RenderMode } from '../generator';
+import { loadConfig } from '../config';
+import { DEFAULT_OUTPUT_DIR, DEFAULT_PROFILE_PATH } from '../paths';
+import { LLMClient, LLMConfig, PROVIDER_NAMES, ProviderName, assertLLMCredentials, createLLMClient, resolveLLMConfig } from '../llm';
+import { findUnsafeProfileValues } from '../latex/escape';
+import {
+  HistoryError,
+  ProfileData,
+  ProvenanceError,
+  diffProfiles,
+  formatHistory,
+  formatMergeReport,
+  formatProfileDiff,
+  formatProvenance,
+  labelSnapshot,
+  listSnapshots,
+  loadProfile,
+  loadProvenance,
+  loadSnapshot,
+  pinFields,
+  pruneHistory,
+  recordSnapshot,
+  restoreSnapshot,
+  saveProvenance,
+  snapshotName,
+  unpinFields,
+  validateProfile
+} from '../profile';
+import { OutputFormat, isDocumentFormat, parseOutputFormats, renderDocument } from '../renderers';
+import { loadJobPosting, tailorProfile } from '../tailoring';
+import { DEFAULT_LOCALE, buildCVViewModel, loadLocale, parseLocaleCode, parseLocaleCodes } from '../template';
+import { EXIT_INVALID_PROFILE, EXIT_OK, UsageError } from './errors';
+import { writeResult } from './output';
+
+export interface OptionSpec {
+  name: string;
+  short?: string;
+  type: 'string' | 'boolean';
+  // Placeholder shown in help, e.g. "<path>".
+  value?: string;
+  description: string;
+}
+
+export type OptionValues = Record<string, string | boolean | undefined>;
+
+export interface CommandContext {
+  positionals: string[];
+  options: OptionValues;
+}
+
+export interface Command {
+  path: string[];
+  summary: string;
+  arguments?: string;
+  maxPositionals: number;
+  options: OptionSpec[];
+  run(context: CommandContext): Promise<number | void>;
+}
+
+// Options with the same meaning in every command that accepts them.
+export const PROFILE_OPTION: OptionSpec = { name: 'profile', short: 'p', type: 'string', value: '<path>', description: 'profile JSON file (default: data/profile.json)' };
+export const OUT_OPTION: OptionSpec = { name: 'out', short: 'o', type: 'string', value: '<dir>', description: 'output directory' };
+export const TEMPLATE_OPTION: OptionSpec = { name: 'template', short: 't', type: 'string', value: '<path>', description: 'LaTeX template (base-cv.tex in llm mode, base-cv.template.tex in template mode)' };
+export const MODEL_OPTION: OptionSpec = { name: 'model', short: 'm', type: 'string', value: '<name>', description: 'LLM model, overrides LLM_MODEL' };
+export const PROVIDER_OPTION: OptionSpec = { name: 'provider', type: 'string', value: '<name>', description: `LLM provider: ${PROVIDER_NAMES.join(', ')}` };
+export const OVERWRITE_OPTION: OptionSpec = { name: 'overwrite', type: 'boolean', description: 'replace conflicting values from other sources and unpinned manual edits' };
+export const LOCALE_OPTION: OptionSpec = { name: 'locale', short: 'l', type: 'string', value: '<codes>', description: 'output language(s), comma separated: pt-BR, en, es' };
+export const GLOBAL_OPTIONS: OptionSpec[] = [
+  { name: 'verbose', short: 'v', type: 'boolean', description: 'print debug output' },
+  { name: 'quiet', short: 'q', type: 'boolean', description: 'only print warnings, errors and results' },
+  { name: 'help', short: 'h', type: 'boolean', description: 'show help' }
+];
+
+function stringOption(options: OptionValues, name: string): string | undefined {
+  const value = options[name];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function pathOption(options: OptionValues, name: string): string | undefined {
+  const value = stringOption(options, name);
+  return value ? path.resolve(value) : undefined;
+}
+
+function profilePath(options: OptionValues): string {
+  return pathOption(options, 'profile') || DEFAULT_PROFILE_PATH;
+}
+
+// Collected and downloaded files live next to the profile they feed.
+function dataDir(options: OptionValues): string {
+  return pathOption(options, 'out') || path.dirname(profilePath(options));
+}
+
+function llmOverrides(options: OptionValues): Partial<LLMConfig> {
+  const overrides: Partial<LLMConfig> = {};
+  const provider = stringOption(options, 'provider');
+  if (provider) {
+    if (!PROVIDER_NAMES.includes(provider as ProviderName)) {
+      throw new UsageError(`Unknown provider "${provider}". Expected one of: ${PROVIDER_NAMES.join(', ')}`);
+    }
+    overrides.provider = provider as ProviderName;
+  }
+  const model = stringOption(options, 'model');
+  if (model) overrides.model = model;
+  return overrides;
+}
+
+function parseWith<T>(parse: (value: string) => T, value: string): T {
+  try {
+    return parse(value);
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+const collectGithub: Command = {
+  path: ['collect', 'github'],
+  summary: 'Add GitHub statistics, languages and notable repositories to the profile (needs GITHUB_TOKEN and GITHUB_USERNAME)',
+  maxPositionals: 0,
+  options: [
+    PROFILE_OPTION,
+    { ...LOCALE_OPTION, description: 'language of the generated facts: pt-BR, en, es' },
+    { name: 'api', type: 'string', value: '<rest|graphql>', description: 'graphql batches requests and adds pinned repositories, organizations and contributions (default: rest)' },
+    { name: 'contributions', type: 'boolean', description: 'also collect merged pull requests and reviews in other people\'s repositories' },
+    { name: 'activity', type: 'boolean', description: 'build a per-language timeline from your commits (first and last use, share of recent work)' },
+    { name: 'details', type: 'boolean', description: 'read the README and package.json, requirements.txt, Cargo.toml, go.mod of each project repository' },
+    { name: 'summarize', type: 'boolean', description: 'condense each project README into 2-3 bullets with the LLM (implies --details)' },
+    MODEL_OPTION,
+    PROVIDER_OPTION,
+    { name: 'cache-dir', type: 'string', value: '<dir>', description: 'ETag cache for API responses (default: .cache/github next to the profile)' },
+    { name: 'record', type: 'string', value: '<dir>', description: 'save every API response as a fixture in <dir>' },
+    { name: 'replay', type: 'string', value: '<dir>', description: 'answer API requests from fixtures in <dir>, offline' },
+    { name: 'dry-run', type: 'boolean', description: 'print every repository\'s score and the changes, conflicts and duplicates the run would bring, without updating the profile' },
+    OVERWRITE_OPTION
+  ],
+  async run({ options }) {
+    const { GitHubDataCollector, githubCredentialsFromEnv } = await import('../collectors/github');
+    const config = loadConfig();
+    const record = pathOption(options, 'record');
+    const replay = pathOption(options, 'replay');
+    if (record && replay) {
+      throw new UsageError('--record and --replay cannot be used together');
+    }
+    const locale = stringOption(options, 'locale');
+    const api = stringOption(options, 'api') || 'rest';
+    if (api !== 'rest' && api !== 'graphql') {
+      throw new UsageError(`Unknown GitHub API "${api}". Expected rest or graphql`);
+    }
+    let llmClient: LLMClient | undefined;
+    if (options.summarize) {
+      const llmConfig = resolveLLMConfig(llmOverrides(options), config.llm);
+      assertLLMCredentials(llmConfig);
+      llmClient = createLLMClient(llmConfig);
+    }
+
+    // Replayed runs never reach GitHub: they still need the username the fixtures were recorded for, but no token.
+    const credentials = githubCredentialsFromEnv(replay ? { GITHUB_TOKEN: 'replay', ...process.env } : process.env);
+
+    const collector = new GitHubDataCollector({
+      ...credentials,
+      cacheDir: pathOption(options, 'cache-dir') || path.join(path.dirname(profilePath(options)), '.cache', 'github'),
+      fixtures: record ? { mode: 'record', dir: record } : replay ? { mode: 'replay', dir: replay } : undefined,
+      api,
+      contributions: Boolean(options.contributions),
+      projectDetails: Boolean(options.details),
+      languageActivity: Boolean(options.activity),
+      llmClient,
+      selection: config.github?.selection,
+      overwrite: Boolean(options.overwrite),
+      history: config.history,
+      profilePath: profilePath(options),
+      locale: locale ? parseWith(parseLocaleCode, locale) : DEFAULT_LOCALE
+    });
+    if (options['dry-run']) {
+      const { selectionReport, merge } = await collector.previewProfileUpdate();
+      writeResult(`${selectionReport}\n\n${formatMergeReport(merge)}`);
+      return;
+    }
+    await collector.collectAndUpdateProfile();
+  }
+};
+
+const collectLinkedin: Command = {
+  path: ['collect', 'linkedin'],
+  summary: 'Download the LinkedIn profile PDF with a browser session, optionally read the sections it leaves out, and merge them into the profile (needs LINKEDIN_EMAIL, LINKEDIN_PASSWORD and LINKEDIN_USERNAME)',
+  maxPositionals: 0,
+  options: [
+    PROFILE_OPTION,
+    { ...OUT_OPTION, description: 'directory for profile.pdf and the saved session (default: the profile directory)' },
+    { name: 'headless', type: 'boolean', description: 'run the browser without a window; CAPTCHA and verification code pages then fail instead of waiting for you' },
+    { name: 'sections', type: 'boolean', description: 'also read projects, recommendations, volunteering, honors, publications and all skills from the page into linkedin.json' },
+    { name: 'download-only', type: 'boolean', description: 'save profile.pdf (and linkedin.json) without merging them into the profile' },
+    { name: 'replay', type: 'string', value: '<dir>', description: 'answer LinkedIn pages from saved HTML fixtures in <dir>, offline' },
+    OVERWRITE_OPTION
+  ],
+  async run({ options }) {
+    const { LINKEDIN_WEB_SECTIONS, collectLinkedInProfile, linkedInCredentialsFromEnv, mergeLinkedInSections } = await import('../collectors/linkedin');
+    const replay = pathOption(options, 'replay');
+    const collection = await collectLinkedInProfile({
+      ...linkedInCredentialsFromEnv(replay ? { LINKEDIN_EMAIL: 'replay', LINKEDIN_PASSWORD: 'replay', ...process.env } : process.env),
+      outputPath: path.join(dataDir(options), 'profile.pdf'),
+      // Replayed sessions never touch the real one.
+      ...(replay ? { fixturesDir: replay, statePath: path.join(replay, 'linkedin-state.json') } : {}),
+      headless: Boolean(options.headless),
+      sections: options.sections ? LINKEDIN_WEB_SECTIONS : []
+    });
+    const written = [collection.pdfPath, ...(collection.sectionsPath ? [collection.sectionsPath] : [])].join('\n');
+    if (options['download-only']) {
+      writeResult(written);
+      return;
+    }
+
+    const { PDFDataExtractor } = await import('../collectors/pdf');
+    const history = loadConfig().history;
+    await new PDFDataExtractor({
+      profilePath: profilePath(options),
+      pdfPath: collection.pdfPath,
+      overwrite: Boolean(options.overwrite),
+      history
+    }).extractAndMerge();
+    if (collection.sections) {
+      mergeLinkedInSections(collection.sections, { profilePath: profilePath(options), overwrite: Boolean(options.overwrite), history });
+    }
+    writeResult(written);
+  }
+};
+
+const extractPdf: Command = {
+  path: ['extract', 'pdf'],
+  summary: 'Extract contacts, experience, education, certifications and skills from a profile or CV PDF and merge them into the profile',
+  arguments: '[pdf-file]',
+  maxPositionals: 1,
+  options: [
+    PROFILE_OPTION,
+    { name: 'preview', type: 'boolean', description: 'print the extracted text and data without changing the profile' },
+    { name: 'llm', type: 'boolean', description: 'extract with the LLM, for any CV layout; every value is annotated with a confidence and the text it came from' },
+    { name: 'min-confidence', type: 'string', value: '<0-1>', description: 'leave out LLM values reported with less confidence (default: 0.5)' },
+    MODEL_OPTION,
+    PROVIDER_OPTION,
+    { name: 'dry-run', type: 'boolean', description: 'print the changes, conflicts and duplicates the merge would bring, without updating the profile' },
+    OVERWRITE_OPTION
+  ],
+  async run({ positionals, options }) {
+    const { PDFDataExtractor } = await import('../collectors/pdf');
+    const pdfPath = positionals[0] ? path.resolve(positionals[0]) : path.join(path.dirname(profilePath(options)), 'profile.pdf');
+    const minConfidenceOption = stringOption(options, 'min-confidence');
+    const minConfidence = minConfidenceOption === undefined ? undefined : Number(minConfidenceOption);
+    if (minConfidence !== undefined && !(minConfidence >= 0 && minConfidence <= 1)) {
+      throw new UsageError(`--min-confidence must be a number from 0 to 1, got "${minConfidenceOption}"`);
+    }
+    const config = loadConfig();
+    let llmClient: LLMClient | undefined;
+    if (options.llm) {
+      const llmConfig = resolveLLMConfig(llmOverrides(options), config.llm);
+      assertLLMCredentials(llmConfig);
+      llmClient = createLLMClient(llmConfig);
+    }
+    const extractor = new PDFDataExtractor({
+      profilePath: profilePath(options),
+      pdfPath,
+      llmClient,
+      minConfidence,
+      overwrite: Boolean(options.overwrite),
+      history: config.history
+    });
+
+    if (options.preview) {
+      await extractor.previewExtraction();
+    } else if (options['dry-run']) {
+      writeResult(formatMergeReport(await extractor.previewMerge()));
+    } else {
+      await extractor.extractAndMerge();
+    }
+  }
+};
+
+const generate: Command = {
+  path: ['generate'],
+  summary: 'Generate the CV from the profile',
+  maxPositionals: 0,
+  options: [
+    PROFILE_OPTION,
+    { ...OUT_OPTION, description: 'output directory (default: output/)' },
+    TEMPLATE_OPTION,
+    MODEL_OPTION,
+    PROVIDER_OPTION,
+    LOCALE_OPTION,
+    { name: 'mode', type: 'string', value: '<llm|template>', description: 'llm writes the whole document, template fills base-cv.template.tex (default: llm)' },
+    { name: 'formats', short: 'f', type: 'string', value: '<list>', description: 'comma separated: tex, pdf, html, md, txt, docx (default: tex,pdf)' },
+    { name: 'job', short: 'j', type: 'string', value: '<file>', description: 'job posting to tailor the CV to' },
+    { name: 'polish', type: 'boolean', description: 'let the LLM rewrite the summary (template mode and non-LaTeX formats; always done with --job)' },
+    { name: 'max-repairs', type: 'string', value: '<n>', description: 'pdflatex error repair rounds in llm mode (default: 2)' }
+  ],
+  async run({ options }) {
+    const modeOption = stringOption(options, 'mode') || 'llm';
+    if (modeOption !== 'llm' && modeOption !== 'template') {
+      throw new UsageError(`Unknown mode "${modeOption}". Expected llm or template`);
+    }
+    const mode: RenderMode = modeOption;
+
+    const formatsOption = stringOption(options, 'formats');
+    const formats: OutputFormat[] | undefined = formatsOption ? parseWith(parseOutputFormats, formatsOption) : undefined;
+    const localesOption = stringOption(options, 'locale');
+    const locales = localesOption ? parseWith(parseLocaleCodes, localesOption) : undefined;
+
+    const maxRepairsOption = stringOption(options, 'max-repairs');
+    const maxRepairIterations = maxRepairsOption === undefined ? undefined : Number(maxRepairsOption);
+    if (maxRepairIterations !== undefined && (!Number.isInteger(maxRepairIterations) || maxRepairIterations < 0)) {
+      throw new UsageError(`--max-repairs must be a non-negative integer, got "${maxRepairsOption}"`);
+    }
+
+    const polishSummary = Boolean(options.polish);
+    const jobPostingPath = pathOption(options, 'job');
+    const needsLatex = !formats || formats.includes('tex') || formats.includes('pdf');
+    const llm = llmOverrides(options);
+    if ((mode === 'llm' && needsLatex) || polishSummary || jobPostingPath) {
+      assertLLMCredentials(resolveLLMConfig(llm, loadConfig().llm));
+    }
+
+    const template = pathOption(options, 'template');
+    console.debug(`Profile: ${profilePath(options)}`);
+    console.debug(`Output directory: ${pathOption(options, 'out') || DEFAULT_OUTPUT_DIR}`);
+    if (template) console.debug(`Template: ${template}`);
+
+    const generator = new CVGenerator({
+      profilePath: profilePath(options),
+      outputDir: pathOption(options, 'out') || DEFAULT_OUTPUT_DIR,
+      ...(template ? (mode === 'template' ? { renderTemplatePath: template } : { templatePath: template }) : {}),
+      llm
+    });
+    await generator.generateCV({
+      jobPostingPath,
+      mode,
+      polishSummary,
+      formats,
+      locales,
+      maxRepairIterations
+    });
+  }
+};
+
+const validate: Command = {
+  path: ['validate'],
+  summary: `Check the profile against the schema and for values that are unsafe in LaTeX (exit code ${EXIT_INVALID_PROFILE} when invalid)`,
+  maxPositionals: 0,
+  options: [PROFILE_OPTION],
+  async run({ options }) {
+    const file = profilePath(options);
+    let data: unknown;
+    try {
+      data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Cannot read ${file}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const issues = [
+      ...validateProfile(data).issues,
+      ...findUnsafeProfileValues(data).map(item => ({ path: item.path, message: `${item.reason} in "${item.value}"` }))
+    ];
+    if (issues.length === 0) {
+      writeResult(`✅ ${file} is valid`);
+      return EXIT_OK;
+    }
+
+    writeResult([`❌ ${file} has ${issues.length} problem(s):`, ...issues.map(issue => `  - ${issue.path}: ${issue.message}`)].join('\n'));
+    return EXIT_INVALID_PROFILE;
+  }
+};
+
+const preview: Command = {
+  path: ['preview'],
+  summary: 'Print the CV as plain text, Markdown or HTML without calling the LLM or writing files',
+  maxPositionals: 0,
+  options: [
+    PROFILE_OPTION,
+    { ...LOCALE_OPTION, value: '<code>', description: 'output language: pt-BR, en, es' },
+    { name: 'format', short: 'f', type: 'string', value: '<txt|md|html>', description: 'preview format (default: txt)' },
+    { name: 'job', short: 'j', type: 'string', value: '<file>', description: 'job posting to tailor the CV to' }
+  ],
+  async run({ options }) {
+    const format = (stringOption(options, 'format') || 'txt') as OutputFormat;
+    if (!isDocumentFormat(format) || format === 'docx') {
+      throw new UsageError(`Cannot preview format "${format}". Expected txt, md or html`);
+    }
+    const localeOption = stringOption(options, 'locale');
+    const locale = loadLocale(localeOption ? parseWith(parseLocaleCode, localeOption) : DEFAULT_LOCALE);
+
+    let profile = loadProfile(profilePath(options));
+    const job = pathOption(options, 'job');
+    if (job) {
+      profile = tailorProfile(profile, loadJobPosting(job)).profile;
+    }
+
+    writeResult(String(renderDocument(format, buildCVViewModel(profile, locale))));
+  }
+};
+
+const provenance: Command = {
+  path: ['provenance'],
+  summary: 'List which source and run wrote each profile value, and which values are pinned',
+  arguments: '[path]',
+  maxPositionals: 1,
+  options: [PROFILE_OPTION],
+  async run({ positionals, options }) {
+    const file = profilePath(options);
+    writeResult(formatProvenance(loadProvenance(file), loadProfile(file), positionals[0]) || 'Nothing recorded');
+  }
+};
+
+const pin: Command = {
+  path: ['pin'],
+  summary: 'Pin profile values so no collector or extractor changes them, e.g. "summary" or "projects.autorriculum"',
+  arguments: '<path...>',
+  maxPositionals: Infinity,
+  options: [PROFILE_OPTION],
+  async run({ positionals, options }) {
+    if (positionals.length === 0) {
+      throw new UsageError('Give at least one path to pin; `autorriculum provenance` lists them');
+    }
+    const file = profilePath(options);
+    const log = loadProvenance(file);
+    let pinned: string[];
+    try {
+      pinned = pinFields(log, loadProfile(file), positionals);
+    } catch (error) {
+      if (error instanceof ProvenanceError) throw new UsageError(error.message);
+      throw error;
+    }
+    saveProvenance(file, log);
+    writeResult(pinned.map(fieldPath => `📌 ${fieldPath}`).join('\n'));
+  }
+};
+
+const unpin: Command = {
+  path: ['unpin'],
+  summary: 'Unpin profile values; they stay manual, so other sources still only report conflicts',
+  arguments: '<path...>',
+  maxPositionals: Infinity,
+  options: [PROFILE_OPTION],
+  async run({ positionals, options }) {
+    if (positionals.length === 0) {
+      throw new UsageError('Give at least one path to unpin');
+    }
+    const file = profilePath(options);
+    const log = loadProvenance(file);
+    const unpinned = unpinFields(log, positionals);
+    saveProvenance(file, log);
+    writeResult(unpinned.length > 0 ? unpinned.join('\n') : 'Nothing was pinned there');
+  }
+};
+
+// Snapshot lookups fail on the user's input, e.g. an unknown version or label.
+function withHistory<T>(action: () => T): T {
+  try {
+    return action();
+  } catch (error) {
+    if (error instanceof HistoryError) throw new UsageError(error.message);
+    throw error;
+  }
+}
+
+const historyList: Command = {
+  path: ['history', 'list'],
+  summary: 'List the saved profile versions, newest first, with the source that wrote each one',
+  maxPositionals: 0,
+  options: [PROFILE_OPTION],
+  async run({ options }) {
+    writeResult(formatHistory(listSnapshots(profilePath(options))) || 'No snapshots yet');
+  }
+};
+
+const historySnapshot: Command = {
+  path: ['history', 'snapshot'],
+  summary: 'Save the current profile as a new version, e.g. before editing it by hand',
+  maxPositionals: 0,
+  options: [PROFILE_OPTION, { name: 'label', type: 'string', value: '<name>', description: 'label the version; labelled versions are never pruned' }],
+  async run({ options }) {
+    const label = stringOption(options, 'label');
+    const snapshot = withHistory(() => recordSnapshot(profilePath(options), { source: 'manual', label, retention: loadConfig().history }));
+    writeResult(`Saved ${snapshotName(snapshot)}`);
+  }
+};
+
+const historyLabel: Command = {
+  path: ['history', 'label'],
+  summary: 'Label a profile version so it is never pruned; without a label, remove it',
+  arguments: '<version> [label]',
+  maxPositionals: 2,
+  options: [PROFILE_OPTION],
+  async run({ positionals, options }) {
+    if (positionals.length === 0) {
+      throw new UsageError('Give the version to label, e.g. `autorriculum history label 7 "before job hunt"`');
+    }
+    const snapshot = withHistory(() => labelSnapshot(profilePath(options), positionals[0], positionals[1]));
+    writeResult(snapshot.label ? `Labelled ${snapshotName(snapshot)}` : `Removed the label of v${snapshot.version}`);
+  }
+};
+
+const historyDiff: Command = {
+  path: ['history', 'diff'],
+  summary: 'Show field by field what changed between two profile versions',
+  arguments: '<from> [to]',
+  maxPositionals: 2,
+  options: [PROFILE_OPTION],
+  async run({ positionals, options }) {
+    if (positionals.length === 0) {
+      throw new UsageError('Give a version or label to compare, and optionally a second one (default: the current profile)');
+    }
+    const file = profilePath(options);
+    const version = (ref: string): { name: string; profile: ProfileData } => {
+      if (ref === 'current') return { name: 'current', profile: loadProfile(file) };
+      const snapshot = withHistory(() => loadSnapshot(file, ref));
+      return { name: snapshotName(snapshot), profile: snapshot.profile };
+    };
+    const from = version(positionals[0]);
+    const to = version(positionals[1] || 'current');
+    writeResult(formatProfileDiff(diffProfiles(from.profile, to.profile), from.name, to.name));
+  }
+};
+
+const historyRestore: Command = {
+  path: ['history', 'restore'],
+  summary: 'Make a saved version the current profile again; the replaced profile stays in the history',
+  arguments: '<version>',
+  maxPositionals: 1,
+  options: [PROFILE_OPTION],
+  async run({ positionals, options }) {
+    if (positionals.length === 0) {
+      throw new UsageError('Give the version or label to restore; `autorriculum history list` lists them');
+    }
+    const snapshot = withHistory(() => restoreSnapshot(profilePath(options), positionals[0], { retention: loadConfig().history }));
+    writeResult(`Restored ${positionals[0]} as v${snapshot.version}`);
+  }
+};
+
+const historyPrune: Command = {
+  path: ['history', 'prune'],
+  summary: 'Drop unlabelled profile versions beyond the retention policy (history.keep and history.maxAgeDays)',
+  maxPositionals: 0,
+  options: [PROFILE_OPTION],
+  async run({ options }) {
+    const removed = pruneHistory(profilePath(options), loadConfig().history);
+    writeResult(removed.length > 0 ? `Removed ${removed.map(version => `v${version}`).join(', ')}` : 'Nothing to prune');
+  }
+};
+
+export const COMMANDS: Command[] = [
+  collectGithub,
+  collectLinkedin,
+  extractPdf,
+  generate,
+  validate,
+  preview,
+  provenance,
+  pin,
+  unpin,
+  historyList,
+  historySnapshot,
+  historyLabel,
+  historyDiff,
+  historyRestore,
+  historyPrune
+];
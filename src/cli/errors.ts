@@ -0,0 +1,27 @@
+import { RepoSelectionConfigError } from '../collectors/github/selection';
+import { MissingCredentialError } from '../config';
+import { LLMConfigError } from '../llm';
+import { HistoryConfigError, ProfileValidationError } from '../profile';
+import { UnsafeProfileValueError } from '../latex/escape';
+
+// Exit codes are part of the CLI contract: pipelines branch on them.
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+export const EXIT_INVALID_PROFILE = 3;
+export const EXIT_CONFIG = 4;
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export function exitCodeFor(error: unknown): number {
+  if (error instanceof UsageError) return EXIT_USAGE;
+  if (error instanceof ProfileValidationError || error instanceof UnsafeProfileValueError) return EXIT_INVALID_PROFILE;
+  if (error instanceof LLMConfigError || error instanceof RepoSelectionConfigError || error instanceof HistoryConfigError ||
+    error instanceof MissingCredentialError) return EXIT_CONFIG;
+  return EXIT_FAILURE;
+}
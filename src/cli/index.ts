@@ -0,0 +1,124 @@
+import { parseArgs } from 'util';
+import { COMMANDS, Command, GLOBAL_OPTIONS, OptionSpec, OptionValues } from './commands';
+import { EXIT_CONFIG, EXIT_FAILURE, EXIT_INVALID_PROFILE, EXIT_OK, EXIT_USAGE, UsageError, exitCodeFor } from './errors';
+import { Verbosity, configureOutput } from './output';
+
+const BIN = 'autorriculum';
+
+function commandName(command: Command): string {
+  return command.path.join(' ');
+}
+
+function formatOptions(options: OptionSpec[]): string[] {
+  const rows = options.map(option => {
+    const flags = `${option.short ? `-${option.short}, ` : '    '}--${option.name}${option.value ? ` ${option.value}` : ''}`;
+    return [flags, option.description];
+  });
+  const width = Math.max(...rows.map(([flags]) => flags.length));
+  return rows.map(([flags, description]) => `  ${flags.padEnd(width)}  ${description}`);
+}
+
+function generalHelp(): string {
+  const width = Math.max(...COMMANDS.map(command => commandName(command).length));
+  return [
+    `Usage: ${BIN} <command> [options]`,
+    '',
+    'Commands:',
+    ...COMMANDS.map(command => `  ${commandName(command).padEnd(width)}  ${command.summary}`),
+    '',
+    'Options:',
+    ...formatOptions(GLOBAL_OPTIONS),
+    '',
+    `Run "${BIN} <command> --help" for the options of a command.`,
+    '',
+    'Exit codes:',
+    `  ${EXIT_OK}  success`,
+    `  ${EXIT_FAILURE}  the command failed`,
+    `  ${EXIT_USAGE}  unknown command or invalid options`,
+    `  ${EXIT_INVALID_PROFILE}  the profile is invalid`,
+    `  ${EXIT_CONFIG}  missing credentials or configuration`
+  ].join('\n');
+}
+
+function commandHelp(command: Command): string {
+  return [
+    `Usage: ${BIN} ${commandName(command)}${command.arguments ? ` ${command.arguments}` : ''} [options]`,
+    '',
+    command.summary,
+    '',
+    'Options:',
+    ...formatOptions([...command.options, ...GLOBAL_OPTIONS])
+  ].join('\n');
+}
+
+function findCommand(args: string[]): Command | undefined {
+  return COMMANDS.find(command => command.path.every((part, index) => args[index] === part));
+}
+
+function parseCommandArgs(command: Command, args: string[]): { positionals: string[]; options: OptionValues } {
+  const config: Record<string, { type: 'string' | 'boolean'; short?: string }> = {};
+  for (const option of [...command.options, ...GLOBAL_OPTIONS]) {
+    config[option.name] = { type: option.type, ...(option.short ? { short: option.short } : {}) };
+  }
+
+  try {
+    const { values, positionals } = parseArgs({ args, options: config, allowPositionals: true, strict: true });
+    if (positionals.length > command.maxPositionals) {
+      throw new UsageError(`Unexpected argument "${positionals[command.maxPositionals]}"`);
+    }
+    return { positionals, options: values as OptionValues };
+  } catch (error) {
+    if (error instanceof UsageError) throw error;
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+// Runs one CLI invocation and returns its exit code; never calls process.exit itself.
+export async function run(argv: string[]): Promise<number> {
+  if (argv.length === 0 || argv[0] === 'help' || argv[0] === '--help' || argv[0] === '-h') {
+    const command = argv[0] === 'help' ? findCommand(argv.slice(1)) : undefined;
+    if (argv[0] === 'help' && argv.length > 1 && !command) {
+      console.error(`Unknown command "${argv.slice(1).join(' ')}"\n`);
+      console.error(generalHelp());
+      return EXIT_USAGE;
+    }
+    (argv.length === 0 ? console.error : console.info)(command ? commandHelp(command) : generalHelp());
+    return argv.length === 0 ? EXIT_USAGE : EXIT_OK;
+  }
+
+  const command = findCommand(argv);
+  if (!command) {
+    console.error(`Unknown command "${argv.filter(arg => !arg.startsWith('-')).slice(0, 2).join(' ')}"\n`);
+    console.error(generalHelp());
+    return EXIT_USAGE;
+  }
+
+  let verbosity: Verbosity = 'normal';
+  try {
+    const { positionals, options } = parseCommandArgs(command, argv.slice(command.path.length));
+    if (options.help) {
+      process.stdout.write(`${commandHelp(command)}\n`);
+      return EXIT_OK;
+    }
+    if (options.verbose && options.quiet) {
+      throw new UsageError('--verbose and --quiet cannot be used together');
+    }
+
+    verbosity = options.verbose ? 'verbose' : options.quiet ? 'quiet' : 'normal';
+    configureOutput(verbosity);
+    const code = await command.run({ positionals, options });
+    return code ?? EXIT_OK;
+  } catch (error) {
+    const code = exitCodeFor(error);
+    if (code === EXIT_USAGE) {
+      console.error(`${error instanceof Error ? error.message : error}\n\n${commandHelp(command)}`);
+    } else if (verbosity === 'verbose' && error instanceof Error) {
+      console.error(error.stack || error.message);
+    } else {
+      console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    }
+    return code;
+  } finally {
+    configureOutput('normal');
+  }
+}
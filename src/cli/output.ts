@@ -0,0 +1,16 @@
+export type Verbosity = 'quiet' | 'normal' | 'verbose';
+
+const noop = (): void => undefined;
+const original = { log: console.log, info: console.info, debug: console.debug };
+
+// Every module reports progress through console.log; verbosity is applied here, once, instead of in each of them.
+// Warnings and errors are always shown. Command results meant for pipes go to stdout via `writeResult`.
+export function configureOutput(verbosity: Verbosity): void {
+  console.log = verbosity === 'quiet' ? noop : original.log;
+  console.info = verbosity === 'quiet' ? noop : original.info;
+  console.debug = verbosity === 'verbose' ? original.debug : noop;
+}
+
+export function writeResult(text: string): void {
+  process.stdout.write(text.endsWith('\n') ? text : `${text}\n`);
+}
@@ -0,0 +1,275 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { GraphQLRequest } from './graphql';
+
+const DEFAULT_API_BASE_URL = 'https://api.github.com';
+const DEFAULT_MAX_RETRIES = 3;
+// Longer rate-limit waits fail fast instead: an hour-long pause looks like a hang.
+const DEFAULT_MAX_RATE_LIMIT_WAIT_MS = 15 * 60 * 1000;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+
+export type FixtureMode = 'record' | 'replay';
+
+export interface GitHubClientOptions {
+  token: string;
+  apiBaseUrl?: string;
+  // Defaults to the GraphQL endpoint next to apiBaseUrl.
+  graphqlUrl?: string;
+  // REST responses are kept here and revalidated with If-None-Match; unset disables the cache.
+  cacheDir?: string;
+  // 'record' saves every response under fixtures.dir, 'replay' answers from it without any network access.
+  fixtures?: { mode: FixtureMode; dir: string };
+  maxRetries?: number;
+  maxRateLimitWaitMs?: number;
+  userAgent?: string;
+}
+
+interface CachedResponse {
+  url: string;
+  etag: string;
+  body: unknown;
+}
+
+// What a fixture file stores. Request headers, and with them the token, are never written.
+interface Fixture {
+  request: { method: string; path: string; body?: unknown };
+  status: number;
+  body: unknown;
+}
+
+interface RawResponse {
+  status: number;
+  statusText: string;
+  headers: Headers;
+  text: string;
+}
+
+export class GitHubApiError extends Error {
+  public readonly status: number;
+
+  constructor(status: number, statusText: string, detail?: string) {
+    super(`GitHub API error: ${status} ${statusText}${detail ? ` (${detail})` : ''}`);
+    this.name = 'GitHubApiError';
+    this.status = status;
+  }
+}
+
+export class GitHubRateLimitError extends GitHubApiError {
+  public readonly resetAt?: Date;
+
+  constructor(status: number, resetAt?: Date) {
+    super(status, 'rate limit exceeded', resetAt ? `resets at ${resetAt.toISOString()}` : undefined);
+    this.name = 'GitHubRateLimitError';
+    this.resetAt = resetAt;
+  }
+}
+
+export class MissingFixtureError extends Error {
+  constructor(method: string, requestPath: string, dir: string) {
+    super(`No recorded fixture for ${method} ${requestPath} in ${dir}; record one with the fixtures mode set to "record"`);
+    this.name = 'MissingFixtureError';
+  }
+}
+
+// GitHub Enterprise serves REST under /api/v3 and GraphQL under /api/graphql.
+export function defaultGraphQLUrl(apiBaseUrl: string): string {
+  return /\/api\/v3\/?$/.test(apiBaseUrl)
+    ? apiBaseUrl.replace(/\/api\/v3\/?$/, '/api/graphql')
+    : `${apiBaseUrl.replace(/\/$/, '')}/graphql`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function hashKey(...parts: string[]): string {
+  return createHash('sha256').update(parts.join('\n')).digest('hex').slice(0, 16);
+}
+
+// Readable and unique: "GET_users_octocat_repos-1a2b3c4d5e6f7a8b.json".
+function fixtureFileName(method: string, requestPath: string, body?: string): string {
+  const readable = `${method}_${requestPath.split('?')[0]}`.replace(/[^A-Za-z0-9]+/g, '_').replace(/_+$/, '').slice(0, 80);
+  return `${readable}-${hashKey(method, requestPath, body || '')}.json`;
+}
+
+// A single place for GitHub HTTP: retries, rate limits, the ETag cache and fixtures.
+export class GitHubClient {
+  private token: string;
+  private baseUrl: string;
+  private graphqlUrl: string;
+  private cacheDir?: string;
+  private fixtures?: { mode: FixtureMode; dir: string };
+  private maxRetries: number;
+  private maxRateLimitWaitMs: number;
+  private userAgent: string;
+
+  constructor(options: GitHubClientOptions) {
+    this.token = options.token;
+    this.baseUrl = (options.apiBaseUrl || DEFAULT_API_BASE_URL).replace(/\/$/, '');
+    this.graphqlUrl = options.graphqlUrl || defaultGraphQLUrl(this.baseUrl);
+    this.cacheDir = options.cacheDir;
+    this.fixtures = options.fixtures;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.maxRateLimitWaitMs = options.maxRateLimitWaitMs ?? DEFAULT_MAX_RATE_LIMIT_WAIT_MS;
+    this.userAgent = options.userAgent || 'autorriculum-github-collector';
+  }
+
+  // GET a REST endpoint relative to the API base URL, e.g. "/users/octocat".
+  public async request<T>(endpoint: string): Promise<T> {
+    console.log(`🔍 Fetching: ${endpoint}`);
+    return this.withFixture<T>('GET', endpoint, undefined, () => this.getWithCache<T>(endpoint));
+  }
+
+  public readonly graphql: GraphQLRequest = async <T>(query: string, variables: Record<string, unknown>): Promise<T> => {
+    const payload = { query, variables };
+    return this.withFixture<T>('POST', '/graphql', payload, async () => {
+      const response = await this.send(this.graphqlUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload)
+      });
+      if (response.status >= 400) {
+        throw new GitHubApiError(response.status, response.statusText);
+      }
+
+      const body = JSON.parse(response.text) as { data?: T; errors?: Array<{ message: string; type?: string }> };
+      if (body.errors && body.errors.length > 0) {
+        throw new Error(`GitHub GraphQL API error: ${body.errors.map(error => error.message).join('; ')}`);
+      }
+      if (!body.data) {
+        throw new Error('GitHub GraphQL API returned no data');
+      }
+      return body.data;
+    });
+  };
+
+  private async withFixture<T>(method: string, requestPath: string, body: unknown, perform: () => Promise<T>): Promise<T> {
+    if (!this.fixtures) return perform();
+
+    const serializedBody = body === undefined ? undefined : JSON.stringify(body);
+    const filePath = path.join(this.fixtures.dir, fixtureFileName(method, requestPath, serializedBody));
+
+    if (this.fixtures.mode === 'replay') {
+      if (!fs.existsSync(filePath)) {
+        throw new MissingFixtureError(method, requestPath, this.fixtures.dir);
+      }
+      const fixture = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Fixture;
+      if (fixture.status >= 400) {
+        throw new GitHubApiError(fixture.status, 'recorded error');
+      }
+      return fixture.body as T;
+    }
+
+    const record = (fixture: Fixture) => {
+      fs.mkdirSync(this.fixtures!.dir, { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify(fixture, null, 2));
+    };
+    const request = { method, path: requestPath, ...(body === undefined ? {} : { body }) };
+
+    try {
+      const result = await perform();
+      record({ request, status: 200, body: result });
+      return result;
+    } catch (error) {
+      // Missing files and other client errors are part of what the collector has to handle offline too.
+      if (error instanceof GitHubApiError && error.status >= 400 && error.status < 500 && !(error instanceof GitHubRateLimitError)) {
+        record({ request, status: error.status, body: null });
+      }
+      throw error;
+    }
+  }
+
+  private async getWithCache<T>(endpoint: string): Promise<T> {
+    const url = `${this.baseUrl}${endpoint}`;
+    const cachePath = this.cacheDir ? path.join(this.cacheDir, `${hashKey('GET', url)}.json`) : undefined;
+    const cached = cachePath && fs.existsSync(cachePath)
+      ? JSON.parse(fs.readFileSync(cachePath, 'utf-8')) as CachedResponse
+      : undefined;
+
+    const response = await this.send(url, {
+      method: 'GET',
+      headers: cached ? { 'If-None-Match': cached.etag } : {}
+    });
+
+    // Conditional requests answered with 304 do not count against the rate limit.
+    if (response.status === 304 && cached) {
+      console.debug(`💾 Not modified, using cache: ${endpoint}`);
+      return cached.body as T;
+    }
+    if (response.status >= 400) {
+      throw new GitHubApiError(response.status, response.statusText);
+    }
+
+    const body = JSON.parse(response.text) as T;
+    const etag = response.headers.get('etag');
+    if (cachePath && etag) {
+      fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+      const entry: CachedResponse = { url, etag, body };
+      fs.writeFileSync(cachePath, JSON.stringify(entry));
+    }
+    return body;
+  }
+
+  // Milliseconds to wait before retrying, or undefined when the response is final.
+  private retryDelayMs(response: RawResponse, attempt: number): number | undefined {
+    const retryAfter = Number(response.headers.get('retry-after'));
+    const remaining = response.headers.get('x-ratelimit-remaining');
+    const reset = Number(response.headers.get('x-ratelimit-reset'));
+    const backoff = Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+
+    if (response.status === 403 || response.status === 429) {
+      if (retryAfter > 0) return retryAfter * 1000;
+      if (remaining === '0' && reset > 0) return Math.max(reset * 1000 - Date.now(), 0) + 1000;
+      // Secondary rate limits sometimes come without headers; real permission errors do not mention limits.
+      if (response.status === 429 || /rate limit/i.test(response.text)) return backoff;
+      return undefined;
+    }
+    if (response.status >= 500) return backoff;
+    return undefined;
+  }
+
+  private async send(url: string, init: { method: string; headers: Record<string, string>; body?: string }): Promise<RawResponse> {
+    for (let attempt = 0; ; attempt++) {
+      let response: RawResponse;
+      try {
+        const raw = await fetch(url, {
+          method: init.method,
+          headers: {
+            'Authorization': `Bearer ${this.token}`,
+            'Accept': 'application/vnd.github.v3+json',
+            'User-Agent': this.userAgent,
+            ...init.headers
+          },
+          body: init.body
+        });
+        response = { status: raw.status, statusText: raw.statusText, headers: raw.headers, text: await raw.text() };
+      } catch (error) {
+        if (attempt >= this.maxRetries) throw error;
+        const delay = Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+        console.warn(`⚠️  GitHub request failed (${error instanceof Error ? error.message : error}). Retrying in ${Math.round(delay / 1000)}s...`);
+        await sleep(delay);
+        continue;
+      }
+
+      const delay = this.retryDelayMs(response, attempt);
+      if (delay === undefined || response.status < 400) {
+        return response;
+      }
+
+      const limited = response.status === 403 || response.status === 429;
+      if (attempt >= this.maxRetries || delay > this.maxRateLimitWaitMs) {
+        if (limited) {
+          const reset = Number(response.headers.get('x-ratelimit-reset'));
+          throw new GitHubRateLimitError(response.status, reset > 0 ? new Date(reset * 1000) : undefined);
+        }
+        return response;
+      }
+
+      const reason = limited ? 'rate limited' : `${response.status} ${response.statusText}`;
+      console.warn(`⚠️  GitHub API ${reason}. Retrying in ${Math.round(delay / 1000)}s (${attempt + 1}/${this.maxRetries})...`);
+      await sleep(delay);
+    }
+  }
+}
@@ -0,0 +1,652 @@
+import * as fs from 'fs';
+import {
+  HistoryRetention,
+  ProfileData,
+  GitHubStats,
+  IncomingProfileData,
+  LanguageActivity,
+  MergeResult,
+  NotableRepo,
+  ProjectDetails,
+  ProjectEntry,
+  formatMergeReport,
+  loadProfile,
+  loadProvenance,
+  mergeProfile,
+  resolveHistoryRetention,
+  saveProfileVersion
+} from '../../profile';
+import {
+  CVLocale,
+  DEFAULT_LOCALE,
+  LocaleCode,
+  LocaleFacts,
+  formatFact,
+  generatedFactPattern,
+  loadLocale
+} from '../../template';
+import { requireEnv } from '../../config';
+import { LLMClient } from '../../llm';
+import { DEFAULT_PROFILE_PATH } from '../../paths';
+import { fetchExternalContributions } from './contributions';
+import { FixtureMode, GitHubApiError, GitHubClient } from './client';
+import { fetchGraphQLSnapshot } from './graphql';
+import { RepoCommitActivity, buildLanguageActivity } from './languageActivity';
+import { MANIFEST_FILES, condenseReadme, deriveTechStack, readmeDescription } from './projectDetails';
+import { RepoDecision, RepoSelectionConfig, formatSelectionReport, resolveRepoSelection, selectRepositories } from './selection';
+import { CollectedRepo, GitHubApi, GitHubSnapshot, LanguageStats } from './types';
+
+interface GitHubRepo {
+  id: number;
+  name: string;
+  full_name: string;
+  description: string | null;
+  html_url: string;
+  homepage: string | null;
+  language: string | null;
+  languages_url: string;
+  stargazers_count: number;
+  watchers_count: number;
+  forks_count: number;
+  open_issues_count: number;
+  created_at: string;
+  updated_at: string;
+  pushed_at: string;
+  size: number;
+  topics: string[];
+  visibility: string;
+  default_branch: string;
+  archived: boolean;
+  disabled: boolean;
+  fork: boolean;
+  license: {
+    key: string;
+    name: string;
+    spdx_id: string;
+  } | null;
+}
+
+interface GitHubUser {
+  login: string;
+  id: number;
+  name: string | null;
+  company: string | null;
+  blog: string | null;
+  location: string | null;
+  email: string | null;
+  bio: string | null;
+  public_repos: number;
+  public_gists: number;
+  followers: number;
+  following: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface RepoAnalysis {
+  languageStats: LanguageStats;
+  // Every candidate repository with its score, kept ones first.
+  decisions: RepoDecision[];
+  notableRepos: NotableRepo[];
+  totalStats: {
+    stars: number;
+    forks: number;
+  };
+}
+
+// Commits API list item; only the dates are used.
+interface GitHubCommit {
+  commit: {
+    author: { date: string } | null;
+    committer: { date: string } | null;
+  };
+}
+
+// Contents API response for a single file.
+interface GitHubFile {
+  content: string;
+  encoding: string;
+  html_url: string;
+}
+
+interface CollectedProjectDetails {
+  details: ProjectDetails;
+  readmeDescription?: string;
+}
+
+const NO_DESCRIPTION = 'No description available';
+const COMMITS_PER_PAGE = 100;
+// Enough history for a timeline without paging through every commit of very large repositories.
+const MAX_COMMIT_PAGES = 10;
+
+interface RepoSelectionPreview {
+  decisions: RepoDecision[];
+  // The same decisions as a plain-text table.
+  report: string;
+}
+
+interface GitHubUpdatePreview {
+  merge: MergeResult;
+  selectionReport: string;
+}
+
+interface GitHubCredentials {
+  token: string;
+  username: string;
+}
+
+interface GitHubDataCollectorOptions extends GitHubCredentials {
+  profilePath?: string;
+  // Language of the facts added to the profile.
+  locale?: LocaleCode;
+  // 'graphql' batches repositories and languages and adds pinned items, organizations and contributions.
+  api?: GitHubApi;
+  // Also collect merged pull requests and reviews in other people's repositories (uses GraphQL search).
+  contributions?: boolean;
+  // Build a per-language timeline from the user's commits (one or more requests per repository).
+  languageActivity?: boolean;
+  // Read the README and dependency manifests of the repositories added as projects.
+  projectDetails?: boolean;
+  // When set, READMEs are also condensed into two or three bullets; implies projectDetails.
+  llmClient?: LLMClient;
+  // Which repositories become notable repositories and projects; unset fields use DEFAULT_REPO_SELECTION.
+  selection?: Partial<RepoSelectionConfig>;
+  // Collected values also replace conflicting values from other sources and unpinned manual edits.
+  overwrite?: boolean;
+  // How many profile versions are kept in the history; unset fields use DEFAULT_HISTORY_RETENTION.
+  history?: Partial<HistoryRetention>;
+  apiBaseUrl?: string;
+  // Defaults to the GraphQL endpoint next to apiBaseUrl.
+  graphqlUrl?: string;
+  // Directory for the ETag response cache; unset disables caching.
+  cacheDir?: string;
+  // Record every API response as a fixture, or replay recorded fixtures without network access.
+  fixtures?: { mode: FixtureMode; dir: string };
+  // A preconfigured client; the API, cache and fixture options above are ignored when set.
+  client?: GitHubClient;
+}
+
+class GitHubDataCollector {
+  private client: GitHubClient;
+  private username: string;
+  private api: GitHubApi;
+  private includeContributions: boolean;
+  private includeProjectDetails: boolean;
+  private includeLanguageActivity: boolean;
+  private llmClient?: LLMClient;
+  private selection: RepoSelectionConfig;
+  private overwrite: boolean;
+  private history: HistoryRetention;
+  private profilePath: string;
+  private locale: CVLocale;
+
+  constructor(options: GitHubDataCollectorOptions) {
+    if (!options.token) {
+      throw new Error('A GitHub token is required');
+    }
+    if (!options.username) {
+      throw new Error('A GitHub username is required');
+    }
+
+    this.client = options.client || new GitHubClient({
+      token: options.token,
+      apiBaseUrl: options.apiBaseUrl,
+      graphqlUrl: options.graphqlUrl,
+      cacheDir: options.cacheDir,
+      fixtures: options.fixtures
+    });
+    this.username = options.username;
+    this.api = options.api || 'rest';
+    this.includeContributions = options.contributions || false;
+    this.llmClient = options.llmClient;
+    this.includeProjectDetails = Boolean(options.projectDetails || options.llmClient);
+    this.includeLanguageActivity = options.languageActivity || false;
+    this.selection = resolveRepoSelection(options.selection);
+    this.overwrite = Boolean(options.overwrite);
+    this.history = resolveHistoryRetention(options.history);
+    this.profilePath = options.profilePath || DEFAULT_PROFILE_PATH;
+    this.locale = loadLocale(options.locale || DEFAULT_LOCALE);
+  }
+
+  // `endpoint` is relative to the repository, e.g. "readme" or "contents/go.mod". Missing files yield null.
+  private async getRepoFile(fullName: string, endpoint: string): Promise<{ text: string; url: string } | null> {
+    try {
+      const file = await this.client.request<GitHubFile>(`/repos/${fullName}/${endpoint}`);
+      const text = Buffer.from(file.content, file.encoding === 'base64' ? 'base64' : 'utf-8').toString('utf-8');
+      return { text, url: file.html_url };
+    } catch (error) {
+      if (!(error instanceof GitHubApiError && error.status === 404)) {
+        console.warn(`⚠️  Could not fetch ${endpoint} of ${fullName}: ${error}`);
+      }
+      return null;
+    }
+  }
+
+  private async getUserData(): Promise<GitHubUser> {
+    return this.client.request<GitHubUser>(`/users/${this.username}`);
+  }
+
+  private async getUserRepos(): Promise<GitHubRepo[]> {
+    const repos: GitHubRepo[] = [];
+    let page = 1;
+    const perPage = 100;
+
+    while (true) {
+      const pageRepos = await this.client.request<GitHubRepo[]>(
+        `/users/${this.username}/repos?page=${page}&per_page=${perPage}&sort=updated&direction=desc`
+      );
+
+      if (pageRepos.length === 0) {
+        break;
+      }
+
+      repos.push(...pageRepos);
+      
+      if (pageRepos.length < perPage) {
+        break;
+      }
+
+      page++;
+    }
+
+    return repos;
+  }
+
+  private async getRepoLanguages(repo: GitHubRepo): Promise<LanguageStats> {
+    try {
+      return await this.client.request<LanguageStats>(`/repos/${repo.full_name}/languages`);
+    } catch (error) {
+      console.warn(`⚠️  Could not fetch languages for ${repo.name}: ${error}`);
+      return {};
+    }
+  }
+
+  // Months with commits authored by the user on the default branch, newest pages first.
+  private async getCommitMonths(fullName: string): Promise<Record<string, number>> {
+    const months: Record<string, number> = {};
+
+    for (let page = 1; page <= MAX_COMMIT_PAGES; page++) {
+      let commits: GitHubCommit[];
+      try {
+        commits = await this.client.request<GitHubCommit[]>(
+          `/repos/${fullName}/commits?author=${this.username}&per_page=${COMMITS_PER_PAGE}&page=${page}`
+        );
+      } catch (error) {
+        // Empty repositories answer 409 Conflict
+        if (!(error instanceof GitHubApiError && error.status === 409)) {
+          console.warn(`⚠️  Could not fetch commits of ${fullName}: ${error}`);
+        }
+        break;
+      }
+
+      for (const item of commits) {
+        const date = item.commit.author?.date || item.commit.committer?.date;
+        if (date) {
+          const month = date.slice(0, 7);
+          months[month] = (months[month] || 0) + 1;
+        }
+      }
+      if (commits.length < COMMITS_PER_PAGE) break;
+    }
+
+    return months;
+  }
+
+  // Archived repositories are included: they are where older languages show up.
+  private async collectLanguageActivity(repos: CollectedRepo[]): Promise<Record<string, LanguageActivity>> {
+    const ownRepos = repos.filter(repo => !repo.fork);
+    console.log(`🕒 Fetching commit history of ${ownRepos.length} repositories for the language timeline...`);
+
+    const activity: RepoCommitActivity[] = [];
+    for (const repo of ownRepos) {
+      activity.push({
+        repository: repo.fullName,
+        primaryLanguage: repo.language,
+        languages: repo.languages,
+        months: await this.getCommitMonths(repo.fullName)
+      });
+    }
+    return buildLanguageActivity(activity);
+  }
+
+  // REST needs a /languages call per repository, so only original repositories are analyzed.
+  private async collectRestSnapshot(): Promise<GitHubSnapshot> {
+    console.log('👤 Fetching user data...');
+    const userData = await this.getUserData();
+
+    console.log('📁 Fetching repositories...');
+    const repos = await this.getUserRepos();
+    const collected: CollectedRepo[] = [];
+
+    console.log(`📊 Found ${repos.length} repositories. Fetching languages...`);
+    for (const repo of repos) {
+      const analyzed = !repo.fork && !repo.archived;
+      collected.push({
+        name: repo.name,
+        fullName: repo.full_name,
+        description: repo.description,
+        url: repo.html_url,
+        language: repo.language,
+        stars: repo.stargazers_count,
+        forks: repo.forks_count,
+        topics: repo.topics,
+        fork: repo.fork,
+        archived: repo.archived,
+        pushedAt: repo.pushed_at,
+        size: repo.size,
+        // Rate limits are handled by the client, and cached responses are revalidated for free
+        languages: analyzed ? await this.getRepoLanguages(repo) : {}
+      });
+    }
+
+    return {
+      api: 'rest',
+      user: {
+        name: userData.name,
+        blog: userData.blog,
+        publicRepos: userData.public_repos,
+        followers: userData.followers,
+        following: userData.following,
+        createdAt: userData.created_at
+      },
+      repos: collected,
+      pinned: []
+    };
+  }
+
+  private async collectSnapshot(): Promise<GitHubSnapshot> {
+    const snapshot = this.api === 'graphql'
+      ? await fetchGraphQLSnapshot(this.client.graphql, this.username)
+      : await this.collectRestSnapshot();
+
+    if (this.includeContributions) {
+      snapshot.externalContributions = await fetchExternalContributions(this.client.graphql, this.username);
+    }
+    if (this.includeLanguageActivity) {
+      snapshot.languageActivity = await this.collectLanguageActivity(snapshot.repos);
+    }
+    return snapshot;
+  }
+
+  private toNotableRepo(repo: CollectedRepo, pinned: boolean): NotableRepo {
+    return {
+      name: repo.name,
+      description: repo.description || NO_DESCRIPTION,
+      language: repo.language || 'Unknown',
+      stars: repo.stars,
+      forks: repo.forks,
+      url: repo.url,
+      topics: repo.topics,
+      ...(pinned ? { pinned: true } : {})
+    };
+  }
+
+  private analyzeRepositories(snapshot: GitHubSnapshot): RepoAnalysis {
+    const languageStats: LanguageStats = {};
+    let totalStats = { stars: 0, forks: 0 };
+
+    // Statistics only count original repositories, whatever the selection keeps
+    const originalRepos = snapshot.repos.filter(repo => !repo.fork && !repo.archived);
+
+    console.log(`📊 Analyzing ${originalRepos.length} original repositories...`);
+
+    for (const repo of originalRepos) {
+      // Accumulate total stats
+      totalStats.stars += repo.stars;
+      totalStats.forks += repo.forks;
+
+      // Accumulate language statistics
+      for (const [language, bytes] of Object.entries(repo.languages)) {
+        languageStats[language] = (languageStats[language] || 0) + bytes;
+      }
+    }
+
+    // Pinned repositories are the owner's own pick, so they lead in pinned order, even when owned by someone else.
+    const decisions = selectRepositories(
+      snapshot.repos,
+      snapshot.pinned,
+      this.selection,
+      this.getMostUsedLanguages(languageStats, 5)
+    );
+    const notableRepos = decisions
+      .filter(decision => decision.kept)
+      .map(decision => this.toNotableRepo(decision.repo, decision.pinned));
+
+    return { languageStats, decisions, notableRepos, totalStats };
+  }
+
+  // The best kept repositories become profile projects.
+  private selectProjectRepos(repoAnalysis: RepoAnalysis): NotableRepo[] {
+    return repoAnalysis.notableRepos.slice(0, this.selection.maxProjects);
+  }
+
+  private async collectProjectDetails(repo: NotableRepo): Promise<CollectedProjectDetails> {
+    const fullName = new URL(repo.url).pathname.replace(/^\/+|\/+$/g, '');
+    console.log(`📖 Reading README and manifests of ${fullName}...`);
+
+    const readme = await this.getRepoFile(fullName, 'readme');
+    const manifests: Record<string, string> = {};
+    for (const file of Object.keys(MANIFEST_FILES)) {
+      const manifest = await this.getRepoFile(fullName, `contents/${file}`);
+      if (manifest) manifests[file] = manifest.text;
+    }
+
+    const stack = deriveTechStack(manifests);
+    const details: ProjectDetails = {
+      tech_stack: stack.technologies,
+      tech_stack_sources: stack.sources,
+      ...(readme ? { readme_url: readme.url } : {}),
+      collected_at: new Date().toISOString()
+    };
+
+    if (readme && this.llmClient) {
+      try {
+        const highlights = await condenseReadme(this.llmClient, fullName, readme.text, this.locale.language);
+        if (highlights.length > 0) {
+          details.highlights = highlights;
+          details.highlights_source = `llm:${this.llmClient.label}`;
+        }
+      } catch (error) {
+        console.warn(`⚠️  Could not condense the README of ${fullName}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    return { details, readmeDescription: readme ? readmeDescription(readme.text) : undefined };
+  }
+
+  private async collectAllProjectDetails(repos: NotableRepo[]): Promise<Map<string, CollectedProjectDetails>> {
+    const collected = new Map<string, CollectedProjectDetails>();
+    for (const repo of repos) {
+      collected.set(repo.url, await this.collectProjectDetails(repo));
+    }
+    return collected;
+  }
+
+  private getMostUsedLanguages(languageStats: LanguageStats, limit: number = 10): string[] {
+    return Object.entries(languageStats)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, limit)
+      .map(([language]) => language);
+  }
+
+  private loadExistingProfile(): ProfileData {
+    if (!fs.existsSync(this.profilePath)) {
+      console.warn('⚠️  Could not find existing profile, creating new one');
+    }
+    return loadProfile(this.profilePath, { allowMissing: true });
+  }
+
+  // Everything this run has to offer, in profile shape; mergeGitHubData() decides what makes it into the profile.
+  private buildProfileData(
+    profile: ProfileData,
+    snapshot: GitHubSnapshot,
+    repoAnalysis: RepoAnalysis,
+    projectDetails: Map<string, CollectedProjectDetails> = new Map()
+  ): IncomingProfileData {
+    const userData = snapshot.user;
+
+    const githubStats: GitHubStats = {
+      total_repos: userData.publicRepos,
+      total_stars: repoAnalysis.totalStats.stars,
+      total_forks: repoAnalysis.totalStats.forks,
+      followers: userData.followers,
+      following: userData.following,
+      account_created: userData.createdAt,
+      most_used_languages: this.getMostUsedLanguages(repoAnalysis.languageStats),
+      notable_repos: repoAnalysis.notableRepos.slice(0, this.selection.maxNotableRepos),
+      ...(snapshot.organizations ? { organizations: snapshot.organizations } : {}),
+      ...(snapshot.contributions ? { contributions: snapshot.contributions } : {})
+    };
+
+    // Languages from the commit timeline when collected, recent work first; otherwise by bytes ever written
+    const topLanguages = snapshot.languageActivity
+      ? Object.keys(snapshot.languageActivity).slice(0, 5)
+      : this.getMostUsedLanguages(repoAnalysis.languageStats, 5);
+
+    const factCounts: Array<[keyof LocaleFacts, number, boolean]> = [
+      ['githubStars', repoAnalysis.totalStats.stars, repoAnalysis.totalStats.stars > 0],
+      ['githubFollowers', userData.followers, userData.followers > 10],
+      ['githubPublicRepos', userData.publicRepos, userData.publicRepos > 5]
+    ];
+    const facts = factCounts
+      .filter(([, , relevant]) => relevant)
+      .map(([key, count]) => formatFact(this.locale.facts[key], { count }));
+
+    // Notable repositories become projects
+    const projects: Record<string, ProjectEntry> = {};
+    for (const repo of this.selectProjectRepos(repoAnalysis)) {
+      const projectKey = repo.name.toLowerCase().replace(/[^a-z0-9]/g, '_');
+      const existing = profile.projects[projectKey];
+      const collected = projectDetails.get(repo.url);
+      const project: ProjectEntry = {
+        type: 'open_source_project',
+        platform: 'GitHub',
+        language: repo.language,
+        url: repo.url,
+        stars: repo.stars,
+        forks: repo.forks,
+        topics: repo.topics,
+        status: 'published'
+      };
+
+      // Descriptions written by hand are not offered a replacement
+      const handWritten = existing?.url === repo.url && existing.description &&
+        existing.description !== NO_DESCRIPTION && existing.description !== repo.description;
+      if (!handWritten) {
+        const readme = repo.description === NO_DESCRIPTION ? collected?.readmeDescription : undefined;
+        project.description = readme || repo.description;
+        if (collected && (readme || repo.description !== NO_DESCRIPTION)) {
+          collected.details.description_source = readme ? 'readme' : 'github';
+        }
+      }
+      if (collected) project.details = collected.details;
+      projects[projectKey] = project;
+    }
+
+    const githubUrl = `https://github.com/${this.username}`;
+    return {
+      ...(userData.name ? { name: userData.name } : {}),
+      contact: [githubUrl, ...(userData.blog ? [userData.blog] : [])],
+      facts,
+      projects,
+      technical_skills: {
+        programming_languages: topLanguages,
+        ...(snapshot.languageActivity ? { language_activity: snapshot.languageActivity } : {})
+      },
+      ...(snapshot.externalContributions ? { open_source_contributions: snapshot.externalContributions } : {}),
+      github_stats: githubStats
+    };
+  }
+
+  // Merges the collected data through the shared merge engine. Facts generated by earlier runs, in any
+  // locale, are replaced by this run's.
+  private mergeGitHubData(profile: ProfileData, incoming: IncomingProfileData): MergeResult {
+    const generated = (['githubStars', 'githubFollowers', 'githubPublicRepos'] as Array<keyof LocaleFacts>).map(key => generatedFactPattern(key));
+    return mergeProfile(profile, incoming, loadProvenance(this.profilePath), {
+      source: 'github',
+      detail: this.username,
+      overwrite: this.overwrite,
+      stale: (fieldPath, item) => fieldPath.startsWith('facts[') && generated.some(pattern => pattern.test(item))
+    });
+  }
+
+  // Collects everything and merges it into the profile in memory, for the caller to save or review.
+  private async collectMerge(): Promise<{ merge: MergeResult; snapshot: GitHubSnapshot; repoAnalysis: RepoAnalysis }> {
+    const existingProfile = this.loadExistingProfile();
+
+    console.log(`🔌 Using the GitHub ${this.api === 'graphql' ? 'GraphQL' : 'REST'} API`);
+    const snapshot = await this.collectSnapshot();
+    const repoAnalysis = this.analyzeRepositories(snapshot);
+    const projectDetails = this.includeProjectDetails
+      ? await this.collectAllProjectDetails(this.selectProjectRepos(repoAnalysis))
+      : undefined;
+
+    console.log('🔧 Merging GitHub data into the profile...');
+    const incoming = this.buildProfileData(existingProfile, snapshot, repoAnalysis, projectDetails);
+    return { merge: this.mergeGitHubData(existingProfile, incoming), snapshot, repoAnalysis };
+  }
+
+  // Scores the repositories and reports which would be kept and why, without touching the profile.
+  public async previewRepositorySelection(): Promise<RepoSelectionPreview> {
+    console.log(`🔌 Using the GitHub ${this.api === 'graphql' ? 'GraphQL' : 'REST'} API`);
+    const snapshot = this.api === 'graphql'
+      ? await fetchGraphQLSnapshot(this.client.graphql, this.username)
+      : await this.collectRestSnapshot();
+    const { decisions } = this.analyzeRepositories(snapshot);
+    return { decisions, report: formatSelectionReport(decisions, this.selection) };
+  }
+
+  // The selection report and every change a collection would make, without writing anything.
+  public async previewProfileUpdate(): Promise<GitHubUpdatePreview> {
+    const { merge, repoAnalysis } = await this.collectMerge();
+    return { merge, selectionReport: formatSelectionReport(repoAnalysis.decisions, this.selection) };
+  }
+
+  public async collectAndUpdateProfile(): Promise<ProfileData> {
+    try {
+      console.log('🚀 Starting GitHub data collection...');
+      const { merge, snapshot, repoAnalysis } = await this.collectMerge();
+      console.log(formatMergeReport(merge));
+
+      const version = saveProfileVersion(this.profilePath, merge.profile, merge.provenance, {
+        source: 'github',
+        detail: this.username,
+        retention: this.history
+      });
+      console.log(`💾 Saved as profile version v${version.version}`);
+
+      console.log('✅ Profile successfully updated with GitHub data!');
+      console.log(`📈 Stats summary:`);
+      console.log(`   - Repositories: ${snapshot.user.publicRepos}`);
+      console.log(`   - Total stars: ${repoAnalysis.totalStats.stars}`);
+      console.log(`   - Total forks: ${repoAnalysis.totalStats.forks}`);
+      console.log(`   - Followers: ${snapshot.user.followers}`);
+      console.log(`   - Top languages: ${this.getMostUsedLanguages(repoAnalysis.languageStats, 3).join(', ')}`);
+      console.log(`   - Notable repos: ${repoAnalysis.notableRepos.length} of ${repoAnalysis.decisions.length} kept`);
+      if (snapshot.contributions) {
+        console.log(`   - Contributions (last year): ${snapshot.contributions.total}`);
+      }
+      if (snapshot.languageActivity) {
+        const current = Object.entries(snapshot.languageActivity).filter(([, activity]) => activity.current).map(([language]) => language);
+        console.log(`   - Current languages: ${current.join(', ') || 'none'}`);
+      }
+      if (snapshot.externalContributions) {
+        console.log(`   - Contributed to: ${Object.keys(snapshot.externalContributions).length} other repositories`);
+      }
+
+      return merge.profile;
+    } catch (error) {
+      console.error('❌ Error collecting GitHub data:', error);
+      throw error;
+    }
+  }
+}
+
+function githubCredentialsFromEnv(env: NodeJS.ProcessEnv = process.env): GitHubCredentials {
+  return {
+    token: requireEnv('GITHUB_TOKEN', 'to call the GitHub API', env),
+    username: requireEnv('GITHUB_USERNAME', 'to know whose GitHub profile to collect', env)
+  };
+}
+
+export { GitHubCredentials, GitHubDataCollector, GitHubDataCollectorOptions, GitHubUpdatePreview, RepoSelectionPreview, githubCredentialsFromEnv };
@@ -0,0 +1,191 @@
+import { ContributedPullRequest, OpenSourceContribution } from '../../profile';
+import { GraphQLRequest } from './graphql';
+
+// GitHub search returns at most 1000 results; this many per query is plenty for a CV.
+const MAX_SEARCH_RESULTS = 300;
+const SEARCH_PAGE_SIZE = 50;
+
+const REPOSITORY_FIELDS = `
+  repository {
+    nameWithOwner
+    url
+    description
+    stargazerCount
+    isPrivate
+    primaryLanguage { name }
+  }
+`;
+
+const MERGED_PULL_REQUESTS_QUERY = `
+query MergedPullRequests($query: String!, $cursor: String) {
+  search(query: $query, type: ISSUE, first: ${SEARCH_PAGE_SIZE}, after: $cursor) {
+    pageInfo { hasNextPage endCursor }
+    nodes {
+      ... on PullRequest {
+        title
+        url
+        mergedAt
+        additions
+        deletions
+        ${REPOSITORY_FIELDS}
+      }
+    }
+  }
+}`;
+
+const REVIEWED_PULL_REQUESTS_QUERY = `
+query ReviewedPullRequests($query: String!, $cursor: String, $login: String!) {
+  search(query: $query, type: ISSUE, first: ${SEARCH_PAGE_SIZE}, after: $cursor) {
+    pageInfo { hasNextPage endCursor }
+    nodes {
+      ... on PullRequest {
+        url
+        reviews(author: $login, first: 1) { nodes { submittedAt } }
+        ${REPOSITORY_FIELDS}
+      }
+    }
+  }
+}`;
+
+interface RepositoryInfo {
+  nameWithOwner: string;
+  url: string;
+  description: string | null;
+  stargazerCount: number;
+  isPrivate: boolean;
+  primaryLanguage: { name: string } | null;
+}
+
+interface MergedPullRequestNode {
+  title: string;
+  url: string;
+  mergedAt: string;
+  additions: number;
+  deletions: number;
+  repository: RepositoryInfo;
+}
+
+interface ReviewedPullRequestNode {
+  url: string;
+  reviews: { nodes: Array<{ submittedAt: string | null }> };
+  repository: RepositoryInfo;
+}
+
+interface SearchResult<T> {
+  search: {
+    pageInfo: { hasNextPage: boolean; endCursor: string | null };
+    // Non pull request results come back as empty objects.
+    nodes: Array<T | Record<string, never>>;
+  };
+}
+
+async function searchPullRequests<T extends { url: string }>(
+  request: GraphQLRequest,
+  query: string,
+  searchQuery: string,
+  variables: Record<string, unknown> = {}
+): Promise<T[]> {
+  const results: T[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const page: SearchResult<T> = await request<SearchResult<T>>(query, { ...variables, query: searchQuery, cursor });
+    results.push(...page.search.nodes.filter((node): node is T => typeof (node as T).url === 'string'));
+    cursor = page.search.pageInfo.hasNextPage ? page.search.pageInfo.endCursor : null;
+  } while (cursor && results.length < MAX_SEARCH_RESULTS);
+
+  return results.slice(0, MAX_SEARCH_RESULTS);
+}
+
+function contributionKey(repository: string): string {
+  return repository.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+function day(timestamp: string): string {
+  return timestamp.slice(0, 10);
+}
+
+function widenPeriod(entry: OpenSourceContribution, date: string): void {
+  if (!entry.first_contribution || date < entry.first_contribution) entry.first_contribution = date;
+  if (!entry.last_contribution || date > entry.last_contribution) entry.last_contribution = date;
+}
+
+function entryFor(
+  contributions: Record<string, OpenSourceContribution>,
+  repository: RepositoryInfo
+): OpenSourceContribution {
+  const key = contributionKey(repository.nameWithOwner);
+  if (!contributions[key]) {
+    contributions[key] = {
+      repository: repository.nameWithOwner,
+      url: repository.url,
+      ...(repository.description ? { description: repository.description } : {}),
+      ...(repository.primaryLanguage ? { language: repository.primaryLanguage.name } : {}),
+      stars: repository.stargazerCount,
+      pull_requests: [],
+      reviews: 0,
+      additions: 0,
+      deletions: 0
+    };
+  }
+  return contributions[key];
+}
+
+// Merged pull requests authored by `login` and pull requests it reviewed, in public repositories it does
+// not own, grouped by repository. Repositories with the most merged work come first.
+export async function fetchExternalContributions(
+  request: GraphQLRequest,
+  login: string
+): Promise<Record<string, OpenSourceContribution>> {
+  const contributions: Record<string, OpenSourceContribution> = {};
+
+  console.log('🤝 Fetching merged pull requests to other repositories...');
+  const merged = await searchPullRequests<MergedPullRequestNode>(
+    request,
+    MERGED_PULL_REQUESTS_QUERY,
+    `type:pr is:merged is:public author:${login} -user:${login}`
+  );
+
+  for (const node of merged) {
+    if (node.repository.isPrivate) continue;
+    const entry = entryFor(contributions, node.repository);
+    const pullRequest: ContributedPullRequest = {
+      title: node.title,
+      url: node.url,
+      merged_at: day(node.mergedAt),
+      additions: node.additions,
+      deletions: node.deletions
+    };
+    entry.pull_requests.push(pullRequest);
+    entry.additions += node.additions;
+    entry.deletions += node.deletions;
+    widenPeriod(entry, pullRequest.merged_at);
+  }
+
+  console.log('👀 Fetching pull request reviews in other repositories...');
+  const reviewed = await searchPullRequests<ReviewedPullRequestNode>(
+    request,
+    REVIEWED_PULL_REQUESTS_QUERY,
+    `type:pr is:public reviewed-by:${login} -author:${login} -user:${login}`,
+    { login }
+  );
+
+  for (const node of reviewed) {
+    if (node.repository.isPrivate) continue;
+    const entry = entryFor(contributions, node.repository);
+    entry.reviews++;
+    const submittedAt = node.reviews.nodes[0]?.submittedAt;
+    if (submittedAt) widenPeriod(entry, day(submittedAt));
+  }
+
+  for (const entry of Object.values(contributions)) {
+    entry.pull_requests.sort((a, b) => b.merged_at.localeCompare(a.merged_at));
+  }
+
+  const ordered = Object.entries(contributions).sort(([, a], [, b]) =>
+    (b.pull_requests.length - a.pull_requests.length) ||
+    ((b.additions + b.deletions) - (a.additions + a.deletions)) ||
+    (b.reviews - a.reviews)
+  );
+  return Object.fromEntries(ordered);
+}
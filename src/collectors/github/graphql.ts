@@ -0,0 +1,241 @@
+import { ContributionStats } from '../../profile';
+import { CollectedRepo, GitHubSnapshot, LanguageStats } from './types';
+
+// Runs one GraphQL query and returns its `data`; GraphQL errors are thrown by the caller's transport.
+export type GraphQLRequest = <T>(query: string, variables: Record<string, unknown>) => Promise<T>;
+
+const REPOS_PER_PAGE = 50;
+const LANGUAGES_PER_REPO = 20;
+const TOPICS_PER_REPO = 20;
+
+const REPOSITORY_FIELDS = `
+  name
+  nameWithOwner
+  description
+  url
+  isFork
+  isArchived
+  stargazerCount
+  forkCount
+  pushedAt
+  diskUsage
+  primaryLanguage { name }
+  repositoryTopics(first: ${TOPICS_PER_REPO}) { nodes { topic { name } } }
+  languages(first: ${LANGUAGES_PER_REPO}, orderBy: { field: SIZE, direction: DESC }) {
+    edges { size node { name } }
+  }
+`;
+
+const PROFILE_QUERY = `
+query Profile($login: String!) {
+  user(login: $login) {
+    name
+    websiteUrl
+    createdAt
+    followers { totalCount }
+    following { totalCount }
+    repositories(ownerAffiliations: OWNER, privacy: PUBLIC) { totalCount }
+    pinnedItems(first: 6, types: REPOSITORY) {
+      nodes { ... on Repository { ${REPOSITORY_FIELDS} } }
+    }
+    organizations(first: 100) { nodes { login name } }
+    contributionsCollection {
+      startedAt
+      endedAt
+      totalCommitContributions
+      totalPullRequestContributions
+      totalPullRequestReviewContributions
+      totalIssueContributions
+      contributionCalendar {
+        totalContributions
+        weeks { contributionDays { date contributionCount } }
+      }
+    }
+  }
+}`;
+
+const REPOSITORIES_QUERY = `
+query Repositories($login: String!, $cursor: String) {
+  user(login: $login) {
+    repositories(
+      first: ${REPOS_PER_PAGE}
+      after: $cursor
+      ownerAffiliations: OWNER
+      privacy: PUBLIC
+      orderBy: { field: PUSHED_AT, direction: DESC }
+    ) {
+      pageInfo { hasNextPage endCursor }
+      nodes { ${REPOSITORY_FIELDS} }
+    }
+  }
+}`;
+
+interface RepositoryNode {
+  name: string;
+  nameWithOwner: string;
+  description: string | null;
+  url: string;
+  isFork: boolean;
+  isArchived: boolean;
+  stargazerCount: number;
+  forkCount: number;
+  pushedAt: string | null;
+  diskUsage: number | null;
+  primaryLanguage: { name: string } | null;
+  repositoryTopics: { nodes: Array<{ topic: { name: string } }> };
+  languages: { edges: Array<{ size: number; node: { name: string } }> };
+}
+
+interface ContributionDay {
+  date: string;
+  contributionCount: number;
+}
+
+interface ProfileQueryResult {
+  user: {
+    name: string | null;
+    websiteUrl: string | null;
+    createdAt: string;
+    followers: { totalCount: number };
+    following: { totalCount: number };
+    repositories: { totalCount: number };
+    // Empty objects stand for pinned gists when the type filter is ignored.
+    pinnedItems: { nodes: Array<RepositoryNode | Record<string, never>> };
+    organizations: { nodes: Array<{ login: string; name: string | null }> };
+    contributionsCollection: {
+      startedAt: string;
+      endedAt: string;
+      totalCommitContributions: number;
+      totalPullRequestContributions: number;
+      totalPullRequestReviewContributions: number;
+      totalIssueContributions: number;
+      contributionCalendar: {
+        totalContributions: number;
+        weeks: Array<{ contributionDays: ContributionDay[] }>;
+      };
+    };
+  } | null;
+}
+
+interface RepositoriesQueryResult {
+  user: {
+    repositories: {
+      pageInfo: { hasNextPage: boolean; endCursor: string | null };
+      nodes: RepositoryNode[];
+    };
+  } | null;
+}
+
+function toCollectedRepo(node: RepositoryNode): CollectedRepo {
+  const languages: LanguageStats = {};
+  for (const edge of node.languages.edges) {
+    languages[edge.node.name] = edge.size;
+  }
+
+  return {
+    name: node.name,
+    fullName: node.nameWithOwner,
+    description: node.description,
+    url: node.url,
+    language: node.primaryLanguage ? node.primaryLanguage.name : null,
+    stars: node.stargazerCount,
+    forks: node.forkCount,
+    topics: node.repositoryTopics.nodes.map(item => item.topic.name),
+    fork: node.isFork,
+    archived: node.isArchived,
+    pushedAt: node.pushedAt,
+    size: node.diskUsage || 0,
+    languages
+  };
+}
+
+function isRepositoryNode(node: RepositoryNode | Record<string, never>): node is RepositoryNode {
+  return typeof (node as RepositoryNode).nameWithOwner === 'string';
+}
+
+// Streaks count consecutive days with at least one contribution. The current streak may
+// end yesterday, so a day without contributions so far does not reset it.
+export function summarizeContributionDays(days: ContributionDay[]): Pick<ContributionStats, 'active_days' | 'longest_streak' | 'current_streak'> {
+  const sorted = [...days].sort((a, b) => a.date.localeCompare(b.date));
+  let longest = 0;
+  let run = 0;
+
+  for (const day of sorted) {
+    run = day.contributionCount > 0 ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  }
+
+  let current = 0;
+  for (let index = sorted.length - 1; index >= 0; index--) {
+    if (sorted[index].contributionCount > 0) {
+      current++;
+    } else if (index < sorted.length - 1 || current > 0) {
+      break;
+    }
+  }
+
+  return {
+    active_days: sorted.filter(day => day.contributionCount > 0).length,
+    longest_streak: longest,
+    current_streak: current
+  };
+}
+
+async function fetchRepositories(request: GraphQLRequest, login: string): Promise<CollectedRepo[]> {
+  const repos: CollectedRepo[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const result: RepositoriesQueryResult = await request<RepositoriesQueryResult>(REPOSITORIES_QUERY, { login, cursor });
+    if (!result.user) {
+      throw new Error(`GitHub user "${login}" not found`);
+    }
+
+    const { nodes, pageInfo } = result.user.repositories;
+    repos.push(...nodes.map(toCollectedRepo));
+    cursor = pageInfo.hasNextPage ? pageInfo.endCursor : null;
+  } while (cursor);
+
+  return repos;
+}
+
+// One query for the profile, pinned items, organizations and contributions, then one per 50 repositories
+// with their languages included, instead of a REST call per repository.
+export async function fetchGraphQLSnapshot(request: GraphQLRequest, login: string): Promise<GitHubSnapshot> {
+  console.log('👤 Fetching profile, pinned repositories and contributions...');
+  const { user } = await request<ProfileQueryResult>(PROFILE_QUERY, { login });
+  if (!user) {
+    throw new Error(`GitHub user "${login}" not found`);
+  }
+
+  console.log('📁 Fetching repositories with languages...');
+  const repos = await fetchRepositories(request, login);
+
+  const collection = user.contributionsCollection;
+  const days = collection.contributionCalendar.weeks.flatMap(week => week.contributionDays);
+
+  return {
+    api: 'graphql',
+    user: {
+      name: user.name,
+      blog: user.websiteUrl,
+      publicRepos: user.repositories.totalCount,
+      followers: user.followers.totalCount,
+      following: user.following.totalCount,
+      createdAt: user.createdAt
+    },
+    repos,
+    pinned: user.pinnedItems.nodes.filter(isRepositoryNode).map(toCollectedRepo),
+    organizations: user.organizations.nodes.map(org => org.name || org.login),
+    contributions: {
+      total: collection.contributionCalendar.totalContributions,
+      from: collection.startedAt,
+      to: collection.endedAt,
+      ...summarizeContributionDays(days),
+      commits: collection.totalCommitContributions,
+      pull_requests: collection.totalPullRequestContributions,
+      reviews: collection.totalPullRequestReviewContributions,
+      issues: collection.totalIssueContributions
+    }
+  };
+}
@@ -0,0 +1,19 @@
+export * from './client';
+export * from './collector';
+export { fetchExternalContributions } from './contributions';
+export { GraphQLRequest, fetchGraphQLSnapshot, summarizeContributionDays } from './graphql';
+export { RepoCommitActivity, buildLanguageActivity, languageShares, monthOf } from './languageActivity';
+export { MANIFEST_FILES, TechStack, condenseReadme, deriveTechStack, readmeDescription, readmeToText } from './projectDetails';
+export {
+  DEFAULT_REPO_SELECTION,
+  RepoDecision,
+  RepoScoreWeights,
+  RepoSelectionConfig,
+  RepoSelectionConfigError,
+  RepoSignal,
+  formatSelectionReport,
+  resolveRepoSelection,
+  scoreRepository,
+  selectRepositories
+} from './selection';
+export * from './types';
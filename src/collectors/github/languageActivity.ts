@@ -0,0 +1,93 @@
+import { LanguageActivity } from '../../profile';
+import { LanguageStats } from './types';
+
+// Languages below this share of a repository's code do not get credit for its commits,
+// so build scripts and a handful of shell files do not show up as skills.
+const MIN_LANGUAGE_SHARE = 0.1;
+const RECENT_MONTHS = 12;
+const CURRENT_MONTHS = 6;
+
+// The user's commits to one repository, counted per month ("YYYY-MM").
+export interface RepoCommitActivity {
+  repository: string;
+  primaryLanguage: string | null;
+  // Bytes per language, as returned by GitHub.
+  languages: LanguageStats;
+  months: Record<string, number>;
+}
+
+function monthIndex(month: string): number {
+  const [year, value] = month.split('-').map(Number);
+  return year * 12 + value - 1;
+}
+
+export function monthOf(date: Date): string {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+// Each main language of the repository with its share of the code; the primary language alone when
+// GitHub reported no breakdown.
+export function languageShares(languages: LanguageStats, primaryLanguage: string | null): Record<string, number> {
+  const total = Object.values(languages).reduce((sum, bytes) => sum + bytes, 0);
+  const main = Object.entries(languages).filter(([, bytes]) => total > 0 && bytes / total >= MIN_LANGUAGE_SHARE);
+  if (main.length === 0) {
+    return primaryLanguage ? { [primaryLanguage]: 1 } : {};
+  }
+
+  const mainTotal = main.reduce((sum, [, bytes]) => sum + bytes, 0);
+  return Object.fromEntries(main.map(([language, bytes]) => [language, bytes / mainTotal]));
+}
+
+// Turns per-repository commit months into a per-language timeline. Most recently active languages
+// come first: current ones, then by share of recent commits, then by all-time commits.
+export function buildLanguageActivity(
+  activity: RepoCommitActivity[],
+  now: Date = new Date()
+): Record<string, LanguageActivity> {
+  const perLanguage = new Map<string, Map<string, number>>();
+
+  for (const repo of activity) {
+    const shares = languageShares(repo.languages, repo.primaryLanguage);
+    for (const [language, share] of Object.entries(shares)) {
+      const months = perLanguage.get(language) || new Map<string, number>();
+      for (const [month, commits] of Object.entries(repo.months)) {
+        months.set(month, (months.get(month) || 0) + commits * share);
+      }
+      perLanguage.set(language, months);
+    }
+  }
+
+  const currentMonth = monthIndex(monthOf(now));
+  const isRecent = (month: string) => currentMonth - monthIndex(month) < RECENT_MONTHS;
+  let recentTotal = 0;
+  for (const months of perLanguage.values()) {
+    for (const [month, commits] of months) {
+      if (isRecent(month)) recentTotal += commits;
+    }
+  }
+
+  const timeline: Array<[string, LanguageActivity]> = [];
+  for (const [language, months] of perLanguage) {
+    const active = Array.from(months.keys()).filter(month => months.get(month)! > 0).sort();
+    if (active.length === 0) continue;
+
+    const commits = Array.from(months.values()).reduce((sum, value) => sum + value, 0);
+    const recent = active.filter(isRecent).reduce((sum, month) => sum + months.get(month)!, 0);
+    const lastUsed = active[active.length - 1];
+    timeline.push([language, {
+      first_used: active[0],
+      last_used: lastUsed,
+      active_months: active.length,
+      commits: Math.round(commits),
+      recent_share: recentTotal > 0 ? Math.round((recent / recentTotal) * 100) / 100 : 0,
+      current: currentMonth - monthIndex(lastUsed) < CURRENT_MONTHS
+    }]);
+  }
+
+  timeline.sort(([, a], [, b]) =>
+    Number(b.current) - Number(a.current) ||
+    b.recent_share - a.recent_share ||
+    b.commits - a.commits
+  );
+  return Object.fromEntries(timeline);
+}
@@ -0,0 +1,240 @@
+import { LLMClient } from '../../llm';
+
+// Dependency manifests read per repository, and the runtime each one implies.
+export const MANIFEST_FILES: Record<string, string> = {
+  'package.json': 'Node.js',
+  'requirements.txt': 'Python',
+  'Cargo.toml': 'Rust',
+  'go.mod': 'Go'
+};
+
+// Dependencies worth naming on a CV. Anything else is an implementation detail and left out.
+const NOTABLE_DEPENDENCIES: Record<string, Record<string, string>> = {
+  'package.json': {
+    'typescript': 'TypeScript',
+    'react': 'React',
+    'next': 'Next.js',
+    'vue': 'Vue',
+    'nuxt': 'Nuxt',
+    'svelte': 'Svelte',
+    '@angular/core': 'Angular',
+    'express': 'Express',
+    'fastify': 'Fastify',
+    '@nestjs/core': 'NestJS',
+    'electron': 'Electron',
+    'react-native': 'React Native',
+    'graphql': 'GraphQL',
+    'prisma': 'Prisma',
+    'mongoose': 'MongoDB',
+    'pg': 'PostgreSQL',
+    'redis': 'Redis',
+    'socket.io': 'Socket.IO',
+    'tailwindcss': 'Tailwind CSS',
+    'playwright': 'Playwright',
+    'jest': 'Jest',
+    'vitest': 'Vitest',
+    'webpack': 'webpack',
+    'vite': 'Vite'
+  },
+  'requirements.txt': {
+    'django': 'Django',
+    'flask': 'Flask',
+    'fastapi': 'FastAPI',
+    'numpy': 'NumPy',
+    'pandas': 'pandas',
+    'scipy': 'SciPy',
+    'scikit-learn': 'scikit-learn',
+    'torch': 'PyTorch',
+    'tensorflow': 'TensorFlow',
+    'keras': 'Keras',
+    'transformers': 'Hugging Face Transformers',
+    'opencv-python': 'OpenCV',
+    'matplotlib': 'Matplotlib',
+    'sqlalchemy': 'SQLAlchemy',
+    'celery': 'Celery',
+    'pytest': 'pytest',
+    'langchain': 'LangChain'
+  },
+  'Cargo.toml': {
+    'tokio': 'Tokio',
+    'serde': 'Serde',
+    'actix-web': 'Actix Web',
+    'axum': 'Axum',
+    'rocket': 'Rocket',
+    'clap': 'clap',
+    'diesel': 'Diesel',
+    'sqlx': 'SQLx',
+    'wasm-bindgen': 'WebAssembly',
+    'bevy': 'Bevy'
+  },
+  'go.mod': {
+    'github.com/gin-gonic/gin': 'Gin',
+    'github.com/labstack/echo': 'Echo',
+    'github.com/gofiber/fiber': 'Fiber',
+    'github.com/spf13/cobra': 'Cobra',
+    'gorm.io/gorm': 'GORM',
+    'google.golang.org/grpc': 'gRPC',
+    'github.com/jackc/pgx': 'PostgreSQL',
+    'github.com/redis/go-redis': 'Redis',
+    'k8s.io/client-go': 'Kubernetes'
+  }
+};
+
+const MAX_README_CHARS = 12000;
+const MAX_DESCRIPTION_CHARS = 300;
+const MAX_HIGHLIGHTS = 3;
+
+export interface TechStack {
+  technologies: string[];
+  // Manifest files that contributed at least one technology.
+  sources: string[];
+}
+
+function packageJsonDependencies(content: string): string[] {
+  const data = JSON.parse(content) as Record<string, unknown>;
+  const names: string[] = [];
+  for (const field of ['dependencies', 'devDependencies', 'peerDependencies']) {
+    const dependencies = data[field];
+    if (dependencies && typeof dependencies === 'object') {
+      names.push(...Object.keys(dependencies));
+    }
+  }
+  return names;
+}
+
+function requirementsDependencies(content: string): string[] {
+  return content
+    .split('\n')
+    .map(line => line.replace(/#.*$/, '').trim())
+    .filter(line => line && !line.startsWith('-'))
+    .map(line => line.split(/[\s<>=!~;[]/)[0].toLowerCase().replace(/_/g, '-'));
+}
+
+function cargoDependencies(content: string): string[] {
+  const names: string[] = [];
+  let inDependencies = false;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const table = line.match(/^\[([^\]]+)\]$/);
+    if (table) {
+      inDependencies = /(^|\.)(dev-|build-)?dependencies$/.test(table[1]);
+      continue;
+    }
+    const key = line.match(/^([A-Za-z0-9_-]+)\s*=/);
+    if (inDependencies && key) names.push(key[1]);
+  }
+  return names;
+}
+
+function goModDependencies(content: string): string[] {
+  const names: string[] = [];
+  let inRequireBlock = false;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/\/\/.*$/, '').trim();
+    if (line.startsWith('require (')) {
+      inRequireBlock = true;
+    } else if (inRequireBlock && line === ')') {
+      inRequireBlock = false;
+    } else if (inRequireBlock && line) {
+      names.push(line.split(/\s+/)[0]);
+    } else if (line.startsWith('require ')) {
+      names.push(line.split(/\s+/)[1]);
+    }
+  }
+  // Major versions live in the path: github.com/labstack/echo/v4.
+  return names.map(name => name.replace(/\/v\d+$/, ''));
+}
+
+const DEPENDENCY_PARSERS: Record<string, (content: string) => string[]> = {
+  'package.json': packageJsonDependencies,
+  'requirements.txt': requirementsDependencies,
+  'Cargo.toml': cargoDependencies,
+  'go.mod': goModDependencies
+};
+
+// Maps manifest contents (file name → text) to the runtime and notable dependencies, in manifest order.
+export function deriveTechStack(manifests: Record<string, string>): TechStack {
+  const technologies: string[] = [];
+  const sources: string[] = [];
+
+  for (const [file, runtime] of Object.entries(MANIFEST_FILES)) {
+    const content = manifests[file];
+    if (content === undefined) continue;
+
+    let dependencies: string[];
+    try {
+      dependencies = DEPENDENCY_PARSERS[file](content);
+    } catch (error) {
+      console.warn(`⚠️  Could not parse ${file}: ${error instanceof Error ? error.message : error}`);
+      continue;
+    }
+
+    const notable = NOTABLE_DEPENDENCIES[file];
+    const found = [runtime, ...dependencies.map(name => notable[name]).filter((name): name is string => Boolean(name))];
+    for (const technology of found) {
+      if (!technologies.includes(technology)) technologies.push(technology);
+    }
+    sources.push(file);
+  }
+
+  return { technologies, sources };
+}
+
+// Plain text of a Markdown README: no code blocks, HTML, badges, images or link targets.
+export function readmeToText(readme: string): string {
+  return readme
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<[^>]+>/g, '')
+    .replace(/\[!\[[^\]]*\]\([^)]*\)\]\([^)]*\)/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/[*_]{1,3}([^*_\n]+)[*_]{1,3}/g, '$1');
+}
+
+// First prose paragraph of the README, used when the repository has no description of its own.
+export function readmeDescription(readme: string): string | undefined {
+  const paragraphs = readmeToText(readme)
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/\s+/g, ' ').trim())
+    .filter(paragraph => paragraph && !/^#/.test(paragraph) && !/^[-*|>=]/.test(paragraph) && /[a-z]{3}/i.test(paragraph));
+
+  const first = paragraphs[0];
+  if (!first) return undefined;
+  if (first.length <= MAX_DESCRIPTION_CHARS) return first;
+
+  const cut = first.slice(0, MAX_DESCRIPTION_CHARS);
+  const sentenceEnd = cut.lastIndexOf('. ');
+  return sentenceEnd > 0 ? cut.slice(0, sentenceEnd + 1) : `${cut.replace(/\s+\S*$/, '')}…`;
+}
+
+// Asks the LLM for two or three factual CV bullets; anything the README does not state is off limits.
+export async function condenseReadme(llm: LLMClient, repository: string, readme: string, language: string): Promise<string[]> {
+  const result = await llm.complete({
+    messages: [
+      {
+        role: 'system',
+        content: 'You summarize software project READMEs for CVs. State only facts that are in the README. Never invent features, users or numbers.'
+      },
+      {
+        role: 'user',
+        content: `Condense the README of ${repository} into 2 or 3 short bullets in ${language} describing what the project does and how it is built.
+Return only the bullets, one per line, each starting with "- ". No headings, no Markdown formatting.
+
+README:
+${readmeToText(readme).slice(0, MAX_README_CHARS)}`
+      }
+    ]
+  });
+
+  return result.content
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => /^[-*•]\s+/.test(line))
+    .map(line => line.replace(/^[-*•]\s+/, '').trim())
+    .filter(Boolean)
+    .slice(0, MAX_HIGHLIGHTS);
+}
@@ -0,0 +1,249 @@
+import { CollectedRepo } from './types';
+
+// Relative weight of each signal in a repository's score. Every signal is scaled to roughly 0..1
+// before weighting, except stars and forks, which grow logarithmically.
+export interface RepoScoreWeights {
+  stars: number;
+  forks: number;
+  // How recently commits were pushed, fading out over `recencyHorizonMonths`.
+  recency: number;
+  size: number;
+  topics: number;
+  // Primary language among `languages`, or among the account's most used languages when that list is empty.
+  language: number;
+  description: number;
+}
+
+export type RepoSignal = keyof RepoScoreWeights;
+
+export interface RepoSelectionConfig {
+  // Repository names or "owner/name", with * wildcards. Included repositories skip every filter below.
+  include: string[];
+  exclude: string[];
+  // When set, a repository needs at least one of these topics.
+  topics: string[];
+  excludeTopics: string[];
+  // Preferred languages for the language signal.
+  languages: string[];
+  includeForks: boolean;
+  includeArchived: boolean;
+  minStars: number;
+  // Repositories without a push in this many months are dropped; 0 disables the filter.
+  maxMonthsSincePush: number;
+  minScore: number;
+  weights: RepoScoreWeights;
+  recencyHorizonMonths: number;
+  // How many kept repositories become profile projects and github_stats.notable_repos.
+  maxProjects: number;
+  maxNotableRepos: number;
+}
+
+export const DEFAULT_REPO_SELECTION: RepoSelectionConfig = {
+  include: [],
+  exclude: [],
+  topics: [],
+  excludeTopics: [],
+  languages: [],
+  includeForks: false,
+  includeArchived: false,
+  minStars: 0,
+  maxMonthsSincePush: 0,
+  minScore: 1,
+  weights: { stars: 3, forks: 2, recency: 2, size: 1, topics: 1, language: 1, description: 1 },
+  recencyHorizonMonths: 24,
+  maxProjects: 5,
+  maxNotableRepos: 10
+};
+
+export interface RepoDecision {
+  repo: CollectedRepo;
+  pinned: boolean;
+  score: number;
+  // Weighted contribution of each signal to the score.
+  breakdown: Record<RepoSignal, number>;
+  kept: boolean;
+  reasons: string[];
+}
+
+export class RepoSelectionConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RepoSelectionConfigError';
+  }
+}
+
+const MONTH_MS = 30.44 * 24 * 60 * 60 * 1000;
+// Repositories of about 10 MB and up get the full size signal.
+const FULL_SIZE_KB = 10000;
+const FULL_TOPICS = 5;
+const MIN_DESCRIPTION_CHARS = 10;
+
+// Config file values over the defaults; weights can be given one by one.
+export function resolveRepoSelection(config: Partial<RepoSelectionConfig> = {}): RepoSelectionConfig {
+  const resolved = { ...DEFAULT_REPO_SELECTION, ...config, weights: { ...DEFAULT_REPO_SELECTION.weights, ...config.weights } };
+
+  for (const key of ['include', 'exclude', 'topics', 'excludeTopics', 'languages'] as const) {
+    if (!Array.isArray(resolved[key]) || resolved[key].some(value => typeof value !== 'string')) {
+      throw new RepoSelectionConfigError(`github.selection.${key} must be a list of strings`);
+    }
+  }
+  const numbers: Array<[string, unknown]> = [
+    ['minStars', resolved.minStars],
+    ['maxMonthsSincePush', resolved.maxMonthsSincePush],
+    ['minScore', resolved.minScore],
+    ['recencyHorizonMonths', resolved.recencyHorizonMonths],
+    ['maxProjects', resolved.maxProjects],
+    ['maxNotableRepos', resolved.maxNotableRepos],
+    ...Object.entries(resolved.weights).map(([signal, weight]): [string, unknown] => [`weights.${signal}`, weight])
+  ];
+  for (const [name, value] of numbers) {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new RepoSelectionConfigError(`github.selection.${name} must be a non-negative number`);
+    }
+  }
+  if (resolved.recencyHorizonMonths === 0) {
+    throw new RepoSelectionConfigError('github.selection.recencyHorizonMonths must be greater than 0');
+  }
+  for (const key of ['includeForks', 'includeArchived'] as const) {
+    if (typeof resolved[key] !== 'boolean') {
+      throw new RepoSelectionConfigError(`github.selection.${key} must be true or false`);
+    }
+  }
+  return resolved;
+}
+
+function wildcardPattern(pattern: string): RegExp {
+  const escaped = pattern.toLowerCase().split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+// Patterns with a slash match "owner/name", the others only the name.
+function matchesAny(repo: CollectedRepo, patterns: string[]): string | undefined {
+  return patterns.find(pattern => wildcardPattern(pattern).test((pattern.includes('/') ? repo.fullName : repo.name).toLowerCase()));
+}
+
+function monthsSince(timestamp: string | null, now: Date): number | undefined {
+  if (!timestamp) return undefined;
+  return Math.max(0, (now.getTime() - new Date(timestamp).getTime()) / MONTH_MS);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function scoreRepository(
+  repo: CollectedRepo,
+  config: RepoSelectionConfig,
+  topLanguages: string[],
+  now: Date = new Date()
+): Record<RepoSignal, number> {
+  const { weights } = config;
+  const preferred = (config.languages.length > 0 ? config.languages : topLanguages).map(language => language.toLowerCase());
+  const months = monthsSince(repo.pushedAt, now);
+
+  const signals: Record<RepoSignal, number> = {
+    stars: Math.log2(1 + repo.stars),
+    forks: Math.log2(1 + repo.forks),
+    recency: months === undefined ? 0 : Math.max(0, 1 - months / config.recencyHorizonMonths),
+    size: Math.min(1, Math.log10(1 + repo.size) / Math.log10(1 + FULL_SIZE_KB)),
+    topics: Math.min(repo.topics.length, FULL_TOPICS) / FULL_TOPICS,
+    language: repo.language && preferred.includes(repo.language.toLowerCase()) ? 1 : 0,
+    description: repo.description && repo.description.length > MIN_DESCRIPTION_CHARS ? 1 : 0
+  };
+
+  const breakdown = {} as Record<RepoSignal, number>;
+  for (const signal of Object.keys(signals) as RepoSignal[]) {
+    breakdown[signal] = round(signals[signal] * weights[signal]);
+  }
+  return breakdown;
+}
+
+// The first filter a repository fails, or undefined when it passes them all.
+function dropReason(repo: CollectedRepo, config: RepoSelectionConfig, now: Date): string | undefined {
+  const excluded = matchesAny(repo, config.exclude);
+  if (excluded) return `excluded by "${excluded}"`;
+  if (repo.fork && !config.includeForks) return 'fork';
+  if (repo.archived && !config.includeArchived) return 'archived';
+
+  const topics = repo.topics.map(topic => topic.toLowerCase());
+  if (config.topics.length > 0 && !config.topics.some(topic => topics.includes(topic.toLowerCase()))) {
+    return `no topic out of ${config.topics.join(', ')}`;
+  }
+  const excludedTopic = config.excludeTopics.find(topic => topics.includes(topic.toLowerCase()));
+  if (excludedTopic) return `topic "${excludedTopic}" is excluded`;
+
+  if (repo.stars < config.minStars) return `${repo.stars} stars, below the minimum of ${config.minStars}`;
+
+  const months = monthsSince(repo.pushedAt, now);
+  if (config.maxMonthsSincePush > 0 && (months === undefined || months > config.maxMonthsSincePush)) {
+    return months === undefined
+      ? 'never pushed'
+      : `last push ${Math.floor(months)} months ago, more than ${config.maxMonthsSincePush}`;
+  }
+  return undefined;
+}
+
+// Scores the owner's repositories plus the pinned ones and decides which are worth showing.
+// Included and pinned repositories are always kept; the rest must pass the filters and reach minScore.
+// Kept repositories come first, pinned ones in pinned order, then by score.
+export function selectRepositories(
+  repos: CollectedRepo[],
+  pinned: CollectedRepo[],
+  config: RepoSelectionConfig,
+  topLanguages: string[],
+  now: Date = new Date()
+): RepoDecision[] {
+  const pinnedOrder = new Map(pinned.map((repo, index) => [repo.fullName, index]));
+  const candidates = [...pinned, ...repos.filter(repo => !pinnedOrder.has(repo.fullName))];
+
+  const decisions = candidates.map((repo): RepoDecision => {
+    const breakdown = scoreRepository(repo, config, topLanguages, now);
+    const score = round(Object.values(breakdown).reduce((sum, value) => sum + value, 0));
+    const isPinned = pinnedOrder.has(repo.fullName);
+    const decision = { repo, pinned: isPinned, score, breakdown };
+
+    const included = matchesAny(repo, config.include);
+    if (included) return { ...decision, kept: true, reasons: [`included by "${included}"`] };
+    if (isPinned) return { ...decision, kept: true, reasons: ['pinned'] };
+
+    const reason = dropReason(repo, config, now);
+    if (reason) return { ...decision, kept: false, reasons: [reason] };
+    if (score < config.minScore) {
+      return { ...decision, kept: false, reasons: [`score ${score} below the minimum of ${config.minScore}`] };
+    }
+    return { ...decision, kept: true, reasons: [`score ${score} reaches the minimum of ${config.minScore}`] };
+  });
+
+  const rank = (decision: RepoDecision) => pinnedOrder.get(decision.repo.fullName) ?? pinned.length;
+  return decisions.sort((a, b) =>
+    Number(b.kept) - Number(a.kept) ||
+    rank(a) - rank(b) ||
+    b.score - a.score ||
+    a.repo.name.localeCompare(b.repo.name)
+  );
+}
+
+// Plain-text table for dry runs: one line per repository with its score, the signals behind it and the decision.
+export function formatSelectionReport(decisions: RepoDecision[], config: RepoSelectionConfig): string {
+  const kept = decisions.filter(decision => decision.kept);
+  const lines = [
+    `${kept.length} of ${decisions.length} repositories kept: up to ${config.maxProjects} become projects ` +
+      `and up to ${config.maxNotableRepos} are listed as notable repositories.`,
+    ''
+  ];
+  const width = Math.max(10, ...decisions.map(decision => decision.repo.fullName.length));
+
+  decisions.forEach((decision, index) => {
+    const role = !decision.kept ? 'dropped'
+      : index < config.maxProjects ? 'project'
+      : index < config.maxNotableRepos ? 'notable'
+      : 'kept';
+    const signals = (Object.entries(decision.breakdown) as Array<[RepoSignal, number]>)
+      .filter(([, value]) => value > 0)
+      .map(([signal, value]) => `${signal} ${value}`)
+      .join(', ');
+    lines.push(`${role.padEnd(8)} ${decision.score.toFixed(2).padStart(6)}  ${decision.repo.fullName.padEnd(width)}  ${decision.reasons.join('; ')}${signals ? ` (${signals})` : ''}`);
+  });
+
+  return lines.join('\n');
+}
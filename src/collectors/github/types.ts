@@ -0,0 +1,50 @@
+import { ContributionStats, LanguageActivity, OpenSourceContribution } from '../../profile';
+
+export type GitHubApi = 'rest' | 'graphql';
+
+export interface LanguageStats {
+  [language: string]: number;
+}
+
+// Repository data both APIs can provide, in the shape the profile update works with.
+export interface CollectedRepo {
+  name: string;
+  fullName: string;
+  description: string | null;
+  url: string;
+  language: string | null;
+  stars: number;
+  forks: number;
+  topics: string[];
+  fork: boolean;
+  archived: boolean;
+  pushedAt: string | null;
+  // Disk usage in kilobytes.
+  size: number;
+  // Bytes per language; empty when the repository was not analyzed.
+  languages: LanguageStats;
+}
+
+export interface CollectedUser {
+  name: string | null;
+  blog: string | null;
+  publicRepos: number;
+  followers: number;
+  following: number;
+  createdAt: string;
+}
+
+export interface GitHubSnapshot {
+  api: GitHubApi;
+  user: CollectedUser;
+  // Public repositories owned by the user.
+  repos: CollectedRepo[];
+  // Only the GraphQL API exposes pinned items, organizations and the contribution calendar.
+  pinned: CollectedRepo[];
+  organizations?: string[];
+  contributions?: ContributionStats;
+  // Merged pull requests and reviews in repositories owned by others, keyed like profile.open_source_contributions.
+  externalContributions?: Record<string, OpenSourceContribution>;
+  // Per-language timeline built from the user's commits, most recently active first.
+  languageActivity?: Record<string, LanguageActivity>;
+}
@@ -0,0 +1,5 @@
+export * from './github';
+export * from './linkedinPdf';
+export * from './llmExtraction';
+export * from './pdf';
+// The LinkedIn exporter pulls in Playwright; import it from './linkedin' where it is needed.
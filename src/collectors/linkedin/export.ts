@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Page } from 'playwright';
+import { DEFAULT_PROFILE_PDF_PATH } from '../../paths';
+import { LinkedInWebProfile, scrapeLinkedInSections } from './sections';
+import { LinkedInSession, LinkedInSessionOptions, waitForControl } from './session';
+import { LINKEDIN_PATHS, LINKEDIN_SELECTORS, LinkedInWebSection } from './selectors';
+
+export interface LinkedInExportOptions extends Omit<LinkedInSessionOptions, 'statePath'> {
+  // Where the downloaded profile PDF is written (default: data/profile.pdf).
+  outputPath?: string;
+  // Saved session (default: linkedin-state.json next to the PDF).
+  statePath?: string;
+}
+
+export interface LinkedInCollectOptions extends LinkedInExportOptions {
+  // Profile sections read from the page after the download (default: none).
+  sections?: LinkedInWebSection[];
+  // Where the scraped sections are written (default: linkedin.json next to the PDF).
+  sectionsPath?: string;
+}
+
+export interface LinkedInCollection {
+  pdfPath: string;
+  sections?: LinkedInWebProfile;
+  sectionsPath?: string;
+}
+
+const DOWNLOAD_TIMEOUT_MS = 60000;
+
+export function defaultLinkedInStatePath(outputPath: string): string {
+  return path.join(path.dirname(outputPath), 'linkedin-state.json');
+}
+
+export function defaultLinkedInSectionsPath(outputPath: string): string {
+  return path.join(path.dirname(outputPath), 'linkedin.json');
+}
+
+// Downloads the profile through LinkedIn's own "Save to PDF" action, in whatever language the account uses.
+async function downloadProfilePdf(page: Page, outputPath: string): Promise<void> {
+  await waitForControl(page, LINKEDIN_SELECTORS.profile.main, 'profile page');
+
+  await (await waitForControl(page, LINKEDIN_SELECTORS.profile.moreActions, 'profile "More" button')).click();
+  const savePdf = await waitForControl(page, LINKEDIN_SELECTORS.profile.savePdf, '"Save to PDF" menu item');
+  const [download] = await Promise.all([page.waitForEvent('download', { timeout: DOWNLOAD_TIMEOUT_MS }), savePdf.click()]);
+
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  await download.saveAs(outputPath);
+  console.log(`Profile saved as ${outputPath}`);
+}
+
+// The PDF export and, in the same session, the sections the PDF leaves out.
+export async function collectLinkedInProfile(options: LinkedInCollectOptions): Promise<LinkedInCollection> {
+  const outputPath = options.outputPath || DEFAULT_PROFILE_PDF_PATH;
+  const session = new LinkedInSession({ ...options, statePath: options.statePath || defaultLinkedInStatePath(outputPath) });
+
+  await session.start();
+  try {
+    const page = await session.open(LINKEDIN_PATHS.profile(options.username));
+    await downloadProfilePdf(page, outputPath);
+    await page.close();
+    if (!options.sections || options.sections.length === 0) return { pdfPath: outputPath };
+
+    const sections = await scrapeLinkedInSections(session, options.sections);
+    const sectionsPath = options.sectionsPath || defaultLinkedInSectionsPath(outputPath);
+    fs.mkdirSync(path.dirname(sectionsPath), { recursive: true });
+    fs.writeFileSync(sectionsPath, JSON.stringify(sections, null, 2));
+    console.log(`LinkedIn sections saved as ${sectionsPath}`);
+    return { pdfPath: outputPath, sections, sectionsPath };
+  } finally {
+    await session.close();
+  }
+}
+
+export async function exportLinkedInProfilePdf(options: LinkedInExportOptions): Promise<string> {
+  return (await collectLinkedInProfile(options)).pdfPath;
+}
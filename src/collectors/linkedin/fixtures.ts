@@ -0,0 +1,54 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BrowserContext } from 'playwright';
+
+// Saved pages stand in for linkedin.com, so the export and scraping flows run offline against known markup.
+// A URL maps to a file by its path: /login → login.html, /in/jane/ → in/jane.html, /feed/ → feed.html,
+// / → index.html; paths with an extension (/media/profile.pdf) map to that file. Query strings are ignored,
+// and form posts are answered like any other request, so /checkpoint/lg/login-submit.html decides what a sign-in
+// leads to. A fixture redirects with <meta http-equiv="refresh" content="0;url=/feed/">.
+export function fixtureFile(dir: string, url: string): string {
+  const pathname = decodeURIComponent(new URL(url).pathname).replace(/^\/+|\/+$/g, '') || 'index';
+  const file = path.extname(pathname) ? pathname : `${pathname}.html`;
+  const resolved = path.resolve(dir, file);
+  // Keeps "/../" in a URL from reading outside the fixtures.
+  return resolved.startsWith(path.resolve(dir) + path.sep) ? resolved : path.resolve(dir, 'index.html');
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.pdf': 'application/pdf',
+  '.json': 'application/json',
+  '.css': 'text/css',
+  '.js': 'text/javascript',
+  '.png': 'image/png',
+  '.svg': 'image/svg+xml'
+};
+
+// Answers every LinkedIn request from `dir` and blocks everything else. A page without a fixture gets a 404 that
+// names the missing file; other missing resources are dropped.
+export async function replayFixtures(context: BrowserContext, dir: string): Promise<void> {
+  if (!fs.existsSync(dir)) {
+    throw new Error(`LinkedIn fixtures directory not found: ${dir}`);
+  }
+
+  await context.route('**/*', async route => {
+    const request = route.request();
+    const url = new URL(request.url());
+    if (!/(^|\.)linkedin\.com$/.test(url.hostname)) {
+      await route.abort('blockedbyclient');
+      return;
+    }
+
+    const file = fixtureFile(dir, request.url());
+    if (fs.existsSync(file)) {
+      const headers: Record<string, string> = {};
+      if (path.extname(file) === '.pdf') headers['content-disposition'] = `attachment; filename="${path.basename(file)}"`;
+      await route.fulfill({ path: file, contentType: CONTENT_TYPES[path.extname(file)] || 'application/octet-stream', headers });
+    } else if (request.resourceType() === 'document') {
+      await route.fulfill({ status: 404, contentType: 'text/plain', body: `No LinkedIn fixture for ${url.pathname}: ${file}` });
+    } else {
+      await route.abort('blockedbyclient');
+    }
+  });
+}
@@ -0,0 +1,16 @@
+import { requireEnv } from '../../config';
+import { LinkedInCredentials } from './session';
+
+export * from './export';
+export { fixtureFile, replayFixtures } from './fixtures';
+export * from './sections';
+export * from './selectors';
+export * from './session';
+
+export function linkedInCredentialsFromEnv(env: NodeJS.ProcessEnv = process.env): LinkedInCredentials {
+  return {
+    email: requireEnv('LINKEDIN_EMAIL', 'to sign in to LinkedIn', env),
+    password: requireEnv('LINKEDIN_PASSWORD', 'to sign in to LinkedIn', env),
+    username: requireEnv('LINKEDIN_USERNAME', 'to open the LinkedIn profile', env)
+  };
+}
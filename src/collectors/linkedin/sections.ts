@@ -0,0 +1,512 @@
+import { Locator, Page } from 'playwright';
+import {
+  CertificationEntry,
+  HistoryRetention,
+  IncomingProfileData,
+  MembershipEntry,
+  MergeResult,
+  ProjectEntry,
+  RecommendationEntry,
+  ResearchEntry,
+  entryKey,
+  formatMergeReport,
+  loadProfile,
+  loadProvenance,
+  mergeProfile,
+  resolveHistoryRetention,
+  saveProfileVersion
+} from '../../profile';
+import { classifySkills } from '../pdf';
+import { LinkedInSession, waitForControl } from './session';
+import {
+  LINKEDIN_BASE_URL,
+  LINKEDIN_LABELS,
+  LINKEDIN_PATHS,
+  LINKEDIN_SECTION_ANCHORS,
+  LINKEDIN_SELECTORS,
+  LinkedInWebSection,
+  sectionCard
+} from './selectors';
+
+// One list entry as the page shows it: its lines of text, top to bottom, and the external links in it.
+export interface LinkedInListItem {
+  lines: string[];
+  links: string[];
+}
+
+export interface LinkedInWebProject {
+  name: string;
+  start_date?: string;
+  end_date?: string;
+  description?: string;
+  skills: string[];
+  url?: string;
+}
+
+export interface LinkedInWebRecommendation {
+  author: string;
+  headline?: string;
+  // "March 5, 2021, Jane managed John directly"
+  context?: string;
+  text: string;
+}
+
+export interface LinkedInWebVolunteering {
+  role: string;
+  organization?: string;
+  start_date?: string;
+  end_date?: string;
+  cause?: string;
+  description?: string;
+}
+
+export interface LinkedInWebHonor {
+  title: string;
+  issuer?: string;
+  date?: string;
+  description?: string;
+}
+
+export interface LinkedInWebPublication {
+  title: string;
+  publisher?: string;
+  date?: string;
+  description?: string;
+  url?: string;
+}
+
+export interface LinkedInWebSections {
+  projects: LinkedInWebProject[];
+  recommendations: LinkedInWebRecommendation[];
+  volunteering: LinkedInWebVolunteering[];
+  honors: LinkedInWebHonor[];
+  publications: LinkedInWebPublication[];
+  skills: string[];
+}
+
+// What a scrape writes to linkedin.json. Dates are kept as LinkedIn prints them, in the account's language.
+export interface LinkedInWebProfile extends LinkedInWebSections {
+  url: string;
+  scraped_at: string;
+}
+
+export const LINKEDIN_WEB_SECTIONS: LinkedInWebSection[] = ['projects', 'recommendations', 'volunteering', 'honors', 'publications', 'skills'];
+
+// Bounds for lists that keep offering more: batches of one page, pages of one list.
+const MAX_BATCHES = 50;
+const MAX_PAGES = 50;
+const LIST_TIMEOUT_MS = 10000;
+const POLL_MS = 250;
+const SETTLE_MS = 1500;
+
+// Page side: every section is read as list items, from its "Show all" details page when it has one.
+
+async function waitUntil(page: Page, condition: () => Promise<boolean>, timeout: number): Promise<boolean> {
+  const deadline = Date.now() + timeout;
+  while (Date.now() < deadline) {
+    if (await condition()) return true;
+    await page.waitForTimeout(POLL_MS);
+  }
+  return false;
+}
+
+// Visible entries only: the recommendations page keeps the "Given" tab in the DOM, hidden.
+function listItems(scope: Locator): Locator {
+  return scope.locator(LINKEDIN_SELECTORS.lists.item.join(', ')).filter({ visible: true });
+}
+
+// LinkedIn sends external links through /redir/redirect?url=…; links to other LinkedIn pages are left out.
+function externalUrl(href: string | null): string | undefined {
+  if (!href) return undefined;
+  try {
+    const url = new URL(href, LINKEDIN_BASE_URL);
+    if (/(^|\.)linkedin\.com$/.test(url.hostname)) {
+      return url.pathname.startsWith('/redir/redirect') ? url.searchParams.get('url') || undefined : undefined;
+    }
+    return /^https?:$/.test(url.protocol) ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function readItem(item: Locator): Promise<LinkedInListItem> {
+  const lines: string[] = [];
+  for (const text of await item.locator(LINKEDIN_SELECTORS.lists.text.join(', ')).allInnerTexts()) {
+    // Descriptions keep their line breaks; repeated lines are the same value in two layouts.
+    const line = text.split('\n').map(part => part.replace(/\s+/g, ' ').trim()).filter(Boolean).join('\n');
+    if (line && line !== lines[lines.length - 1] && !LINKEDIN_LABELS.seeMore.test(line)) lines.push(line);
+  }
+
+  const links: string[] = [];
+  for (const link of await item.locator(LINKEDIN_SELECTORS.lists.link.join(', ')).all()) {
+    const url = externalUrl(await link.getAttribute('href'));
+    if (url && !links.includes(url)) links.push(url);
+  }
+  return { lines, links };
+}
+
+// Scrolls and presses "Show more results" until the list stops growing, then opens descriptions cut short.
+async function expandList(page: Page, list: Locator): Promise<void> {
+  const showMore = page.locator(LINKEDIN_SELECTORS.lists.showMoreResults.join(', ')).filter({ visible: true }).first();
+  for (let batch = 0; batch < MAX_BATCHES; batch++) {
+    const before = await listItems(list).count();
+    await page.mouse.wheel(0, 20000);
+    if ((await showMore.count()) > 0) await showMore.click();
+    const grew = await waitUntil(page, async () => (await listItems(list).count()) > before, SETTLE_MS);
+    if (!grew && (await showMore.count()) === 0) break;
+  }
+
+  for (const button of await list.locator(LINKEDIN_SELECTORS.lists.seeMoreText.join(', ')).filter({ visible: true }).all()) {
+    // A button can go away once an earlier one re-renders the list; its text is then already whole.
+    await button.click({ timeout: SETTLE_MS }).catch(() => undefined);
+  }
+}
+
+// Every entry of a details page, following its pagination.
+async function readList(page: Page): Promise<LinkedInListItem[]> {
+  const list = page.locator(LINKEDIN_SELECTORS.profile.main.join(', ')).first();
+  if (!(await waitUntil(page, async () => (await listItems(list).count()) > 0, LIST_TIMEOUT_MS))) return [];
+
+  const items: LinkedInListItem[] = [];
+  for (let pageNumber = 0; pageNumber < MAX_PAGES; pageNumber++) {
+    await expandList(page, list);
+    for (const item of await listItems(list).all()) items.push(await readItem(item));
+
+    const next = page.locator(LINKEDIN_SELECTORS.lists.nextPage.join(', ')).filter({ visible: true }).first();
+    if ((await next.count()) === 0) break;
+    const first = await listItems(list).first().innerText();
+    await next.click();
+    await waitUntil(page, async () => (await listItems(list).count()) > 0 && (await listItems(list).first().innerText()) !== first, LIST_TIMEOUT_MS);
+  }
+  return items;
+}
+
+async function readSection(session: LinkedInSession, profilePage: Page, section: LinkedInWebSection): Promise<LinkedInListItem[]> {
+  const card = profilePage.locator(sectionCard(LINKEDIN_SECTION_ANCHORS[section]).join(', ')).first();
+  // Sections without entries are not on the page at all.
+  if ((await card.count()) === 0) return [];
+
+  const showAll = card.locator(LINKEDIN_SELECTORS.lists.showAll.join(', ')).first();
+  const href = (await showAll.count()) > 0 ? await showAll.getAttribute('href') : null;
+  if (!href) {
+    const items: LinkedInListItem[] = [];
+    for (const item of await listItems(card).all()) items.push(await readItem(item));
+    return items;
+  }
+
+  const url = new URL(href, LINKEDIN_BASE_URL);
+  const details = await session.open(`${url.pathname}${url.search}`);
+  try {
+    return await readList(details);
+  } finally {
+    await details.close();
+  }
+}
+
+// Reads the profile sections the PDF export leaves out or cuts short.
+export async function scrapeLinkedInSections(
+  session: LinkedInSession,
+  sections: LinkedInWebSection[] = LINKEDIN_WEB_SECTIONS
+): Promise<LinkedInWebProfile> {
+  const profilePath = LINKEDIN_PATHS.profile(session.username);
+  const page = await session.open(profilePath);
+  const items: Partial<Record<LinkedInWebSection, LinkedInListItem[]>> = {};
+  try {
+    await waitForControl(page, LINKEDIN_SELECTORS.profile.main, 'profile page');
+    // Cards further down are rendered as they scroll into view.
+    for (let step = 0; step < 10; step++) {
+      await page.mouse.wheel(0, 2000);
+      await page.waitForTimeout(POLL_MS);
+    }
+    for (const section of sections) {
+      items[section] = await readSection(session, page, section);
+      console.log(`LinkedIn ${section}: ${items[section]!.length} entries`);
+    }
+  } finally {
+    await page.close();
+  }
+
+  return {
+    url: `${LINKEDIN_BASE_URL}${profilePath}`,
+    scraped_at: new Date().toISOString(),
+    ...parseLinkedInSections(items)
+  };
+}
+
+// Parsing: list items to values. Kept apart from the page so saved items can be parsed again.
+
+// "Jan 2020", "Jan 1, 2020", "1 de jan. de 2020", "2020".
+const DATE = String.raw`(?:\d{1,2}\s+(?:de\s+)?)?(?:[A-Za-zÀ-ú]+\.?\s+(?:de\s+)?)?(?:\d{1,2},\s+)?\d{4}`;
+const SINGLE_DATE = new RegExp(`^${DATE}$`, 'i');
+const DATE_RANGE = new RegExp(`^(${DATE})\\s*[-–]\\s*(.+)$`, 'i');
+// A recommendation's context starts with the date it was written.
+const DATED_CONTEXT = new RegExp(`^${DATE},\\s`, 'i');
+// Short lines before a description name a cause or a publisher rather than describe anything.
+const MAX_LABEL_LENGTH = 60;
+
+// "Jan 2020 - Mar 2021 · 1 yr 3 mos", "Jan 2020 - Present", "Jan 2020"; the duration is dropped.
+function datesOf(line: string): { start_date: string; end_date?: string } | undefined {
+  const first = line.split(' · ')[0].trim();
+  if (SINGLE_DATE.test(first)) return { start_date: first };
+  const range = first.match(DATE_RANGE);
+  if (!range) return undefined;
+  const end = range[2].trim();
+  return SINGLE_DATE.test(end) || LINKEDIN_LABELS.ongoing.test(end) ? { start_date: range[1], end_date: end } : undefined;
+}
+
+// "Issued by ACME · Jan 2020", "ACM Journal · Jan 1, 2020": a date and what stands next to it.
+function datedLine(line: string): { date: string; other?: string } | undefined {
+  const parts = line.split(' · ').map(part => part.trim());
+  const date = parts.find(part => SINGLE_DATE.test(part));
+  if (!date) return undefined;
+  const other = parts.filter(part => part !== date).join(' · ').replace(LINKEDIN_LABELS.issuedBy, '').trim();
+  return other ? { date, other } : { date };
+}
+
+function skillsOf(line: string): string[] | undefined {
+  if (!LINKEDIN_LABELS.skills.test(line)) return undefined;
+  return line.replace(LINKEDIN_LABELS.skills, '').split(/\s+·\s+|,\s+/).map(skill => skill.trim()).filter(Boolean);
+}
+
+function isLabel(line: string | undefined): line is string {
+  return Boolean(line) && line!.length <= MAX_LABEL_LENGTH && !line!.includes('\n') && !/[.!?:]$/.test(line!);
+}
+
+// Without the lines that only say what an entry is attached to, or a connection degree.
+function contentLines(item: LinkedInListItem): string[] {
+  return item.lines.filter(line => !LINKEDIN_LABELS.associated.test(line) && !LINKEDIN_LABELS.degree.test(line));
+}
+
+function description(lines: string[]): { description?: string } {
+  return lines.length > 0 ? { description: lines.join('\n') } : {};
+}
+
+function parseProject(item: LinkedInListItem): LinkedInWebProject | undefined {
+  const [name, ...rest] = contentLines(item);
+  if (!name) return undefined;
+
+  const project: LinkedInWebProject = { name, skills: [] };
+  const text: string[] = [];
+  for (const line of rest) {
+    const dates = project.start_date ? undefined : datesOf(line);
+    const skills = skillsOf(line);
+    if (dates) Object.assign(project, dates);
+    else if (skills) project.skills.push(...skills);
+    else text.push(line);
+  }
+  return { ...project, ...description(text), ...(item.links[0] ? { url: item.links[0] } : {}) };
+}
+
+// The name, then the headline, the dated context and the recommendation itself.
+function parseRecommendation(item: LinkedInListItem): LinkedInWebRecommendation | undefined {
+  const [author, ...rest] = contentLines(item);
+  if (!author) return undefined;
+
+  const contextIndex = rest.findIndex(line => DATED_CONTEXT.test(line));
+  const headline = contextIndex > 0 || (contextIndex === -1 && rest.length > 1) ? rest[0] : undefined;
+  const context = contextIndex >= 0 ? rest[contextIndex] : undefined;
+  const text = rest.slice(contextIndex >= 0 ? contextIndex + 1 : headline ? 1 : 0).join('\n');
+  if (!text) return undefined;
+  return { author, ...(headline ? { headline } : {}), ...(context ? { context } : {}), text };
+}
+
+function parseVolunteering(item: LinkedInListItem): LinkedInWebVolunteering | undefined {
+  const [role, ...rest] = contentLines(item);
+  if (!role) return undefined;
+
+  const entry: LinkedInWebVolunteering = { role };
+  if (rest[0] && !datesOf(rest[0])) entry.organization = rest.shift();
+  const dates = rest[0] ? datesOf(rest[0]) : undefined;
+  if (dates) {
+    Object.assign(entry, dates);
+    rest.shift();
+  }
+  // "Education", "Science and Technology".
+  if (isLabel(rest[0])) entry.cause = rest.shift();
+  return { ...entry, ...description(rest) };
+}
+
+function parseHonor(item: LinkedInListItem): LinkedInWebHonor | undefined {
+  const [title, ...rest] = contentLines(item);
+  if (!title) return undefined;
+
+  const honor: LinkedInWebHonor = { title };
+  const dated = rest[0] ? datedLine(rest[0]) : undefined;
+  if (dated) {
+    honor.date = dated.date;
+    if (dated.other) honor.issuer = dated.other;
+    rest.shift();
+  } else if (rest[0] && LINKEDIN_LABELS.issuedBy.test(rest[0])) {
+    honor.issuer = rest.shift()!.replace(LINKEDIN_LABELS.issuedBy, '').trim();
+  }
+  return { ...honor, ...description(rest) };
+}
+
+function parsePublication(item: LinkedInListItem): LinkedInWebPublication | undefined {
+  const [title, ...rest] = contentLines(item);
+  if (!title) return undefined;
+
+  const publication: LinkedInWebPublication = { title };
+  const dated = rest[0] ? datedLine(rest[0]) : undefined;
+  if (dated) {
+    publication.date = dated.date;
+    if (dated.other) publication.publisher = dated.other;
+    rest.shift();
+  } else if (rest.length > 1 && isLabel(rest[0])) {
+    publication.publisher = rest.shift();
+  }
+  return { ...publication, ...description(rest), ...(item.links[0] ? { url: item.links[0] } : {}) };
+}
+
+function parseItems<T>(items: LinkedInListItem[] | undefined, parse: (item: LinkedInListItem) => T | undefined): T[] {
+  return (items || []).map(parse).filter((value): value is T => value !== undefined);
+}
+
+export function parseLinkedInSections(items: Partial<Record<LinkedInWebSection, LinkedInListItem[]>>): LinkedInWebSections {
+  const skills: string[] = [];
+  for (const item of items.skills || []) {
+    const [name] = contentLines(item);
+    if (name && !skills.some(skill => skill.toLowerCase() === name.toLowerCase())) skills.push(name);
+  }
+
+  return {
+    projects: parseItems(items.projects, parseProject),
+    recommendations: parseItems(items.recommendations, parseRecommendation),
+    volunteering: parseItems(items.volunteering, parseVolunteering),
+    honors: parseItems(items.honors, parseHonor),
+    publications: parseItems(items.publications, parsePublication),
+    skills
+  };
+}
+
+// Mapping: sections to profile data. Entries are flagged the way PDF ones are (scraped_from_linkedin).
+
+// Two entries with the same name, such as two recommendations by one person, keep both.
+function addEntry<T>(section: Record<string, T>, key: string, entry: T): void {
+  let unique = key;
+  for (let n = 2; unique in section; n++) unique = `${key}_${n}`;
+  section[unique] = entry;
+}
+
+function defined<T extends object>(entry: T): T {
+  return Object.fromEntries(Object.entries(entry).filter(([, value]) => value !== undefined)) as T;
+}
+
+export function linkedInWebToProfileData(web: LinkedInWebSections): IncomingProfileData {
+  const data: IncomingProfileData = {};
+
+  if (web.projects.length > 0) {
+    const projects: Record<string, ProjectEntry> = {};
+    for (const project of web.projects) {
+      addEntry(projects, entryKey(project.name), defined<ProjectEntry>({
+        name: project.name,
+        description: project.description,
+        url: project.url,
+        technologies: project.skills.length > 0 ? project.skills : undefined,
+        start_date: project.start_date,
+        end_date: project.end_date,
+        scraped_from_linkedin: true
+      }));
+    }
+    data.projects = projects;
+  }
+
+  if (web.volunteering.length > 0) {
+    const memberships: Record<string, MembershipEntry> = {};
+    for (const volunteering of web.volunteering) {
+      addEntry(memberships, entryKey(volunteering.organization || '', volunteering.role), defined<MembershipEntry>({
+        organization: volunteering.organization,
+        role: volunteering.role,
+        since: volunteering.start_date,
+        end_date: volunteering.end_date,
+        cause: volunteering.cause,
+        description: volunteering.description,
+        type: 'volunteering',
+        scraped_from_linkedin: true
+      }));
+    }
+    data.memberships = memberships;
+  }
+
+  if (web.honors.length > 0) {
+    const certifications: Record<string, CertificationEntry> = {};
+    for (const honor of web.honors) {
+      addEntry(certifications, entryKey(honor.title), defined<CertificationEntry>({
+        name: honor.title,
+        type: 'award',
+        issuer: honor.issuer,
+        date: honor.date,
+        description: honor.description,
+        scraped_from_linkedin: true
+      }));
+    }
+    data.certifications = certifications;
+  }
+
+  if (web.publications.length > 0) {
+    const research: Record<string, ResearchEntry> = {};
+    for (const publication of web.publications) {
+      addEntry(research, entryKey(publication.title), defined<ResearchEntry>({
+        title: publication.title,
+        institution: publication.publisher,
+        end_date: publication.date,
+        description: publication.description,
+        url: publication.url,
+        type: 'publication',
+        scraped_from_linkedin: true
+      }));
+    }
+    data.academical_research = research;
+  }
+
+  if (web.recommendations.length > 0) {
+    const recommendations: Record<string, RecommendationEntry> = {};
+    for (const recommendation of web.recommendations) {
+      addEntry(recommendations, entryKey(recommendation.author), defined<RecommendationEntry>({
+        author: recommendation.author,
+        author_headline: recommendation.headline,
+        context: recommendation.context,
+        text: recommendation.text,
+        scraped_from_linkedin: true
+      }));
+    }
+    data.recommendations = recommendations;
+  }
+
+  if (web.skills.length > 0) {
+    const skills = classifySkills(web.skills);
+    data.technical_skills = {
+      ...(skills.programming_languages.length > 0 ? { programming_languages: skills.programming_languages } : {}),
+      ...(skills.tools_and_technologies.length > 0 ? { tools_and_technologies: skills.tools_and_technologies } : {})
+    };
+  }
+
+  return data;
+}
+
+export interface LinkedInSectionsMergeOptions {
+  profilePath: string;
+  // Scraped values also replace conflicting values from other sources and unpinned manual edits.
+  overwrite?: boolean;
+  // How many profile versions are kept in the history; unset fields use DEFAULT_HISTORY_RETENTION.
+  history?: Partial<HistoryRetention>;
+}
+
+// Merges scraped sections into the profile as the linkedin_web source and saves a new profile version.
+export function mergeLinkedInSections(web: LinkedInWebProfile, options: LinkedInSectionsMergeOptions): MergeResult {
+  const profile = loadProfile(options.profilePath, { allowMissing: true });
+  const merge = mergeProfile(profile, linkedInWebToProfileData(web), loadProvenance(options.profilePath), {
+    source: 'linkedin_web',
+    detail: web.url,
+    overwrite: options.overwrite
+  });
+  console.log(formatMergeReport(merge));
+
+  const snapshot = saveProfileVersion(options.profilePath, merge.profile, merge.provenance, {
+    source: merge.source,
+    detail: web.url,
+    retention: resolveHistoryRetention(options.history)
+  });
+  console.log(`Profile updated with LinkedIn sections (version v${snapshot.version})`);
+  return merge;
+}
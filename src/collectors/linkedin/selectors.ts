@@ -0,0 +1,95 @@
+// Every LinkedIn selector and URL pattern the collectors depend on. When LinkedIn changes its markup, this is the
+// file to update. Selectors rely on ids, form fields and LinkedIn's component classes rather than visible text, so
+// they work in any interface language; each control lists fallbacks, tried together.
+
+export const LINKEDIN_BASE_URL = 'https://www.linkedin.com';
+
+export const LINKEDIN_PATHS = {
+  login: '/login',
+  profile: (username: string) => `/in/${encodeURIComponent(username)}/`
+};
+
+// Pages LinkedIn sends signed-out visitors to.
+export const SIGNED_OUT_PATH = /^\/(login|uas\/login|authwall|signup|checkpoint\/rm\/sign-in-another-account)/;
+// Security checks: CAPTCHA, verification codes and "confirm it's you" pages.
+export const CHECKPOINT_PATH = /^\/checkpoint\/(challenge|lg\/login-submit|two-step|pin)/;
+
+export const LINKEDIN_SELECTORS = {
+  login: {
+    username: ['#username', 'input[name="session_key"]'],
+    password: ['#password', 'input[name="session_password"]'],
+    submit: ['form[action*="login-submit"] button[type="submit"]', '.login__form_action_container button'],
+    // Shown next to the fields when the email or password is wrong.
+    error: ['#error-for-username:not(.hidden)', '#error-for-password:not(.hidden)', '.alert-content']
+  },
+  checkpoint: {
+    captcha: ['iframe[src*="captcha"]', '#captcha-internal', 'form[action*="captcha"]', '[data-test-id*="captcha"]'],
+    twoFactor: [
+      'input[name="pin"]',
+      '#input__phone_verification_pin',
+      '#input__email_verification_pin',
+      'input[autocomplete="one-time-code"]',
+      'form[action*="two-step"]'
+    ]
+  },
+  profile: {
+    main: ['main'],
+    // The "More" button of the profile's top card; the sticky header repeats it, hence visible ones only.
+    moreActions: [
+      'main .pv-top-card-v2-ctas button.artdeco-dropdown__trigger',
+      'main button.pvs-profile-actions__overflow-toggle',
+      'main section.artdeco-card:first-of-type .artdeco-dropdown__trigger'
+    ],
+    // "Save to PDF", "Salvar como PDF", "Als PDF speichern": the icon, or the one word every locale shares.
+    savePdf: [
+      '.artdeco-dropdown__item:has([data-test-icon*="pdf"])',
+      '.artdeco-dropdown__item:has(li-icon[type*="pdf"])',
+      '.artdeco-dropdown__item[aria-label*="PDF"]',
+      '.artdeco-dropdown__item:has-text("PDF")'
+    ]
+  },
+  // Profile cards and the details pages their "Show all" links lead to share one list markup.
+  lists: {
+    showAll: ['a[id^="navigation-index-see-all"]', '.pvs-list__footer-wrapper a[href*="/details/"]'],
+    // Top-level entries only; entries nest sub-lists (positions at one company, skills of a project).
+    item: [
+      'li.pvs-list__paged-list-item:not(li.pvs-list__paged-list-item li)',
+      'li.artdeco-list__item:not(li.artdeco-list__item li)'
+    ],
+    // The visible text of an entry, one line per span; screen reader copies and button labels are left out.
+    text: ['span[aria-hidden="true"]:not(span[aria-hidden="true"] span):not(button *):not(.optional-action-target-wrapper *)'],
+    link: ['a[href]'],
+    // Infinite scroll stops after a batch and waits for this button.
+    showMoreResults: ['button.scaffold-finite-scroll__load-button'],
+    // "…see more" on descriptions cut after a few lines.
+    seeMoreText: ['button.inline-show-more-text__button', 'a.inline-show-more-text__link'],
+    nextPage: ['button.artdeco-pagination__button--next:not([disabled])']
+  }
+} as const;
+
+export type LinkedInWebSection = 'projects' | 'recommendations' | 'volunteering' | 'honors' | 'publications' | 'skills';
+
+// Each profile card follows an empty anchor with a fixed id: <div id="projects">.
+export const LINKEDIN_SECTION_ANCHORS: Record<LinkedInWebSection, string> = {
+  projects: 'projects',
+  recommendations: 'recommendations',
+  volunteering: 'volunteering_experience',
+  honors: 'honors_and_awards',
+  publications: 'publications',
+  skills: 'skills'
+};
+
+export function sectionCard(anchor: string): string[] {
+  return [`section:has(> #${anchor})`, `section:has(> div > #${anchor})`];
+}
+
+// Words LinkedIn writes around entry values, in the interface languages the parser knows.
+export const LINKEDIN_LABELS = {
+  associated: /^(associated with|associado a|associada a|asociado con|asociada con)\b/i,
+  skills: /^(skills|competências|aptitudes|habilidades)\s*:\s*/i,
+  issuedBy: /^(issued by|emitido por|expedido por|otorgado por)\s+/i,
+  ongoing: /^(present|presente|atual|o momento|actualidad|hoy)$/i,
+  seeMore: /^…?\s*(see more|ver mais|ver más)$/i,
+  // "· 2nd", "· 3º": the connection degree next to a name.
+  degree: /^·\s*\S+$/
+};
@@ -0,0 +1,211 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Browser, BrowserContext, Locator, Page, chromium, errors } from 'playwright';
+import { replayFixtures } from './fixtures';
+import { CHECKPOINT_PATH, LINKEDIN_BASE_URL, LINKEDIN_PATHS, LINKEDIN_SELECTORS, SIGNED_OUT_PATH } from './selectors';
+
+export interface LinkedInCredentials {
+  email: string;
+  password: string;
+  // Public profile handle, as in linkedin.com/in/<username>.
+  username: string;
+}
+
+export interface LinkedInSessionOptions extends LinkedInCredentials {
+  // Saved cookies; a missing or expired session signs in again and replaces it.
+  statePath: string;
+  // Headless runs cannot pass a CAPTCHA or verification code; headed ones wait for the user to.
+  headless?: boolean;
+  // How long a headed run waits for the user to pass a security check (default: 5 minutes).
+  checkpointTimeoutMs?: number;
+  // Answer LinkedIn pages from saved HTML files in this directory instead of the network (see fixtures.ts).
+  fixturesDir?: string;
+}
+
+export type LinkedInPageState = 'signed_in' | 'signed_out' | 'captcha' | 'two_factor' | 'checkpoint';
+
+// A security check the run could not get past.
+export class LinkedInCheckpointError extends Error {
+  public readonly kind: Exclude<LinkedInPageState, 'signed_in' | 'signed_out'>;
+
+  constructor(kind: LinkedInCheckpointError['kind'], url: string, headless: boolean) {
+    const what = kind === 'captcha'
+      ? 'LinkedIn asks for a CAPTCHA'
+      : kind === 'two_factor'
+        ? 'LinkedIn asks for a verification code'
+        : 'LinkedIn stopped the sign-in with a security check';
+    const hint = headless
+      ? 'Run once without --headless and complete it in the browser window; the session is saved for later runs'
+      : 'It was not completed in time; run again and complete it in the browser window';
+    super(`${what} (${url}). ${hint}`);
+    this.name = 'LinkedInCheckpointError';
+    this.kind = kind;
+  }
+}
+
+export class LinkedInLoginError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LinkedInLoginError';
+  }
+}
+
+// A control the page should have but does not, most likely because LinkedIn changed its markup.
+export class LinkedInMarkupError extends Error {
+  constructor(control: string, url: string) {
+    super(`Cannot find the ${control} on ${url}; LinkedIn may have changed its markup (see src/collectors/linkedin/selectors.ts)`);
+    this.name = 'LinkedInMarkupError';
+  }
+}
+
+const DEFAULT_CHECKPOINT_TIMEOUT_MS = 5 * 60 * 1000;
+const NAVIGATION_TIMEOUT_MS = 60000;
+const CONTROL_TIMEOUT_MS = 15000;
+
+// Any of the alternatives, visible.
+export function anyOf(page: Page, selectors: readonly string[]): Locator {
+  return page.locator(selectors.join(', ')).filter({ visible: true }).first();
+}
+
+async function present(page: Page, selectors: readonly string[]): Promise<boolean> {
+  return (await page.locator(selectors.join(', ')).count()) > 0;
+}
+
+export async function waitForControl(page: Page, selectors: readonly string[], control: string, timeout = CONTROL_TIMEOUT_MS): Promise<Locator> {
+  const locator = anyOf(page, selectors);
+  try {
+    await locator.waitFor({ state: 'visible', timeout });
+  } catch (error) {
+    if (error instanceof errors.TimeoutError) throw new LinkedInMarkupError(control, page.url());
+    throw error;
+  }
+  return locator;
+}
+
+// What the page in front of us is, from its URL and the forms on it.
+export async function classifyPage(page: Page): Promise<LinkedInPageState> {
+  const pathname = new URL(page.url()).pathname;
+  if (CHECKPOINT_PATH.test(pathname)) {
+    if (await present(page, LINKEDIN_SELECTORS.checkpoint.captcha)) return 'captcha';
+    if (await present(page, LINKEDIN_SELECTORS.checkpoint.twoFactor)) return 'two_factor';
+    // The login form posts here; staying on it with the form shown means the credentials were refused.
+    return (await present(page, LINKEDIN_SELECTORS.login.password)) ? 'signed_out' : 'checkpoint';
+  }
+  if (SIGNED_OUT_PATH.test(pathname) || await present(page, LINKEDIN_SELECTORS.login.password)) return 'signed_out';
+  return 'signed_in';
+}
+
+// One browser signed in to LinkedIn. Pages are opened through it so an expired session or a security check is
+// noticed wherever it happens.
+export class LinkedInSession {
+  private options: LinkedInSessionOptions;
+  private browser?: Browser;
+  private context?: BrowserContext;
+
+  constructor(options: LinkedInSessionOptions) {
+    this.options = options;
+  }
+
+  get username(): string {
+    return this.options.username;
+  }
+
+  async start(): Promise<void> {
+    this.browser = await chromium.launch({ headless: Boolean(this.options.headless) });
+    const storageState = this.loadState();
+    this.context = await this.browser.newContext(storageState ? { storageState } : {});
+    this.context.setDefaultNavigationTimeout(NAVIGATION_TIMEOUT_MS);
+    if (this.options.fixturesDir) {
+      await replayFixtures(this.context, this.options.fixturesDir);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.browser?.close();
+    this.browser = undefined;
+    this.context = undefined;
+  }
+
+  // Opens a LinkedIn path, signing in again first when the saved session was missing or has expired.
+  async open(pathname: string): Promise<Page> {
+    if (!this.context) throw new Error('LinkedInSession.start() has not been called');
+    const page = await this.context.newPage();
+    await page.goto(`${LINKEDIN_BASE_URL}${pathname}`);
+
+    let state = await classifyPage(page);
+    if (state === 'signed_out') {
+      console.log(fs.existsSync(this.options.statePath) ? 'LinkedIn session expired, signing in again...' : 'Signing in to LinkedIn...');
+      await this.signIn(page);
+      await page.goto(`${LINKEDIN_BASE_URL}${pathname}`);
+      state = await classifyPage(page);
+    }
+    if (state !== 'signed_in') {
+      await this.passCheckpoint(page, state);
+      await this.saveState();
+    }
+    return page;
+  }
+
+  private loadState(): string | undefined {
+    if (!fs.existsSync(this.options.statePath)) return undefined;
+    try {
+      JSON.parse(fs.readFileSync(this.options.statePath, 'utf-8'));
+      console.log('Loaded saved LinkedIn session.');
+      return this.options.statePath;
+    } catch {
+      console.warn(`Ignoring unreadable LinkedIn session ${this.options.statePath}`);
+      return undefined;
+    }
+  }
+
+  private async saveState(): Promise<void> {
+    fs.mkdirSync(path.dirname(this.options.statePath), { recursive: true });
+    await this.context!.storageState({ path: this.options.statePath });
+    console.debug(`LinkedIn session saved to ${this.options.statePath}`);
+  }
+
+  private async signIn(page: Page): Promise<void> {
+    await page.goto(`${LINKEDIN_BASE_URL}${LINKEDIN_PATHS.login}`);
+    await (await waitForControl(page, LINKEDIN_SELECTORS.login.username, 'sign-in email field')).fill(this.options.email);
+    await (await waitForControl(page, LINKEDIN_SELECTORS.login.password, 'sign-in password field')).fill(this.options.password);
+    await Promise.all([
+      // A refused sign-in may stay on the login page; the form is checked below either way.
+      page.waitForURL(url => !url.pathname.startsWith(LINKEDIN_PATHS.login), { timeout: NAVIGATION_TIMEOUT_MS }).catch(error => {
+        if (!(error instanceof errors.TimeoutError)) throw error;
+      }),
+      (await waitForControl(page, LINKEDIN_SELECTORS.login.submit, 'sign-in button')).click()
+    ]);
+    await page.waitForLoadState();
+
+    const state = await classifyPage(page);
+    if (state === 'signed_out') {
+      const error = anyOf(page, LINKEDIN_SELECTORS.login.error);
+      const reason = (await error.count()) > 0 ? (await error.innerText()).trim() : 'the sign-in form came back';
+      throw new LinkedInLoginError(`LinkedIn refused the sign-in for ${this.options.email}: ${reason}`);
+    }
+    if (state !== 'signed_in') {
+      await this.passCheckpoint(page, state);
+    }
+    console.log('Login successful.');
+    await this.saveState();
+  }
+
+  // Headed runs give the user time to solve the check in the browser window; headless ones cannot.
+  private async passCheckpoint(page: Page, state: LinkedInPageState): Promise<void> {
+    const kind = state as LinkedInCheckpointError['kind'];
+    if (this.options.headless) {
+      throw new LinkedInCheckpointError(kind, page.url(), true);
+    }
+
+    console.log(`${kind === 'captcha' ? 'CAPTCHA' : kind === 'two_factor' ? 'Verification code' : 'Security check'} required: complete it in the browser window...`);
+    try {
+      await page.waitForURL(
+        url => !CHECKPOINT_PATH.test(url.pathname) && !SIGNED_OUT_PATH.test(url.pathname),
+        { timeout: this.options.checkpointTimeoutMs ?? DEFAULT_CHECKPOINT_TIMEOUT_MS }
+      );
+    } catch (error) {
+      if (error instanceof errors.TimeoutError) throw new LinkedInCheckpointError(kind, page.url(), false);
+      throw error;
+    }
+  }
+}
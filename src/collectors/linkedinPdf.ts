@@ -0,0 +1,383 @@
+// Reads the text of LinkedIn's "Save to PDF" export, in English or Portuguese. The export has a sidebar
+// (Contact, Top Skills, Languages, Certifications...) followed by the main column: name, headline,
+// location, Summary, Experience and Education. pdf-parse flattens it into one line per text run, so
+// sections are found by their headings and entries by the date lines LinkedIn writes under each title.
+
+import { LanguageLevel, parseProfileDate } from '../profile';
+
+export type LinkedInSection =
+  | 'contact'
+  | 'topSkills'
+  | 'languages'
+  | 'certifications'
+  | 'honors'
+  | 'publications'
+  | 'patents'
+  | 'summary'
+  | 'experience'
+  | 'volunteering'
+  | 'education';
+
+export interface LinkedInPosition {
+  title: string;
+  company: string;
+  start_date?: string;
+  end_date?: string;
+  // As printed by LinkedIn, e.g. "2 years 3 months" or "1 ano 2 meses".
+  duration?: string;
+  location?: string;
+  description?: string;
+  // Lines written as bullets in the description.
+  bullets: string[];
+}
+
+export interface LinkedInLanguage {
+  name: string;
+  // The label as printed, e.g. "Full Professional" or "Competência profissional completa".
+  proficiency?: string;
+  level?: LanguageLevel;
+}
+
+export interface LinkedInEducation {
+  institution: string;
+  degree?: string;
+  field?: string;
+  start_date?: string;
+  end_date?: string;
+}
+
+export interface LinkedInPdfProfile {
+  name?: string;
+  headline?: string;
+  location?: string;
+  contact: string[];
+  topSkills: string[];
+  languages: LinkedInLanguage[];
+  certifications: string[];
+  summary?: string;
+  experience: LinkedInPosition[];
+  education: LinkedInEducation[];
+}
+
+const SECTION_HEADINGS: Record<LinkedInSection, string[]> = {
+  contact: ['contact', 'contato'],
+  topSkills: ['top skills', 'principais competências'],
+  languages: ['languages', 'idiomas'],
+  certifications: ['certifications', 'certificações'],
+  honors: ['honors-awards', 'honors & awards', 'prêmios', 'prêmios e reconhecimentos'],
+  publications: ['publications', 'publicações'],
+  patents: ['patents', 'patentes'],
+  summary: ['summary', 'resumo'],
+  experience: ['experience', 'experiência'],
+  volunteering: ['volunteer experience', 'trabalho voluntário'],
+  education: ['education', 'formação acadêmica']
+};
+
+// The main column starts with the name, headline and location right before the first of these.
+const MAIN_SECTIONS: LinkedInSection[] = ['summary', 'experience', 'education'];
+
+const PAGE_FOOTER = /^(page|página)\s+\d+\s+(of|de)\s+\d+$/i;
+const DATE = String.raw`(?:[A-Za-zÀ-ú]+\.?(?:\s+de)?\s+)?\d{4}`;
+const ONGOING = String.raw`present|presente|atual|o momento`;
+const DATE_RANGE = new RegExp(String.raw`^(${DATE})\s*[-–]\s*(${DATE}|${ONGOING})(?:\s*\(([^)]*)\))?$`, 'i');
+const DURATION_UNIT = String.raw`(?:years?|anos?|months?|meses|mês)`;
+const DURATION = new RegExp(String.raw`^(?:less than a year|menos de um ano|\d+\s+${DURATION_UNIT}(?:\s+\d+\s+${DURATION_UNIT})?)$`, 'i');
+// "Bachelor's degree, Computer Science · (2015 - 2019)"
+const EDUCATION_DATES = new RegExp(String.raw`\s*·?\s*\((${DATE})(?:\s*[-–]\s*(${DATE}|${ONGOING}))?\)\s*$`, 'i');
+const LOCATION_HINT = /,|\b(remote|remoto|híbrido|hybrid|on-site|presencial|brasil|brazil|portugal|area|área|região|region)\b/i;
+// Checked in order: "limited" and "full" labels also contain "professional".
+const LANGUAGE_LEVEL_PATTERNS: Array<[LanguageLevel, RegExp]> = [
+  ['native_or_bilingual', /nativ|bilingu|bilíngue/i],
+  ['limited_working', /limited|limitad/i],
+  ['full_professional', /full|complet|plena/i],
+  ['professional_working', /professional|profissional/i],
+  ['elementary', /elementary|elementar|básic|basic/i]
+];
+const BULLET = /^[•·▪◦*-]\s*/;
+// Words a wrapped line can end with, so the next line continues it.
+const CONTINUES = /([|,&/:–-]|\b(at|of|and|for|in|to|with|the|by|on|a|an|em|na|no|de|da|do|e|para|com|o|os|as|ao|pelo|pela))$/i;
+
+function normalize(line: string): string {
+  return line.replace(/\s+/g, ' ').trim();
+}
+
+function sectionOf(line: string): LinkedInSection | undefined {
+  const lower = line.toLowerCase();
+  return (Object.keys(SECTION_HEADINGS) as LinkedInSection[]).find(section => SECTION_HEADINGS[section].includes(lower));
+}
+
+function parenthesesOpen(text: string): boolean {
+  return (text.match(/\(/g) || []).length > (text.match(/\)/g) || []).length;
+}
+
+// The sidebar is narrow, so long items wrap onto several lines.
+function joinWrappedItems(lines: string[]): string[] {
+  const items: string[] = [];
+  for (const line of lines) {
+    const previous = items[items.length - 1];
+    if (previous !== undefined && (parenthesesOpen(previous) || CONTINUES.test(previous) || /^[a-zà-ú(]/.test(line))) {
+      items[items.length - 1] = `${previous} ${line}`;
+    } else {
+      items.push(line);
+    }
+  }
+  return items;
+}
+
+// "www.linkedin.com/in/jane-doe (LinkedIn)" becomes "https://www.linkedin.com/in/jane-doe"; labels go.
+function parseContact(lines: string[]): string[] {
+  const joined: string[] = [];
+  for (const line of lines) {
+    const previous = joined[joined.length - 1];
+    // Long URLs wrap before their "(LinkedIn)" label
+    if (previous !== undefined && !/\([^)]*\)$/.test(previous) && !/@/.test(previous) && /^\S+( \([^)]*\))?$/.test(line) && /[/-]$/.test(previous)) {
+      joined[joined.length - 1] = previous + line;
+    } else {
+      joined.push(line);
+    }
+  }
+
+  return joined
+    .map(line => line.replace(/\s*\([^)]*\)$/, '').trim())
+    .filter(Boolean)
+    .map(value => {
+      if (/@/.test(value) || /^\+?[\d\s().-]{8,}$/.test(value)) return value;
+      if (/^[\w.-]+\.[a-z]{2,}(\/\S*)?$/i.test(value)) return `https://${value}`;
+      return value;
+    });
+}
+
+// "English (Full Professional)" or "Inglês (Competência profissional completa)"; the level is optional.
+export function parseLanguageLine(line: string): LinkedInLanguage {
+  const match = line.match(/^(.+?)\s*\(([^)]+)\)\s*$/);
+  if (!match) return { name: line.trim() };
+
+  const proficiency = match[2].trim();
+  const level = LANGUAGE_LEVEL_PATTERNS.find(([, pattern]) => pattern.test(proficiency));
+  return { name: match[1].trim(), proficiency, ...(level ? { level: level[0] } : {}) };
+}
+
+function isDuration(line: string): boolean {
+  return DURATION.test(line.replace(/^\(|\)$/g, ''));
+}
+
+function durationMonths(duration: string | undefined): number | undefined {
+  if (!duration) return undefined;
+  if (/less than|menos de/i.test(duration)) return 1;
+  const years = duration.match(/(\d+)\s+(years?|anos?)/i);
+  const months = duration.match(/(\d+)\s+(months?|meses|mês)/i);
+  if (!years && !months) return undefined;
+  return (years ? Number(years[1]) * 12 : 0) + (months ? Number(months[1]) : 0);
+}
+
+function monthIndex(value: string | undefined): number | undefined {
+  const date = parseProfileDate(value);
+  return date ? date.year * 12 + (date.month || 1) - 1 : undefined;
+}
+
+function descriptionOf(lines: string[]): { description?: string; bullets: string[] } {
+  const paragraphs: string[] = [];
+  const bullets: string[] = [];
+  let inBullet = false;
+
+  for (const line of lines) {
+    if (BULLET.test(line)) {
+      bullets.push(line.replace(BULLET, ''));
+      inBullet = true;
+    } else if (inBullet && (/^[a-zà-ú]/.test(line) || CONTINUES.test(bullets[bullets.length - 1]))) {
+      bullets[bullets.length - 1] += ` ${line}`;
+    } else {
+      inBullet = false;
+      const previous = paragraphs[paragraphs.length - 1];
+      // Sentences that end a line start a new paragraph; anything else is a wrapped line
+      if (previous !== undefined && !/[.!?:]$/.test(previous)) {
+        paragraphs[paragraphs.length - 1] = `${previous} ${line}`;
+      } else {
+        paragraphs.push(line);
+      }
+    }
+  }
+
+  return { ...(paragraphs.length > 0 ? { description: paragraphs.join('\n') } : {}), bullets };
+}
+
+// Positions are anchored on their date lines: the title is right above, the company above that.
+// Several roles at one company share a header with the company name and its total duration, and
+// the roles below it belong to that company until their dates cover that duration.
+function parseExperience(lines: string[]): LinkedInPosition[] {
+  const dateLines = lines.map((line, index) => (DATE_RANGE.test(line) ? index : -1)).filter(index => index > 0);
+  const positions: LinkedInPosition[] = [];
+  let group: { company: string; months: number; start: number; end: number } | undefined;
+  const headerStarts: number[] = [];
+
+  for (const index of dateLines) {
+    const [, start, end, duration] = lines[index].match(DATE_RANGE)!;
+    let company: string;
+    let headerStart = index - 1;
+
+    if (index >= 3 && isDuration(lines[index - 2])) {
+      company = lines[index - 3];
+      headerStart = index - 3;
+      group = { company, months: durationMonths(lines[index - 2]) || 0, start: Infinity, end: -Infinity };
+    } else if (group) {
+      company = group.company;
+    } else {
+      company = index >= 2 ? lines[index - 2] : '';
+      headerStart = Math.max(0, index - 2);
+    }
+
+    if (group) {
+      const from = monthIndex(start);
+      const length = durationMonths(duration);
+      if (from !== undefined) {
+        group.start = Math.min(group.start, from);
+        group.end = Math.max(group.end, length !== undefined ? from + length - 1 : monthIndex(end) ?? from);
+      }
+    }
+
+    headerStarts.push(headerStart);
+    positions.push({
+      title: lines[index - 1],
+      company,
+      start_date: start,
+      end_date: end,
+      ...(duration ? { duration } : {}),
+      bullets: []
+    });
+
+    // LinkedIn rounds durations, so a month short still closes the group
+    if (group && group.end - group.start + 2 >= group.months) {
+      group = undefined;
+    }
+  }
+
+  // Bodies run from the line after the date to the next header: location first, when there is one
+  positions.forEach((position, positionIndex) => {
+    const bodyStart = dateLines[positionIndex] + 1;
+    const bodyEnd = positionIndex + 1 < positions.length ? headerStarts[positionIndex + 1] : lines.length;
+    const body = lines.slice(bodyStart, bodyEnd);
+
+    if (body.length > 0 && body[0].length <= 80 && LOCATION_HINT.test(body[0]) && !/[.!?]$/.test(body[0])) {
+      position.location = body.shift();
+    }
+    const { description, bullets } = descriptionOf(body);
+    if (description) position.description = description;
+    position.bullets = bullets;
+  });
+
+  return positions;
+}
+
+function splitDegree(text: string): Pick<LinkedInEducation, 'degree' | 'field'> {
+  const comma = text.indexOf(', ');
+  if (comma === -1) return text ? { degree: text } : {};
+  return { degree: text.slice(0, comma).trim(), field: text.slice(comma + 2).trim() };
+}
+
+// Each entry is the institution followed by the degree line, which ends with "· (start - end)".
+function parseEducation(lines: string[]): LinkedInEducation[] {
+  const entries: LinkedInEducation[] = [];
+  let pending: string[] = [];
+
+  const flush = (dates?: RegExpMatchArray) => {
+    const [institution, ...rest] = pending;
+    pending = [];
+    if (!institution) return;
+    entries.push({
+      institution,
+      ...splitDegree(rest.join(' ').trim()),
+      ...(dates?.[1] ? { start_date: dates[1] } : {}),
+      ...(dates?.[2] ? { end_date: dates[2] } : {})
+    });
+  };
+
+  for (const line of lines) {
+    const dates = line.match(EDUCATION_DATES);
+    if (dates) {
+      pending.push(line.replace(EDUCATION_DATES, '').trim());
+      flush(dates);
+    } else {
+      pending.push(line);
+    }
+  }
+
+  // Entries without dates come in institution/degree pairs
+  while (pending.length > 0) {
+    const rest = pending.splice(2);
+    flush();
+    pending = rest;
+  }
+  return entries;
+}
+
+// Name, headline (which may wrap) and location are the last lines before the first main section.
+function splitIdentity(lines: string[]): { rest: string[]; name?: string; headline?: string; location?: string } {
+  const remaining = [...lines];
+  let location: string | undefined;
+  if (remaining.length >= 3 && LOCATION_HINT.test(remaining[remaining.length - 1])) {
+    location = remaining.pop();
+  }
+
+  const headlineLines = [remaining.pop()];
+  const last = remaining[remaining.length - 1];
+  if (last !== undefined && remaining.length >= 2 && (CONTINUES.test(last) || /^[a-zà-ú]/.test(headlineLines[0] || ''))) {
+    headlineLines.unshift(remaining.pop());
+  }
+  const name = remaining.pop();
+
+  return {
+    rest: remaining,
+    ...(name ? { name } : {}),
+    ...(headlineLines[0] ? { headline: headlineLines.join(' ') } : {}),
+    ...(location ? { location } : {})
+  };
+}
+
+export function parseLinkedInPdfText(text: string): LinkedInPdfProfile {
+  const lines = text.split('\n').map(normalize).filter(line => line && !PAGE_FOOTER.test(line));
+
+  const sections: Array<{ section?: LinkedInSection; lines: string[] }> = [{ lines: [] }];
+  for (const line of lines) {
+    const section = sectionOf(line);
+    if (section) {
+      sections.push({ section, lines: [] });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+
+  const profile: LinkedInPdfProfile = {
+    contact: [],
+    topSkills: [],
+    languages: [],
+    certifications: [],
+    experience: [],
+    education: []
+  };
+
+  const firstMain = sections.findIndex(part => part.section && MAIN_SECTIONS.includes(part.section));
+  if (firstMain > 0) {
+    const before = sections[firstMain - 1];
+    const identity = splitIdentity(before.lines);
+    before.lines = identity.rest;
+    if (identity.name) profile.name = identity.name;
+    if (identity.headline) profile.headline = identity.headline;
+    if (identity.location) profile.location = identity.location;
+  }
+
+  for (const { section, lines: sectionLines } of sections) {
+    if (section === 'contact') profile.contact.push(...parseContact(sectionLines));
+    if (section === 'topSkills') profile.topSkills.push(...joinWrappedItems(sectionLines));
+    if (section === 'languages') profile.languages.push(...joinWrappedItems(sectionLines).map(parseLanguageLine));
+    if (section === 'certifications') profile.certifications.push(...joinWrappedItems(sectionLines));
+    if (section === 'summary') {
+      const { description, bullets } = descriptionOf(sectionLines);
+      const summary = [description, ...bullets.map(bullet => `- ${bullet}`)].filter(Boolean).join('\n');
+      if (summary) profile.summary = summary;
+    }
+    if (section === 'experience') profile.experience.push(...parseExperience(sectionLines));
+    if (section === 'education') profile.education.push(...parseEducation(sectionLines));
+  }
+
+  return profile;
+}
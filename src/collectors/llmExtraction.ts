@@ -0,0 +1,373 @@
+import { LLMClient } from '../llm';
+import {
+  LANGUAGE_LEVELS,
+  ProfileData,
+  ValidationIssue,
+  assertValidProfile,
+  createEmptyProfile,
+  entryKey
+} from '../profile';
+
+type JsonSchema = Record<string, unknown>;
+
+// Every extracted value comes wrapped with how sure the model is and the text it was read from.
+export interface FieldAnnotation {
+  // Profile path, e.g. "professional_experience.acme_engineer.start_date" or "contact[1]"; list entries left out
+  // entirely keep their position in the reply: "professional_experience[dropped:0].title".
+  path: string;
+  value: string;
+  // From 0 to 1, as reported by the model.
+  confidence: number;
+  // Shortest passage of the PDF text that supports the value, quoted verbatim.
+  source: string | null;
+  // Whether the quoted passage actually occurs in the text; false hints at an invented value.
+  source_found: boolean;
+  // False when the confidence is below the minimum and the value was left out of the profile.
+  kept: boolean;
+}
+
+export interface LLMExtractionResult {
+  // Filled over an empty profile and validated.
+  profile: ProfileData;
+  fields: FieldAnnotation[];
+  // Parts of the reply that did not match the schema and were skipped.
+  issues: ValidationIssue[];
+  // "<provider>/<model>"
+  model: string;
+  extracted_at: string;
+}
+
+export interface LLMExtractionOptions {
+  // Values reported with less confidence are annotated but not added to the profile.
+  minConfidence?: number;
+}
+
+export class LLMExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LLMExtractionError';
+  }
+}
+
+const DEFAULT_MIN_CONFIDENCE = 0.5;
+// Longer texts are cut; a CV rarely gets anywhere near this.
+const MAX_TEXT_CHARS = 60000;
+
+// Leaf schemas whose values are {value, confidence, source}; the reply is walked alongside the schema.
+const ANNOTATED = new WeakSet<JsonSchema>();
+
+// Strict structured output wants every property required and no extra ones; optional means nullable.
+function object(properties: Record<string, JsonSchema>): JsonSchema {
+  return { type: 'object', properties, required: Object.keys(properties), additionalProperties: false };
+}
+
+function list(items: JsonSchema): JsonSchema {
+  return { type: 'array', items };
+}
+
+function annotated(value: JsonSchema): JsonSchema {
+  const schema = object({
+    value,
+    confidence: { type: 'number', description: 'from 0 (guess) to 1 (stated literally)' },
+    source: { type: ['string', 'null'], description: 'shortest exact quote from the text that supports the value' }
+  });
+  ANNOTATED.add(schema);
+  return schema;
+}
+
+const field = (): JsonSchema => annotated({ type: ['string', 'null'] });
+const fields = (): JsonSchema => list(annotated({ type: 'string' }));
+const entry = (names: string[], lists: string[] = []): JsonSchema => object({
+  ...Object.fromEntries(names.map(name => [name, field()])),
+  ...Object.fromEntries(lists.map(name => [name, fields()]))
+});
+
+// Mirrors ProfileData. Record sections become arrays, because strict schemas cannot have free-form keys;
+// keys are derived from the entries afterwards. Collector-owned sections (GitHub) are left out.
+const RECORD_SECTIONS = {
+  professional_experience: {
+    schema: entry(['title', 'company', 'location', 'start_date', 'end_date', 'description'], ['responsibilities', 'achievements', 'technologies']),
+    key: (item: Record<string, unknown>) => [item.company, item.title]
+  },
+  superior_education: {
+    schema: entry(['degree', 'field', 'institution', 'location', 'start_date', 'end_date', 'status']),
+    key: (item: Record<string, unknown>) => [item.field || item.degree, item.institution]
+  },
+  certifications: {
+    schema: entry(['name', 'issuer', 'date', 'url', 'credential_id']),
+    key: (item: Record<string, unknown>) => [item.name]
+  },
+  projects: {
+    schema: entry(['name', 'description', 'url', 'start_date', 'end_date'], ['technologies']),
+    key: (item: Record<string, unknown>) => [item.name]
+  },
+  academical_research: {
+    schema: entry(['title', 'institution', 'role', 'advisor', 'start_date', 'end_date', 'description'], ['topics']),
+    key: (item: Record<string, unknown>) => [item.title, item.institution]
+  },
+  memberships: {
+    schema: entry(['organization', 'role', 'since']),
+    key: (item: Record<string, unknown>) => [item.organization]
+  }
+};
+
+type RecordSection = keyof typeof RECORD_SECTIONS;
+
+// Entries without these fields are dropped: the profile schema requires them.
+const REQUIRED_FIELDS: Partial<Record<RecordSection, string>> = { certifications: 'name' };
+
+export const PROFILE_EXTRACTION_SCHEMA: JsonSchema = object({
+  name: field(),
+  headline: field(),
+  location: field(),
+  summary: field(),
+  contact: fields(),
+  languages: list(object({
+    name: field(),
+    proficiency: field(),
+    level: annotated({ type: ['string', 'null'], enum: [...LANGUAGE_LEVELS, null] })
+  })),
+  ...Object.fromEntries(Object.entries(RECORD_SECTIONS).map(([section, { schema }]) => [section, list(schema)])),
+  technical_skills: entry([], ['programming_languages', 'tools_and_technologies', 'operating_systems', 'areas_of_expertise'])
+});
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isUnder(path: string, prefix: string): boolean {
+  return path === prefix || path.startsWith(`${prefix}.`) || path.startsWith(`${prefix}[`);
+}
+
+function normalizeSpan(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+// The reply as JSON, without the Markdown fences or prose some models add around it.
+export function parseJsonReply(content: string): unknown {
+  const unfenced = content.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  if (start < 0 || end < start) {
+    throw new LLMExtractionError('The LLM reply contains no JSON object');
+  }
+  try {
+    return JSON.parse(unfenced.slice(start, end + 1));
+  } catch (error) {
+    throw new LLMExtractionError(`The LLM reply is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+class ReplyReader {
+  public readonly fields: FieldAnnotation[] = [];
+  public readonly issues: ValidationIssue[] = [];
+  private normalizedText: string;
+
+  constructor(text: string, private minConfidence: number) {
+    this.normalizedText = normalizeSpan(text);
+  }
+
+  // Plain value of `raw` with the annotations taken off; undefined when nothing was extracted.
+  public read(raw: unknown, schema: JsonSchema, path: string): unknown {
+    if (ANNOTATED.has(schema)) return this.readLeaf(raw, schema, path);
+    if (raw === undefined || raw === null) return undefined;
+
+    if (schema.type === 'array') {
+      if (!Array.isArray(raw)) {
+        this.issues.push({ path, message: `expected array, got ${typeof raw}` });
+        return undefined;
+      }
+      // Kept items are renumbered. Left out ones move to "<path>[dropped:<index>]", their position in the
+      // reply, so the next kept item cannot take over their annotations.
+      const items: unknown[] = [];
+      raw.forEach((item, index) => {
+        const value = this.read(item, schema.items as JsonSchema, `${path}[${index}]`);
+        if (value === undefined) {
+          this.rekey(`${path}[${index}]`, `${path}[dropped:${index}]`);
+          return;
+        }
+        this.rekey(`${path}[${index}]`, `${path}[${items.length}]`);
+        items.push(value);
+      });
+      return items.length > 0 ? items : undefined;
+    }
+
+    if (!isPlainObject(raw)) {
+      this.issues.push({ path, message: `expected object, got ${Array.isArray(raw) ? 'array' : typeof raw}` });
+      return undefined;
+    }
+    const properties = schema.properties as Record<string, JsonSchema>;
+    const result: Record<string, unknown> = {};
+    for (const [key, propertySchema] of Object.entries(properties)) {
+      const value = this.read(raw[key], propertySchema, path ? `${path}.${key}` : key);
+      if (value !== undefined) result[key] = value;
+    }
+    return Object.keys(result).length > 0 ? result : undefined;
+  }
+
+  // Annotation paths of list entries are rewritten once the entry's record key is known.
+  public rekey(from: string, to: string): void {
+    for (const annotation of this.fields) {
+      if (isUnder(annotation.path, from)) {
+        annotation.path = to + annotation.path.slice(from.length);
+      }
+    }
+  }
+
+  // Marks the values of an entry that could not be added as dropped.
+  public forget(prefix: string): void {
+    for (const annotation of this.fields) {
+      if (isUnder(annotation.path, prefix)) annotation.kept = false;
+    }
+  }
+
+  private readLeaf(raw: unknown, schema: JsonSchema, path: string): string | undefined {
+    if (raw === undefined || raw === null) return undefined;
+    if (!isPlainObject(raw)) {
+      this.issues.push({ path, message: 'expected {value, confidence, source}' });
+      return undefined;
+    }
+
+    const { value, confidence, source } = raw;
+    if (value === null || value === undefined || (typeof value === 'string' && !value.trim())) return undefined;
+    const allowed = (schema.properties as Record<string, JsonSchema>).value.enum as unknown[] | undefined;
+    if (typeof value !== 'string' || (allowed && !allowed.includes(value))) {
+      this.issues.push({ path, message: allowed ? `expected one of ${allowed.filter(Boolean).join(', ')}` : 'expected a string value' });
+      return undefined;
+    }
+
+    const score = typeof confidence === 'number' && Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0;
+    const quote = typeof source === 'string' && source.trim() ? source.trim() : null;
+    const kept = score >= this.minConfidence;
+    this.fields.push({
+      path,
+      value: value.trim(),
+      confidence: score,
+      source: quote,
+      source_found: quote !== null && this.normalizedText.includes(normalizeSpan(quote)),
+      kept
+    });
+    return kept ? value.trim() : undefined;
+  }
+}
+
+function buildPrompt(text: string): string {
+  return `Extract the CV data in the text below into the JSON schema you were given.
+
+Rules:
+1. Use only what the text states. Never invent employers, dates, numbers or skills; leave a field null instead.
+2. Every value is an object {"value", "confidence", "source"}: confidence is 1 when the text states the value literally
+   and lower the more you had to infer; source is the shortest passage of the text the value comes from, copied exactly.
+3. Keep the language of the text. Dates as written ("April 2024", "03/2021", "Present") or as "YYYY-MM".
+4. contact holds e-mail addresses, phone numbers and profile URLs. languages are spoken languages; programming
+   languages go to technical_skills.programming_languages.
+5. One professional_experience entry per role; bullets become responsibilities, measurable results achievements.
+
+Schema:
+${JSON.stringify(PROFILE_EXTRACTION_SCHEMA)}
+
+Text:
+"""
+${text.slice(0, MAX_TEXT_CHARS)}
+"""`;
+}
+
+// Reads any CV or profile PDF text into profile data with the LLM. The reply is constrained by a strict
+// schema where the provider supports it, then checked again here: values outside the schema are reported
+// in `issues`, every value gets an annotation and the resulting profile is validated.
+export async function extractProfileWithLLM(
+  llm: LLMClient,
+  text: string,
+  options: LLMExtractionOptions = {}
+): Promise<LLMExtractionResult> {
+  const result = await llm.complete({
+    messages: [
+      {
+        role: 'system',
+        content: 'You extract structured data from CVs and professional profiles. You reply with JSON only and never state anything the document does not say.'
+      },
+      { role: 'user', content: buildPrompt(text) }
+    ],
+    temperature: 0,
+    jsonSchema: { name: 'profile_extraction', schema: PROFILE_EXTRACTION_SCHEMA }
+  });
+
+  const reply = parseJsonReply(result.content);
+  if (!isPlainObject(reply)) {
+    throw new LLMExtractionError('The LLM reply is not a JSON object');
+  }
+
+  const reader = new ReplyReader(text, options.minConfidence ?? DEFAULT_MIN_CONFIDENCE);
+  const data = (reader.read(reply, PROFILE_EXTRACTION_SCHEMA, '') || {}) as Record<string, unknown>;
+  const profile = createEmptyProfile();
+
+  for (const key of ['name', 'headline', 'location', 'summary'] as const) {
+    if (typeof data[key] === 'string') profile[key] = data[key] as string;
+  }
+  if (data.contact) profile.contact = data.contact as string[];
+
+  const languages = (data.languages || []) as Array<Record<string, string>>;
+  languages.forEach((language, index) => {
+    if (!language.name) {
+      reader.forget(`languages[${index}]`);
+      return;
+    }
+    profile.languages.push({
+      name: language.name,
+      proficiency: language.proficiency || '',
+      ...(language.level ? { level: language.level as ProfileData['languages'][number]['level'] } : {}),
+      context: 'Extracted from PDF'
+    });
+  });
+
+  for (const [section, { key }] of Object.entries(RECORD_SECTIONS) as Array<[RecordSection, typeof RECORD_SECTIONS[RecordSection]]>) {
+    const entries: Record<string, Record<string, unknown>> = {};
+    const items = (data[section] || []) as Array<Record<string, unknown>>;
+    items.forEach((item, index) => {
+      const itemPath = `${section}[${index}]`;
+      const required = REQUIRED_FIELDS[section];
+      const base = entryKey(...key(item).filter((part): part is string => typeof part === 'string'));
+      if ((required && !item[required]) || !base) {
+        reader.forget(itemPath);
+        return;
+      }
+      let recordKey = base;
+      for (let suffix = 2; entries[recordKey]; suffix++) recordKey = `${base}_${suffix}`;
+      entries[recordKey] = { ...item, extracted_from_pdf: true };
+      reader.rekey(itemPath, `${section}.${recordKey}`);
+    });
+    if (Object.keys(entries).length > 0) {
+      (profile as unknown as Record<string, unknown>)[section] = entries;
+    }
+  }
+
+  const skills = data.technical_skills as Record<string, string[]> | undefined;
+  if (skills) {
+    profile.technical_skills = {
+      operating_systems: skills.operating_systems || [],
+      programming_languages: skills.programming_languages || [],
+      areas_of_expertise: skills.areas_of_expertise || [],
+      ...(skills.tools_and_technologies ? { tools_and_technologies: skills.tools_and_technologies } : {})
+    };
+  }
+
+  assertValidProfile(profile, `LLM extraction (${llm.label})`);
+  return {
+    profile,
+    fields: reader.fields,
+    issues: reader.issues,
+    model: llm.label,
+    extracted_at: new Date().toISOString()
+  };
+}
+
+// One line per annotated value for previews: confidence, whether the quote was found, path and value.
+export function formatFieldAnnotations(fields: FieldAnnotation[]): string {
+  return fields
+    .map(annotation => {
+      const flags = [annotation.source_found ? 'quoted' : 'unquoted', ...(annotation.kept ? [] : ['dropped'])].join(', ');
+      const value = annotation.value.length > 60 ? `${annotation.value.slice(0, 57)}...` : annotation.value;
+      return `${annotation.confidence.toFixed(2)}  ${annotation.path}: ${value} (${flags})`;
+    })
+    .join('\n');
+}
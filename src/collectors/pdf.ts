@@ -0,0 +1,390 @@
+import fs from 'fs';
+import path from 'path';
+import pdf from 'pdf-parse';
+import { LLMClient } from '../llm';
+import {
+  ProfileData,
+  CertificationEntry,
+  EducationEntry,
+  ExperienceEntry,
+  HistoryRetention,
+  IncomingProfileData,
+  MergeResult,
+  ProfileSnapshot,
+  entryKey,
+  formatMergeReport,
+  loadProfile,
+  loadProvenance,
+  mergeProfile,
+  resolveHistoryRetention,
+  saveProfileVersion
+} from '../profile';
+import { DEFAULT_PROFILE_PATH, DEFAULT_PROFILE_PDF_PATH } from '../paths';
+import { parseLinkedInPdfText } from './linkedinPdf';
+import { LLMExtractionResult, extractProfileWithLLM, formatFieldAnnotations } from './llmExtraction';
+
+// Matched on word boundaries. Names that are also common words ("Go", "R") must be capitalized and
+// not start a sentence; "R&D" is not R.
+const PROGRAMMING_LANGUAGES: Array<[string, RegExp]> = [
+  ['JavaScript', /\bjavascript\b/i],
+  ['TypeScript', /\btypescript\b/i],
+  ['Python', /\bpython\b/i],
+  ['Java', /\bjava\b/i],
+  ['C++', /(^|[^\w+])c\+\+(?![\w+])/i],
+  ['C#', /(^|[^\w#])c#(?![\w#])/i],
+  ['Ruby', /\bruby\b/i],
+  ['Go', /\bgolang\b|(?<![.!?]\s|^)\bGo\b(?![-'’&])/m],
+  ['Rust', /\brust\b/i],
+  ['PHP', /\bphp\b/i],
+  ['Swift', /\bswift\b/i],
+  ['Kotlin', /\bkotlin\b/i],
+  ['Scala', /\bscala\b/i],
+  ['R', /(?<![.!?]\s|^)\bR\b(?![-'’&.])/m],
+  ['MATLAB', /\bmatlab\b/i],
+  ['HTML', /\bhtml5?\b/i],
+  ['CSS', /\bcss3?\b/i],
+  ['SQL', /\bsql\b/i],
+  ['Bash', /\bbash\b/i],
+  ['Shell', /\bshell script/i]
+];
+
+const TOOLS: Array<[string, RegExp]> = [
+  ['Docker', /\bdocker\b/i],
+  ['Kubernetes', /\bkubernetes\b/i],
+  ['AWS', /\baws\b/i],
+  ['Azure', /\bazure\b/i],
+  ['GCP', /\bgcp\b/i],
+  ['Linux', /\blinux\b/i],
+  ['Windows', /\bwindows\b/i],
+  ['Git', /\bgit\b/i],
+  ['Jenkins', /\bjenkins\b/i],
+  ['Terraform', /\bterraform\b/i],
+  ['Ansible', /\bansible\b/i],
+  ['MongoDB', /\bmongodb\b/i],
+  ['PostgreSQL', /\bpostgres(ql)?\b/i],
+  ['MySQL', /\bmysql\b/i],
+  ['Redis', /\bredis\b/i],
+  ['Elasticsearch', /\belasticsearch\b/i],
+  ['Nginx', /\bnginx\b/i],
+  ['Apache', /\bapache\b/i]
+];
+
+function detectKeywords(text: string, keywords: Array<[string, RegExp]>): string[] {
+  return keywords.filter(([, pattern]) => pattern.test(text)).map(([name]) => name);
+}
+
+// Skills listed one per entry, as on LinkedIn: known programming languages, and everything else as tools and
+// technologies. The sentence rules for "Go" and "R" do not apply to a list.
+function classifySkills(skills: string[]): { programming_languages: string[]; tools_and_technologies: string[] } {
+  const isLanguage = (skill: string) => PROGRAMMING_LANGUAGES.some(([name]) => name.toLowerCase() === skill.toLowerCase());
+  return {
+    programming_languages: PROGRAMMING_LANGUAGES.filter(([name]) => skills.some(skill => skill.toLowerCase() === name.toLowerCase())).map(([name]) => name),
+    tools_and_technologies: skills.filter(skill => !isLanguage(skill))
+  };
+}
+
+interface PDFDataExtractorOptions {
+  profilePath?: string;
+  // Any CV or profile PDF; only LinkedIn exports are understood without an LLM.
+  pdfPath?: string;
+  // Extracts with the LLM instead of the LinkedIn section parser.
+  llmClient?: LLMClient;
+  // LLM values below this confidence (0 to 1) are annotated but left out of the profile.
+  minConfidence?: number;
+  // Where the per-field annotations of an LLM extraction are written (default: <pdf name>.extraction.json
+  // next to the profile).
+  annotationsPath?: string;
+  // Extracted values also replace conflicting values from other sources and unpinned manual edits.
+  overwrite?: boolean;
+  // How many profile versions are kept in the history; unset fields use DEFAULT_HISTORY_RETENTION.
+  history?: Partial<HistoryRetention>;
+}
+
+class PDFDataExtractor {
+  private profilePath: string;
+  private pdfPath: string;
+  private llmClient?: LLMClient;
+  private minConfidence?: number;
+  private annotationsPath: string;
+  private overwrite: boolean;
+  private history: HistoryRetention;
+
+  constructor(options: PDFDataExtractorOptions = {}) {
+    this.profilePath = options.profilePath || DEFAULT_PROFILE_PATH;
+    this.pdfPath = options.pdfPath || DEFAULT_PROFILE_PDF_PATH;
+    this.llmClient = options.llmClient;
+    this.minConfidence = options.minConfidence;
+    this.overwrite = Boolean(options.overwrite);
+    this.history = resolveHistoryRetention(options.history);
+    this.annotationsPath = options.annotationsPath ||
+      path.join(path.dirname(this.profilePath), `${path.basename(this.pdfPath, path.extname(this.pdfPath))}.extraction.json`);
+  }
+
+  async extractTextFromPDF(): Promise<string> {
+    try {
+      const dataBuffer = fs.readFileSync(this.pdfPath);
+      const data = await pdf(dataBuffer);
+      return data.text;
+    } catch (error) {
+      console.error('Error reading PDF:', error);
+      throw error;
+    }
+  }
+
+  // Contact details anywhere in the text, for PDFs without a LinkedIn Contact section.
+  private scanContacts(text: string): string[] {
+    const emailRegex = /[\w\.-]+@[\w\.-]+\.\w+/g;
+    const emails = text.match(emailRegex) || [];
+    
+    const phoneRegex = /(?:\+?[1-9]\d{1,14}|\(\d{3}\)\s?\d{3}-?\d{4}|\d{3}[-.]?\d{3}[-.]?\d{4})/g;
+    const potentialPhones = text.match(phoneRegex) || [];
+    const phones = potentialPhones.filter(num => {
+      const digits = num.replace(/\D/g, '');
+      return digits.length >= 10 && digits.length <= 15 && 
+             !(/^(19|20)\d{2}$/.test(digits)) && 
+             !(digits.length === 2 || digits.length === 4);
+    });
+    
+    const urlRegex = /https?:\/\/[^\s]+/g;
+    const urls = text.match(urlRegex) || [];
+    
+    const linkedinRegex = /linkedin\.com\/in\/[\w-]+/g;
+    const linkedinProfiles = text.match(linkedinRegex) || [];
+    
+    const githubRegex = /github\.com\/[\w-]+/g;
+    const githubProfiles = text.match(githubRegex) || [];
+
+    return [
+      ...emails,
+      ...phones,
+      ...urls,
+      ...linkedinProfiles.map(profile => `https://${profile}`),
+      ...githubProfiles.map(profile => `https://${profile}`)
+    ];
+  }
+
+  parseExtractedText(text: string): IncomingProfileData {
+    const extractedData: IncomingProfileData = {};
+    const linkedIn = parseLinkedInPdfText(text);
+
+    if (linkedIn.name) extractedData.name = linkedIn.name;
+    if (linkedIn.headline) extractedData.headline = linkedIn.headline;
+    if (linkedIn.location) extractedData.location = linkedIn.location;
+    if (linkedIn.summary) extractedData.summary = linkedIn.summary;
+
+    const contactInfo = (linkedIn.contact.length > 0 ? linkedIn.contact : this.scanContacts(text))
+      .filter((item, index, arr) => arr.indexOf(item) === index);
+
+    if (contactInfo.length > 0) {
+      extractedData.contact = contactInfo;
+    }
+
+    const experienceData: Record<string, ExperienceEntry> = {};
+    for (const position of linkedIn.experience) {
+      experienceData[entryKey(position.company, position.title)] = {
+        title: position.title,
+        company: position.company,
+        ...(position.location ? { location: position.location } : {}),
+        ...(position.start_date ? { start_date: position.start_date } : {}),
+        ...(position.end_date ? { end_date: position.end_date } : {}),
+        ...(position.description ? { description: position.description } : {}),
+        ...(position.bullets.length > 0 ? { responsibilities: position.bullets } : {}),
+        extracted_from_pdf: true
+      };
+    }
+
+    if (Object.keys(experienceData).length > 0) {
+      extractedData.professional_experience = experienceData;
+    }
+
+    const educationData: Record<string, EducationEntry> = {};
+    for (const education of linkedIn.education) {
+      educationData[entryKey(education.field || education.degree || '', education.institution)] = {
+        ...(education.degree ? { degree: education.degree } : {}),
+        ...(education.field ? { field: education.field } : {}),
+        institution: education.institution,
+        ...(education.start_date ? { start_date: education.start_date } : {}),
+        ...(education.end_date ? { end_date: education.end_date } : {}),
+        extracted_from_pdf: true
+      };
+    }
+
+    if (Object.keys(educationData).length > 0) {
+      extractedData.superior_education = educationData;
+    }
+
+    const certifications: Record<string, CertificationEntry> = {};
+    for (const name of linkedIn.certifications) {
+      certifications[entryKey(name)] = {
+        name,
+        type: "course_completion",
+        extracted_from_pdf: true
+      };
+    }
+
+    if (Object.keys(certifications).length > 0) {
+      extractedData.certifications = certifications;
+    }
+
+    if (linkedIn.languages.length > 0) {
+      extractedData.languages = linkedIn.languages.map(language => ({
+        name: language.name,
+        proficiency: language.proficiency || '',
+        ...(language.level ? { level: language.level } : {}),
+        context: 'Extracted from PDF'
+      }));
+    }
+
+    const topSkills = classifySkills(linkedIn.topSkills);
+    const programmingLanguages = [
+      ...topSkills.programming_languages,
+      ...detectKeywords(text, PROGRAMMING_LANGUAGES)
+    ].filter((language, index, all) => all.indexOf(language) === index);
+    const tools = [
+      ...topSkills.tools_and_technologies.filter(skill => !programmingLanguages.some(language => language.toLowerCase() === skill.toLowerCase())),
+      ...detectKeywords(text, TOOLS)
+    ].filter((tool, index, all) => all.findIndex(other => other.toLowerCase() === tool.toLowerCase()) === index);
+
+    if (programmingLanguages.length > 0 || tools.length > 0) {
+      extractedData.technical_skills = {
+        ...(programmingLanguages.length > 0 ? { programming_languages: programmingLanguages } : {}),
+        ...(tools.length > 0 ? { tools_and_technologies: tools } : {})
+      };
+    }
+
+    return extractedData;
+  }
+
+  async extractWithLLM(text: string): Promise<LLMExtractionResult> {
+    if (!this.llmClient) {
+      throw new Error('LLM extraction needs an llmClient');
+    }
+    const result = await extractProfileWithLLM(this.llmClient, text, { minConfidence: this.minConfidence });
+    for (const issue of result.issues) {
+      console.warn(`⚠️  Skipped ${issue.path} from the LLM reply: ${issue.message}`);
+    }
+    const unquoted = result.fields.filter(annotation => annotation.kept && !annotation.source_found).length;
+    if (unquoted > 0) {
+      console.warn(`⚠️  ${unquoted} extracted values quote text that is not in the PDF; check them in ${this.annotationsPath}`);
+    }
+    return result;
+  }
+
+  // The profile, the PDF it came from and the annotation of every value, for review after a merge.
+  private saveAnnotations(result: LLMExtractionResult): void {
+    const { profile, ...annotations } = result;
+    fs.writeFileSync(this.annotationsPath, JSON.stringify({ pdf: this.pdfPath, ...annotations }, null, 2));
+    console.log(`Field annotations saved: ${this.annotationsPath}`);
+  }
+
+  async loadCurrentProfile(): Promise<ProfileData> {
+    return loadProfile(this.profilePath, { allowMissing: true });
+  }
+
+  // Extracted values fill the profile through the shared merge engine: values of other sources and values
+  // edited by hand are kept and reported as conflicts, unless `overwrite` is set.
+  mergeProfileData(currentProfile: ProfileData, extractedData: IncomingProfileData): MergeResult {
+    return mergeProfile(currentProfile, extractedData, loadProvenance(this.profilePath), {
+      source: this.llmClient ? 'llm' : 'linkedin_pdf',
+      detail: this.llmClient ? `${this.pdfPath} via ${this.llmClient.label}` : this.pdfPath,
+      overwrite: this.overwrite
+    });
+  }
+
+  // Saves the merged profile and its provenance as a new version in the profile history. A CV can bootstrap
+  // a profile that does not exist yet.
+  async saveProfile(merge: MergeResult): Promise<ProfileSnapshot> {
+    try {
+      const snapshot = saveProfileVersion(this.profilePath, merge.profile, merge.provenance, {
+        source: merge.source,
+        detail: merge.provenance.runs[merge.run]?.detail,
+        retention: this.history
+      });
+      console.log(`Profile updated successfully (version v${snapshot.version})`);
+      return snapshot;
+    } catch (error) {
+      console.error('Error saving profile:', error);
+      throw error;
+    }
+  }
+
+  private async extract(): Promise<{ data: IncomingProfileData; llmResult?: LLMExtractionResult }> {
+    if (!fs.existsSync(this.pdfPath)) {
+      throw new Error(`PDF file not found: ${this.pdfPath}`);
+    }
+
+    console.log('Extracting text from PDF...');
+    const extractedText = await this.extractTextFromPDF();
+    console.log('PDF text extracted successfully');
+
+    if (this.llmClient) {
+      console.log(`Extracting profile data with ${this.llmClient.label}...`);
+      const llmResult = await this.extractWithLLM(extractedText);
+      return { data: llmResult.profile, llmResult };
+    }
+    console.log('Parsing extracted data...');
+    return { data: this.parseExtractedText(extractedText) };
+  }
+
+  async extractAndMerge(): Promise<ProfileData> {
+    try {
+      console.log('Starting PDF data extraction...');
+      const { data, llmResult } = await this.extract();
+      console.debug('Extracted data:', data);
+
+      console.log('Loading current profile...');
+      const currentProfile = await this.loadCurrentProfile();
+
+      console.log('Merging profile data...');
+      const merge = this.mergeProfileData(currentProfile, data);
+      console.log(formatMergeReport(merge));
+
+      console.log('Saving updated profile...');
+      await this.saveProfile(merge);
+      if (llmResult) this.saveAnnotations(llmResult);
+
+      console.log('PDF data extraction and merge completed successfully!');
+      return merge.profile;
+    } catch (error) {
+      console.error('Error during extraction and merge:', error);
+      throw error;
+    }
+  }
+
+  // Everything extractAndMerge would change, without writing anything.
+  async previewMerge(): Promise<MergeResult> {
+    const { data } = await this.extract();
+    return this.mergeProfileData(await this.loadCurrentProfile(), data);
+  }
+
+  async previewExtraction(): Promise<void> {
+    try {
+      console.log('Previewing PDF data extraction...');
+      
+      if (!fs.existsSync(this.pdfPath)) {
+        throw new Error(`PDF file not found: ${this.pdfPath}`);
+      }
+
+      const extractedText = await this.extractTextFromPDF();
+      console.log('=== EXTRACTED TEXT ===');
+      console.log(extractedText);
+      console.log('\n=== PARSED DATA ===');
+      
+      if (this.llmClient) {
+        const result = await this.extractWithLLM(extractedText);
+        console.log(JSON.stringify(result.profile, null, 2));
+        console.log(`\n=== FIELD ANNOTATIONS (${result.model}) ===`);
+        console.log(formatFieldAnnotations(result.fields));
+        return;
+      }
+
+      const extractedData = this.parseExtractedText(extractedText);
+      console.log(JSON.stringify(extractedData, null, 2));
+    } catch (error) {
+      console.error('Error during preview:', error);
+      throw error;
+    }
+  }
+}
+
+export { PDFDataExtractor, PDFDataExtractorOptions, classifySkills };
@@ -0,0 +1,48 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { RepoSelectionConfig } from './collectors/github/selection';
+import { LLMConfig } from './llm/config';
+import type { HistoryRetention } from './profile/history';
+import { PROJECT_ROOT } from './paths';
+
+export interface AutorriculumConfig {
+  llm?: Partial<LLMConfig>;
+  github?: {
+    selection?: Partial<RepoSelectionConfig>;
+  };
+  history?: Partial<HistoryRetention>;
+}
+
+export const DEFAULT_CONFIG_PATH = path.join(PROJECT_ROOT, 'autorriculum.config.json');
+
+export function loadConfig(configPath: string = process.env.AUTORRICULUM_CONFIG || DEFAULT_CONFIG_PATH): AutorriculumConfig {
+  if (!fs.existsSync(configPath)) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid config file ${configPath}: ${reason}`);
+  }
+}
+
+// A credential the caller has to provide, usually through an environment variable.
+export class MissingCredentialError extends Error {
+  public readonly variable: string;
+
+  constructor(variable: string, purpose: string) {
+    super(`${variable} is required ${purpose}`);
+    this.name = 'MissingCredentialError';
+    this.variable = variable;
+  }
+}
+
+export function requireEnv(variable: string, purpose: string, env: NodeJS.ProcessEnv = process.env): string {
+  const value = env[variable];
+  if (!value) {
+    throw new MissingCredentialError(variable, purpose);
+  }
+  return value;
+}
@@ -0,0 +1,573 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { ProfileData, loadProfile } from './profile';
+import { loadConfig } from './config';
+import { DEFAULT_OUTPUT_DIR, DEFAULT_PROFILE_PATH, DEFAULT_RENDER_TEMPLATE_PATH, DEFAULT_TEMPLATE_PATH } from './paths';
+import { ChatMessage, LLMClient, LLMConfig, TokenUsage, createLLMClient, resolveLLMConfig } from './llm';
+import { TailoringResult, formatTailoringReport, loadJobPosting, tailorProfile } from './tailoring';
+import {
+  CVLocale,
+  DEFAULT_LOCALE,
+  LocaleCode,
+  buildCVViewModel,
+  formatDate,
+  loadLocale,
+  localizeSectionTitles,
+  renderLatexCV
+} from './template';
+import { OutputFormat, isDocumentFormat, renderDocument } from './renderers';
+import { ConformanceViolation, TemplateConformanceError, checkTemplateConformance } from './latex/conformance';
+import { assertLatexSafeProfile } from './latex/escape';
+import { LatexError, formatLatexError, latexErrorKey, parseLatexLog } from './latex/logParser';
+
+const MAX_GENERATION_ATTEMPTS = 3;
+const MAX_REPAIR_ITERATIONS = 2;
+
+type RenderMode = 'llm' | 'template';
+
+interface GenerateCVOptions {
+  jobPostingPath?: string;
+  // 'llm' asks the model for the whole document; 'template' renders base-cv.template.tex deterministically.
+  mode?: RenderMode;
+  // Template mode and HTML/Markdown/text/DOCX outputs: let the LLM rewrite the summary paragraph. Always done when
+  // tailoring to a job posting.
+  polishSummary?: boolean;
+  // LLM mode only: how many times pdflatex errors are sent back to the model for a fix.
+  maxRepairIterations?: number;
+  // Every format is rendered from the same (tailored) profile. Defaults to tex + pdf.
+  formats?: OutputFormat[];
+  // One set of files per locale; file names get a `-<locale>` suffix when more than one is requested.
+  locales?: LocaleCode[];
+}
+
+interface CVGeneratorOptions {
+  // An already loaded profile; takes precedence over profilePath.
+  profile?: ProfileData;
+  profilePath?: string;
+  outputDir?: string;
+  // Reference document the LLM must follow (llm mode).
+  templatePath?: string;
+  // Template filled in deterministically (template mode).
+  renderTemplatePath?: string;
+  // Overrides on top of LLM_* environment variables and autorriculum.config.json.
+  llm?: Partial<LLMConfig>;
+  // A ready client, e.g. around a custom provider. llm overrides are ignored when set.
+  llmClient?: LLMClient;
+}
+
+interface GeneratedFile {
+  format: OutputFormat;
+  locale: LocaleCode;
+  path: string;
+}
+
+interface GenerateCVResult {
+  // Shared by every file of the run: cv-<timestamp>[-<locale>].<format>.
+  timestamp: string;
+  mode: RenderMode;
+  files: GeneratedFile[];
+  tailoring?: TailoringResult;
+  tailoringReportPath?: string;
+  // pdflatex attempts and repairs, written when the first compile did not succeed.
+  repairLogPaths: string[];
+  // Only when the LLM was called.
+  llm?: { label: string; usage: TokenUsage & { requests: number } };
+}
+
+interface CompileResult {
+  success: boolean;
+  errors: LatexError[];
+  logPath: string;
+}
+
+interface PdflatexRun {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+interface RepairAttempt {
+  attempt: number;
+  success: boolean;
+  errors: LatexError[];
+  // Errors from this attempt that no longer appear after the repair that followed it.
+  fixed: string[];
+  repaired: boolean;
+  // Set when the repair that followed this attempt broke the template structure; such a repair is discarded.
+  violations: ConformanceViolation[];
+}
+
+class CVGenerator {
+  private profileData: ProfileData;
+  private templatePath: string;
+  private renderTemplatePath: string;
+  private outputDir: string;
+  private llmOverrides: Partial<LLMConfig>;
+  private llmClient?: LLMClient;
+
+  constructor(options: CVGeneratorOptions = {}) {
+    this.templatePath = options.templatePath || DEFAULT_TEMPLATE_PATH;
+    this.renderTemplatePath = options.renderTemplatePath || DEFAULT_RENDER_TEMPLATE_PATH;
+    this.outputDir = options.outputDir || DEFAULT_OUTPUT_DIR;
+    this.llmOverrides = options.llm || {};
+    this.llmClient = options.llmClient;
+    this.profileData = options.profile || loadProfile(options.profilePath || DEFAULT_PROFILE_PATH);
+  }
+
+  // Created on first use so template-only runs work without any LLM credentials.
+  private get llm(): LLMClient {
+    if (!this.llmClient) {
+      this.llmClient = createLLMClient(resolveLLMConfig(this.llmOverrides, loadConfig().llm));
+    }
+    return this.llmClient;
+  }
+
+  private createTailoringInstructions(tailoring: TailoringResult): string {
+    const covered = tailoring.coverage
+      .filter(item => item.covered)
+      .map(item => `- ${item.requirement.text} (evidence: ${item.matchedTerms.join(', ')})`);
+
+    return `
+TARGET JOB POSTING:
+${tailoring.posting.text.trim()}
+
+TAILORING INSTRUCTIONS:
+- The profile data above was already filtered and ordered by relevance to this job posting; keep that order
+- Rewrite the professional summary for the "${tailoring.posting.title}" role, mentioning only skills and experience present in the profile data
+- Within each experience and project, put the bullets that match the job requirements first
+- Emphasize these covered requirements where the profile supports them:
+${covered.join('\n') || '- none'}
+- Never claim a requirement that is not backed by the profile data, even if the job posting asks for it
+`;
+  }
+
+  private createPrompt(template: string, locale: CVLocale, tailoring?: TailoringResult): string {
+    const profile = tailoring ? tailoring.profile : this.profileData;
+
+    return `
+Based on the following profile data, generate a complete LaTeX CV using the template structure provided. 
+Make it professional, ATS-friendly, and tailored for a tech professional.
+
+TEMPLATE (base-cv.tex):
+${template}
+
+PROFILE DATA:
+${JSON.stringify(profile, null, 2)}
+${tailoring ? this.createTailoringInstructions(tailoring) : ''}
+INSTRUCTIONS:
+1. Use the template structure from base-cv.tex above: keep its preamble, packages, \\resumeEntry command and section order unchanged
+2. Fill in all sections with relevant information from the profile data, do not use fictional data
+3. For the header, extract name from the json
+4. Create a professional summary based on the facts and experience
+5. Map programming languages to technical skills section; when technical_skills.language_activity has an entry for a language, add its years of use and whether it is current, e.g. "TypeScript (3 years, current)"
+6. Convert professional_experience to experience entries
+7. Convert projects to project entries with proper descriptions, followed by one entry per open_source_contributions repository (merged pull requests, reviews and the most significant pull request titles)
+8. Add academical_research as entries in the experience section
+9. Include memberships (IEEE, etc.) appropriately
+10. Keep the LaTeX formatting clean and professional
+11. Write section headers, the summary and every description in ${locale.language}, translating profile text where needed but keeping technical terms in English
+12. Ensure all URLs and links are properly formatted; inside \\href{...} escape only # and % as \\# and \\%
+13. DO NOT ADD ANY NEW TOPIC OR MODIFY THE STRUCTURE
+14. DO NOT ADD GITHUB STATISTICS
+15. DO NOT ADD STATUS
+16. Escape LaTeX special characters in every profile value: & % $ # _ { } ~ ^ (e.g. "C#" becomes C\\#, "R&D" becomes R\\&D, "100%" becomes 100\\%)
+17. Keep accented characters (á, ç, ã, é...) as UTF-8 text, do not replace them with LaTeX accent commands
+18. Format dates like "${formatDate('2024-04', locale)}" and write "${locale.labels.present}" for ongoing positions
+
+
+LATEX COMPATIBILITY REQUIREMENTS:
+- DO NOT use \\usepackage{fontspec} or \\setmainfont commands
+- Use exactly the packages loaded by the template, no more and no less
+- Every \\resumeEntry must have exactly 4 arguments: {title}{organization}{location}{period}
+- The document MUST compile with pdflatex, not xelatex or lualatex
+- Use \\usepackage[T1]{fontenc} and \\usepackage[utf8]{inputenc} for proper encoding
+
+IMPORTANT: Return ONLY the raw LaTeX code, without any markdown formatting, code blocks, or explanations. 
+The response should start directly with \\documentclass and end with \\end{document}.
+
+Generate the complete LaTeX document, ready to compile with pdflatex.
+`;
+  }
+
+  private async generateLatexContent(locale: CVLocale, tailoring?: TailoringResult): Promise<string> {
+    // base-cv.tex is written in pt-BR; other locales get the same structure under translated section titles.
+    const template = localizeSectionTitles(fs.readFileSync(this.templatePath, 'utf-8'), loadLocale(DEFAULT_LOCALE), locale);
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: 'You are an expert LaTeX CV generator. Generate professional, clean, and ATS-friendly CV content based on the provided profile data. Follow the template structure and use proper LaTeX formatting.'
+      },
+      {
+        role: 'user',
+        content: this.createPrompt(template, locale, tailoring)
+      }
+    ];
+    let violations: ConformanceViolation[] = [];
+
+    for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+      console.log(`🤖 Calling ${this.llm.label} to generate CV content (attempt ${attempt}/${MAX_GENERATION_ATTEMPTS})...`);
+
+      let latexContent: string;
+      try {
+        const result = await this.llm.complete({ messages });
+        latexContent = this.cleanLatexContent(result.content);
+      } catch (error) {
+        console.error(`Error calling ${this.llm.label}:`, error);
+        throw error;
+      }
+
+      violations = checkTemplateConformance(latexContent, template);
+      if (violations.length === 0) {
+        return latexContent;
+      }
+
+      console.warn(`⚠️  Generated LaTeX breaks the template structure (${violations.length} violation(s)):`);
+      violations.forEach(violation => console.warn(`   - [${violation.rule}] ${violation.message}`));
+
+      messages.push(
+        { role: 'assistant', content: latexContent },
+        {
+          role: 'user',
+          content: `The document above does not follow base-cv.tex. Fix these problems and return the complete corrected LaTeX document only:\n${violations.map(violation => `- ${violation.message}`).join('\n')}`
+        }
+      );
+    }
+
+    throw new TemplateConformanceError(violations, MAX_GENERATION_ATTEMPTS);
+  }
+
+  private async polishSummary(profile: ProfileData, locale: CVLocale, tailoring?: TailoringResult): Promise<string> {
+    console.log(`✍️  Calling ${this.llm.label} to polish the professional summary...`);
+
+    const target = tailoring ? `\nTailor it to this job posting:\n${tailoring.posting.text.trim()}\n` : '';
+    const result = await this.llm.complete({
+      messages: [
+        {
+          role: 'system',
+          content: 'You write concise, factual CV summaries. Never invent facts that are not in the provided data.'
+        },
+        {
+          role: 'user',
+          content: `Write a 3-4 sentence professional summary in ${locale.language} for this profile.
+Use only the information below. Return plain text only: no LaTeX, no Markdown, no quotes.
+
+CURRENT SUMMARY:
+${profile.summary || '(none)'}
+
+FACTS:
+${profile.facts.map(fact => `- ${fact}`).join('\n')}
+
+PROFILE DATA:
+${JSON.stringify({ ...profile, github_stats: undefined }, null, 2)}
+${target}`
+        }
+      ]
+    });
+
+    return this.cleanLatexContent(result.content).replace(/^["“]|["”]$/g, '').trim();
+  }
+
+  private renderLatexFromTemplate(profile: ProfileData, locale: CVLocale, summary?: string): string {
+    console.log(`🧩 Rendering CV from template (${locale.code})...`);
+    return renderLatexCV(this.renderTemplatePath, profile, {
+      locale,
+      overrides: summary ? { summary } : {}
+    });
+  }
+
+  private writeDocumentFormats(
+    formats: OutputFormat[],
+    profile: ProfileData,
+    baseName: string,
+    locale: CVLocale,
+    summary?: string
+  ): GeneratedFile[] {
+    const view = { ...buildCVViewModel(profile, locale), ...(summary ? { summary } : {}) };
+
+    return formats.filter(isDocumentFormat).map(format => {
+      const filePath = path.join(this.outputDir, `${baseName}.${format}`);
+      fs.writeFileSync(filePath, renderDocument(format, view));
+      console.log(`📄 ${format.toUpperCase()} file saved: ${filePath}`);
+      return { format, locale: locale.code, path: filePath };
+    });
+  }
+
+  private cleanLatexContent(content: string): string {
+    let cleanContent = content.trim();
+    
+    if (cleanContent.startsWith('```latex')) {
+      cleanContent = cleanContent.substring(8);
+    } else if (cleanContent.startsWith('```')) {
+      cleanContent = cleanContent.substring(3);
+    }
+    
+    if (cleanContent.endsWith('```')) {
+      cleanContent = cleanContent.substring(0, cleanContent.length - 3);
+    }
+    
+    return cleanContent.trim();
+  }
+
+  private runPdflatex(texFilePath: string): Promise<PdflatexRun> {
+    return new Promise((resolve, reject) => {
+      const pdflatex = spawn('pdflatex', [
+        '-interaction=nonstopmode',
+        '-output-directory', this.outputDir,
+        texFilePath
+      ], {
+        cwd: this.outputDir
+      });
+
+      let stdout = '';
+      let stderr = '';
+
+      pdflatex.stdout.on('data', (data) => {
+        stdout += data.toString();
+      });
+
+      pdflatex.stderr.on('data', (data) => {
+        stderr += data.toString();
+      });
+
+      pdflatex.on('close', (code) => resolve({ code, stdout, stderr }));
+
+      pdflatex.on('error', (err) => {
+        console.error('❌ Failed to start pdflatex:', err.message);
+        reject(err);
+      });
+    });
+  }
+
+  // Nonstop mode still writes a PDF after errors such as an undefined control sequence or a stray &, so a pass only
+  // succeeds when pdflatex exits cleanly and its log has no errors.
+  private async compilePDF(texFilePath: string): Promise<CompileResult> {
+    console.log('📄 Compiling LaTeX to PDF...');
+
+    const logPath = path.join(this.outputDir, `${path.basename(texFilePath, '.tex')}.log`);
+    const readErrors = (): LatexError[] =>
+      fs.existsSync(logPath) ? parseLatexLog(fs.readFileSync(logPath, 'latin1')) : [];
+
+    const failed = (run: PdflatexRun, errors: LatexError[]): CompileResult => {
+      console.error(`❌ LaTeX compilation failed (pdflatex exited with code ${run.code}, ${errors.length} error(s) in the log)`);
+      if (errors.length > 0) {
+        errors.slice(0, 10).forEach(error => console.error(`   - ${formatLatexError(error)}`));
+      } else {
+        if (run.stdout) console.error('STDOUT:', run.stdout.substring(0, 1000) + '...');
+        if (run.stderr) console.error('STDERR:', run.stderr);
+      }
+      return { success: false, errors, logPath };
+    };
+
+    const firstPass = await this.runPdflatex(texFilePath);
+    const errors = readErrors();
+    if (firstPass.code !== 0 || errors.length > 0) return failed(firstPass, errors);
+
+    console.log('🔄 Running second pass for proper formatting...');
+    const secondPass = await this.runPdflatex(texFilePath);
+    const secondErrors = readErrors();
+    if (secondPass.code !== 0 || secondErrors.length > 0) return failed(secondPass, secondErrors);
+
+    console.log('✅ PDF compiled successfully!');
+    return { success: true, errors: [], logPath };
+  }
+
+  private async repairLatexContent(latexContent: string, errors: LatexError[]): Promise<string> {
+    console.log(`🩹 Calling ${this.llm.label} to repair ${errors.length} LaTeX error(s)...`);
+
+    const result = await this.llm.complete({
+      messages: [
+        {
+          role: 'system',
+          content: 'You are an expert in LaTeX. Fix compilation errors with the smallest possible change and keep the document structure and content intact.'
+        },
+        {
+          role: 'user',
+          content: `pdflatex failed on the document below with these errors (line numbers refer to the document):
+${errors.map(error => `- ${formatLatexError(error)}`).join('\n')}
+
+Hints:
+- undefined-control-sequence: replace the command with one provided by the loaded packages
+- missing-package: do not load packages that are not in the original preamble
+- unescaped-character: escape &, %, $, #, _ as \\&, \\%, \\$, \\#, \\_ in text
+- runaway-argument: close the unbalanced brace of the named command
+
+Return ONLY the complete corrected LaTeX document, without Markdown code blocks.
+
+DOCUMENT:
+${latexContent}`
+        }
+      ]
+    });
+
+    return this.cleanLatexContent(result.content);
+  }
+
+  // Compiles the document and, when allowed, feeds pdflatex errors back to the LLM a bounded number of times.
+  private async compileWithRepairs(
+    texFilePath: string,
+    latexContent: string,
+    maxRepairs: number
+  ): Promise<RepairAttempt[]> {
+    const attempts: RepairAttempt[] = [];
+    const template = fs.readFileSync(this.templatePath, 'utf-8');
+    let content = latexContent;
+
+    for (let attempt = 0; ; attempt++) {
+      const result = await this.compilePDF(texFilePath);
+      const previous = attempts[attempts.length - 1];
+      const currentKeys = result.errors.map(latexErrorKey);
+
+      if (previous) {
+        previous.fixed = previous.errors
+          .filter(error => !currentKeys.includes(latexErrorKey(error)))
+          .map(formatLatexError);
+      }
+
+      attempts.push({
+        attempt,
+        success: result.success,
+        errors: result.errors,
+        fixed: [],
+        repaired: false,
+        violations: []
+      });
+
+      if (result.success || attempt >= maxRepairs || result.errors.length === 0) {
+        return attempts;
+      }
+
+      const repaired = await this.repairLatexContent(content, result.errors);
+      const violations = checkTemplateConformance(repaired, template);
+      if (violations.length > 0) {
+        attempts[attempts.length - 1].violations = violations;
+        console.error(`❌ Repair ${attempt + 1}/${maxRepairs} no longer follows the template, keeping the previous document:`);
+        violations.forEach(violation => console.error(`   - [${violation.rule}] ${violation.message}`));
+        return attempts;
+      }
+
+      content = repaired;
+      attempts[attempts.length - 1].repaired = true;
+      fs.writeFileSync(texFilePath, content);
+      console.log(`📝 Repaired LaTeX saved (repair ${attempt + 1}/${maxRepairs}): ${texFilePath}`);
+    }
+  }
+
+  private async writeLatexOutputs(
+    profile: ProfileData,
+    tailoring: TailoringResult | undefined,
+    baseName: string,
+    options: { mode: RenderMode; locale: CVLocale; summary?: string; compile: boolean; maxRepairIterations?: number },
+    result: GenerateCVResult
+  ): Promise<void> {
+    assertLatexSafeProfile(profile);
+    const latexContent = options.mode === 'template'
+      ? this.renderLatexFromTemplate(profile, options.locale, options.summary)
+      : await this.generateLatexContent(options.locale, tailoring);
+
+    const texFilePath = path.join(this.outputDir, `${baseName}.tex`);
+    fs.writeFileSync(texFilePath, latexContent);
+    console.log(`📝 LaTeX file saved: ${texFilePath}`);
+    result.files.push({ format: 'tex', locale: options.locale.code, path: texFilePath });
+
+    if (!options.compile) return;
+
+    const maxRepairs = options.mode === 'llm' ? options.maxRepairIterations ?? MAX_REPAIR_ITERATIONS : 0;
+    const attempts = await this.compileWithRepairs(texFilePath, latexContent, maxRepairs);
+    const finalAttempt = attempts[attempts.length - 1];
+
+    if (attempts.length > 1 || !finalAttempt.success) {
+      const repairsPath = path.join(this.outputDir, `${baseName}-repairs.json`);
+      fs.writeFileSync(repairsPath, JSON.stringify(attempts, null, 2));
+      console.log(`🩹 Compile attempts recorded: ${repairsPath}`);
+      result.repairLogPaths.push(repairsPath);
+    }
+
+    if (!finalAttempt.success) {
+      throw new Error(
+        `LaTeX compilation failed after ${attempts.length} attempt(s):\n` +
+        finalAttempt.errors.map(error => `  - ${formatLatexError(error)}`).join('\n') +
+        finalAttempt.violations.map(violation => `\n  - repair rejected: [${violation.rule}] ${violation.message}`).join('')
+      );
+    }
+
+    const pdfFilePath = path.join(this.outputDir, `${baseName}.pdf`);
+    if (fs.existsSync(pdfFilePath)) {
+      console.log(`🎉 CV generated successfully: ${pdfFilePath}`);
+      result.files.push({ format: 'pdf', locale: options.locale.code, path: pdfFilePath });
+    } else {
+      console.log('⚠️  LaTeX compiled but PDF not found at expected location');
+    }
+  }
+
+  public async generateCV(options: GenerateCVOptions = {}): Promise<GenerateCVResult> {
+    try {
+      console.log('🚀 Starting CV generation process...');
+      fs.mkdirSync(this.outputDir, { recursive: true });
+
+      let tailoring: TailoringResult | undefined;
+      if (options.jobPostingPath) {
+        console.log(`🎯 Tailoring CV to job posting: ${options.jobPostingPath}`);
+        tailoring = tailorProfile(this.profileData, loadJobPosting(options.jobPostingPath));
+      }
+      
+      const mode = options.mode || 'llm';
+      const formats = options.formats && options.formats.length > 0 ? options.formats : ['tex', 'pdf'] as OutputFormat[];
+      const profile = tailoring ? tailoring.profile : this.profileData;
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+
+      const renderDocuments = formats.some(isDocumentFormat);
+      const locales = options.locales && options.locales.length > 0 ? options.locales : [DEFAULT_LOCALE];
+      const result: GenerateCVResult = { timestamp, mode, files: [], tailoring, repairLogPaths: [] };
+
+      if (tailoring) {
+        const reportPath = path.join(this.outputDir, `cv-${timestamp}-tailoring.md`);
+        fs.writeFileSync(reportPath, formatTailoringReport(tailoring));
+        result.tailoringReportPath = reportPath;
+        const coveredCount = tailoring.coverage.filter(item => item.covered).length;
+        console.log(`📋 Tailoring report saved: ${reportPath} (${coveredCount}/${tailoring.coverage.length} requirements covered)`);
+      }
+
+      for (const code of locales) {
+        const locale = loadLocale(code);
+        const baseName = locales.length > 1 ? `cv-${timestamp}-${code}` : `cv-${timestamp}`;
+        if (locales.length > 1) {
+          console.log(`🌐 Generating ${locale.language} version...`);
+        }
+
+        // A tailored CV always gets a summary written for the role.
+        const summary = (options.polishSummary || tailoring) && (mode === 'template' || renderDocuments)
+          ? await this.polishSummary(profile, locale, tailoring)
+          : undefined;
+
+        if (renderDocuments) {
+          result.files.push(...this.writeDocumentFormats(formats, profile, baseName, locale, summary));
+        }
+
+        if (formats.includes('tex') || formats.includes('pdf')) {
+          await this.writeLatexOutputs(profile, tailoring, baseName, {
+            mode,
+            locale,
+            summary,
+            compile: formats.includes('pdf'),
+            maxRepairIterations: options.maxRepairIterations
+          }, result);
+        }
+      }
+
+      // An injected client may be shared between generators, so its usage is cumulative.
+      const usage = this.llmClient?.getUsage();
+      if (this.llmClient && usage && usage.requests > 0) {
+        console.log(`🔢 LLM usage: ${usage.requests} request(s), ${usage.totalTokens} tokens (${usage.promptTokens} prompt + ${usage.completionTokens} completion)`);
+        result.llm = { label: this.llmClient.label, usage };
+      }
+
+      return result;
+    } catch (error) {
+      console.error('❌ Error generating CV:', error);
+      throw error;
+    }
+  }
+}
+
+export { CVGenerator, CVGeneratorOptions, GenerateCVOptions, GenerateCVResult, GeneratedFile, RenderMode };
\ No newline at end of file
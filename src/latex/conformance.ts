@@ -0,0 +1,188 @@
+import { scanUnescapedSpecials } from './escape';
+
+// Structural comparison between an LLM-generated document and base-cv.tex.
+
+export interface ConformanceViolation {
+  rule: 'document' | 'package' | 'forbidden' | 'section' | 'resume-entry' | 'unescaped';
+  message: string;
+}
+
+export interface ConformanceOptions {
+  forbiddenPackages?: string[];
+  forbiddenCommands?: string[];
+}
+
+export class TemplateConformanceError extends Error {
+  public readonly violations: ConformanceViolation[];
+
+  constructor(violations: ConformanceViolation[], attempts: number) {
+    const details = violations.map(violation => `  - [${violation.rule}] ${violation.message}`).join('\n');
+    super(`Generated LaTeX does not follow the template after ${attempts} attempt(s):\n${details}`);
+    this.name = 'TemplateConformanceError';
+    this.violations = violations;
+  }
+}
+
+// Packages and commands that need xelatex/lualatex and break the pdflatex build.
+const DEFAULT_FORBIDDEN_PACKAGES = ['fontspec', 'polyglossia', 'unicode-math', 'xecjk', 'luatexja'];
+const DEFAULT_FORBIDDEN_COMMANDS = ['setmainfont', 'setsansfont', 'setmonofont', 'newfontfamily'];
+
+export function stripComments(tex: string): string {
+  return tex
+    .split('\n')
+    .map(line => line.replace(/(^|[^\\])%.*$/, '$1'))
+    .join('\n');
+}
+
+export function extractPackages(tex: string): string[] {
+  const packages: string[] = [];
+  const pattern = /\\usepackage\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/g;
+
+  for (const match of stripComments(tex).matchAll(pattern)) {
+    packages.push(...match[1].split(',').map(name => name.trim()).filter(Boolean));
+  }
+
+  return packages;
+}
+
+function normalizeTitle(title: string): string {
+  return title.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+export function extractSections(tex: string): string[] {
+  const sections: string[] = [];
+  for (const match of stripComments(tex).matchAll(/\\section\*?\s*\{([^}]*)\}/g)) {
+    sections.push(match[1].replace(/\s+/g, ' ').trim());
+  }
+  return sections;
+}
+
+// Reads a balanced {...} group starting at `start`, skipping leading whitespace.
+function readGroup(tex: string, start: number): { end: number } | null {
+  let index = start;
+  while (index < tex.length && /\s/.test(tex[index])) index++;
+  if (tex[index] !== '{') return null;
+
+  let depth = 0;
+  for (; index < tex.length; index++) {
+    const char = tex[index];
+    if (char === '\\') {
+      index++;
+      continue;
+    }
+    if (char === '{') depth++;
+    if (char === '}') {
+      depth--;
+      if (depth === 0) return { end: index + 1 };
+    }
+  }
+  return null;
+}
+
+function lineNumber(tex: string, offset: number): number {
+  return tex.slice(0, offset).split('\n').length;
+}
+
+function checkResumeEntries(body: string, offset: number, tex: string): ConformanceViolation[] {
+  const violations: ConformanceViolation[] = [];
+
+  for (const match of body.matchAll(/\\resumeEntry(?![a-zA-Z])/g)) {
+    let position = (match.index ?? 0) + match[0].length;
+    let groups = 0;
+    for (; groups < 4; groups++) {
+      const group = readGroup(body, position);
+      if (!group) break;
+      position = group.end;
+    }
+
+    if (groups < 4) {
+      violations.push({
+        rule: 'resume-entry',
+        message: `\\resumeEntry on line ${lineNumber(tex, offset + (match.index ?? 0))} has ${groups} argument(s), expected 4 ({title}{organization}{location}{period})`
+      });
+    }
+  }
+
+  return violations;
+}
+
+export function checkTemplateConformance(
+  output: string,
+  template: string,
+  options: ConformanceOptions = {}
+): ConformanceViolation[] {
+  const violations: ConformanceViolation[] = [];
+  const forbiddenPackages = options.forbiddenPackages || DEFAULT_FORBIDDEN_PACKAGES;
+  const forbiddenCommands = options.forbiddenCommands || DEFAULT_FORBIDDEN_COMMANDS;
+  const tex = stripComments(output);
+
+  if (!/^\s*\\documentclass/.test(tex)) {
+    violations.push({ rule: 'document', message: 'document must start with \\documentclass' });
+  }
+  const beginIndex = tex.indexOf('\\begin{document}');
+  if (beginIndex === -1 || !tex.includes('\\end{document}')) {
+    violations.push({ rule: 'document', message: 'document must contain \\begin{document} and \\end{document}' });
+  }
+
+  const outputPackages = extractPackages(tex);
+  const templatePackages = extractPackages(template);
+  for (const name of templatePackages) {
+    if (!outputPackages.includes(name)) {
+      violations.push({ rule: 'package', message: `missing package "${name}" used by the template` });
+    }
+  }
+  for (const name of outputPackages) {
+    if (forbiddenPackages.includes(name.toLowerCase())) {
+      violations.push({ rule: 'forbidden', message: `package "${name}" is not allowed (requires xelatex/lualatex)` });
+    } else if (!templatePackages.includes(name)) {
+      violations.push({ rule: 'package', message: `package "${name}" is not part of the template preamble` });
+    }
+  }
+  for (const command of forbiddenCommands) {
+    if (new RegExp(`\\\\${command}(?![a-zA-Z])`).test(tex)) {
+      violations.push({ rule: 'forbidden', message: `command \\${command} is not allowed with pdflatex` });
+    }
+  }
+
+  if (/\\newcommand\s*\{?\\resumeEntry\}?/.test(template) && !/\\newcommand\s*\{?\\resumeEntry\}?\s*\[4\]/.test(tex)) {
+    violations.push({ rule: 'resume-entry', message: '\\resumeEntry must be defined as in the template, with 4 arguments' });
+  }
+
+  const expected = extractSections(template);
+  const actual = extractSections(tex);
+  const expectedKeys = expected.map(normalizeTitle);
+  const actualKeys = actual.map(normalizeTitle);
+
+  actual.forEach((title, index) => {
+    if (!expectedKeys.includes(actualKeys[index])) {
+      violations.push({ rule: 'section', message: `section "${title}" is not in the template` });
+    }
+  });
+  expected.forEach((title, index) => {
+    if (!actualKeys.includes(expectedKeys[index])) {
+      violations.push({ rule: 'section', message: `section "${title}" from the template is missing` });
+    }
+  });
+
+  const commonOrder = actualKeys.filter(key => expectedKeys.includes(key));
+  const templateOrder = expectedKeys.filter(key => commonOrder.includes(key));
+  if (commonOrder.join('\n') !== templateOrder.join('\n')) {
+    violations.push({
+      rule: 'section',
+      message: `sections must follow the template order: ${expected.join(' → ')}`
+    });
+  }
+
+  if (beginIndex !== -1) {
+    violations.push(...checkResumeEntries(tex.slice(beginIndex), beginIndex, tex));
+  }
+
+  for (const special of scanUnescapedSpecials(output)) {
+    violations.push({
+      rule: 'unescaped',
+      message: `unescaped "${special.character}" on line ${special.line}: ${special.context}`
+    });
+  }
+
+  return violations;
+}
@@ -0,0 +1,153 @@
+// Escaping and sanitization for profile values inserted into LaTeX.
+// Text stays UTF-8 (the templates load inputenc with utf8 and T1 fonts), so accents pass through untouched.
+
+export interface UnsafeValue {
+  path: string;
+  value: string;
+  reason: string;
+}
+
+export class UnsafeProfileValueError extends Error {
+  public readonly values: UnsafeValue[];
+
+  constructor(values: UnsafeValue[]) {
+    const details = values.map(item => `  - ${item.path}: ${item.reason} in "${item.value}"`).join('\n');
+    super(`Profile contains values that are unsafe to insert into LaTeX:\n${details}`);
+    this.name = 'UnsafeProfileValueError';
+    this.values = values;
+  }
+}
+
+export interface UnescapedSpecial {
+  line: number;
+  character: string;
+  context: string;
+}
+
+const LATEX_SPECIALS: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '{': '\\{',
+  '}': '\\}',
+  '$': '\\$',
+  '&': '\\&',
+  '#': '\\#',
+  '%': '\\%',
+  '_': '\\_',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}'
+};
+
+const ALLOWED_URL_SCHEMES = /^(https?:\/\/|mailto:|tel:)/i;
+// Primitives and macros that read or write files, run shell commands or redefine how TeX reads its input. Other
+// backslashes (a Windows path, a regex in a description) are harmless: they are escaped like any other text.
+const DANGEROUS_COMMAND = new RegExp(
+  '\\\\(?:input|include|includeonly|InputIfFileExists|verbatiminput|lstinputlisting|openin|openout|read|readline|' +
+  'write|immediate|special|directlua|ShellEscape|catcode|def|edef|gdef|xdef|let|futurelet|csname|expandafter|' +
+  'newcommand|renewcommand|providecommand|makeatletter|usepackage|RequirePackage|documentclass)(?![a-zA-Z@])'
+);
+// TeX's notation for characters by code: ^^5c is a backslash.
+const CARET_NOTATION = /\^\^(?:[0-9a-f]{2}|[\x40-\x7f])/i;
+
+// pdflatex cannot typeset emoji or control characters; zero-width characters only confuse ATS parsers.
+const UNSUPPORTED_CHARACTERS = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f\u200b-\u200d\u2060\ufeff]|\p{Extended_Pictographic}\ufe0f?/gu;
+
+export function normalizeLatexText(text: string): string {
+  return text
+    .replace(UNSUPPORTED_CHARACTERS, '')
+    .replace(/\u00a0/g, ' ')
+    .replace(/\r\n?/g, '\n');
+}
+
+export function escapeLatex(text: string): string {
+  return normalizeLatexText(text)
+    .replace(/[\\{}$&#%_~^]/g, char => LATEX_SPECIALS[char])
+    // Blank lines would end the paragraph in the middle of a \resumeEntry argument or an \item.
+    .replace(/\n\s*\n/g, '\n');
+}
+
+// For the URL argument of \href and \url: hyperref reads it verbatim except for \, #, % and braces.
+export function escapeLatexUrl(url: string): string {
+  const trimmed = url.trim();
+  if (!ALLOWED_URL_SCHEMES.test(trimmed)) {
+    throw new UnsafeProfileValueError([{ path: '(url)', value: url, reason: 'unsupported URL scheme' }]);
+  }
+
+  return trimmed
+    .replace(/\s/g, '%20')
+    .replace(/[{}\\]/g, char => encodeURIComponent(char))
+    .replace(/[#%]/g, char => `\\${char}`);
+}
+
+export function findDangerousCommand(value: string): string | null {
+  const match = value.match(DANGEROUS_COMMAND) || value.match(CARET_NOTATION);
+  return match ? match[0] : null;
+}
+
+// The LLM writes profile text into the document as it sees fit, so escaping cannot be relied on: a value such
+// as "\input{/etc/passwd}" is always a mistake or an injection attempt, and is reported instead.
+export function findUnsafeProfileValues(value: unknown, path = ''): UnsafeValue[] {
+  if (typeof value === 'string') {
+    const command = findDangerousCommand(value);
+    return command ? [{ path: path || '(root)', value, reason: `LaTeX command ${command}` }] : [];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => findUnsafeProfileValues(item, `${path}[${index}]`));
+  }
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, item]) =>
+      findUnsafeProfileValues(item, path ? `${path}.${key}` : key)
+    );
+  }
+  return [];
+}
+
+export function assertLatexSafeProfile(profile: unknown): void {
+  const unsafe = findUnsafeProfileValues(profile);
+  if (unsafe.length > 0) {
+    throw new UnsafeProfileValueError(unsafe);
+  }
+}
+
+const MATH_SEGMENT = /(?<!\\)\$[^$]*(?<!\\)\$/g;
+const URL_ARGUMENT = /\\(?:href|url)\s*\{[^}]*\}/g;
+const ALIGNMENT_ENVIRONMENTS = /^(tabular\*?|tabularx|longtable|array|align\*?|matrix)$/;
+
+// Flags special characters left unescaped in the document body, outside math, URL arguments and tables.
+export function scanUnescapedSpecials(tex: string): UnescapedSpecial[] {
+  const findings: UnescapedSpecial[] = [];
+  const lines = tex.split('\n');
+  const environments: string[] = [];
+  let inBody = false;
+
+  lines.forEach((rawLine, index) => {
+    if (!inBody) {
+      inBody = rawLine.includes('\\begin{document}');
+      return;
+    }
+
+    for (const match of rawLine.matchAll(/\\(begin|end)\{([^}]+)\}/g)) {
+      if (match[1] === 'begin') environments.push(match[2]);
+      else environments.pop();
+    }
+    const inAlignment = environments.some(name => ALIGNMENT_ENVIRONMENTS.test(name));
+
+    // A percent sign right after a digit ("100%") silently comments out the rest of the line.
+    const percent = rawLine.match(/\d%/);
+    if (percent) {
+      findings.push({ line: index + 1, character: '%', context: rawLine.trim() });
+    }
+
+    // Real comments are dropped; a digit-percent was already reported, so keep scanning past it.
+    const line = rawLine
+      .replace(/(^|[^\\\d])%.*$/, '$1')
+      .replace(URL_ARGUMENT, '')
+      .replace(MATH_SEGMENT, '');
+
+    for (const match of line.matchAll(/(?<!\\)[&#_^]/g)) {
+      if (match[0] === '&' && inAlignment) continue;
+      findings.push({ line: index + 1, character: match[0], context: rawLine.trim() });
+    }
+  });
+
+  return findings;
+}
@@ -0,0 +1,97 @@
+// Turns a pdflatex .log file into structured errors the generator can act on.
+
+export type LatexErrorKind =
+  | 'undefined-control-sequence'
+  | 'missing-package'
+  | 'unescaped-character'
+  | 'runaway-argument'
+  | 'other';
+
+export interface LatexError {
+  kind: LatexErrorKind;
+  message: string;
+  line?: number;
+  context: string;
+  command?: string;
+  package?: string;
+  character?: string;
+}
+
+const ERROR_START = /^! (.*)$/;
+const LINE_MARKER = /^l\.(\d+) ?(.*)$/;
+
+function classify(message: string, lineText: string, runaway: boolean): Omit<LatexError, 'message' | 'line' | 'context'> {
+  if (message.startsWith('Undefined control sequence')) {
+    const commands = lineText.match(/\\[a-zA-Z@]+/g);
+    return { kind: 'undefined-control-sequence', command: commands ? commands[commands.length - 1] : undefined };
+  }
+
+  const missingFile = message.match(/LaTeX Error: File `([^']+)\.(sty|cls)' not found/);
+  if (missingFile) {
+    return { kind: 'missing-package', package: missingFile[1] };
+  }
+
+  if (message.startsWith('Misplaced alignment tab character &')) {
+    return { kind: 'unescaped-character', character: '&' };
+  }
+  if (message.includes('macro parameter character #')) {
+    return { kind: 'unescaped-character', character: '#' };
+  }
+  if (message.startsWith('Missing $ inserted')) {
+    // Outside math mode this almost always means a bare _ or ^ in text.
+    const special = lineText.match(/(?<!\\)[_^]/);
+    return { kind: 'unescaped-character', character: special ? special[0] : '_' };
+  }
+
+  if (runaway || message.startsWith('Paragraph ended before') || message.startsWith('File ended while scanning')) {
+    const command = message.match(/\\[a-zA-Z@]+/);
+    return { kind: 'runaway-argument', command: command ? command[0] : undefined };
+  }
+
+  return { kind: 'other' };
+}
+
+export function parseLatexLog(log: string): LatexError[] {
+  const lines = log.split(/\r?\n/);
+  const errors: LatexError[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const start = lines[i].match(ERROR_START);
+    if (!start) continue;
+
+    const message = start[1].trim();
+    const runaway = lines.slice(Math.max(0, i - 2), i).some(previous => previous.startsWith('Runaway argument?'));
+
+    // The "l.<n>" marker follows within a few lines; stop at the next error.
+    let line: number | undefined;
+    let lineText = '';
+    let context = '';
+    for (let j = i + 1; j < Math.min(lines.length, i + 12); j++) {
+      if (ERROR_START.test(lines[j])) break;
+      const marker = lines[j].match(LINE_MARKER);
+      if (marker) {
+        line = Number(marker[1]);
+        lineText = marker[2];
+        const next = lines[j + 1] || '';
+        const continuation = ERROR_START.test(next) ? '' : next.trim();
+        context = [lineText, continuation].filter(Boolean).join(' ').trim();
+        break;
+      }
+    }
+
+    errors.push({ message, line, context, ...classify(message, lineText, runaway) });
+  }
+
+  return errors;
+}
+
+export function formatLatexError(error: LatexError): string {
+  const location = error.line !== undefined ? `line ${error.line}` : 'unknown line';
+  const detail = error.command || error.package || error.character;
+  const context = error.context ? ` near "${error.context}"` : '';
+  return `[${error.kind}] ${location}: ${error.message}${detail ? ` (${detail})` : ''}${context}`;
+}
+
+export function latexErrorKey(error: LatexError): string {
+  return [error.kind, error.command || error.package || error.character || error.message].join(':');
+}
@@ -0,0 +1,130 @@
+import * as fs from 'fs';
+import { LLMConfig, assertLLMCredentials } from './config';
+import { AnthropicProvider } from './providers/anthropic';
+import { MockProvider } from './providers/mock';
+import { OllamaProvider } from './providers/ollama';
+import { OpenAICompatibleProvider } from './providers/openai';
+import {
+  CompletionRequest,
+  CompletionResult,
+  LLMProvider,
+  LLMRequestError,
+  TokenUsage,
+  addUsage,
+  emptyUsage
+} from './types';
+
+export interface LLMClientOptions {
+  timeoutMs: number;
+  maxRetries: number;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Applies the same timeout, retry and usage accounting to whichever provider is configured.
+export class LLMClient {
+  public readonly provider: LLMProvider;
+  private options: LLMClientOptions;
+  private usage: TokenUsage = emptyUsage();
+  private requests = 0;
+
+  constructor(provider: LLMProvider, options: LLMClientOptions) {
+    this.provider = provider;
+    this.options = options;
+  }
+
+  public get label(): string {
+    return `${this.provider.name}/${this.provider.model}`;
+  }
+
+  public async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const fullRequest: CompletionRequest = {
+      temperature: this.options.temperature,
+      maxTokens: this.options.maxTokens,
+      ...request
+    };
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await this.completeWithTimeout(fullRequest);
+        this.requests++;
+        this.usage = addUsage(this.usage, result.usage);
+        console.log(
+          `🔢 ${this.label} tokens: ${result.usage.promptTokens} prompt + ${result.usage.completionTokens} completion`
+        );
+        return result;
+      } catch (error) {
+        const retryable = error instanceof LLMRequestError && error.retryable;
+        if (!retryable || attempt >= this.options.maxRetries) {
+          throw error;
+        }
+
+        const backoff = Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+        const delay = Math.max(backoff, error.retryAfterMs ?? 0);
+        console.warn(`⚠️  ${error.message}. Retrying in ${Math.round(delay / 1000)}s (${attempt + 1}/${this.options.maxRetries})...`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  private async completeWithTimeout(request: CompletionRequest): Promise<CompletionResult> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs);
+
+    try {
+      return await this.provider.complete({ ...request, signal: controller.signal });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new LLMRequestError(`${this.label} timed out after ${this.options.timeoutMs}ms`, { retryable: true });
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  public getUsage(): TokenUsage & { requests: number } {
+    return { ...this.usage, requests: this.requests };
+  }
+}
+
+export function createProvider(config: LLMConfig): LLMProvider {
+  assertLLMCredentials(config);
+
+  switch (config.provider) {
+    case 'github-models':
+    case 'openai':
+    case 'llamacpp':
+      return new OpenAICompatibleProvider({
+        name: config.provider,
+        baseUrl: config.baseUrl,
+        model: config.model,
+        apiKey: config.apiKey
+      });
+    case 'anthropic':
+      return new AnthropicProvider({ baseUrl: config.baseUrl, model: config.model, apiKey: config.apiKey as string });
+    case 'ollama':
+      return new OllamaProvider({ baseUrl: config.baseUrl, model: config.model });
+    case 'mock':
+      return new MockProvider({
+        model: config.model,
+        responses: config.mockResponseFile ? [fs.readFileSync(config.mockResponseFile, 'utf-8')] : undefined
+      });
+  }
+}
+
+export function createLLMClient(config: LLMConfig): LLMClient {
+  return new LLMClient(createProvider(config), {
+    timeoutMs: config.timeoutMs,
+    maxRetries: config.maxRetries,
+    temperature: config.temperature,
+    maxTokens: config.maxTokens
+  });
+}
@@ -0,0 +1,132 @@
+export type ProviderName = 'github-models' | 'openai' | 'anthropic' | 'ollama' | 'llamacpp' | 'mock';
+
+export interface LLMConfig {
+  provider: ProviderName;
+  model: string;
+  baseUrl: string;
+  apiKey?: string;
+  temperature: number;
+  maxTokens: number;
+  timeoutMs: number;
+  maxRetries: number;
+  // Mock provider only: file whose contents are returned as the reply.
+  mockResponseFile?: string;
+}
+
+interface ProviderDefaults {
+  model: string;
+  baseUrl: string;
+  apiKeyEnv?: string;
+}
+
+const PROVIDER_DEFAULTS: Record<ProviderName, ProviderDefaults> = {
+  'github-models': { model: 'gpt-4o', baseUrl: 'https://models.inference.ai.azure.com', apiKeyEnv: 'GITHUB_TOKEN' },
+  openai: { model: 'gpt-4o', baseUrl: 'https://api.openai.com/v1', apiKeyEnv: 'OPENAI_API_KEY' },
+  anthropic: { model: 'claude-3-5-sonnet-latest', baseUrl: 'https://api.anthropic.com', apiKeyEnv: 'ANTHROPIC_API_KEY' },
+  ollama: { model: 'llama3.1', baseUrl: 'http://localhost:11434' },
+  llamacpp: { model: 'local', baseUrl: 'http://localhost:8080/v1' },
+  mock: { model: 'mock', baseUrl: '' }
+};
+
+// An unknown provider, a setting that is not a number or a missing API key.
+export class LLMConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LLMConfigError';
+  }
+}
+
+export const PROVIDER_NAMES = Object.keys(PROVIDER_DEFAULTS) as ProviderName[];
+
+function isProviderName(value: string): value is ProviderName {
+  return (PROVIDER_NAMES as string[]).includes(value);
+}
+
+const NUMBER_SETTINGS = ['temperature', 'maxTokens', 'timeoutMs', 'maxRetries'] as const;
+
+// Temperature, token limit, timeout and retries, wherever they were set, are numbers and never negative.
+function checkNumber(name: string, value: unknown): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new LLMConfigError(`${name} must be a number, got ${JSON.stringify(value)}`);
+  }
+  if (value < 0) {
+    throw new LLMConfigError(`${name} must not be negative, got ${value}`);
+  }
+  return value;
+}
+
+function numberFromEnv(name: string, env: NodeJS.ProcessEnv): number | undefined {
+  const raw = env[name];
+  if (raw === undefined || raw === '') return undefined;
+
+  const value = Number(raw);
+  if (Number.isNaN(value)) {
+    throw new LLMConfigError(`${name} must be a number, got "${raw}"`);
+  }
+  return checkNumber(name, value);
+}
+
+function definedOnly<T extends object>(values: T): Partial<T> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+// Precedence: explicit overrides, then environment variables, then the config file, then provider defaults.
+export function resolveLLMConfig(
+  overrides: Partial<LLMConfig> = {},
+  fileConfig: Partial<LLMConfig> = {},
+  env: NodeJS.ProcessEnv = process.env
+): LLMConfig {
+  for (const key of NUMBER_SETTINGS) {
+    checkNumber(`llm.${key} in the config file`, fileConfig[key]);
+  }
+
+  const fromEnv = definedOnly({
+    provider: env.LLM_PROVIDER as ProviderName | undefined,
+    model: env.LLM_MODEL,
+    baseUrl: env.LLM_BASE_URL,
+    apiKey: env.LLM_API_KEY,
+    temperature: numberFromEnv('LLM_TEMPERATURE', env),
+    maxTokens: numberFromEnv('LLM_MAX_TOKENS', env),
+    timeoutMs: numberFromEnv('LLM_TIMEOUT_MS', env),
+    maxRetries: numberFromEnv('LLM_MAX_RETRIES', env),
+    mockResponseFile: env.LLM_MOCK_RESPONSE_FILE
+  });
+
+  const merged = { ...fileConfig, ...fromEnv, ...definedOnly(overrides) };
+  const provider = merged.provider || 'github-models';
+
+  if (!isProviderName(provider)) {
+    throw new LLMConfigError(`Unknown LLM provider "${provider}". Expected one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+
+  const defaults = PROVIDER_DEFAULTS[provider];
+
+  return {
+    provider,
+    model: merged.model || defaults.model,
+    baseUrl: merged.baseUrl || defaults.baseUrl,
+    apiKey: merged.apiKey || (defaults.apiKeyEnv ? env[defaults.apiKeyEnv] : undefined),
+    temperature: merged.temperature ?? 0.1,
+    maxTokens: merged.maxTokens ?? 4000,
+    timeoutMs: merged.timeoutMs ?? 120000,
+    maxRetries: merged.maxRetries ?? 2,
+    mockResponseFile: merged.mockResponseFile
+  };
+}
+
+export function requiredApiKeyEnv(provider: ProviderName): string | undefined {
+  return PROVIDER_DEFAULTS[provider].apiKeyEnv;
+}
+
+// Fails before any request is made when the selected provider needs a key that is not set.
+export function assertLLMCredentials(config: LLMConfig): void {
+  const keyEnv = requiredApiKeyEnv(config.provider);
+  if (keyEnv && !config.apiKey) {
+    const hint = config.provider === 'github-models' ? ' (a GitHub token with access to GitHub Models)' : '';
+    throw new LLMConfigError(
+      `${keyEnv}${hint} is required for the ${config.provider} provider. ` +
+      'Set LLM_PROVIDER to ollama, llamacpp or mock to run without an API key.'
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { LLMRequestError } from './types';
+
+const RETRYABLE_STATUS = new Set([408, 409, 425, 429, 500, 502, 503, 504]);
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Shared by every HTTP provider so status codes map to the same retry decisions.
+export async function postJson<T>(
+  providerName: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new LLMRequestError(`${providerName} request failed: ${reason}`, { retryable: true });
+  }
+
+  if (!response.ok) {
+    const details = await response.text().catch(() => '');
+    throw new LLMRequestError(
+      `${providerName} API error: ${response.status} ${response.statusText}${details ? ` - ${details.substring(0, 500)}` : ''}`,
+      {
+        status: response.status,
+        retryable: RETRYABLE_STATUS.has(response.status),
+        retryAfterMs: parseRetryAfter(response.headers.get('retry-after'))
+      }
+    );
+  }
+
+  return response.json() as Promise<T>;
+}
@@ -0,0 +1,7 @@
+export * from './types';
+export * from './config';
+export * from './client';
+export { OpenAICompatibleProvider } from './providers/openai';
+export { AnthropicProvider } from './providers/anthropic';
+export { OllamaProvider } from './providers/ollama';
+export { MockProvider, MockResponder } from './providers/mock';
@@ -0,0 +1,80 @@
+import { postJson } from '../http';
+import { CompletionRequest, CompletionResult, LLMProvider } from '../types';
+
+export interface AnthropicOptions {
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+}
+
+interface MessagesResponse {
+  model?: string;
+  content: Array<{ type: string; text?: string; input?: unknown }>;
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+  };
+}
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 4000;
+
+export class AnthropicProvider implements LLMProvider {
+  public readonly name = 'anthropic';
+  public readonly model: string;
+  private baseUrl: string;
+  private apiKey: string;
+
+  constructor(options: AnthropicOptions) {
+    this.model = options.model;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+  }
+
+  public async complete(request: CompletionRequest): Promise<CompletionResult> {
+    // The Messages API takes the system prompt separately from the conversation.
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+    const messages = request.messages.filter(message => message.role !== 'system');
+
+    const data = await postJson<MessagesResponse>(
+      this.name,
+      `${this.baseUrl}/v1/messages`,
+      {
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION
+      },
+      {
+        model: this.model,
+        ...(system && { system }),
+        messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        // Structured output goes through a single forced tool call whose input is the reply.
+        ...(request.jsonSchema && {
+          tools: [{ name: request.jsonSchema.name, input_schema: request.jsonSchema.schema }],
+          tool_choice: { type: 'tool', name: request.jsonSchema.name }
+        })
+      },
+      request.signal
+    );
+
+    const promptTokens = data.usage?.input_tokens ?? 0;
+    const completionTokens = data.usage?.output_tokens ?? 0;
+
+    const toolUse = data.content.find(block => block.type === 'tool_use');
+
+    return {
+      content: request.jsonSchema && toolUse
+        ? JSON.stringify(toolUse.input)
+        : data.content
+          .filter(block => block.type === 'text')
+          .map(block => block.text ?? '')
+          .join(''),
+      model: data.model || this.model,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+    };
+  }
+}
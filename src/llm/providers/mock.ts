@@ -0,0 +1,56 @@
+import { CompletionRequest, CompletionResult, LLMProvider } from '../types';
+
+export type MockResponder = (request: CompletionRequest, callIndex: number) => string;
+
+export interface MockOptions {
+  model?: string;
+  // Replies returned in order; the last one repeats once the list is exhausted.
+  responses?: string[];
+  respond?: MockResponder;
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Deterministic provider for offline runs and tests: no network, same input gives the same output.
+export class MockProvider implements LLMProvider {
+  public readonly name = 'mock';
+  public readonly model: string;
+  private responses: string[];
+  private respond?: MockResponder;
+  private calls = 0;
+
+  constructor(options: MockOptions = {}) {
+    this.model = options.model || 'mock';
+    this.responses = options.responses || [];
+    this.respond = options.respond;
+  }
+
+  public async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const callIndex = this.calls++;
+    let content: string;
+
+    if (this.respond) {
+      content = this.respond(request, callIndex);
+    } else if (this.responses.length > 0) {
+      content = this.responses[Math.min(callIndex, this.responses.length - 1)];
+    } else {
+      const lastMessage = request.messages[request.messages.length - 1];
+      content = `MOCK RESPONSE (${lastMessage ? lastMessage.content.length : 0} characters received)`;
+    }
+
+    const promptTokens = request.messages.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+    const completionTokens = estimateTokens(content);
+
+    return {
+      content,
+      model: this.model,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+    };
+  }
+
+  public get callCount(): number {
+    return this.calls;
+  }
+}
@@ -0,0 +1,53 @@
+import { postJson } from '../http';
+import { CompletionRequest, CompletionResult, LLMProvider } from '../types';
+
+export interface OllamaOptions {
+  baseUrl: string;
+  model: string;
+}
+
+interface ChatResponse {
+  model?: string;
+  message: { content: string };
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+export class OllamaProvider implements LLMProvider {
+  public readonly name = 'ollama';
+  public readonly model: string;
+  private baseUrl: string;
+
+  constructor(options: OllamaOptions) {
+    this.model = options.model;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+  }
+
+  public async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const data = await postJson<ChatResponse>(
+      this.name,
+      `${this.baseUrl}/api/chat`,
+      {},
+      {
+        model: this.model,
+        messages: request.messages,
+        stream: false,
+        ...(request.jsonSchema && { format: request.jsonSchema.schema }),
+        options: {
+          temperature: request.temperature,
+          num_predict: request.maxTokens
+        }
+      },
+      request.signal
+    );
+
+    const promptTokens = data.prompt_eval_count ?? 0;
+    const completionTokens = data.eval_count ?? 0;
+
+    return {
+      content: data.message.content,
+      model: data.model || this.model,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+    };
+  }
+}
@@ -0,0 +1,73 @@
+import { postJson } from '../http';
+import { CompletionRequest, CompletionResult, LLMProvider } from '../types';
+
+export interface OpenAICompatibleOptions {
+  name: string;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices: Array<{ message: { content: string | null } }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  };
+}
+
+// Covers GitHub Models, OpenAI and any server exposing /chat/completions, such as llama.cpp.
+export class OpenAICompatibleProvider implements LLMProvider {
+  public readonly name: string;
+  public readonly model: string;
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.name = options.name;
+    this.model = options.model;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+  }
+
+  public async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const headers: Record<string, string> = {};
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const data = await postJson<ChatCompletionResponse>(
+      this.name,
+      `${this.baseUrl}/chat/completions`,
+      headers,
+      {
+        messages: request.messages,
+        model: this.model,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(request.jsonSchema && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: request.jsonSchema.name, schema: request.jsonSchema.schema, strict: true }
+          }
+        })
+      },
+      request.signal
+    );
+
+    const promptTokens = data.usage?.prompt_tokens ?? 0;
+    const completionTokens = data.usage?.completion_tokens ?? 0;
+
+    return {
+      content: data.choices[0]?.message.content ?? '',
+      model: data.model || this.model,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: data.usage?.total_tokens ?? promptTokens + completionTokens
+      }
+    };
+  }
+}
@@ -0,0 +1,65 @@
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+// A JSON Schema the reply must conform to. Providers with structured output enforce it; the others
+// only see it in the prompt, so callers still validate the reply.
+export interface JsonSchemaFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  jsonSchema?: JsonSchemaFormat;
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  usage: TokenUsage;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+export class LLMRequestError extends Error {
+  public readonly status?: number;
+  public readonly retryable: boolean;
+  public readonly retryAfterMs?: number;
+
+  constructor(message: string, options: { status?: number; retryable?: boolean; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'LLMRequestError';
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export function emptyUsage(): TokenUsage {
+  return { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+}
+
+export function addUsage(total: TokenUsage, usage: TokenUsage): TokenUsage {
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens
+  };
+}
@@ -0,0 +1,12 @@
+import * as path from 'path';
+
+// Default locations inside a checkout. Every class takes its paths as options; these are only fallbacks.
+
+export const PROJECT_ROOT = path.join(__dirname, '..');
+export const DEFAULT_DATA_DIR = path.join(PROJECT_ROOT, 'data');
+export const DEFAULT_PROFILE_PATH = path.join(DEFAULT_DATA_DIR, 'profile.json');
+export const DEFAULT_PROFILE_PDF_PATH = path.join(DEFAULT_DATA_DIR, 'profile.pdf');
+export const DEFAULT_OUTPUT_DIR = path.join(PROJECT_ROOT, 'output');
+export const TEMPLATES_DIR = path.join(__dirname, 'assets', 'templates');
+export const DEFAULT_TEMPLATE_PATH = path.join(TEMPLATES_DIR, 'base-cv.tex');
+export const DEFAULT_RENDER_TEMPLATE_PATH = path.join(TEMPLATES_DIR, 'base-cv.template.tex');
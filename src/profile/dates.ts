@@ -0,0 +1,75 @@
+// Profile dates are free text typed by people or copied from LinkedIn: "April 2024",
+// "abril de 2024", "03/2021", "2022-09" or "Presente". These helpers read all of them.
+
+export interface ProfileDate {
+  year: number;
+  month?: number;
+  day?: number;
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 1, january: 1, janeiro: 1, enero: 1,
+  feb: 2, fev: 2, february: 2, fevereiro: 2, febrero: 2,
+  mar: 3, march: 3, marco: 3, 'março': 3, marzo: 3,
+  apr: 4, abr: 4, april: 4, abril: 4,
+  may: 5, mai: 5, maio: 5, mayo: 5,
+  jun: 6, june: 6, junho: 6, junio: 6,
+  jul: 7, july: 7, julho: 7, julio: 7,
+  aug: 8, ago: 8, august: 8, agosto: 8,
+  sep: 9, sept: 9, set: 9, september: 9, setembro: 9, septiembre: 9,
+  oct: 10, out: 10, october: 10, outubro: 10, octubre: 10,
+  nov: 11, november: 11, novembro: 11, noviembre: 11,
+  dec: 12, dez: 12, dic: 12, december: 12, dezembro: 12, diciembre: 12
+};
+
+const ONGOING_PATTERN = /^(present|current|now|presente|atual|actual|hoje|hoy)$/i;
+
+export function isOngoingDate(value: string | undefined): boolean {
+  return Boolean(value && ONGOING_PATTERN.test(value.trim()));
+}
+
+// Returns null for empty, ongoing or unrecognisable values.
+export function parseProfileDate(value: string | undefined): ProfileDate | null {
+  const text = (value || '').trim();
+  if (!text || isOngoingDate(text)) return null;
+
+  const iso = text.match(/^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/);
+  if (iso) {
+    return {
+      year: Number(iso[1]),
+      ...(iso[2] ? { month: Number(iso[2]) } : {}),
+      ...(iso[3] ? { day: Number(iso[3]) } : {})
+    };
+  }
+
+  const numeric = text.match(/^(\d{1,2})\/(\d{4})$/);
+  if (numeric && Number(numeric[1]) >= 1 && Number(numeric[1]) <= 12) {
+    return { year: Number(numeric[2]), month: Number(numeric[1]) };
+  }
+
+  const named = text.toLowerCase().match(/^([a-zà-ú]+)\.?(?:\s+de)?\s+(\d{4})$/);
+  if (named && MONTHS[named[1]]) {
+    return { year: Number(named[2]), month: MONTHS[named[1]] };
+  }
+
+  return null;
+}
+
+export interface IsoDateResult {
+  value?: string;
+  // False when the input was neither empty, ongoing nor a recognisable date.
+  ok: boolean;
+}
+
+export function toIsoDate(value: string | undefined): IsoDateResult {
+  const text = (value || '').trim();
+  if (!text || isOngoingDate(text)) return { ok: true };
+
+  const date = parseProfileDate(text);
+  if (!date) return { ok: false };
+
+  const parts = [String(date.year)];
+  if (date.month) parts.push(String(date.month).padStart(2, '0'));
+  if (date.month && date.day) parts.push(String(date.day).padStart(2, '0'));
+  return { value: parts.join('-'), ok: true };
+}
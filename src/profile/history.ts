@@ -0,0 +1,284 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProfileChange, describeValue } from './merge';
+import { ProfileSource, ProvenanceLog, createEmptyProvenance, loadProvenance, profileFields, provenancePath, saveProvenance } from './provenance';
+import { ProfileData } from './schema';
+import { loadProfile, saveProfile } from './store';
+
+// One saved version of the profile, with the provenance that described it.
+export interface ProfileSnapshot {
+  version: number;
+  at: string;
+  // Who wrote this version: the collector or extractor that ran, or manual for hand edits and restores.
+  source: ProfileSource;
+  detail?: string;
+  // Labelled snapshots are never pruned.
+  label?: string;
+  profile: ProfileData;
+  provenance?: ProvenanceLog;
+}
+
+export type SnapshotSummary = Omit<ProfileSnapshot, 'profile' | 'provenance'>;
+
+// The `history` section of autorriculum.config.json.
+export interface HistoryRetention {
+  // Unlabelled snapshots kept, newest first.
+  keep: number;
+  // Unlabelled snapshots older than this are dropped even within `keep`; null keeps them regardless of age.
+  maxAgeDays: number | null;
+}
+
+export const DEFAULT_HISTORY_RETENTION: HistoryRetention = { keep: 20, maxAgeDays: null };
+
+export interface SnapshotOptions {
+  source: ProfileSource;
+  detail?: string;
+  label?: string;
+  retention?: Partial<HistoryRetention>;
+  now?: Date;
+}
+
+export class HistoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HistoryError';
+  }
+}
+
+export class HistoryConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HistoryConfigError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SNAPSHOT_FILE = /^(\d+)\.json$/;
+
+export function resolveHistoryRetention(config: Partial<HistoryRetention> = {}): HistoryRetention {
+  const resolved = { ...DEFAULT_HISTORY_RETENTION, ...config };
+  if (!Number.isInteger(resolved.keep) || resolved.keep < 1) {
+    throw new HistoryConfigError('history.keep must be a whole number of at least 1');
+  }
+  if (resolved.maxAgeDays !== null && !(typeof resolved.maxAgeDays === 'number' && resolved.maxAgeDays > 0)) {
+    throw new HistoryConfigError('history.maxAgeDays must be a positive number or null');
+  }
+  return resolved;
+}
+
+// profile.json → profile.history/, one numbered file per snapshot.
+export function historyDir(profilePath: string): string {
+  const extension = path.extname(profilePath);
+  return path.join(path.dirname(profilePath), `${path.basename(profilePath, extension)}.history`);
+}
+
+function snapshotFile(profilePath: string, version: number): string {
+  return path.join(historyDir(profilePath), `${String(version).padStart(4, '0')}.json`);
+}
+
+function readSnapshot(file: string): ProfileSnapshot {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new HistoryError(`Cannot read snapshot ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function writeSnapshot(profilePath: string, snapshot: ProfileSnapshot): void {
+  fs.mkdirSync(historyDir(profilePath), { recursive: true });
+  fs.writeFileSync(snapshotFile(profilePath, snapshot.version), JSON.stringify(snapshot, null, 2));
+}
+
+function versions(profilePath: string): number[] {
+  const dir = historyDir(profilePath);
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .map(file => file.match(SNAPSHOT_FILE))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => Number(match[1]))
+    .sort((a, b) => a - b);
+}
+
+// Oldest first.
+export function listSnapshots(profilePath: string): SnapshotSummary[] {
+  return versions(profilePath).map(version => {
+    const { profile: _profile, provenance: _provenance, ...summary } = readSnapshot(snapshotFile(profilePath, version));
+    return summary;
+  });
+}
+
+// A version number ("7" or "v7"), a label, or "latest". "current" is the profile itself, not a snapshot.
+export function loadSnapshot(profilePath: string, ref: string): ProfileSnapshot {
+  const known = versions(profilePath);
+  if (known.length === 0) {
+    throw new HistoryError(`No snapshots of ${profilePath} yet`);
+  }
+  const number = ref === 'latest' ? known[known.length - 1] : /^v?\d+$/.test(ref) ? Number(ref.replace(/^v/, '')) : undefined;
+  if (number !== undefined) {
+    if (!known.includes(number)) throw new HistoryError(`No snapshot v${number}; \`autorriculum history\` lists them`);
+    return readSnapshot(snapshotFile(profilePath, number));
+  }
+
+  const labelled = listSnapshots(profilePath).filter(snapshot => snapshot.label === ref);
+  if (labelled.length === 0) throw new HistoryError(`No snapshot labelled "${ref}"`);
+  return readSnapshot(snapshotFile(profilePath, labelled[labelled.length - 1].version));
+}
+
+// Labels share the namespace of version references.
+function assertLabel(label: string | undefined): void {
+  if (label && /^(latest|current|v?\d+)$/.test(label)) {
+    throw new HistoryError(`"${label}" would be read as a version; pick another label`);
+  }
+}
+
+function latestSnapshot(profilePath: string): ProfileSnapshot | undefined {
+  const known = versions(profilePath);
+  return known.length > 0 ? readSnapshot(snapshotFile(profilePath, known[known.length - 1])) : undefined;
+}
+
+// Saves the profile on disk, with its provenance, as a new version and applies the retention policy.
+export function recordSnapshot(profilePath: string, options: SnapshotOptions): ProfileSnapshot {
+  assertLabel(options.label);
+  const snapshot: ProfileSnapshot = {
+    version: (latestSnapshot(profilePath)?.version || 0) + 1,
+    at: (options.now || new Date()).toISOString(),
+    source: options.source,
+    ...(options.detail ? { detail: options.detail } : {}),
+    ...(options.label ? { label: options.label } : {}),
+    profile: loadProfile(profilePath),
+    ...(fs.existsSync(provenancePath(profilePath)) ? { provenance: loadProvenance(profilePath) } : {})
+  };
+  writeSnapshot(profilePath, snapshot);
+  pruneHistory(profilePath, options.retention, options.now);
+  return snapshot;
+}
+
+export function labelSnapshot(profilePath: string, ref: string, label: string | undefined): ProfileSnapshot {
+  assertLabel(label);
+  const snapshot = loadSnapshot(profilePath, ref);
+  if (label) snapshot.label = label;
+  else delete snapshot.label;
+  writeSnapshot(profilePath, snapshot);
+  return snapshot;
+}
+
+// Drops unlabelled snapshots beyond the retention policy. The latest snapshot always stays.
+export function pruneHistory(profilePath: string, retention: Partial<HistoryRetention> = {}, now: Date = new Date()): number[] {
+  const { keep, maxAgeDays } = resolveHistoryRetention(retention);
+  const snapshots = listSnapshots(profilePath).reverse();
+  const removed: number[] = [];
+  let kept = 0;
+  snapshots.forEach((snapshot, index) => {
+    if (snapshot.label) return;
+    const expired = maxAgeDays !== null && now.getTime() - Date.parse(snapshot.at) > maxAgeDays * DAY_MS;
+    if (index === 0 || (!expired && kept < keep)) {
+      kept++;
+      return;
+    }
+    fs.unlinkSync(snapshotFile(profilePath, snapshot.version));
+    removed.push(snapshot.version);
+  });
+  return removed.reverse();
+}
+
+// Writes a new profile version the way every collector and extractor does: hand edits made since the
+// latest snapshot are kept as a manual snapshot first, then the new profile is saved and snapshotted.
+export function saveProfileVersion(
+  profilePath: string,
+  profile: ProfileData,
+  provenance: ProvenanceLog | undefined,
+  options: SnapshotOptions
+): ProfileSnapshot {
+  if (fs.existsSync(profilePath)) {
+    const latest = latestSnapshot(profilePath);
+    if (!latest || JSON.stringify(latest.profile) !== JSON.stringify(loadProfile(profilePath))) {
+      recordSnapshot(profilePath, { source: 'manual', detail: 'edits before this run', retention: options.retention, now: options.now });
+    }
+  }
+  fs.mkdirSync(path.dirname(profilePath), { recursive: true });
+  saveProfile(profilePath, profile);
+  if (provenance) saveProvenance(profilePath, provenance);
+  return recordSnapshot(profilePath, options);
+}
+
+// Puts a snapshot back as the current profile. The replaced profile is snapshotted first, and the restored
+// one is recorded as a new version, so a restore can itself be undone.
+export function restoreSnapshot(profilePath: string, ref: string, options: { retention?: Partial<HistoryRetention>; now?: Date } = {}): ProfileSnapshot {
+  const snapshot = loadSnapshot(profilePath, ref);
+  // Provenance recorded after an old snapshot no longer describes it.
+  const provenance = snapshot.provenance || (fs.existsSync(provenancePath(profilePath)) ? createEmptyProvenance() : undefined);
+  return saveProfileVersion(profilePath, snapshot.profile, provenance, {
+    source: 'manual',
+    detail: `restored v${snapshot.version}`,
+    retention: options.retention,
+    now: options.now
+  });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// The tracked profile fields (see profileFields), with collected statistics broken down to single values so
+// a diff names the star count that changed rather than the whole block.
+function diffFields(profile: ProfileData): Map<string, unknown> {
+  const flat = new Map<string, unknown>();
+  const add = (fieldPath: string, value: unknown) => {
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      for (const [key, nested] of Object.entries(value)) add(`${fieldPath}.${key}`, nested);
+    } else {
+      flat.set(fieldPath, value);
+    }
+  };
+  for (const [fieldPath, value] of profileFields(profile)) add(fieldPath, value);
+  return flat;
+}
+
+// Field-by-field changes from one profile version to another.
+export function diffProfiles(before: ProfileData, after: ProfileData): ProfileChange[] {
+  const old = diffFields(before);
+  const now = diffFields(after);
+  const changes: ProfileChange[] = [];
+  for (const [fieldPath, value] of old) {
+    if (!now.has(fieldPath)) changes.push({ kind: 'remove', path: fieldPath, before: value });
+    else if (JSON.stringify(now.get(fieldPath)) !== JSON.stringify(value)) {
+      changes.push({ kind: 'update', path: fieldPath, before: value, after: now.get(fieldPath) });
+    }
+  }
+  for (const [fieldPath, value] of now) {
+    if (!old.has(fieldPath)) changes.push({ kind: 'add', path: fieldPath, after: value });
+  }
+  return changes;
+}
+
+export function snapshotName(snapshot: SnapshotSummary): string {
+  return `v${snapshot.version}${snapshot.label ? ` "${snapshot.label}"` : ''}`;
+}
+
+// Grouped by section so a diff of a whole collector run stays readable.
+export function formatProfileDiff(changes: ProfileChange[], from: string, to: string): string {
+  if (changes.length === 0) return `No differences between ${from} and ${to}`;
+  const count = (kind: ProfileChange['kind']) => changes.filter(change => change.kind === kind).length;
+  const lines = [`${from} → ${to}: ${count('add')} added, ${count('update')} changed, ${count('remove')} removed`];
+  let section = '';
+  for (const change of [...changes].sort((a, b) => a.path.localeCompare(b.path))) {
+    const top = change.path.split(/[.[]/)[0];
+    if (top !== section) {
+      section = top;
+      lines.push('', `${section}:`);
+    }
+    if (change.kind === 'add') lines.push(`  + ${change.path}: ${describeValue(change.after)}`);
+    if (change.kind === 'remove') lines.push(`  - ${change.path}: ${describeValue(change.before)}`);
+    if (change.kind === 'update') lines.push(`  ~ ${change.path}: ${describeValue(change.before)} → ${describeValue(change.after)}`);
+  }
+  return lines.join('\n');
+}
+
+// Newest first: version, date, source and what it read, label.
+export function formatHistory(snapshots: SnapshotSummary[]): string {
+  return [...snapshots].reverse().map(snapshot => {
+    const detail = snapshot.detail ? ` (${snapshot.detail})` : '';
+    const label = snapshot.label ? `  🏷  ${snapshot.label}` : '';
+    return `v${String(snapshot.version).padEnd(4)} ${snapshot.at.slice(0, 19).replace('T', ' ')}  ${snapshot.source.padEnd(12)}${detail}${label}`.trimEnd();
+  }).join('\n');
+}
@@ -0,0 +1,9 @@
+export * from './schema';
+export * from './validator';
+export * from './store';
+export * from './dates';
+export * from './keys';
+export * from './provenance';
+export * from './merge';
+export * from './history';
+export * from './jsonResume';
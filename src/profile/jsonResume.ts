@@ -0,0 +1,584 @@
+import {
+  CertificationEntry,
+  EducationEntry,
+  ExperienceEntry,
+  MembershipEntry,
+  ProfileData,
+  ProjectEntry,
+  RecommendationEntry,
+  ResearchEntry,
+  SkillListKey,
+  createEmptyProfile,
+  createEmptyTechnicalSkills,
+  isAward
+} from './schema';
+import { toIsoDate } from './dates';
+import { ProfileValidationError, validateJsonResume } from './validator';
+
+// Two-way conversion between ProfileData and JSON Resume (https://jsonresume.org/schema).
+// Neither direction fails on data the other side cannot hold: those fields are dropped
+// and listed in the conversion's `unmapped` report instead.
+
+export interface JsonResumeLocation {
+  address?: string;
+  postalCode?: string;
+  city?: string;
+  countryCode?: string;
+  region?: string;
+}
+
+export interface JsonResumeProfile {
+  network?: string;
+  username?: string;
+  url?: string;
+}
+
+export interface JsonResumeBasics {
+  name?: string;
+  label?: string;
+  email?: string;
+  phone?: string;
+  url?: string;
+  summary?: string;
+  location?: JsonResumeLocation;
+  profiles?: JsonResumeProfile[];
+  [extra: string]: unknown;
+}
+
+export interface JsonResumeWork {
+  name?: string;
+  position?: string;
+  location?: string;
+  url?: string;
+  startDate?: string;
+  endDate?: string;
+  summary?: string;
+  highlights?: string[];
+  [extra: string]: unknown;
+}
+
+export interface JsonResumeVolunteer {
+  organization?: string;
+  position?: string;
+  startDate?: string;
+  endDate?: string;
+  summary?: string;
+  [extra: string]: unknown;
+}
+
+export interface JsonResumeEducation {
+  institution?: string;
+  area?: string;
+  studyType?: string;
+  startDate?: string;
+  endDate?: string;
+  [extra: string]: unknown;
+}
+
+export interface JsonResumeAward {
+  title?: string;
+  date?: string;
+  awarder?: string;
+  summary?: string;
+  [extra: string]: unknown;
+}
+
+export interface JsonResumeCertificate {
+  name?: string;
+  date?: string;
+  issuer?: string;
+  url?: string;
+  [extra: string]: unknown;
+}
+
+export interface JsonResumePublication {
+  name?: string;
+  publisher?: string;
+  releaseDate?: string;
+  url?: string;
+  summary?: string;
+  [extra: string]: unknown;
+}
+
+export interface JsonResumeSkill {
+  name?: string;
+  level?: string;
+  keywords?: string[];
+  [extra: string]: unknown;
+}
+
+export interface JsonResumeLanguage {
+  language?: string;
+  fluency?: string;
+  [extra: string]: unknown;
+}
+
+export interface JsonResumeProject {
+  name?: string;
+  description?: string;
+  highlights?: string[];
+  keywords?: string[];
+  url?: string;
+  type?: string;
+  startDate?: string;
+  endDate?: string;
+  [extra: string]: unknown;
+}
+
+export interface JsonResumeReference {
+  name?: string;
+  reference?: string;
+  [extra: string]: unknown;
+}
+
+export interface JsonResume {
+  basics?: JsonResumeBasics;
+  work?: JsonResumeWork[];
+  volunteer?: JsonResumeVolunteer[];
+  education?: JsonResumeEducation[];
+  awards?: JsonResumeAward[];
+  certificates?: JsonResumeCertificate[];
+  publications?: JsonResumePublication[];
+  skills?: JsonResumeSkill[];
+  languages?: JsonResumeLanguage[];
+  projects?: JsonResumeProject[];
+  references?: JsonResumeReference[];
+  [extra: string]: unknown;
+}
+
+export interface UnmappedField {
+  // Path in the source document, e.g. `projects.autorriculum.stars` or `work[2].url`.
+  path: string;
+  reason: string;
+}
+
+export interface ConversionResult<T> {
+  data: T;
+  unmapped: UnmappedField[];
+}
+
+const SKILL_GROUPS: Array<{ key: SkillListKey; name: string; aliases: RegExp }> = [
+  { key: 'programming_languages', name: 'Programming Languages', aliases: /program|linguage|lenguaje|languages/i },
+  { key: 'tools_and_technologies', name: 'Tools and Technologies', aliases: /tool|ferrament|herramient|technolog|tecnolog|framework/i },
+  { key: 'operating_systems', name: 'Operating Systems', aliases: /operating|operacion|operativ/i },
+  { key: 'areas_of_expertise', name: 'Areas of Expertise', aliases: /expertise|atua[cç]|area|área|domain/i }
+];
+
+function slugify(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+function uniqueKey(base: string, taken: Record<string, unknown>, fallback: string): string {
+  const root = slugify(base) || fallback;
+  let key = root;
+  for (let suffix = 2; key in taken; suffix++) {
+    key = `${root}_${suffix}`;
+  }
+  return key;
+}
+
+function definedOnly<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, item]) => item !== undefined && item !== '' && !(Array.isArray(item) && item.length === 0))
+  ) as T;
+}
+
+function nonEmpty(values: string[] | undefined): string[] | undefined {
+  const filtered = (values || []).filter(Boolean);
+  return filtered.length > 0 ? filtered : undefined;
+}
+
+function reportExtra(entry: object, known: string[], path: string, reason: string, unmapped: UnmappedField[]): void {
+  for (const [key, value] of Object.entries(entry)) {
+    if (!known.includes(key) && value !== undefined) {
+      unmapped.push({ path: path ? `${path}.${key}` : key, reason });
+    }
+  }
+}
+
+class ExportContext {
+  readonly unmapped: UnmappedField[] = [];
+
+  date(value: string | undefined, path: string): string | undefined {
+    const result = toIsoDate(value);
+    if (!result.ok) {
+      this.unmapped.push({ path, reason: `"${value}" is not a recognisable date` });
+    }
+    return result.value;
+  }
+}
+
+function splitLocation(location: string): JsonResumeLocation {
+  const [city, ...rest] = location.split(',').map(part => part.trim()).filter(Boolean);
+  return definedOnly({ city, region: rest.join(', ') || undefined });
+}
+
+function exportBasics(profile: ProfileData, context: ExportContext): JsonResumeBasics {
+  const basics: JsonResumeBasics = {
+    name: profile.name,
+    label: profile.headline,
+    summary: profile.summary,
+    location: profile.location ? splitLocation(profile.location) : undefined,
+    profiles: []
+  };
+
+  profile.contact.forEach((value, index) => {
+    const contact = value.trim();
+    const profileMatch = contact.match(/^(?:https?:\/\/)?(?:www\.)?(linkedin|github|gitlab|twitter|x)\.com\/(?:in\/)?([^/?#]+)/i);
+
+    if (/^[\w.+-]+@[\w-]+(\.[\w-]+)+$/.test(contact) && !basics.email) {
+      basics.email = contact;
+    } else if (profileMatch) {
+      const network = profileMatch[1].toLowerCase();
+      basics.profiles!.push({
+        network: network === 'linkedin' ? 'LinkedIn' : network === 'github' ? 'GitHub' : network.charAt(0).toUpperCase() + network.slice(1),
+        username: profileMatch[2],
+        url: /^https?:\/\//i.test(contact) ? contact : `https://${contact}`
+      });
+    } else if (/^https?:\/\//i.test(contact) && !basics.url) {
+      basics.url = contact;
+    } else if (/^\+?[\d\s().-]{8,}$/.test(contact) && !basics.phone) {
+      basics.phone = contact;
+    } else {
+      context.unmapped.push({ path: `contact[${index}]`, reason: 'no matching basics field' });
+    }
+  });
+
+  return definedOnly(basics);
+}
+
+export function profileToJsonResume(profile: ProfileData): ConversionResult<JsonResume> {
+  const context = new ExportContext();
+  const { unmapped } = context;
+
+  profile.facts.forEach((_, index) => unmapped.push({ path: `facts[${index}]`, reason: 'JSON Resume has no facts section' }));
+  if (profile.github_stats) {
+    unmapped.push({ path: 'github_stats', reason: 'JSON Resume has no repository statistics section' });
+  }
+  Object.keys(profile.open_source_contributions || {}).forEach(key =>
+    unmapped.push({ path: `open_source_contributions.${key}`, reason: 'JSON Resume has no contributions section' })
+  );
+
+  const work = Object.entries(profile.professional_experience).map(([key, entry]): JsonResumeWork => {
+    const path = `professional_experience.${key}`;
+    reportExtra(entry, ['title', 'company', 'location', 'start_date', 'end_date', 'description', 'responsibilities', 'achievements'],
+      path, 'no matching work field', unmapped);
+    return definedOnly({
+      name: entry.company,
+      position: entry.title,
+      location: entry.location,
+      startDate: context.date(entry.start_date, `${path}.start_date`),
+      endDate: context.date(entry.end_date, `${path}.end_date`),
+      summary: entry.description,
+      highlights: nonEmpty([...(entry.responsibilities || []), ...(entry.achievements || [])])
+    });
+  });
+
+  const volunteer = Object.entries(profile.memberships || {}).map(([key, entry]): JsonResumeVolunteer => {
+    const path = `memberships.${key}`;
+    reportExtra(entry, ['organization', 'role', 'since', 'end_date', 'description', 'cause', 'type'], path, 'no matching volunteer field', unmapped);
+    return definedOnly({
+      organization: entry.organization,
+      position: entry.role,
+      startDate: context.date(entry.since, `${path}.since`),
+      endDate: context.date(entry.end_date, `${path}.end_date`),
+      // JSON Resume has no cause field, so it leads the summary.
+      summary: [entry.cause, entry.description].filter(Boolean).join(' — ')
+    });
+  });
+
+  const education = Object.entries(profile.superior_education).map(([key, entry]): JsonResumeEducation => {
+    const path = `superior_education.${key}`;
+    reportExtra(entry, ['degree', 'field', 'institution', 'start_date', 'end_date'], path, 'no matching education field', unmapped);
+    return definedOnly({
+      institution: entry.institution,
+      area: entry.field,
+      studyType: entry.degree,
+      startDate: context.date(entry.start_date, `${path}.start_date`),
+      endDate: context.date(entry.end_date, `${path}.end_date`)
+    });
+  });
+
+  const awards = Object.entries(profile.certifications).filter(([, entry]) => isAward(entry)).map(([key, entry]): JsonResumeAward => {
+    const path = `certifications.${key}`;
+    reportExtra(entry, ['name', 'type', 'issuer', 'date', 'description'], path, 'no matching award field', unmapped);
+    return definedOnly({
+      title: entry.name,
+      awarder: entry.issuer,
+      date: context.date(entry.date, `${path}.date`),
+      summary: entry.description
+    });
+  });
+
+  const certificates = Object.entries(profile.certifications).filter(([, entry]) => !isAward(entry)).map(([key, entry]): JsonResumeCertificate => {
+    const path = `certifications.${key}`;
+    reportExtra(entry, ['name', 'issuer', 'date', 'url'], path, 'no matching certificate field', unmapped);
+    return definedOnly({
+      name: entry.name,
+      issuer: entry.issuer,
+      date: context.date(entry.date, `${path}.date`),
+      url: entry.url
+    });
+  });
+
+  const publications = Object.entries(profile.academical_research).map(([key, entry]): JsonResumePublication => {
+    const path = `academical_research.${key}`;
+    reportExtra(entry, ['title', 'institution', 'end_date', 'description'], path, 'no matching publication field', unmapped);
+    return definedOnly({
+      name: entry.title,
+      publisher: entry.institution,
+      releaseDate: context.date(entry.end_date, `${path}.end_date`),
+      summary: entry.description
+    });
+  });
+
+  const projects = Object.entries(profile.projects).map(([key, entry]): JsonResumeProject => {
+    const path = `projects.${key}`;
+    reportExtra(entry, ['name', 'type', 'url', 'description', 'technologies', 'start_date', 'end_date'],
+      path, 'no matching project field', unmapped);
+    return definedOnly({
+      name: entry.name,
+      description: entry.description,
+      keywords: nonEmpty(entry.technologies),
+      url: entry.url,
+      type: entry.type,
+      startDate: context.date(entry.start_date, `${path}.start_date`),
+      endDate: context.date(entry.end_date, `${path}.end_date`)
+    });
+  });
+
+  const references = Object.entries(profile.recommendations || {}).map(([key, entry]): JsonResumeReference => {
+    reportExtra(entry, ['author', 'text'], `recommendations.${key}`, 'no matching reference field', unmapped);
+    return definedOnly({ name: entry.author, reference: entry.text });
+  });
+
+  const skills = SKILL_GROUPS
+    .map(group => ({ name: group.name, keywords: profile.technical_skills?.[group.key] || [] }))
+    .filter(skill => skill.keywords.length > 0);
+
+  if (profile.technical_skills?.language_activity) {
+    unmapped.push({ path: 'technical_skills.language_activity', reason: 'JSON Resume skills have no activity timeline' });
+  }
+
+  profile.languages.forEach((language, index) => {
+    if (language.context) {
+      unmapped.push({ path: `languages[${index}].context`, reason: 'no matching language field' });
+    }
+  });
+
+  const resume: JsonResume = definedOnly({
+    $schema: 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json',
+    basics: exportBasics(profile, context),
+    work,
+    volunteer,
+    education,
+    awards,
+    certificates,
+    publications,
+    skills,
+    languages: profile.languages.map(language => ({ language: language.name, fluency: language.proficiency })),
+    projects,
+    references
+  });
+
+  return { data: resume, unmapped };
+}
+
+// JSON Resume dates are already ISO 8601, which the renderers print as-is.
+function importDate(value: string | undefined): string | undefined {
+  return value && value.trim() ? value.trim() : undefined;
+}
+
+function skillGroupFor(name: string | undefined): SkillListKey {
+  const group = SKILL_GROUPS.find(candidate => name && (candidate.name.toLowerCase() === name.toLowerCase() || candidate.aliases.test(name)));
+  return group ? group.key : 'tools_and_technologies';
+}
+
+function joinLocation(location: JsonResumeLocation): string | undefined {
+  const parts = [location.address, location.city, location.region, location.countryCode].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : undefined;
+}
+
+export function jsonResumeToProfile(resume: JsonResume): ConversionResult<ProfileData> {
+  const unmapped: UnmappedField[] = [];
+  const profile = createEmptyProfile();
+  const basics = resume.basics || {};
+
+  reportExtra(resume, ['$schema', 'basics', 'work', 'volunteer', 'education', 'awards', 'certificates', 'publications', 'skills', 'languages',
+    'projects', 'references'], '', 'no matching profile section', unmapped);
+  reportExtra(basics, ['name', 'label', 'email', 'phone', 'url', 'summary', 'location', 'profiles'], 'basics', 'no matching profile field', unmapped);
+
+  if (basics.name) profile.name = basics.name;
+  if (basics.label) profile.headline = basics.label;
+  if (basics.summary) profile.summary = basics.summary;
+  if (basics.location) {
+    reportExtra(basics.location, ['address', 'city', 'region', 'countryCode'], 'basics.location', 'no matching profile field', unmapped);
+    const location = joinLocation(basics.location);
+    if (location) profile.location = location;
+  }
+  profile.contact = [
+    basics.email,
+    basics.phone,
+    basics.url,
+    ...(basics.profiles || []).map(item => item.url)
+  ].filter((value): value is string => Boolean(value));
+
+  (basics.profiles || []).forEach((item, index) => {
+    if (!item.url) unmapped.push({ path: `basics.profiles[${index}]`, reason: 'profiles without a url cannot become a contact' });
+  });
+
+  (resume.work || []).forEach((item, index) => {
+    reportExtra(item, ['name', 'position', 'location', 'startDate', 'endDate', 'summary', 'highlights'],
+      `work[${index}]`, 'no matching experience field', unmapped);
+    const entry: ExperienceEntry = definedOnly({
+      title: item.position,
+      company: item.name,
+      location: item.location,
+      start_date: importDate(item.startDate),
+      end_date: importDate(item.endDate),
+      description: item.summary,
+      achievements: nonEmpty(item.highlights)
+    });
+    profile.professional_experience[uniqueKey(item.name || item.position || '', profile.professional_experience, `work_${index + 1}`)] = entry;
+  });
+
+  (resume.volunteer || []).forEach((item, index) => {
+    reportExtra(item, ['organization', 'position', 'startDate', 'endDate', 'summary'], `volunteer[${index}]`, 'no matching membership field', unmapped);
+    const memberships = profile.memberships || (profile.memberships = {});
+    const entry: MembershipEntry = definedOnly({
+      organization: item.organization,
+      role: item.position,
+      since: importDate(item.startDate),
+      end_date: importDate(item.endDate),
+      description: item.summary
+    });
+    memberships[uniqueKey(item.organization || '', memberships, `membership_${index + 1}`)] = entry;
+  });
+
+  (resume.education || []).forEach((item, index) => {
+    reportExtra(item, ['institution', 'area', 'studyType', 'startDate', 'endDate'], `education[${index}]`, 'no matching education field', unmapped);
+    const entry: EducationEntry = definedOnly({
+      degree: item.studyType,
+      field: item.area,
+      institution: item.institution,
+      start_date: importDate(item.startDate),
+      end_date: importDate(item.endDate)
+    });
+    profile.superior_education[uniqueKey(item.institution || item.area || '', profile.superior_education, `education_${index + 1}`)] = entry;
+  });
+
+  (resume.awards || []).forEach((item, index) => {
+    if (!item.title) {
+      unmapped.push({ path: `awards[${index}]`, reason: 'awards without a title are skipped' });
+      return;
+    }
+    reportExtra(item, ['title', 'awarder', 'date', 'summary'], `awards[${index}]`, 'no matching certification field', unmapped);
+    const entry: CertificationEntry = definedOnly({
+      name: item.title,
+      type: 'award',
+      issuer: item.awarder,
+      date: importDate(item.date),
+      description: item.summary
+    });
+    profile.certifications[uniqueKey(item.title, profile.certifications, `award_${index + 1}`)] = entry;
+  });
+
+  (resume.certificates || []).forEach((item, index) => {
+    if (!item.name) {
+      unmapped.push({ path: `certificates[${index}]`, reason: 'certificates without a name are skipped' });
+      return;
+    }
+    reportExtra(item, ['name', 'issuer', 'date', 'url'], `certificates[${index}]`, 'no matching certification field', unmapped);
+    const entry: CertificationEntry = definedOnly({
+      name: item.name,
+      issuer: item.issuer,
+      date: importDate(item.date),
+      url: item.url
+    });
+    profile.certifications[uniqueKey(item.name, profile.certifications, `certification_${index + 1}`)] = entry;
+  });
+
+  (resume.publications || []).forEach((item, index) => {
+    reportExtra(item, ['name', 'publisher', 'releaseDate', 'summary'], `publications[${index}]`, 'no matching research field', unmapped);
+    const entry: ResearchEntry = definedOnly({
+      title: item.name,
+      institution: item.publisher,
+      end_date: importDate(item.releaseDate),
+      description: item.summary
+    });
+    profile.academical_research[uniqueKey(item.name || '', profile.academical_research, `publication_${index + 1}`)] = entry;
+  });
+
+  (resume.projects || []).forEach((item, index) => {
+    reportExtra(item, ['name', 'description', 'keywords', 'url', 'type', 'startDate', 'endDate'], `projects[${index}]`, 'no matching project field', unmapped);
+    const entry: ProjectEntry = definedOnly({
+      name: item.name,
+      type: item.type,
+      url: item.url,
+      description: item.description,
+      technologies: nonEmpty(item.keywords),
+      start_date: importDate(item.startDate),
+      end_date: importDate(item.endDate)
+    });
+    profile.projects[uniqueKey(item.name || '', profile.projects, `project_${index + 1}`)] = entry;
+  });
+
+  if (resume.skills && resume.skills.length > 0) {
+    const skills = createEmptyTechnicalSkills();
+    resume.skills.forEach((item, index) => {
+      if (item.level) unmapped.push({ path: `skills[${index}].level`, reason: 'skill levels are not stored' });
+      const group = skillGroupFor(item.name);
+      const target = skills[group] || (skills[group] = []);
+      // A skill without keywords is itself the skill, e.g. { "name": "Docker" }.
+      const values = item.keywords && item.keywords.length > 0 ? item.keywords : (item.name ? [item.name] : []);
+      values.forEach(value => {
+        if (!target.includes(value)) target.push(value);
+      });
+    });
+    profile.technical_skills = skills;
+  }
+
+  (resume.languages || []).forEach((item, index) => {
+    if (!item.language) {
+      unmapped.push({ path: `languages[${index}]`, reason: 'languages without a name are skipped' });
+      return;
+    }
+    profile.languages.push({ name: item.language, proficiency: item.fluency || '' });
+  });
+
+  (resume.references || []).forEach((item, index) => {
+    if (!item.name || !item.reference) {
+      unmapped.push({ path: `references[${index}]`, reason: 'references without a name and text are skipped' });
+      return;
+    }
+    reportExtra(item, ['name', 'reference'], `references[${index}]`, 'no matching recommendation field', unmapped);
+    const recommendations = profile.recommendations || (profile.recommendations = {});
+    const entry: RecommendationEntry = { author: item.name, text: item.reference };
+    recommendations[uniqueKey(item.name, recommendations, `recommendation_${index + 1}`)] = entry;
+  });
+
+  return { data: profile, unmapped };
+}
+
+export function parseJsonResume(data: unknown, source?: string): JsonResume {
+  const result = validateJsonResume(data);
+  if (!result.valid) {
+    throw new ProfileValidationError(result.issues, source);
+  }
+  return data as JsonResume;
+}
+
+export function formatUnmappedReport(title: string, unmapped: UnmappedField[]): string {
+  if (unmapped.length === 0) {
+    return `${title}: every field was mapped.`;
+  }
+  return [
+    `${title}: ${unmapped.length} field(s) could not be mapped`,
+    ...unmapped.map(field => `  - ${field.path}: ${field.reason}`)
+  ].join('\n');
+}
@@ -0,0 +1,396 @@
+import { parseProfileDate } from './dates';
+import {
+  ProfileRecordSection,
+  ProfileSource,
+  ProvenanceLog,
+  RECORD_SECTIONS,
+  createEmptyProvenance,
+  isPinned,
+  itemPath,
+  pruneProvenance,
+  sourceOf,
+  startRun,
+  valueDigest
+} from './provenance';
+import { ProfileData, SkillListKey, SpokenLanguage, TechnicalSkills, createEmptyTechnicalSkills } from './schema';
+
+// What a collector or extractor has to offer; missing sections are left alone.
+export type IncomingProfileData = Partial<Omit<ProfileData, 'technical_skills'>> & {
+  technical_skills?: Partial<TechnicalSkills>;
+};
+
+export interface MergeOptions {
+  source: ProfileSource;
+  // Recorded with the run, e.g. the PDF path or the GitHub user.
+  detail?: string;
+  // Incoming values also replace values of other sources and unpinned manual ones. Pinned values always stay.
+  overwrite?: boolean;
+  // List items this run replaces, such as facts an earlier run generated in another locale.
+  stale?: (fieldPath: string, item: string) => boolean;
+  now?: Date;
+}
+
+export interface ProfileChange {
+  kind: 'add' | 'update' | 'remove';
+  path: string;
+  before?: unknown;
+  after?: unknown;
+  // Who the replaced value belonged to.
+  from?: ProfileSource;
+}
+
+// A value the merge kept although the incoming source had a different one.
+export interface MergeConflict {
+  path: string;
+  current: unknown;
+  incoming: unknown;
+  currentSource: ProfileSource;
+  pinned: boolean;
+}
+
+// An incoming entry that resembles an existing one under another key.
+export interface DuplicateMatch {
+  path: string;
+  existingPath: string;
+  // 1 for the same URL or repository, otherwise how much the names overlap, from 0 to 1.
+  similarity: number;
+  // Merged into the existing entry, or added separately and only reported.
+  merged: boolean;
+  reason: string;
+}
+
+export interface MergeResult {
+  profile: ProfileData;
+  provenance: ProvenanceLog;
+  run: string;
+  source: ProfileSource;
+  changes: ProfileChange[];
+  conflicts: MergeConflict[];
+  duplicates: DuplicateMatch[];
+}
+
+// Entries at least this similar are the same entry worded differently; between the two thresholds they
+// are added separately and reported for review.
+const MERGE_SIMILARITY = 0.85;
+const REVIEW_SIMILARITY = 0.6;
+const STOPWORDS = new Set(['a', 'an', 'and', 'at', 'the', 'of', 'for', 'in', 'on', 'to', 'de', 'da', 'do', 'das', 'dos', 'e', 'em', 'para', 'y', 'del', 'la', 'el', 'en']);
+const SKILL_LISTS: SkillListKey[] = ['operating_systems', 'programming_languages', 'areas_of_expertise', 'tools_and_technologies'];
+// Sections where the same name at different start dates is a different entry, e.g. two stints at one company.
+const DATED_SECTIONS: ProfileRecordSection[] = ['professional_experience', 'superior_education', 'academical_research'];
+
+type Entry = Record<string, unknown>;
+
+function isEmpty(value: unknown): boolean {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.keys(value).length === 0;
+  return false;
+}
+
+// Text differing only in case, spacing or a trailing slash is the same value ("ACME", "https://x.dev/").
+function sameValue(a: unknown, b: unknown): boolean {
+  if (typeof a === 'string' && typeof b === 'string') {
+    const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().replace(/\/+$/, '').toLowerCase();
+    return normalize(a) === normalize(b);
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function words(text: string): Set<string> {
+  return new Set(
+    text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .split(/[^a-z0-9+#]+/)
+      .filter(word => word.length > 1 && !STOPWORDS.has(word))
+  );
+}
+
+// Dice coefficient of the significant words; a name contained in the other scores 0.8 at most, enough for
+// review but not for a merge ("Python" and "Python for Data Science").
+export function nameSimilarity(a: string, b: string): number {
+  const left = words(a);
+  const right = words(b);
+  if (left.size === 0 || right.size === 0) return 0;
+  const shared = Array.from(left).filter(word => right.has(word)).length;
+  const dice = (2 * shared) / (left.size + right.size);
+  const containment = shared / Math.min(left.size, right.size);
+  return Math.max(dice, 0.8 * containment);
+}
+
+function normalizeUrl(url: string): string {
+  return url.trim().toLowerCase().replace(/^https?:\/\/(www\.)?/, '').replace(/\.git$/, '').replace(/\/+$/, '');
+}
+
+// What identifies an entry regardless of its key or wording, where there is such a thing.
+function identityOf(section: ProfileRecordSection, entry: Entry): string | undefined {
+  if (section === 'projects' && typeof entry.url === 'string' && entry.url) return normalizeUrl(entry.url);
+  if (section === 'open_source_contributions' && typeof entry.repository === 'string') return entry.repository.toLowerCase();
+  // One person can recommend the user twice, for different jobs.
+  if (section === 'recommendations' && typeof entry.author === 'string' && typeof entry.text === 'string') {
+    return `${entry.author}\n${entry.text}`.replace(/\s+/g, ' ').trim().toLowerCase();
+  }
+  return undefined;
+}
+
+function labelOf(section: ProfileRecordSection, key: string, entry: Entry): string {
+  const parts: Record<ProfileRecordSection, unknown[]> = {
+    projects: [entry.name],
+    certifications: [entry.name],
+    professional_experience: [entry.company, entry.title],
+    superior_education: [entry.degree, entry.field, entry.institution],
+    academical_research: [entry.title],
+    memberships: [entry.organization],
+    open_source_contributions: [entry.repository],
+    recommendations: [entry.author]
+  };
+  const label = parts[section].filter((part): part is string => typeof part === 'string' && part.trim() !== '').join(' ');
+  return label || key.replace(/_/g, ' ');
+}
+
+function differentPeriods(section: ProfileRecordSection, a: Entry, b: Entry): boolean {
+  if (!DATED_SECTIONS.includes(section)) return false;
+  const left = parseProfileDate(typeof a.start_date === 'string' ? a.start_date : undefined);
+  const right = parseProfileDate(typeof b.start_date === 'string' ? b.start_date : undefined);
+  return Boolean(left && right && (left.year !== right.year || (left.month && right.month && left.month !== right.month)));
+}
+
+interface EntryMatch {
+  key: string;
+  similarity: number;
+  reason: string;
+}
+
+class ProfileMerger {
+  public readonly changes: ProfileChange[] = [];
+  public readonly conflicts: MergeConflict[] = [];
+  public readonly duplicates: DuplicateMatch[] = [];
+
+  constructor(
+    private before: ProfileData,
+    private log: ProvenanceLog,
+    private run: string,
+    private options: MergeOptions
+  ) {}
+
+  // Empty values are filled, a source refreshes the values it wrote itself, and anything else that differs
+  // is a conflict the current value wins.
+  public value(path: string, current: unknown, incoming: unknown): unknown {
+    if (isEmpty(incoming) || sameValue(current, incoming)) return current;
+    const pinned = isPinned(this.log, path);
+    if (isEmpty(current) && !pinned) {
+      this.record(path, incoming);
+      this.changes.push({ kind: 'add', path, after: incoming });
+      return incoming;
+    }
+
+    const owner = sourceOf(this.log, path, current, this.before);
+    if (!pinned && (owner === this.options.source || this.options.overwrite)) {
+      this.record(path, incoming);
+      this.changes.push({ kind: 'update', path, before: current, after: incoming, from: owner });
+      return incoming;
+    }
+    this.conflicts.push({ path, current, incoming, currentSource: owner, pinned });
+    return current;
+  }
+
+  // String lists are a union, compared case-insensitively; items are only removed when `stale` says so.
+  public list(path: string, current: string[] | undefined, incoming: string[] | undefined): string[] | undefined {
+    if (!incoming || incoming.length === 0) return current;
+    const offered = new Set(incoming.map(item => item.toLowerCase()));
+    const result = (current || []).filter(item => {
+      const fieldPath = itemPath(path, item);
+      const stale = this.options.stale?.(fieldPath, item) && !offered.has(item.toLowerCase()) && !isPinned(this.log, fieldPath);
+      if (stale) this.changes.push({ kind: 'remove', path: fieldPath, before: item });
+      return !stale;
+    });
+
+    for (const item of incoming) {
+      if (result.some(existing => existing.toLowerCase() === item.toLowerCase())) continue;
+      result.push(item);
+      this.record(itemPath(path, item), item);
+      this.changes.push({ kind: 'add', path: itemPath(path, item), after: item });
+    }
+    return result;
+  }
+
+  public languages(current: SpokenLanguage[], incoming: SpokenLanguage[] | undefined): SpokenLanguage[] {
+    if (!incoming) return current;
+    const result = current.map(language => ({ ...language }));
+    for (const language of incoming) {
+      const base = itemPath('languages', language.name);
+      const existing = result.find(other => other.name.toLowerCase() === language.name.toLowerCase());
+      if (existing) {
+        const merged = existing as unknown as Entry;
+        for (const [key, value] of Object.entries(language)) {
+          if (key === 'name') continue;
+          const kept = this.value(`${base}.${key}`, merged[key], value);
+          if (kept !== undefined) merged[key] = kept;
+        }
+        continue;
+      }
+      result.push(language);
+      this.recordEntry(base, language as unknown as Entry);
+      this.changes.push({ kind: 'add', path: base, after: language });
+    }
+    return result;
+  }
+
+  public records(section: ProfileRecordSection, current: Record<string, Entry> | undefined, incoming: Record<string, Entry> | undefined): Record<string, Entry> | undefined {
+    if (!incoming) return current;
+    const result: Record<string, Entry> = { ...(current || {}) };
+
+    for (const [key, entry] of Object.entries(incoming)) {
+      const match = this.findMatch(section, key, entry, result);
+      if (match && match.similarity >= MERGE_SIMILARITY) {
+        if (match.key !== key) {
+          this.duplicates.push({ path: `${section}.${key}`, existingPath: `${section}.${match.key}`, similarity: match.similarity, merged: true, reason: match.reason });
+        }
+        const merged = { ...result[match.key] };
+        for (const [field, value] of Object.entries(entry)) {
+          const kept = this.value(`${section}.${match.key}.${field}`, merged[field], value);
+          if (kept !== undefined) merged[field] = kept;
+        }
+        result[match.key] = merged;
+        continue;
+      }
+
+      let newKey = key;
+      for (let suffix = 2; result[newKey]; suffix++) newKey = `${key}_${suffix}`;
+      result[newKey] = entry;
+      this.recordEntry(`${section}.${newKey}`, entry);
+      this.changes.push({ kind: 'add', path: `${section}.${newKey}`, after: entry });
+      if (match) {
+        this.duplicates.push({ path: `${section}.${newKey}`, existingPath: `${section}.${match.key}`, similarity: match.similarity, merged: false, reason: match.reason });
+      }
+    }
+    return result;
+  }
+
+  // The same key, the same URL or repository, or the most similar name above the review threshold.
+  private findMatch(section: ProfileRecordSection, key: string, entry: Entry, existing: Record<string, Entry>): EntryMatch | undefined {
+    const identity = identityOf(section, entry);
+    const sameKey = existing[key];
+    if (sameKey) {
+      const other = identityOf(section, sameKey);
+      // A key collision between two different repositories or recommendations is not a match.
+      if (!identity || !other || identity === other) return { key, similarity: 1, reason: 'same key' };
+    }
+    if (identity) {
+      const found = Object.keys(existing).find(other => identityOf(section, existing[other]) === identity);
+      if (found) return { key: found, similarity: 1, reason: section === 'projects' ? 'same URL' : section === 'recommendations' ? 'same text' : 'same repository' };
+    }
+
+    const label = labelOf(section, key, entry);
+    let best: EntryMatch | undefined;
+    for (const [otherKey, other] of Object.entries(existing)) {
+      if (differentPeriods(section, entry, other)) continue;
+      // Entries with different identities are different, however similar their names.
+      const otherIdentity = identityOf(section, other);
+      if (identity && otherIdentity && identity !== otherIdentity) continue;
+      const similarity = Math.round(nameSimilarity(label, labelOf(section, otherKey, other)) * 100) / 100;
+      if (similarity >= REVIEW_SIMILARITY && (!best || similarity > best.similarity)) {
+        best = { key: otherKey, similarity, reason: 'similar name' };
+      }
+    }
+    return best;
+  }
+
+  private record(path: string, value: unknown): void {
+    this.log.fields[path] = { source: this.options.source, run: this.run, digest: valueDigest(value) };
+  }
+
+  private recordEntry(base: string, entry: Entry): void {
+    for (const [field, value] of Object.entries(entry)) this.record(`${base}.${field}`, value);
+  }
+}
+
+// Merges what one source offers into the profile and records, per field, which source and run wrote it.
+// Nothing is written: callers save `profile` and `provenance`, or show formatMergeReport() for a dry run.
+export function mergeProfile(
+  current: ProfileData,
+  incoming: IncomingProfileData,
+  provenance: ProvenanceLog = createEmptyProvenance(),
+  options: MergeOptions
+): MergeResult {
+  const log: ProvenanceLog = JSON.parse(JSON.stringify(provenance));
+  const run = startRun(log, options.source, options.detail, options.now);
+  const profile: ProfileData = JSON.parse(JSON.stringify(current));
+  const merger = new ProfileMerger(current, log, run, options);
+
+  for (const key of ['name', 'headline', 'location', 'summary'] as const) {
+    const value = merger.value(key, profile[key], incoming[key]);
+    if (typeof value === 'string') profile[key] = value;
+  }
+  profile.contact = merger.list('contact', profile.contact, incoming.contact) || [];
+  profile.facts = merger.list('facts', profile.facts, incoming.facts) || [];
+  profile.languages = merger.languages(profile.languages, incoming.languages);
+
+  for (const section of RECORD_SECTIONS) {
+    const merged = merger.records(section, profile[section] as Record<string, Entry> | undefined, incoming[section] as Record<string, Entry> | undefined);
+    if (merged) (profile as unknown as Record<string, unknown>)[section] = merged;
+  }
+
+  if (incoming.technical_skills) {
+    const skills: TechnicalSkills = { ...(profile.technical_skills || createEmptyTechnicalSkills()) };
+    for (const list of SKILL_LISTS) {
+      const merged = merger.list(`technical_skills.${list}`, skills[list], incoming.technical_skills[list]);
+      if (merged) skills[list] = merged;
+    }
+    const activity = merger.value('technical_skills.language_activity', skills.language_activity, incoming.technical_skills.language_activity);
+    if (activity) skills.language_activity = activity as TechnicalSkills['language_activity'];
+    profile.technical_skills = skills;
+  }
+
+  const stats = merger.value('github_stats', profile.github_stats, incoming.github_stats);
+  if (stats) profile.github_stats = stats as ProfileData['github_stats'];
+
+  return {
+    profile,
+    provenance: pruneProvenance(log, profile),
+    run,
+    source: options.source,
+    changes: merger.changes,
+    conflicts: merger.conflicts,
+    duplicates: merger.duplicates
+  };
+}
+
+// Short quoted form of a value for reports.
+export function describeValue(value: unknown): string {
+  const text = typeof value === 'string' ? `"${value.replace(/\s+/g, ' ')}"` : JSON.stringify(value);
+  return text.length > 70 ? `${text.slice(0, 67)}...` : text;
+}
+
+// Review text for dry runs and for the end of a merge: every change, conflict and possible duplicate.
+export function formatMergeReport(result: MergeResult): string {
+  const count = (kind: ProfileChange['kind']) => result.changes.filter(change => change.kind === kind).length;
+  const lines = [
+    `${result.source}: ${count('add')} added, ${count('update')} updated, ${count('remove')} removed, ` +
+      `${result.conflicts.length} conflict(s), ${result.duplicates.length} possible duplicate(s)`
+  ];
+
+  for (const change of result.changes) {
+    if (change.kind === 'add') lines.push(`+ ${change.path}: ${describeValue(change.after)}`);
+    if (change.kind === 'remove') lines.push(`- ${change.path}: ${describeValue(change.before)}`);
+    if (change.kind === 'update') {
+      const from = change.from && change.from !== result.source ? ` (was ${change.from})` : '';
+      lines.push(`~ ${change.path}: ${describeValue(change.before)} → ${describeValue(change.after)}${from}`);
+    }
+  }
+  for (const conflict of result.conflicts) {
+    const owner = conflict.pinned ? `${conflict.currentSource}, pinned` : conflict.currentSource;
+    lines.push(`! ${conflict.path}: keeps ${describeValue(conflict.current)} (${owner}) over ${describeValue(conflict.incoming)}`);
+  }
+  for (const duplicate of result.duplicates) {
+    lines.push(duplicate.merged
+      ? `≈ ${duplicate.path} merged into ${duplicate.existingPath} (${duplicate.reason}, ${duplicate.similarity})`
+      : `? ${duplicate.path} looks like ${duplicate.existingPath} (${duplicate.reason}, ${duplicate.similarity}); added separately`);
+  }
+  if (result.conflicts.some(conflict => !conflict.pinned)) {
+    lines.push('', 'Conflicting values were kept. Re-run with --overwrite to take the incoming ones; pin values with `autorriculum pin <path>` to keep them for good.');
+  }
+  return lines.join('\n');
+}
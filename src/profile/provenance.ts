@@ -0,0 +1,209 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProfileData } from './schema';
+
+// Where a profile value came from. Values nobody recorded, or that changed since they were recorded,
+// were written by hand and count as manual.
+export type ProfileSource = 'manual' | 'github' | 'linkedin_pdf' | 'linkedin_web' | 'llm';
+
+export const PROFILE_SOURCES: ProfileSource[] = ['manual', 'github', 'linkedin_pdf', 'linkedin_web', 'llm'];
+
+export interface ProvenanceRun {
+  source: ProfileSource;
+  at: string;
+  // What the run read, e.g. the PDF path, the GitHub user or the LLM model.
+  detail?: string;
+}
+
+export interface FieldProvenance {
+  source: ProfileSource;
+  run: string;
+  // Digest of the value as written; a different value in the profile means it was edited by hand since.
+  digest: string;
+  // Pinned values are never changed by a merge, whatever the source.
+  pinned?: boolean;
+}
+
+// Kept next to the profile as profile.provenance.json, keyed by field path (see profileFields).
+export interface ProvenanceLog {
+  runs: Record<string, ProvenanceRun>;
+  fields: Record<string, FieldProvenance>;
+}
+
+export class ProvenanceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProvenanceError';
+  }
+}
+
+const LIST_SECTIONS = ['contact', 'facts'] as const;
+const SKILL_LISTS = ['operating_systems', 'programming_languages', 'areas_of_expertise', 'tools_and_technologies'] as const;
+export const RECORD_SECTIONS = [
+  'projects',
+  'certifications',
+  'superior_education',
+  'professional_experience',
+  'academical_research',
+  'memberships',
+  'open_source_contributions',
+  'recommendations'
+] as const;
+
+export type ProfileRecordSection = typeof RECORD_SECTIONS[number];
+
+export function createEmptyProvenance(): ProvenanceLog {
+  return { runs: {}, fields: {} };
+}
+
+// profile.json → profile.provenance.json
+export function provenancePath(profilePath: string): string {
+  const extension = path.extname(profilePath);
+  return path.join(path.dirname(profilePath), `${path.basename(profilePath, extension)}.provenance.json`);
+}
+
+export function loadProvenance(profilePath: string): ProvenanceLog {
+  const file = provenancePath(profilePath);
+  if (!fs.existsSync(file)) return createEmptyProvenance();
+  try {
+    const data = JSON.parse(fs.readFileSync(file, 'utf-8')) as Partial<ProvenanceLog>;
+    return { runs: data.runs || {}, fields: data.fields || {} };
+  } catch (error) {
+    throw new ProvenanceError(`Cannot read ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+export function saveProvenance(profilePath: string, log: ProvenanceLog): void {
+  fs.writeFileSync(provenancePath(profilePath), JSON.stringify(log, null, 2));
+}
+
+export function valueDigest(value: unknown): string {
+  return createHash('sha256').update(JSON.stringify(value) ?? '').digest('hex').slice(0, 12);
+}
+
+// List items are addressed by value, so their path survives reordering: "contact[jane@example.com]".
+export function itemPath(listPath: string, item: string): string {
+  return `${listPath}[${item.toLowerCase()}]`;
+}
+
+// True for the path itself and everything below it.
+export function isUnderPath(fieldPath: string, prefix: string): boolean {
+  return fieldPath === prefix || fieldPath.startsWith(`${prefix}.`) || fieldPath.startsWith(`${prefix}[`);
+}
+
+// Every value provenance is tracked for, by path: single values, list items, language fields, record entry
+// fields ("projects.autorriculum.description") and the collected statistics as a whole.
+export function profileFields(profile: ProfileData): Map<string, unknown> {
+  const fields = new Map<string, unknown>();
+  for (const key of ['name', 'headline', 'location', 'summary'] as const) {
+    if (profile[key] !== undefined) fields.set(key, profile[key]);
+  }
+  for (const section of LIST_SECTIONS) {
+    for (const item of profile[section] || []) fields.set(itemPath(section, item), item);
+  }
+  for (const language of profile.languages || []) {
+    for (const [key, value] of Object.entries(language)) {
+      fields.set(`${itemPath('languages', language.name)}.${key}`, value);
+    }
+  }
+  for (const section of RECORD_SECTIONS) {
+    for (const [entryKey, entry] of Object.entries(profile[section] || {})) {
+      for (const [key, value] of Object.entries(entry)) {
+        fields.set(`${section}.${entryKey}.${key}`, value);
+      }
+    }
+  }
+  const skills = profile.technical_skills;
+  if (skills) {
+    for (const list of SKILL_LISTS) {
+      for (const item of skills[list] || []) fields.set(itemPath(`technical_skills.${list}`, item), item);
+    }
+    if (skills.language_activity) fields.set('technical_skills.language_activity', skills.language_activity);
+  }
+  if (profile.github_stats) fields.set('github_stats', profile.github_stats);
+  return fields;
+}
+
+// Values written before provenance was recorded, attributed by their shape.
+function inferredSource(fieldPath: string, profile: ProfileData): ProfileSource | undefined {
+  if (/^(github_stats|open_source_contributions\.|technical_skills\.language_activity)/.test(fieldPath)) return 'github';
+  const entry = fieldPath.match(/^([a-z_]+)\.([^.]+)\./);
+  if (!entry || !(RECORD_SECTIONS as readonly string[]).includes(entry[1])) return undefined;
+  const record = profile[entry[1] as ProfileRecordSection]?.[entry[2]] as Record<string, unknown> | undefined;
+  if (record?.extracted_from_pdf) return 'linkedin_pdf';
+  if (record?.scraped_from_linkedin) return 'linkedin_web';
+  if (entry[1] === 'projects' && record?.platform === 'GitHub' && record.type === 'open_source_project') return 'github';
+  return undefined;
+}
+
+export function isPinned(log: ProvenanceLog, fieldPath: string): boolean {
+  return Object.entries(log.fields).some(([pinnedPath, entry]) => entry.pinned && isUnderPath(fieldPath, pinnedPath));
+}
+
+// Who the value currently in the profile belongs to.
+export function sourceOf(log: ProvenanceLog, fieldPath: string, value: unknown, profile: ProfileData): ProfileSource {
+  const entry = log.fields[fieldPath];
+  if (!entry) return inferredSource(fieldPath, profile) || 'manual';
+  return entry.digest === valueDigest(value) ? entry.source : 'manual';
+}
+
+// Forgets paths that are no longer in the profile; pins stay until they are removed explicitly.
+export function pruneProvenance(log: ProvenanceLog, profile: ProfileData): ProvenanceLog {
+  const present = profileFields(profile);
+  const fields = Object.fromEntries(Object.entries(log.fields).filter(([fieldPath, entry]) => entry.pinned || present.has(fieldPath)));
+  const usedRuns = new Set(Object.values(fields).map(entry => entry.run));
+  const runs = Object.fromEntries(Object.entries(log.runs).filter(([id]) => usedRuns.has(id)));
+  return { runs, fields };
+}
+
+export function startRun(log: ProvenanceLog, source: ProfileSource, detail?: string, now: Date = new Date()): string {
+  let id = `${source}-${now.toISOString()}`;
+  for (let suffix = 2; log.runs[id]; suffix++) id = `${source}-${now.toISOString()}-${suffix}`;
+  log.runs[id] = { source, at: now.toISOString(), ...(detail ? { detail } : {}) };
+  return id;
+}
+
+// Pins every tracked value at or below each path as manual, with its current value.
+export function pinFields(log: ProvenanceLog, profile: ProfileData, paths: string[], now: Date = new Date()): string[] {
+  const fields = profileFields(profile);
+  const unknown = paths.filter(prefix => !Array.from(fields.keys()).some(fieldPath => isUnderPath(fieldPath, prefix)));
+  if (unknown.length > 0) {
+    throw new ProvenanceError(`Not in the profile: ${unknown.join(', ')}`);
+  }
+
+  const run = startRun(log, 'manual', 'pinned', now);
+  const pinned: string[] = [];
+  for (const [fieldPath, value] of fields) {
+    if (!paths.some(prefix => isUnderPath(fieldPath, prefix))) continue;
+    log.fields[fieldPath] = { source: 'manual', run, digest: valueDigest(value), pinned: true };
+    pinned.push(fieldPath);
+  }
+  return pinned;
+}
+
+// Unpinned values keep their manual source: they are still protected from other sources, just not absolutely.
+export function unpinFields(log: ProvenanceLog, paths: string[]): string[] {
+  const unpinned: string[] = [];
+  for (const [fieldPath, entry] of Object.entries(log.fields)) {
+    if (entry.pinned && paths.some(prefix => isUnderPath(fieldPath, prefix))) {
+      delete entry.pinned;
+      unpinned.push(fieldPath);
+    }
+  }
+  return unpinned;
+}
+
+// One line per tracked value: path, source, run and pin.
+export function formatProvenance(log: ProvenanceLog, profile: ProfileData, prefix?: string): string {
+  const lines: string[] = [];
+  for (const [fieldPath, value] of profileFields(profile)) {
+    if (prefix && !isUnderPath(fieldPath, prefix)) continue;
+    const source = sourceOf(log, fieldPath, value, profile);
+    const entry = log.fields[fieldPath];
+    const run = entry && source === entry.source ? log.runs[entry.run] : undefined;
+    const when = run ? ` ${run.at.slice(0, 10)}${run.detail ? ` (${run.detail})` : ''}` : '';
+    lines.push(`${isPinned(log, fieldPath) ? '📌' : '  '} ${source.padEnd(12)} ${fieldPath}${when}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,258 @@
+// Canonical shape of data/profile.json, shared by the CV generator and every collector.
+// Entry types name the fields the tools read and write; anything else is kept as `unknown`.
+
+// LinkedIn's five proficiency levels, from lowest to highest.
+export type LanguageLevel = 'elementary' | 'limited_working' | 'professional_working' | 'full_professional' | 'native_or_bilingual';
+
+export const LANGUAGE_LEVELS: LanguageLevel[] = [
+  'elementary', 'limited_working', 'professional_working', 'full_professional', 'native_or_bilingual'
+];
+
+export interface SpokenLanguage {
+  name: string;
+  // Shown on the CV as written, e.g. "Full Professional" or "Fluente".
+  proficiency: string;
+  level?: LanguageLevel;
+  context?: string;
+}
+
+// Collected from the repository itself; each part records where it came from.
+export interface ProjectDetails {
+  tech_stack: string[];
+  // Manifest files the tech stack was derived from, e.g. "package.json".
+  tech_stack_sources: string[];
+  readme_url?: string;
+  // "readme" when the description is the README's first paragraph, "github" for the repository description.
+  description_source?: string;
+  highlights?: string[];
+  // "llm:<provider>/<model>" for bullets condensed from the README.
+  highlights_source?: string;
+  collected_at: string;
+}
+
+export interface ProjectEntry {
+  name?: string;
+  type?: string;
+  platform?: string;
+  language?: string;
+  url?: string;
+  description?: string;
+  technologies?: string[];
+  stars?: number;
+  forks?: number;
+  topics?: string[];
+  status?: string;
+  start_date?: string;
+  end_date?: string;
+  details?: ProjectDetails;
+  [extra: string]: unknown;
+}
+
+export interface ExperienceEntry {
+  title?: string;
+  company?: string;
+  location?: string;
+  start_date?: string;
+  end_date?: string;
+  description?: string;
+  responsibilities?: string[];
+  achievements?: string[];
+  technologies?: string[];
+  [extra: string]: unknown;
+}
+
+export interface EducationEntry {
+  degree?: string;
+  field?: string;
+  institution?: string;
+  location?: string;
+  start_date?: string;
+  end_date?: string;
+  status?: string;
+  [extra: string]: unknown;
+}
+
+export interface CertificationEntry {
+  name: string;
+  issuer?: string;
+  date?: string;
+  // "award" for honors and awards, which the CV lists apart and JSON Resume exports as `awards`.
+  type?: string;
+  url?: string;
+  credential_id?: string;
+  description?: string;
+  [extra: string]: unknown;
+}
+
+export function isAward(entry: CertificationEntry): boolean {
+  return entry.type === 'award';
+}
+
+export interface ResearchEntry {
+  title?: string;
+  institution?: string;
+  role?: string;
+  advisor?: string;
+  start_date?: string;
+  end_date?: string;
+  description?: string;
+  topics?: string[];
+  [extra: string]: unknown;
+}
+
+export interface MembershipEntry {
+  organization?: string;
+  role?: string;
+  since?: string;
+  end_date?: string;
+  description?: string;
+  // What a volunteering role was for, e.g. "Education".
+  cause?: string;
+  // "volunteering" for LinkedIn's volunteer experience.
+  type?: string;
+  [extra: string]: unknown;
+}
+
+// Written by someone else about the user, e.g. on LinkedIn.
+export interface RecommendationEntry {
+  author: string;
+  // The author's headline when the recommendation was read.
+  author_headline?: string;
+  // When and how they worked together, as LinkedIn prints it: "March 5, 2021, Jane managed John directly".
+  context?: string;
+  text: string;
+  [extra: string]: unknown;
+}
+
+export interface ContributedPullRequest {
+  title: string;
+  url: string;
+  merged_at: string;
+  additions: number;
+  deletions: number;
+}
+
+// Work merged into (or reviewed for) a repository the user does not own, one entry per repository.
+export interface OpenSourceContribution {
+  // owner/name
+  repository: string;
+  url: string;
+  description?: string;
+  language?: string;
+  stars?: number;
+  pull_requests: ContributedPullRequest[];
+  reviews: number;
+  additions: number;
+  deletions: number;
+  first_contribution?: string;
+  last_contribution?: string;
+  [extra: string]: unknown;
+}
+
+// When and how much a language shows up in the user's commits, as of the last GitHub collection.
+export interface LanguageActivity {
+  // First and last month with commits, "YYYY-MM".
+  first_used: string;
+  last_used: string;
+  active_months: number;
+  // Commits attributed to the language; a commit counts towards each main language of its repository by share.
+  commits: number;
+  // Share of the last 12 months of commits, from 0 to 1.
+  recent_share: number;
+  // Committed to within the last 6 months.
+  current: boolean;
+}
+
+export interface TechnicalSkills {
+  operating_systems: string[];
+  programming_languages: string[];
+  areas_of_expertise: string[];
+  tools_and_technologies?: string[];
+  // Keyed by language name, most recently active first.
+  language_activity?: Record<string, LanguageActivity>;
+}
+
+// The technical skill groups that are plain lists.
+export type SkillListKey = Exclude<keyof TechnicalSkills, 'language_activity'>;
+
+export interface NotableRepo {
+  name: string;
+  description: string;
+  language: string;
+  stars: number;
+  forks: number;
+  url: string;
+  topics: string[];
+  // Pinned on the GitHub profile; pinned repositories come first.
+  pinned?: boolean;
+}
+
+// Summary of the contribution calendar (the last year by default).
+export interface ContributionStats {
+  total: number;
+  from: string;
+  to: string;
+  active_days: number;
+  longest_streak: number;
+  current_streak: number;
+  commits: number;
+  pull_requests: number;
+  reviews: number;
+  issues: number;
+}
+
+export interface GitHubStats {
+  total_repos: number;
+  total_stars: number;
+  total_forks: number;
+  followers: number;
+  following: number;
+  account_created: string;
+  most_used_languages: string[];
+  notable_repos: NotableRepo[];
+  // Only available from the GraphQL API.
+  organizations?: string[];
+  contributions?: ContributionStats;
+}
+
+export interface ProfileData {
+  name?: string;
+  // One-line professional title, e.g. LinkedIn's headline.
+  headline?: string;
+  location?: string;
+  summary?: string;
+  contact: string[];
+  facts: string[];
+  projects: Record<string, ProjectEntry>;
+  languages: SpokenLanguage[];
+  certifications: Record<string, CertificationEntry>;
+  superior_education: Record<string, EducationEntry>;
+  professional_experience: Record<string, ExperienceEntry>;
+  academical_research: Record<string, ResearchEntry>;
+  memberships?: Record<string, MembershipEntry>;
+  open_source_contributions?: Record<string, OpenSourceContribution>;
+  recommendations?: Record<string, RecommendationEntry>;
+  technical_skills?: TechnicalSkills;
+  github_stats?: GitHubStats;
+}
+
+export function createEmptyProfile(): ProfileData {
+  return {
+    contact: [],
+    facts: [],
+    projects: {},
+    languages: [],
+    certifications: {},
+    superior_education: {},
+    professional_experience: {},
+    academical_research: {}
+  };
+}
+
+export function createEmptyTechnicalSkills(): TechnicalSkills {
+  return {
+    operating_systems: [],
+    programming_languages: [],
+    areas_of_expertise: []
+  };
+}
@@ -0,0 +1,35 @@
+import * as fs from 'fs';
+import { ProfileData, createEmptyProfile } from './schema';
+import { ProfileValidationError, assertValidProfile } from './validator';
+
+export interface LoadProfileOptions {
+  // Return an empty profile instead of failing when the file does not exist yet.
+  allowMissing?: boolean;
+}
+
+export function loadProfile(profilePath: string, options: LoadProfileOptions = {}): ProfileData {
+  if (!fs.existsSync(profilePath)) {
+    if (options.allowMissing) {
+      return createEmptyProfile();
+    }
+    throw new Error(`Profile file not found: ${profilePath}`);
+  }
+
+  const profileJson = fs.readFileSync(profilePath, 'utf-8');
+  let data: unknown;
+  try {
+    data = JSON.parse(profileJson);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ProfileValidationError([{ path: '(root)', message: `malformed JSON: ${reason}` }], profilePath);
+  }
+
+  assertValidProfile(data, profilePath);
+  return data;
+}
+
+export function saveProfile(profilePath: string, profile: ProfileData): void {
+  // Validate before touching the file so a bad merge never replaces a good profile.
+  assertValidProfile(profile, profilePath);
+  fs.writeFileSync(profilePath, JSON.stringify(profile, null, 2));
+}
@@ -0,0 +1,404 @@
+import { LANGUAGE_LEVELS, ProfileData } from './schema';
+
+export type FieldSpec =
+  | { kind: 'string' }
+  | { kind: 'number' }
+  | { kind: 'boolean' }
+  | { kind: 'enum'; values: readonly string[] }
+  | { kind: 'unknown' }
+  | { kind: 'array'; of: FieldSpec }
+  | { kind: 'record'; of: FieldSpec }
+  | { kind: 'object'; fields: Record<string, PropertySpec>; allowExtra: boolean };
+
+export interface PropertySpec {
+  spec: FieldSpec;
+  optional: boolean;
+}
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  issues: ValidationIssue[];
+}
+
+export class ProfileValidationError extends Error {
+  public readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[], source?: string) {
+    const location = source ? ` in ${source}` : '';
+    const details = issues.map(issue => `  - ${issue.path}: ${issue.message}`).join('\n');
+    super(`Invalid profile data${location}:\n${details}`);
+    this.name = 'ProfileValidationError';
+    this.issues = issues;
+  }
+}
+
+const str = (): FieldSpec => ({ kind: 'string' });
+const num = (): FieldSpec => ({ kind: 'number' });
+const bool = (): FieldSpec => ({ kind: 'boolean' });
+const oneOf = (values: readonly string[]): FieldSpec => ({ kind: 'enum', values });
+const arr = (of: FieldSpec): FieldSpec => ({ kind: 'array', of });
+const rec = (of: FieldSpec): FieldSpec => ({ kind: 'record', of });
+const req = (spec: FieldSpec): PropertySpec => ({ spec, optional: false });
+const opt = (spec: FieldSpec): PropertySpec => ({ spec, optional: true });
+const obj = (fields: Record<string, PropertySpec>, allowExtra = true): FieldSpec => ({
+  kind: 'object',
+  fields,
+  allowExtra
+});
+
+const spokenLanguageSpec = obj({
+  name: req(str()),
+  proficiency: req(str()),
+  level: opt(oneOf(LANGUAGE_LEVELS)),
+  context: opt(str())
+});
+
+const projectDetailsSpec = obj({
+  tech_stack: req(arr(str())),
+  tech_stack_sources: req(arr(str())),
+  readme_url: opt(str()),
+  description_source: opt(str()),
+  highlights: opt(arr(str())),
+  highlights_source: opt(str()),
+  collected_at: req(str())
+}, false);
+
+const projectSpec = obj({
+  name: opt(str()),
+  type: opt(str()),
+  platform: opt(str()),
+  language: opt(str()),
+  url: opt(str()),
+  description: opt(str()),
+  technologies: opt(arr(str())),
+  stars: opt(num()),
+  forks: opt(num()),
+  topics: opt(arr(str())),
+  status: opt(str()),
+  start_date: opt(str()),
+  end_date: opt(str()),
+  details: opt(projectDetailsSpec)
+});
+
+const experienceSpec = obj({
+  title: opt(str()),
+  company: opt(str()),
+  location: opt(str()),
+  start_date: opt(str()),
+  end_date: opt(str()),
+  description: opt(str()),
+  responsibilities: opt(arr(str())),
+  achievements: opt(arr(str())),
+  technologies: opt(arr(str()))
+});
+
+const educationSpec = obj({
+  degree: opt(str()),
+  field: opt(str()),
+  institution: opt(str()),
+  location: opt(str()),
+  start_date: opt(str()),
+  end_date: opt(str()),
+  status: opt(str())
+});
+
+const certificationSpec = obj({
+  name: req(str()),
+  issuer: opt(str()),
+  date: opt(str()),
+  type: opt(str()),
+  url: opt(str()),
+  credential_id: opt(str()),
+  description: opt(str())
+});
+
+const researchSpec = obj({
+  title: opt(str()),
+  institution: opt(str()),
+  role: opt(str()),
+  advisor: opt(str()),
+  start_date: opt(str()),
+  end_date: opt(str()),
+  description: opt(str()),
+  topics: opt(arr(str()))
+});
+
+const membershipSpec = obj({
+  organization: opt(str()),
+  role: opt(str()),
+  since: opt(str()),
+  end_date: opt(str()),
+  description: opt(str()),
+  cause: opt(str()),
+  type: opt(str())
+});
+
+const recommendationSpec = obj({
+  author: req(str()),
+  author_headline: opt(str()),
+  context: opt(str()),
+  text: req(str())
+});
+
+const contributedPullRequestSpec = obj({
+  title: req(str()),
+  url: req(str()),
+  merged_at: req(str()),
+  additions: req(num()),
+  deletions: req(num())
+}, false);
+
+const openSourceContributionSpec = obj({
+  repository: req(str()),
+  url: req(str()),
+  description: opt(str()),
+  language: opt(str()),
+  stars: opt(num()),
+  pull_requests: req(arr(contributedPullRequestSpec)),
+  reviews: req(num()),
+  additions: req(num()),
+  deletions: req(num()),
+  first_contribution: opt(str()),
+  last_contribution: opt(str())
+});
+
+const languageActivitySpec = obj({
+  first_used: req(str()),
+  last_used: req(str()),
+  active_months: req(num()),
+  commits: req(num()),
+  recent_share: req(num()),
+  current: req(bool())
+}, false);
+
+const technicalSkillsSpec = obj({
+  operating_systems: req(arr(str())),
+  programming_languages: req(arr(str())),
+  areas_of_expertise: req(arr(str())),
+  tools_and_technologies: opt(arr(str())),
+  language_activity: opt(rec(languageActivitySpec))
+}, false);
+
+const notableRepoSpec = obj({
+  name: req(str()),
+  description: req(str()),
+  language: req(str()),
+  stars: req(num()),
+  forks: req(num()),
+  url: req(str()),
+  topics: req(arr(str())),
+  pinned: opt(bool())
+}, false);
+
+const contributionStatsSpec = obj({
+  total: req(num()),
+  from: req(str()),
+  to: req(str()),
+  active_days: req(num()),
+  longest_streak: req(num()),
+  current_streak: req(num()),
+  commits: req(num()),
+  pull_requests: req(num()),
+  reviews: req(num()),
+  issues: req(num())
+}, false);
+
+const githubStatsSpec = obj({
+  total_repos: req(num()),
+  total_stars: req(num()),
+  total_forks: req(num()),
+  followers: req(num()),
+  following: req(num()),
+  account_created: req(str()),
+  most_used_languages: req(arr(str())),
+  notable_repos: req(arr(notableRepoSpec)),
+  organizations: opt(arr(str())),
+  contributions: opt(contributionStatsSpec)
+}, false);
+
+export const profileSpec: FieldSpec = obj({
+  name: opt(str()),
+  headline: opt(str()),
+  location: opt(str()),
+  summary: opt(str()),
+  contact: req(arr(str())),
+  facts: req(arr(str())),
+  projects: req(rec(projectSpec)),
+  languages: req(arr(spokenLanguageSpec)),
+  certifications: req(rec(certificationSpec)),
+  superior_education: req(rec(educationSpec)),
+  professional_experience: req(rec(experienceSpec)),
+  academical_research: req(rec(researchSpec)),
+  memberships: opt(rec(membershipSpec)),
+  open_source_contributions: opt(rec(openSourceContributionSpec)),
+  recommendations: opt(rec(recommendationSpec)),
+  technical_skills: opt(technicalSkillsSpec),
+  github_stats: opt(githubStatsSpec)
+}, false);
+
+// Subset of the JSON Resume schema (https://jsonresume.org/schema) that the converter reads.
+// Sections it does not understand are allowed so they can be reported instead of rejected.
+const resumeLocationSpec = obj({
+  address: opt(str()),
+  postalCode: opt(str()),
+  city: opt(str()),
+  countryCode: opt(str()),
+  region: opt(str())
+});
+
+const resumeDatedSpec = (fields: Record<string, PropertySpec>): FieldSpec => obj({
+  startDate: opt(str()),
+  endDate: opt(str()),
+  ...fields
+});
+
+export const jsonResumeSpec: FieldSpec = obj({
+  basics: opt(obj({
+    name: opt(str()),
+    label: opt(str()),
+    email: opt(str()),
+    phone: opt(str()),
+    url: opt(str()),
+    summary: opt(str()),
+    location: opt(resumeLocationSpec),
+    profiles: opt(arr(obj({ network: opt(str()), username: opt(str()), url: opt(str()) })))
+  })),
+  work: opt(arr(resumeDatedSpec({
+    name: opt(str()),
+    position: opt(str()),
+    location: opt(str()),
+    url: opt(str()),
+    summary: opt(str()),
+    highlights: opt(arr(str()))
+  }))),
+  volunteer: opt(arr(resumeDatedSpec({
+    organization: opt(str()),
+    position: opt(str()),
+    summary: opt(str())
+  }))),
+  education: opt(arr(resumeDatedSpec({
+    institution: opt(str()),
+    area: opt(str()),
+    studyType: opt(str())
+  }))),
+  certificates: opt(arr(obj({ name: opt(str()), date: opt(str()), issuer: opt(str()), url: opt(str()) }))),
+  awards: opt(arr(obj({ title: opt(str()), date: opt(str()), awarder: opt(str()), summary: opt(str()) }))),
+  publications: opt(arr(obj({
+    name: opt(str()),
+    publisher: opt(str()),
+    releaseDate: opt(str()),
+    url: opt(str()),
+    summary: opt(str())
+  }))),
+  skills: opt(arr(obj({ name: opt(str()), level: opt(str()), keywords: opt(arr(str())) }))),
+  languages: opt(arr(obj({ language: opt(str()), fluency: opt(str()) }))),
+  projects: opt(arr(resumeDatedSpec({
+    name: opt(str()),
+    description: opt(str()),
+    highlights: opt(arr(str())),
+    keywords: opt(arr(str())),
+    url: opt(str()),
+    type: opt(str())
+  }))),
+  references: opt(arr(obj({ name: opt(str()), reference: opt(str()) })))
+});
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function joinPath(base: string, key: string): string {
+  return base ? `${base}.${key}` : key;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function check(value: unknown, spec: FieldSpec, path: string, issues: ValidationIssue[]): void {
+  const where = path || '(root)';
+
+  switch (spec.kind) {
+    case 'unknown':
+      return;
+    case 'string':
+    case 'number':
+    case 'boolean':
+      if (typeof value !== spec.kind || (spec.kind === 'number' && Number.isNaN(value))) {
+        issues.push({ path: where, message: `expected ${spec.kind}, got ${describe(value)}` });
+      }
+      return;
+    case 'enum':
+      if (typeof value !== 'string' || !spec.values.includes(value)) {
+        issues.push({ path: where, message: `expected one of ${spec.values.join(', ')}, got ${describe(value)}` });
+      }
+      return;
+    case 'array':
+      if (!Array.isArray(value)) {
+        issues.push({ path: where, message: `expected array, got ${describe(value)}` });
+        return;
+      }
+      value.forEach((item, index) => check(item, spec.of, `${path}[${index}]`, issues));
+      return;
+    case 'record':
+      if (!isPlainObject(value)) {
+        issues.push({ path: where, message: `expected object, got ${describe(value)}` });
+        return;
+      }
+      for (const [key, item] of Object.entries(value)) {
+        check(item, spec.of, joinPath(path, key), issues);
+      }
+      return;
+    case 'object':
+      if (!isPlainObject(value)) {
+        issues.push({ path: where, message: `expected object, got ${describe(value)}` });
+        return;
+      }
+      for (const [key, property] of Object.entries(spec.fields)) {
+        const fieldValue = value[key];
+        if (fieldValue === undefined) {
+          if (!property.optional) {
+            issues.push({ path: joinPath(path, key), message: 'is required' });
+          }
+          continue;
+        }
+        check(fieldValue, property.spec, joinPath(path, key), issues);
+      }
+      if (!spec.allowExtra) {
+        for (const key of Object.keys(value)) {
+          if (!(key in spec.fields)) {
+            issues.push({ path: joinPath(path, key), message: 'is not a known field' });
+          }
+        }
+      }
+      return;
+  }
+}
+
+function validateAgainst(data: unknown, spec: FieldSpec): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  check(data, spec, '', issues);
+  return { valid: issues.length === 0, issues };
+}
+
+export function validateProfile(data: unknown): ValidationResult {
+  return validateAgainst(data, profileSpec);
+}
+
+export function validateJsonResume(data: unknown): ValidationResult {
+  return validateAgainst(data, jsonResumeSpec);
+}
+
+export function assertValidProfile(data: unknown, source?: string): asserts data is ProfileData {
+  const result = validateProfile(data);
+  if (!result.valid) {
+    throw new ProfileValidationError(result.issues, source);
+  }
+}
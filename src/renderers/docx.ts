@@ -0,0 +1,197 @@
+import { CVEntry, CVViewModel } from '../template';
+import { createZip } from './zip';
+
+// WordprocessingML package built by hand: a single document part, a styles part with
+// Title/Heading1 and external hyperlink relationships. Plain paragraphs only, so ATS
+// parsers that read DOCX see the same linear order as the text output.
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const HYPERLINK_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink';
+
+const XML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&apos;'
+};
+
+function escapeXml(text: string): string {
+  // Characters outside the XML 1.0 range would make Word refuse to open the file.
+  return text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/[&<>"']/g, char => XML_ESCAPES[char]);
+}
+
+interface Run {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  link?: string;
+}
+
+class DocumentBuilder {
+  readonly paragraphs: string[] = [];
+  readonly links: string[] = [];
+
+  paragraph(runs: Run[], options: { style?: string; indent?: boolean; align?: 'center' | 'right' } = {}): void {
+    const properties = [
+      options.style ? `<w:pStyle w:val="${options.style}"/>` : '',
+      options.indent ? '<w:ind w:left="360" w:hanging="240"/>' : '',
+      options.align ? `<w:jc w:val="${options.align}"/>` : ''
+    ].join('');
+
+    const body = runs.filter(run => run.text).map(run => this.run(run)).join('');
+    this.paragraphs.push(`<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${body}</w:p>`);
+  }
+
+  bullet(runs: Run[]): void {
+    this.paragraph([{ text: '• ' }, ...runs], { indent: true });
+  }
+
+  private run(run: Run): string {
+    const properties = [
+      run.bold ? '<w:b/>' : '',
+      run.italic ? '<w:i/>' : '',
+      run.link ? '<w:rStyle w:val="Hyperlink"/>' : ''
+    ].join('');
+    const xml = `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(run.text)}</w:t></w:r>`;
+    if (!run.link || !/^(https?:|mailto:|tel:)/i.test(run.link)) return xml;
+
+    this.links.push(run.link);
+    return `<w:hyperlink r:id="rLink${this.links.length}">${xml}</w:hyperlink>`;
+  }
+}
+
+function addEntry(doc: DocumentBuilder, entry: CVEntry, technologiesLabel: string, descriptionLabel?: string): void {
+  const head: Run[] = [{ text: entry.title, bold: true }];
+  if (entry.url) {
+    head.push({ text: ' — ' }, { text: entry.urlLabel || entry.url, link: entry.url });
+  } else if (entry.subtitle) {
+    head.push({ text: ` — ${entry.subtitle}` });
+  }
+  doc.paragraph(head);
+
+  const meta = [entry.location, entry.period].filter(Boolean).join(' | ');
+  if (meta) doc.paragraph([{ text: meta, italic: true }]);
+
+  if (entry.description) {
+    doc.bullet(descriptionLabel
+      ? [{ text: `${descriptionLabel}: `, bold: true }, { text: entry.description }]
+      : [{ text: entry.description }]);
+  }
+  entry.bullets.forEach(bullet => doc.bullet([{ text: bullet }]));
+  if (entry.technologies) {
+    doc.bullet([{ text: `${technologiesLabel}: `, bold: true }, { text: entry.technologies }]);
+  }
+}
+
+function buildDocument(view: CVViewModel): DocumentBuilder {
+  const { labels } = view;
+  const doc = new DocumentBuilder();
+
+  doc.paragraph([{ text: view.name }], { style: 'Title', align: 'center' });
+  const contactRuns: Run[] = [];
+  view.contacts.forEach((contact, index) => {
+    if (index > 0) contactRuns.push({ text: '  |  ' });
+    contactRuns.push({ text: contact.label, link: contact.url });
+  });
+  if (contactRuns.length > 0) doc.paragraph(contactRuns, { align: 'center' });
+
+  if (view.summary) {
+    doc.paragraph([{ text: labels.summary }], { style: 'Heading1' });
+    doc.paragraph([{ text: view.summary }]);
+  }
+  if (view.hasSkills) {
+    doc.paragraph([{ text: labels.skills }], { style: 'Heading1' });
+    view.skillGroups.forEach(group => doc.paragraph([{ text: `${group.label}: `, bold: true }, { text: group.items }]));
+  }
+
+  const entrySections: Array<[string, CVEntry[], string, string?]> = [
+    [labels.experience, view.experience, labels.technologies],
+    [labels.projects, view.projects, labels.technologies, labels.description],
+    [labels.contributions, view.contributions, labels.technologies],
+    [labels.research, view.research, labels.topics],
+    [labels.education, view.education, labels.technologies]
+  ];
+  for (const [title, entries, technologiesLabel, descriptionLabel] of entrySections) {
+    if (entries.length === 0) continue;
+    doc.paragraph([{ text: title }], { style: 'Heading1' });
+    entries.forEach(entry => addEntry(doc, entry, technologiesLabel, descriptionLabel));
+  }
+
+  if (view.awards.length > 0) {
+    doc.paragraph([{ text: labels.awards }], { style: 'Heading1' });
+    view.awards.forEach(award => doc.bullet([
+      { text: award.name, bold: true },
+      { text: `${award.issuer ? ` - ${award.issuer}` : ''}${award.date ? ` (${award.date})` : ''}` }
+    ]));
+  }
+
+  if (view.hasLanguagesOrCertifications) {
+    doc.paragraph([{ text: labels.languagesAndCertifications }], { style: 'Heading1' });
+    view.languages.forEach(language => doc.bullet([{ text: `${language.name}: `, bold: true }, { text: language.proficiency }]));
+    view.certifications.forEach(cert => doc.bullet([
+      { text: cert.name, bold: true },
+      { text: `${cert.issuer ? ` - ${cert.issuer}` : ''}${cert.date ? ` (${cert.date})` : ''}` }
+    ]));
+    view.memberships.forEach(membership => doc.bullet([
+      { text: membership.organization, bold: true },
+      { text: membership.role ? ` - ${membership.role}` : '' }
+    ]));
+  }
+
+  return doc;
+}
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+</Types>`;
+
+const PACKAGE_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${W_NS}">
+<w:docDefaults>
+<w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="21"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="60"/></w:pPr></w:pPrDefault>
+</w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="120"/></w:pPr><w:rPr><w:smallCaps/><w:sz w:val="48"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="80"/><w:pBdr><w:bottom w:val="single" w:sz="4" w:space="1" w:color="999999"/></w:pBdr><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:smallCaps/><w:sz w:val="28"/></w:rPr></w:style>
+<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="006BB8"/></w:rPr></w:style>
+</w:styles>`;
+
+export function renderDocx(view: CVViewModel): Buffer {
+  const doc = buildDocument(view);
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}">
+<w:body>
+${doc.paragraphs.join('\n')}
+<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="0" w:footer="0" w:gutter="0"/></w:sectPr>
+</w:body>
+</w:document>`;
+
+  const documentRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+${doc.links.map((link, index) => `<Relationship Id="rLink${index + 1}" Type="${HYPERLINK_TYPE}" Target="${escapeXml(link)}" TargetMode="External"/>`).join('\n')}
+</Relationships>`;
+
+  return createZip([
+    { name: '[Content_Types].xml', data: CONTENT_TYPES },
+    { name: '_rels/.rels', data: PACKAGE_RELS },
+    { name: 'word/document.xml', data: document },
+    { name: 'word/_rels/document.xml.rels', data: documentRels },
+    { name: 'word/styles.xml', data: STYLES }
+  ]);
+}
@@ -0,0 +1,145 @@
+import { CVEntry, CVViewModel } from '../template';
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+}
+
+function safeHref(url: string): string {
+  return /^(https?:|mailto:|tel:)/i.test(url) ? escapeHtml(url) : '#';
+}
+
+const STYLES = `
+  :root { --accent: #006bb8; --muted: #555; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 16px/1.5 system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; color: #222; }
+  main { max-width: 820px; margin: 0 auto; padding: 2rem 1.25rem; }
+  header { text-align: center; margin-bottom: 1.5rem; }
+  h1 { margin: 0 0 .5rem; font-size: 2.2rem; font-variant: small-caps; letter-spacing: .02em; }
+  .contacts { list-style: none; padding: 0; margin: 0; display: flex; flex-wrap: wrap; justify-content: center; gap: .25rem 1.25rem; font-size: .95rem; }
+  a { color: var(--accent); text-decoration: none; }
+  a:hover { text-decoration: underline; }
+  h2 { font-variant: small-caps; font-weight: 500; font-size: 1.4rem; border-bottom: 1px solid #999; margin: 1.5rem 0 .5rem; }
+  .entry { margin: .75rem 0; }
+  .entry-head { display: flex; flex-wrap: wrap; justify-content: space-between; gap: 0 1rem; }
+  .entry-head .meta { font-style: italic; color: var(--muted); }
+  ul { margin: .25rem 0; padding-left: 1.25rem; }
+  ul.plain { list-style: none; padding-left: 0; }
+  @media (max-width: 600px) {
+    h1 { font-size: 1.7rem; }
+    .entry-head { flex-direction: column; }
+  }
+  @media print {
+    main { padding: 0; }
+    a { color: inherit; }
+  }
+`;
+
+function renderEntry(entry: CVEntry, technologiesLabel: string, descriptionLabel?: string): string {
+  const subtitle = entry.url
+    ? `<a href="${safeHref(entry.url)}">${escapeHtml(entry.urlLabel || entry.url)}</a>`
+    : escapeHtml(entry.subtitle);
+  const bullets = [
+    ...(entry.description ? [descriptionLabel ? `<strong>${escapeHtml(descriptionLabel)}:</strong> ${escapeHtml(entry.description)}` : escapeHtml(entry.description)] : []),
+    ...entry.bullets.map(escapeHtml),
+    ...(entry.technologies ? [`<strong>${escapeHtml(technologiesLabel)}:</strong> ${escapeHtml(entry.technologies)}`] : [])
+  ];
+
+  return [
+    '<div class="entry">',
+    `<div class="entry-head"><strong>${escapeHtml(entry.title)}</strong><span class="meta">${subtitle}</span></div>`,
+    entry.location || entry.period
+      ? `<div class="entry-head"><span class="meta">${escapeHtml(entry.location)}</span><span class="meta">${escapeHtml(entry.period)}</span></div>`
+      : '',
+    bullets.length > 0 ? `<ul>${bullets.map(bullet => `<li>${bullet}</li>`).join('')}</ul>` : '',
+    '</div>'
+  ].filter(Boolean).join('\n');
+}
+
+function renderSection(title: string, body: string): string {
+  return `<section>\n<h2>${escapeHtml(title)}</h2>\n${body}\n</section>`;
+}
+
+// Self-contained, responsive HTML page: inline CSS, no scripts, no external assets.
+export function renderHtml(view: CVViewModel): string {
+  const { labels } = view;
+  const sections: string[] = [];
+
+  if (view.summary) {
+    sections.push(renderSection(labels.summary, `<p>${escapeHtml(view.summary)}</p>`));
+  }
+  if (view.hasSkills) {
+    const items = view.skillGroups
+      .map(group => `<li><strong>${escapeHtml(group.label)}:</strong> ${escapeHtml(group.items)}</li>`)
+      .join('\n');
+    sections.push(renderSection(labels.skills, `<ul class="plain">\n${items}\n</ul>`));
+  }
+  if (view.experience.length > 0) {
+    sections.push(renderSection(labels.experience, view.experience.map(entry => renderEntry(entry, labels.technologies)).join('\n')));
+  }
+  if (view.projects.length > 0) {
+    sections.push(renderSection(labels.projects, view.projects.map(entry => renderEntry(entry, labels.technologies, labels.description)).join('\n')));
+  }
+  if (view.contributions.length > 0) {
+    sections.push(renderSection(labels.contributions, view.contributions.map(entry => renderEntry(entry, labels.technologies)).join('\n')));
+  }
+  if (view.research.length > 0) {
+    sections.push(renderSection(labels.research, view.research.map(entry => renderEntry(entry, labels.topics)).join('\n')));
+  }
+  if (view.education.length > 0) {
+    sections.push(renderSection(labels.education, view.education.map(entry => renderEntry(entry, labels.technologies)).join('\n')));
+  }
+  if (view.awards.length > 0) {
+    const items = view.awards.map(award =>
+      `<strong>${escapeHtml(award.name)}</strong>${award.issuer ? ` - ${escapeHtml(award.issuer)}` : ''}${award.date ? ` (${escapeHtml(award.date)})` : ''}`
+    );
+    sections.push(renderSection(labels.awards, `<ul class="plain">\n${items.map(item => `<li>${item}</li>`).join('\n')}\n</ul>`));
+  }
+  if (view.hasLanguagesOrCertifications) {
+    const items = [
+      ...view.languages.map(language => `<strong>${escapeHtml(language.name)}:</strong> ${escapeHtml(language.proficiency)}`),
+      ...view.certifications.map(cert =>
+        `<strong>${escapeHtml(cert.name)}</strong>${cert.issuer ? ` - ${escapeHtml(cert.issuer)}` : ''}${cert.date ? ` (${escapeHtml(cert.date)})` : ''}`
+      ),
+      ...view.memberships.map(membership =>
+        `<strong>${escapeHtml(membership.organization)}</strong>${membership.role ? ` - ${escapeHtml(membership.role)}` : ''}`
+      )
+    ];
+    sections.push(renderSection(labels.languagesAndCertifications, `<ul class="plain">\n${items.map(item => `<li>${item}</li>`).join('\n')}\n</ul>`));
+  }
+
+  const contacts = view.contacts
+    .map(contact => contact.url
+      ? `<li><a href="${safeHref(contact.url)}">${escapeHtml(contact.label)}</a></li>`
+      : `<li>${escapeHtml(contact.label)}</li>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(view.locale)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(view.name || 'CV')}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+<header>
+<h1>${escapeHtml(view.name)}</h1>
+<ul class="contacts">
+${contacts}
+</ul>
+</header>
+${sections.join('\n')}
+</main>
+</body>
+</html>
+`;
+}
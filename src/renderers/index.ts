@@ -0,0 +1,44 @@
+import { CVViewModel } from '../template';
+import { renderDocx } from './docx';
+import { renderHtml } from './html';
+import { renderMarkdown } from './markdown';
+import { renderPlainText } from './text';
+
+export { renderDocx } from './docx';
+export { renderHtml } from './html';
+export { renderMarkdown } from './markdown';
+export { renderPlainText } from './text';
+export { createZip, ZipEntry } from './zip';
+
+export type OutputFormat = 'tex' | 'pdf' | 'html' | 'md' | 'txt' | 'docx';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['tex', 'pdf', 'html', 'md', 'txt', 'docx'];
+
+// Formats rendered straight from the view model; tex/pdf go through the LaTeX pipeline.
+export type DocumentFormat = Exclude<OutputFormat, 'tex' | 'pdf'>;
+
+export function isDocumentFormat(format: OutputFormat): format is DocumentFormat {
+  return format !== 'tex' && format !== 'pdf';
+}
+
+export function parseOutputFormats(value: string): OutputFormat[] {
+  const formats = value.split(',').map(format => format.trim().toLowerCase()).filter(Boolean);
+  const unknown = formats.filter(format => !OUTPUT_FORMATS.includes(format as OutputFormat));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown output format(s): ${unknown.join(', ')}. Expected: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+  return Array.from(new Set(formats)) as OutputFormat[];
+}
+
+export function renderDocument(format: DocumentFormat, view: CVViewModel): string | Buffer {
+  switch (format) {
+    case 'html':
+      return renderHtml(view);
+    case 'md':
+      return renderMarkdown(view);
+    case 'txt':
+      return renderPlainText(view);
+    case 'docx':
+      return renderDocx(view);
+  }
+}
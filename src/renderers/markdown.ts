@@ -0,0 +1,87 @@
+import { CVEntry, CVViewModel } from '../template';
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>#|])/g, '\\$1');
+}
+
+function markdownUrl(url: string): string {
+  return url.replace(/[()\s]/g, char => encodeURIComponent(char).replace('(', '%28').replace(')', '%29'));
+}
+
+function renderEntry(entry: CVEntry, technologiesLabel: string, descriptionLabel?: string): string {
+  const lines: string[] = [];
+  const subtitle = entry.url
+    ? `[${escapeMarkdown(entry.urlLabel || entry.url)}](${markdownUrl(entry.url)})`
+    : escapeMarkdown(entry.subtitle);
+
+  lines.push(`### ${escapeMarkdown(entry.title)}${subtitle ? ` — ${subtitle}` : ''}`);
+  const meta = [entry.location, entry.period].filter(Boolean).map(escapeMarkdown).join(' | ');
+  if (meta) lines.push(`*${meta}*`);
+  lines.push('');
+
+  if (entry.description) {
+    const label = descriptionLabel ? `**${escapeMarkdown(descriptionLabel)}:** ` : '';
+    lines.push(`- ${label}${escapeMarkdown(entry.description)}`);
+  }
+  entry.bullets.forEach(bullet => lines.push(`- ${escapeMarkdown(bullet)}`));
+  if (entry.technologies) {
+    lines.push(`- **${escapeMarkdown(technologiesLabel)}:** ${escapeMarkdown(entry.technologies)}`);
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+export function renderMarkdown(view: CVViewModel): string {
+  const { labels } = view;
+  const blocks: string[] = [];
+
+  blocks.push(`# ${escapeMarkdown(view.name)}`);
+  if (view.contacts.length > 0) {
+    blocks.push(view.contacts
+      .map(contact => contact.url ? `[${escapeMarkdown(contact.label)}](${markdownUrl(contact.url)})` : escapeMarkdown(contact.label))
+      .join(' · '));
+  }
+
+  if (view.summary) {
+    blocks.push(`## ${labels.summary}\n\n${escapeMarkdown(view.summary)}`);
+  }
+  if (view.hasSkills) {
+    const items = view.skillGroups.map(group => `- **${escapeMarkdown(group.label)}:** ${escapeMarkdown(group.items)}`);
+    blocks.push(`## ${labels.skills}\n\n${items.join('\n')}`);
+  }
+
+  const entrySections: Array<[string, CVEntry[], string, string?]> = [
+    [labels.experience, view.experience, labels.technologies],
+    [labels.projects, view.projects, labels.technologies, labels.description],
+    [labels.contributions, view.contributions, labels.technologies],
+    [labels.research, view.research, labels.topics],
+    [labels.education, view.education, labels.technologies]
+  ];
+  for (const [title, entries, technologiesLabel, descriptionLabel] of entrySections) {
+    if (entries.length === 0) continue;
+    const rendered = entries.map(entry => renderEntry(entry, technologiesLabel, descriptionLabel));
+    blocks.push(`## ${title}\n\n${rendered.join('\n\n')}`);
+  }
+
+  if (view.awards.length > 0) {
+    const items = view.awards.map(award =>
+      `- **${escapeMarkdown(award.name)}**${award.issuer ? ` - ${escapeMarkdown(award.issuer)}` : ''}${award.date ? ` (${escapeMarkdown(award.date)})` : ''}`
+    );
+    blocks.push(`## ${labels.awards}\n\n${items.join('\n')}`);
+  }
+
+  if (view.hasLanguagesOrCertifications) {
+    const items = [
+      ...view.languages.map(language => `- **${escapeMarkdown(language.name)}:** ${escapeMarkdown(language.proficiency)}`),
+      ...view.certifications.map(cert =>
+        `- **${escapeMarkdown(cert.name)}**${cert.issuer ? ` - ${escapeMarkdown(cert.issuer)}` : ''}${cert.date ? ` (${escapeMarkdown(cert.date)})` : ''}`
+      ),
+      ...view.memberships.map(membership =>
+        `- **${escapeMarkdown(membership.organization)}**${membership.role ? ` - ${escapeMarkdown(membership.role)}` : ''}`
+      )
+    ];
+    blocks.push(`## ${labels.languagesAndCertifications}\n\n${items.join('\n')}`);
+  }
+
+  return blocks.join('\n\n') + '\n';
+}
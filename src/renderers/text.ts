@@ -0,0 +1,78 @@
+import { CVEntry, CVViewModel } from '../template';
+
+// ATS parsers handle plain paragraphs best: no columns, no tables, uppercase headings,
+// full URLs instead of link labels and one fact per line.
+
+function heading(title: string): string {
+  return title.toUpperCase();
+}
+
+function renderEntry(entry: CVEntry, technologiesLabel: string, descriptionLabel?: string): string {
+  const lines: string[] = [];
+  const organization = entry.url || entry.subtitle;
+
+  lines.push([entry.title, organization].filter(Boolean).join(' - '));
+  const meta = [entry.location, entry.period].filter(Boolean).join(' | ');
+  if (meta) lines.push(meta);
+
+  if (entry.description) {
+    lines.push(`- ${descriptionLabel ? `${descriptionLabel}: ` : ''}${entry.description}`);
+  }
+  entry.bullets.forEach(bullet => lines.push(`- ${bullet}`));
+  if (entry.technologies) {
+    lines.push(`- ${technologiesLabel}: ${entry.technologies}`);
+  }
+
+  return lines.join('\n');
+}
+
+export function renderPlainText(view: CVViewModel): string {
+  const { labels } = view;
+  const blocks: string[] = [];
+
+  blocks.push([
+    view.name.toUpperCase(),
+    ...view.contacts.map(contact => {
+      if (!contact.url || contact.kind === 'email' || contact.kind === 'phone') return contact.label;
+      return contact.url;
+    })
+  ].filter(Boolean).join('\n'));
+
+  if (view.summary) {
+    blocks.push(`${heading(labels.summary)}\n${view.summary}`);
+  }
+  if (view.hasSkills) {
+    blocks.push(`${heading(labels.skills)}\n${view.skillGroups.map(group => `${group.label}: ${group.items}`).join('\n')}`);
+  }
+
+  const entrySections: Array<[string, CVEntry[], string, string?]> = [
+    [labels.experience, view.experience, labels.technologies],
+    [labels.projects, view.projects, labels.technologies, labels.description],
+    [labels.contributions, view.contributions, labels.technologies],
+    [labels.research, view.research, labels.topics],
+    [labels.education, view.education, labels.technologies]
+  ];
+  for (const [title, entries, technologiesLabel, descriptionLabel] of entrySections) {
+    if (entries.length === 0) continue;
+    const rendered = entries.map(entry => renderEntry(entry, technologiesLabel, descriptionLabel));
+    blocks.push(`${heading(title)}\n${rendered.join('\n\n')}`);
+  }
+
+  if (view.awards.length > 0) {
+    const items = view.awards.map(award => `${award.name}${award.issuer ? ` - ${award.issuer}` : ''}${award.date ? ` (${award.date})` : ''}`);
+    blocks.push(`${heading(labels.awards)}\n${items.join('\n')}`);
+  }
+
+  if (view.hasLanguagesOrCertifications) {
+    const items = [
+      ...view.languages.map(language => `${language.name}: ${language.proficiency}`),
+      ...view.certifications.map(cert =>
+        `${cert.name}${cert.issuer ? ` - ${cert.issuer}` : ''}${cert.date ? ` (${cert.date})` : ''}`
+      ),
+      ...view.memberships.map(membership => `${membership.organization}${membership.role ? ` - ${membership.role}` : ''}`)
+    ];
+    blocks.push(`${heading(labels.languagesAndCertifications)}\n${items.join('\n')}`);
+  }
+
+  return blocks.join('\n\n') + '\n';
+}
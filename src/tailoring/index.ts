@@ -0,0 +1,3 @@
+export * from './jobPosting';
+export * from './matcher';
+export * from './report';
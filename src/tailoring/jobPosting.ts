@@ -0,0 +1,124 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface JobRequirement {
+  text: string;
+  section: string;
+  optional: boolean;
+}
+
+export interface JobPosting {
+  title: string;
+  sourcePath: string;
+  text: string;
+  requirements: JobRequirement[];
+}
+
+// Headings that introduce requirement lists in English and Portuguese postings. They are matched from the start of
+// the heading, so "Benefits & Bonus" or "Salary plus equity" stay out of the requirements.
+const REQUIREMENT_HEADINGS = [
+  /^((basic|minimum|required|technical|key|core)\s+)?(requirements?|qualifications?|skills)\b/i,
+  /^must[- ]haves?\b/i, /^what you.ll (need|bring)\b/i,
+  /^(requisitos?|qualifica[cç][õo]es|compet[eê]ncias|o que buscamos)\b/i
+];
+
+const OPTIONAL_HEADINGS = [
+  /^(nice[- ]to[- ]haves?|bonus points?|pluses?)\b/i, /^preferred(\s+(qualifications?|skills))?\b/i,
+  /^(diferenciais?|desej[aá]ve(l|is)|ser[aá] um diferencial)\b/i
+];
+
+const BULLET_PATTERN = /^\s*(?:[-*•+]|\d+[.)])\s+(.*)$/;
+const MARKDOWN_HEADING_PATTERN = /^\s*#{1,6}\s+(.*)$/;
+
+function stripMarkdown(line: string): string {
+  return line
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`]+/g, '')
+    .trim();
+}
+
+function asHeading(line: string): string | null {
+  const markdownHeading = line.match(MARKDOWN_HEADING_PATTERN);
+  if (markdownHeading) {
+    return stripMarkdown(markdownHeading[1]);
+  }
+
+  // Plain-text postings usually mark sections with a short line ending in a colon.
+  const trimmed = stripMarkdown(line);
+  if (trimmed.endsWith(':') && trimmed.length <= 60 && !BULLET_PATTERN.test(line)) {
+    return trimmed.slice(0, -1).trim();
+  }
+
+  return null;
+}
+
+function matchesAny(text: string, patterns: RegExp[]): boolean {
+  return patterns.some(pattern => pattern.test(text));
+}
+
+export function parseJobPosting(text: string, sourcePath = ''): JobPosting {
+  const lines = text.split(/\r?\n/);
+  const requirements: JobRequirement[] = [];
+  const fallbackBullets: JobRequirement[] = [];
+  let title = '';
+  let section = '';
+  let inRequirementSection = false;
+  let optionalSection = false;
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+
+    const heading = asHeading(line);
+    if (heading !== null) {
+      if (!title && MARKDOWN_HEADING_PATTERN.test(line)) {
+        title = heading;
+      }
+      section = heading;
+      optionalSection = matchesAny(heading, OPTIONAL_HEADINGS);
+      inRequirementSection = optionalSection || matchesAny(heading, REQUIREMENT_HEADINGS);
+      continue;
+    }
+
+    if (!title) {
+      title = stripMarkdown(line);
+    }
+
+    const bullet = line.match(BULLET_PATTERN);
+    if (!bullet) continue;
+
+    const requirement: JobRequirement = {
+      text: stripMarkdown(bullet[1]),
+      section,
+      optional: optionalSection
+    };
+
+    if (inRequirementSection) {
+      requirements.push(requirement);
+    } else {
+      fallbackBullets.push(requirement);
+    }
+  }
+
+  return {
+    title: title || path.basename(sourcePath, path.extname(sourcePath)),
+    sourcePath,
+    text,
+    // Postings without recognizable headings still list their requirements as bullets.
+    requirements: requirements.length > 0 ? requirements : fallbackBullets
+  };
+}
+
+export function loadJobPosting(filePath: string): JobPosting {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Job posting file not found: ${filePath}`);
+  }
+
+  const text = fs.readFileSync(filePath, 'utf-8');
+  const posting = parseJobPosting(text, filePath);
+
+  if (posting.requirements.length === 0) {
+    throw new Error(`No requirements found in job posting: ${filePath}. List them as bullet points.`);
+  }
+
+  return posting;
+}
@@ -0,0 +1,228 @@
+import { ProfileData, createEmptyTechnicalSkills } from '../profile';
+import { JobPosting, JobRequirement } from './jobPosting';
+
+export interface RequirementCoverage {
+  requirement: JobRequirement;
+  terms: string[];
+  matchedTerms: string[];
+  covered: boolean;
+}
+
+export interface RankedItem {
+  section: string;
+  key: string;
+  score: number;
+  matchedTerms: string[];
+}
+
+export interface TailoringResult {
+  posting: JobPosting;
+  profile: ProfileData;
+  coverage: RequirementCoverage[];
+  selected: RankedItem[];
+  dropped: RankedItem[];
+}
+
+export interface TailoringOptions {
+  maxProjects?: number;
+  maxResearch?: number;
+  // Also leave out roles and certifications that match nothing in the posting (default: keep them all).
+  dropUnmatched?: boolean;
+}
+
+// Technologies and practices commonly named in postings; profile skills are added at match time.
+const COMMON_TERMS = [
+  'JavaScript', 'TypeScript', 'Python', 'Java', 'C', 'C++', 'C#', 'Go', 'Golang', 'Rust', 'Ruby',
+  'PHP', 'Kotlin', 'Swift', 'Scala', 'R', 'SQL', 'Bash', 'HTML', 'CSS',
+  'Node.js', 'React', 'Angular', 'Vue.js', 'Next.js', 'Express', 'NestJS', 'Django', 'Flask',
+  'FastAPI', 'Spring', 'Spring Boot', '.NET', 'Rails', 'GraphQL', 'REST',
+  'PostgreSQL', 'MySQL', 'MongoDB', 'Redis', 'Elasticsearch', 'Kafka', 'RabbitMQ',
+  'AWS', 'Azure', 'GCP', 'Docker', 'Kubernetes', 'Terraform', 'Ansible', 'Linux', 'Git',
+  'CI/CD', 'GitHub Actions', 'Jenkins', 'Microservices', 'Machine Learning', 'Deep Learning',
+  'LLM', 'NLP', 'Computer Vision', 'PyTorch', 'TensorFlow', 'Pandas', 'Data Science',
+  'Agile', 'Scrum', 'Kanban', 'TDD', 'Jest', 'Testing', 'LaTeX'
+];
+
+const STOPWORDS = new Set([
+  'and', 'or', 'the', 'with', 'for', 'you', 'your', 'our', 'are', 'have', 'has', 'will', 'experience',
+  'years', 'year', 'knowledge', 'strong', 'good', 'ability', 'working', 'work', 'using', 'least',
+  'e', 'ou', 'de', 'da', 'do', 'das', 'dos', 'com', 'para', 'em', 'uma', 'um', 'anos', 'ano',
+  'experiência', 'conhecimento', 'conhecimentos', 'sólido', 'sólidos', 'boa', 'bom', 'como'
+]);
+
+const RANKED_SECTIONS = ['projects', 'professional_experience', 'academical_research', 'certifications'] as const;
+type RankedSection = typeof RANKED_SECTIONS[number];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function containsTerm(text: string, term: string): boolean {
+  // \b does not work around symbols such as "C++", "C#" or ".NET", so bound on word characters instead.
+  // Single-letter languages only count when written in capitals, otherwise every "r" matches, and not in
+  // "C-level", "R&D" or an initial such as "C.".
+  const flags = term.length === 1 ? '' : 'i';
+  const after = term.length === 1 ? '[\\w+#&.-]' : '[\\w+#]';
+  return new RegExp(`(?<![\\w+#.])${escapeRegExp(term)}(?!${after})`, flags).test(text);
+}
+
+function significantWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}+#.]+/u)
+    .map(word => word.replace(/\.+$/, ''))
+    .filter(word => word.length > 3 && !STOPWORDS.has(word));
+}
+
+function collectStrings(value: unknown, out: string[] = []): string[] {
+  if (typeof value === 'string') {
+    out.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectStrings(item, out));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => collectStrings(item, out));
+  }
+  return out;
+}
+
+function buildVocabulary(profile: ProfileData): string[] {
+  const skills = profile.technical_skills;
+  const projectTerms = Object.values(profile.projects).flatMap(project => [
+    ...(project.technologies || []),
+    ...(project.topics || []),
+    ...(project.language ? [project.language] : [])
+  ]);
+
+  const terms = [
+    ...COMMON_TERMS,
+    ...(skills ? collectStrings(skills) : []),
+    ...projectTerms
+  ].map(term => term.trim()).filter(term => term.length > 0);
+
+  const seen = new Set<string>();
+  return terms.filter(term => {
+    const key = term.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function requirementTerms(requirement: JobRequirement, vocabulary: string[]): string[] {
+  const known = vocabulary.filter(term => containsTerm(requirement.text, term));
+  return known.length > 0 ? known : significantWords(requirement.text);
+}
+
+// A requirement counts as covered when more than half of its terms occur: both of "C# and .NET", two of three.
+function coversRequirement(terms: string[], matchedTerms: string[]): boolean {
+  return terms.length > 0 && matchedTerms.length * 2 > terms.length;
+}
+
+function scoreText(text: string, terms: string[]): { score: number; matched: string[] } {
+  const matched = terms.filter(term => containsTerm(text, term));
+  return { score: matched.length, matched };
+}
+
+function rankSection(profile: ProfileData, section: RankedSection, terms: string[]): RankedItem[] {
+  const entries = Object.entries(profile[section] as Record<string, unknown>);
+  const ranked = entries.map(([key, entry], index) => {
+    const { score, matched } = scoreText(`${key} ${collectStrings(entry).join(' ')}`, terms);
+    return { item: { section, key, score, matchedTerms: matched }, index };
+  });
+
+  // Stable: equal scores keep the order the profile lists them in.
+  ranked.sort((a, b) => b.item.score - a.item.score || a.index - b.index);
+  return ranked.map(({ item }) => item);
+}
+
+function sortByRelevance(values: string[], terms: string[]): string[] {
+  return values
+    .map((value, index) => ({ value, index, score: scoreText(value, terms).score }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ value }) => value);
+}
+
+function pickRecord<T>(record: Record<string, T>, keys: string[]): Record<string, T> {
+  const picked: Record<string, T> = {};
+  for (const key of keys) {
+    picked[key] = record[key];
+  }
+  return picked;
+}
+
+export function tailorProfile(
+  profile: ProfileData,
+  posting: JobPosting,
+  options: TailoringOptions = {}
+): TailoringResult {
+  const maxProjects = options.maxProjects ?? 4;
+  const maxResearch = options.maxResearch ?? 2;
+  const vocabulary = buildVocabulary(profile);
+  const corpus = collectStrings(profile).join('\n');
+
+  const coverage = posting.requirements.map(requirement => {
+    const terms = requirementTerms(requirement, vocabulary);
+    const matchedTerms = terms.filter(term => containsTerm(corpus, term));
+    return { requirement, terms, matchedTerms, covered: coversRequirement(terms, matchedTerms) };
+  });
+
+  const jobTerms = Array.from(new Set(coverage.flatMap(item => item.terms)));
+  const selected: RankedItem[] = [];
+  const dropped: RankedItem[] = [];
+  const tailored: ProfileData = { ...profile };
+
+  const limits: Record<RankedSection, number> = {
+    projects: maxProjects,
+    professional_experience: Number.POSITIVE_INFINITY,
+    academical_research: maxResearch,
+    certifications: Number.POSITIVE_INFINITY
+  };
+
+  for (const section of RANKED_SECTIONS) {
+    const ranked = rankSection(profile, section, jobTerms);
+    const relevant = ranked.filter(item => item.score > 0);
+    // Roles and certifications are reordered, not filtered: unmatched roles still explain the timeline, and a
+    // certification costs one line. Experience is never dropped entirely, even with dropUnmatched.
+    const rankedOnly = (section === 'professional_experience' || section === 'certifications') && !options.dropUnmatched;
+    const pool = rankedOnly || (section === 'professional_experience' && relevant.length === 0) ? ranked : relevant;
+    const kept = pool.slice(0, limits[section]);
+
+    selected.push(...kept);
+    dropped.push(...ranked.filter(item => !kept.includes(item)));
+
+    const keys = kept.map(item => item.key);
+    if (section === 'projects') tailored.projects = pickRecord(profile.projects, keys);
+    if (section === 'professional_experience') {
+      tailored.professional_experience = pickRecord(profile.professional_experience, keys);
+    }
+    if (section === 'academical_research') {
+      tailored.academical_research = pickRecord(profile.academical_research, keys);
+    }
+    if (section === 'certifications') tailored.certifications = pickRecord(profile.certifications, keys);
+  }
+
+  for (const [key, experience] of Object.entries(tailored.professional_experience)) {
+    tailored.professional_experience[key] = {
+      ...experience,
+      ...(experience.responsibilities && { responsibilities: sortByRelevance(experience.responsibilities, jobTerms) }),
+      ...(experience.achievements && { achievements: sortByRelevance(experience.achievements, jobTerms) })
+    };
+  }
+
+  if (profile.technical_skills) {
+    const skills = { ...createEmptyTechnicalSkills(), ...profile.technical_skills };
+    tailored.technical_skills = {
+      operating_systems: sortByRelevance(skills.operating_systems, jobTerms),
+      programming_languages: sortByRelevance(skills.programming_languages, jobTerms),
+      areas_of_expertise: sortByRelevance(skills.areas_of_expertise, jobTerms),
+      ...(skills.tools_and_technologies && {
+        tools_and_technologies: sortByRelevance(skills.tools_and_technologies, jobTerms)
+      }),
+      ...(skills.language_activity && { language_activity: skills.language_activity })
+    };
+  }
+
+  tailored.facts = sortByRelevance(profile.facts, jobTerms);
+
+  return { posting, profile: tailored, coverage, selected, dropped };
+}
@@ -0,0 +1,45 @@
+import { TailoringResult } from './matcher';
+
+export function formatTailoringReport(result: TailoringResult): string {
+  const covered = result.coverage.filter(item => item.covered);
+  const missing = result.coverage.filter(item => !item.covered);
+  const lines: string[] = [];
+
+  lines.push(`# Tailoring report: ${result.posting.title}`);
+  lines.push('');
+  lines.push(`Job posting: ${result.posting.sourcePath}`);
+  lines.push(`Requirements covered: ${covered.length}/${result.coverage.length}`);
+  lines.push('');
+
+  lines.push('## Covered requirements');
+  if (covered.length === 0) lines.push('- none');
+  for (const item of covered) {
+    const optional = item.requirement.optional ? ' (nice to have)' : '';
+    lines.push(`- ${item.requirement.text}${optional} — matched: ${item.matchedTerms.join(', ')}`);
+  }
+  lines.push('');
+
+  lines.push('## Missing requirements');
+  if (missing.length === 0) lines.push('- none');
+  for (const item of missing) {
+    const optional = item.requirement.optional ? ' (nice to have)' : '';
+    const partly = item.matchedTerms.length > 0 ? ` — only matched: ${item.matchedTerms.join(', ')}` : '';
+    lines.push(`- ${item.requirement.text}${optional}${partly}`);
+  }
+  lines.push('');
+
+  lines.push('## Selected profile entries');
+  for (const item of result.selected) {
+    const matched = item.matchedTerms.length > 0 ? item.matchedTerms.join(', ') : 'no direct match';
+    lines.push(`- ${item.section}.${item.key} (score ${item.score}: ${matched})`);
+  }
+  lines.push('');
+
+  lines.push('## Left out');
+  if (result.dropped.length === 0) lines.push('- none');
+  for (const item of result.dropped) {
+    lines.push(`- ${item.section}.${item.key}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,200 @@
+// Minimal logic-light template engine for LaTeX (and other text) templates.
+//
+//   <<path.to.value>>          escaped value
+//   <<path | filter>>          value passed through a named filter instead of the default escape
+//   <<&path>>                  raw value, inserted as is
+//   <<#each list>>..<</each>>  loop; inside, <<this>>, <<@index>>, <<@first>> and <<@last>> are available
+//   <<#if value>>..<<else>>..<</if>>, <<#unless value>>..<</unless>>
+//   <<! comment >>
+//
+// LaTeX uses braces everywhere, so the engine uses angle brackets to avoid clashing with {{ }}.
+// Block tags alone on a line swallow that line, so conditionals leave no blank lines behind.
+
+export type TemplateFilter = (value: string) => string;
+
+export interface RenderOptions {
+  escape: TemplateFilter;
+  filters?: Record<string, TemplateFilter>;
+}
+
+export class TemplateError extends Error {
+  constructor(message: string, line?: number) {
+    super(line !== undefined ? `${message} (template line ${line})` : message);
+    this.name = 'TemplateError';
+  }
+}
+
+type Node =
+  | { type: 'text'; value: string }
+  | { type: 'value'; path: string; raw: boolean; filter?: string; line: number }
+  | { type: 'each'; path: string; body: Node[]; line: number }
+  | { type: 'if'; path: string; negate: boolean; body: Node[]; otherwise: Node[]; line: number };
+
+interface Frame {
+  value: unknown;
+  locals: Record<string, unknown>;
+}
+
+const TAG_PATTERN = /<<([\s\S]*?)>>/g;
+const STANDALONE_PATTERN = /^[ \t]*(<<(?:[#/!][^>]*|else)>>)[ \t]*\r?\n/gm;
+
+function lineAt(source: string, offset: number): number {
+  return source.slice(0, offset).split('\n').length;
+}
+
+function parse(source: string): Node[] {
+  const normalized = source.replace(STANDALONE_PATTERN, '$1');
+  const root: Node[] = [];
+  const stack: Array<{ node: Extract<Node, { type: 'each' | 'if' }>; inElse: boolean }> = [];
+  let lastIndex = 0;
+
+  const current = (): Node[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    if (top.node.type === 'if' && top.inElse) return top.node.otherwise;
+    return top.node.body;
+  };
+
+  for (const match of normalized.matchAll(TAG_PATTERN)) {
+    const offset = match.index ?? 0;
+    const line = lineAt(normalized, offset);
+    if (offset > lastIndex) {
+      current().push({ type: 'text', value: normalized.slice(lastIndex, offset) });
+    }
+    lastIndex = offset + match[0].length;
+
+    const tag = match[1].trim();
+    if (tag.startsWith('!')) continue;
+
+    if (tag.startsWith('#')) {
+      const [keyword, ...rest] = tag.slice(1).trim().split(/\s+/);
+      const path = rest.join(' ');
+      if (!path) throw new TemplateError(`Missing argument for #${keyword}`, line);
+
+      let node: Extract<Node, { type: 'each' | 'if' }>;
+      if (keyword === 'each') {
+        node = { type: 'each', path, body: [], line };
+      } else if (keyword === 'if' || keyword === 'unless') {
+        node = { type: 'if', path, negate: keyword === 'unless', body: [], otherwise: [], line };
+      } else {
+        throw new TemplateError(`Unknown block #${keyword}`, line);
+      }
+      current().push(node);
+      stack.push({ node, inElse: false });
+      continue;
+    }
+
+    if (tag === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.node.type !== 'if') throw new TemplateError('<<else>> outside of #if', line);
+      top.inElse = true;
+      continue;
+    }
+
+    if (tag.startsWith('/')) {
+      const keyword = tag.slice(1).trim();
+      const top = stack.pop();
+      const expected = top ? (top.node.type === 'each' ? 'each' : (top.node.negate ? 'unless' : 'if')) : undefined;
+      if (keyword !== expected) {
+        throw new TemplateError(`Unexpected <</${keyword}>>${expected ? `, expected <</${expected}>>` : ''}`, line);
+      }
+      continue;
+    }
+
+    const raw = tag.startsWith('&');
+    const [path, filter] = (raw ? tag.slice(1) : tag).split('|').map(part => part.trim());
+    current().push({ type: 'value', path, raw, filter: filter || undefined, line });
+  }
+
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1].node;
+    throw new TemplateError(`Unclosed #${open.type === 'each' ? 'each' : 'if'} block`, open.line);
+  }
+
+  if (lastIndex < normalized.length) {
+    root.push({ type: 'text', value: normalized.slice(lastIndex) });
+  }
+
+  return root;
+}
+
+function resolve(path: string, frames: Frame[]): unknown {
+  const [head, ...rest] = path.split('.');
+
+  let value: unknown;
+  let found = false;
+  for (let i = frames.length - 1; i >= 0 && !found; i--) {
+    const frame = frames[i];
+    if (head === 'this') {
+      value = frame.value;
+      found = true;
+    } else if (head.startsWith('@')) {
+      if (head in frame.locals) {
+        value = frame.locals[head];
+        found = true;
+      }
+    } else if (frame.value && typeof frame.value === 'object' && head in (frame.value as object)) {
+      value = (frame.value as Record<string, unknown>)[head];
+      found = true;
+    }
+  }
+
+  for (const key of rest) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+
+  return value;
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+}
+
+function renderNodes(nodes: Node[], frames: Frame[], options: RenderOptions): string {
+  let output = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+      case 'value': {
+        const value = resolve(node.path, frames);
+        const text = value === undefined || value === null ? '' : String(value);
+        if (node.raw) {
+          output += text;
+        } else if (node.filter) {
+          const filter = options.filters?.[node.filter];
+          if (!filter) throw new TemplateError(`Unknown filter "${node.filter}"`, node.line);
+          output += filter(text);
+        } else {
+          output += options.escape(text);
+        }
+        break;
+      }
+      case 'each': {
+        const list = resolve(node.path, frames);
+        if (list === undefined || list === null) break;
+        if (!Array.isArray(list)) throw new TemplateError(`#each expects a list at "${node.path}"`, node.line);
+        list.forEach((item, index) => {
+          const locals = { '@index': index, '@first': index === 0, '@last': index === list.length - 1 };
+          output += renderNodes(node.body, [...frames, { value: item, locals }], options);
+        });
+        break;
+      }
+      case 'if': {
+        const condition = isTruthy(resolve(node.path, frames)) !== node.negate;
+        output += renderNodes(condition ? node.body : node.otherwise, frames, options);
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+export function renderTemplate(source: string, context: unknown, options: RenderOptions): string {
+  return renderNodes(parse(source), [{ value: context, locals: {} }], options);
+}
@@ -0,0 +1,4 @@
+export * from './engine';
+export * from './locale';
+export * from './viewModel';
+export * from './latexRenderer';
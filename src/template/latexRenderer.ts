@@ -0,0 +1,28 @@
+import * as fs from 'fs';
+import { ProfileData } from '../profile';
+import { assertLatexSafeProfile, escapeLatex, escapeLatexUrl } from '../latex/escape';
+import { renderTemplate } from './engine';
+import { CVLocale } from './locale';
+import { CVViewModel, buildCVViewModel } from './viewModel';
+
+export interface LatexRenderOptions {
+  // Replaces individual view fields, e.g. a summary polished by the LLM.
+  overrides?: Partial<CVViewModel>;
+  // Section titles, labels and date format; defaults to pt-BR.
+  locale?: CVLocale;
+}
+
+export function renderLatexFromTemplate(template: string, profile: ProfileData, options: LatexRenderOptions = {}): string {
+  assertLatexSafeProfile(profile);
+  const view: CVViewModel = { ...buildCVViewModel(profile, options.locale), ...options.overrides };
+
+  return renderTemplate(template, view, {
+    escape: escapeLatex,
+    filters: { url: escapeLatexUrl }
+  });
+}
+
+export function renderLatexCV(templatePath: string, profile: ProfileData, options: LatexRenderOptions = {}): string {
+  const template = fs.readFileSync(templatePath, 'utf-8');
+  return renderLatexFromTemplate(template, profile, options);
+}
@@ -0,0 +1,144 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { isOngoingDate, parseProfileDate } from '../profile';
+import { TEMPLATES_DIR } from '../paths';
+
+// Output languages. Each one is a JSON dictionary in assets/templates/locales, next to base-cv.tex.
+
+export type LocaleCode = 'pt-BR' | 'en' | 'es';
+
+export const LOCALE_CODES: LocaleCode[] = ['pt-BR', 'en', 'es'];
+export const DEFAULT_LOCALE: LocaleCode = 'pt-BR';
+export const LOCALES_DIR = path.join(TEMPLATES_DIR, 'locales');
+
+// Headings and field labels shared by every output format.
+export interface CVLabels {
+  summary: string;
+  skills: string;
+  experience: string;
+  projects: string;
+  contributions: string;
+  research: string;
+  education: string;
+  languagesAndCertifications: string;
+  awards: string;
+  programmingLanguages: string;
+  toolsAndTechnologies: string;
+  areasOfExpertise: string;
+  operatingSystems: string;
+  description: string;
+  technologies: string;
+  topics: string;
+  pullRequests: string;
+  reviews: string;
+  linesChanged: string;
+  present: string;
+  // Experience with a programming language; `{count}` is the number of years.
+  experienceYear: string;
+  experienceYears: string;
+  experienceUnderAYear: string;
+  currentSkill: string;
+}
+
+// Sentences the collectors add to profile.facts; `{count}` is replaced with the number.
+export interface LocaleFacts {
+  githubStars: string;
+  githubFollowers: string;
+  githubPublicRepos: string;
+}
+
+export interface CVLocale {
+  code: LocaleCode;
+  // Language name as written in LLM instructions, e.g. "Brazilian Portuguese".
+  language: string;
+  labels: CVLabels;
+  // Abbreviated month names, January first.
+  months: string[];
+  facts: LocaleFacts;
+}
+
+const LABEL_KEYS: Array<keyof CVLabels> = [
+  'summary', 'skills', 'experience', 'projects', 'contributions', 'research', 'education', 'languagesAndCertifications', 'awards',
+  'programmingLanguages', 'toolsAndTechnologies', 'areasOfExpertise', 'operatingSystems',
+  'description', 'technologies', 'topics', 'pullRequests', 'reviews', 'linesChanged', 'present',
+  'experienceYear', 'experienceYears', 'experienceUnderAYear', 'currentSkill'
+];
+const FACT_KEYS: Array<keyof LocaleFacts> = ['githubStars', 'githubFollowers', 'githubPublicRepos'];
+
+// Labels that are \section titles in base-cv.tex, in template order.
+const SECTION_KEYS: Array<keyof CVLabels> = [
+  'summary', 'skills', 'experience', 'projects', 'research', 'education', 'languagesAndCertifications'
+];
+
+const cache = new Map<string, CVLocale>();
+
+export function parseLocaleCode(value: string): LocaleCode {
+  const normalized = value.trim().toLowerCase();
+  const code = LOCALE_CODES.find(candidate => candidate.toLowerCase() === normalized || candidate.split('-')[0] === normalized);
+  if (!code) {
+    throw new Error(`Unknown locale "${value}". Expected one of: ${LOCALE_CODES.join(', ')}`);
+  }
+  return code;
+}
+
+export function parseLocaleCodes(value: string): LocaleCode[] {
+  const codes = value.split(',').filter(part => part.trim()).map(parseLocaleCode);
+  return Array.from(new Set(codes));
+}
+
+export function loadLocale(code: LocaleCode = DEFAULT_LOCALE, localesDir = LOCALES_DIR): CVLocale {
+  const filePath = path.join(localesDir, `${code}.json`);
+  const cached = cache.get(filePath);
+  if (cached) return cached;
+
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Locale dictionary not found: ${filePath}`);
+  }
+
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  const missing = [
+    ...(typeof data.language === 'string' ? [] : ['language']),
+    ...LABEL_KEYS.filter(key => typeof data.labels?.[key] !== 'string').map(key => `labels.${key}`),
+    ...FACT_KEYS.filter(key => typeof data.facts?.[key] !== 'string').map(key => `facts.${key}`),
+    ...(Array.isArray(data.months) && data.months.length === 12 ? [] : ['months (12 names)'])
+  ];
+  if (missing.length > 0) {
+    throw new Error(`Locale dictionary ${filePath} is missing: ${missing.join(', ')}`);
+  }
+
+  const locale: CVLocale = { code, language: data.language, labels: data.labels, months: data.months, facts: data.facts };
+  cache.set(filePath, locale);
+  return locale;
+}
+
+export function formatDate(value: string | undefined, locale: CVLocale): string {
+  if (!value) return '';
+  if (isOngoingDate(value)) return locale.labels.present;
+
+  const date = parseProfileDate(value);
+  if (!date) return value.trim();
+  return date.month ? `${locale.months[date.month - 1]} ${date.year}` : String(date.year);
+}
+
+export function formatFact(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? String(values[key]) : match));
+}
+
+// Matches facts produced from `key` in any locale, so a collector can replace its own facts on re-runs.
+export function generatedFactPattern(key: keyof LocaleFacts, localesDir = LOCALES_DIR): RegExp {
+  const alternatives = LOCALE_CODES.map(code => loadLocale(code, localesDir).facts[key])
+    .map(template => template.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\\\{count\\\}/g, '\\d+'));
+  return new RegExp(`^(?:${alternatives.join('|')})$`);
+}
+
+// Renames \section titles written in one locale (base-cv.tex ships in pt-BR) to another.
+export function localizeSectionTitles(tex: string, from: CVLocale, to: CVLocale): string {
+  if (from.code === to.code) return tex;
+
+  let localized = tex;
+  for (const key of SECTION_KEYS) {
+    const pattern = from.labels[key].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    localized = localized.replace(new RegExp(`(\\\\section\\*?\\s*\\{)${pattern}\\}`, 'g'), (_, prefix: string) => `${prefix}${to.labels[key]}}`);
+  }
+  return localized;
+}
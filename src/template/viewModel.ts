@@ -0,0 +1,307 @@
+import {
+  CertificationEntry,
+  EducationEntry,
+  ExperienceEntry,
+  LanguageActivity,
+  OpenSourceContribution,
+  ProfileData,
+  ProjectEntry,
+  ResearchEntry,
+  isAward
+} from '../profile';
+import { CVLabels, CVLocale, DEFAULT_LOCALE, formatDate, formatFact, loadLocale } from './locale';
+
+// Format-neutral view of a profile: plain strings only, escaping is left to each renderer.
+
+export interface ContactItem {
+  kind: 'location' | 'email' | 'phone' | 'linkedin' | 'github' | 'website' | 'other';
+  icon: string;
+  label: string;
+  url?: string;
+}
+
+export interface CVEntry {
+  key: string;
+  title: string;
+  subtitle: string;
+  location: string;
+  period: string;
+  url?: string;
+  urlLabel?: string;
+  description?: string;
+  technologies?: string;
+  bullets: string[];
+  // Anything to list under the heading: a description, bullets or technologies.
+  hasDetails: boolean;
+}
+
+export interface CVSkills {
+  programming_languages: string;
+  tools_and_technologies: string;
+  operating_systems: string;
+  areas_of_expertise: string;
+}
+
+export interface CVSkillGroup {
+  label: string;
+  items: string;
+}
+
+export interface CVViewModel {
+  locale: CVLocale['code'];
+  labels: CVLabels;
+  name: string;
+  contacts: ContactItem[];
+  summary: string;
+  skills: CVSkills;
+  skillGroups: CVSkillGroup[];
+  hasSkills: boolean;
+  experience: CVEntry[];
+  projects: CVEntry[];
+  contributions: CVEntry[];
+  research: CVEntry[];
+  education: CVEntry[];
+  languages: Array<{ name: string; proficiency: string }>;
+  certifications: Array<{ name: string; issuer: string; date: string }>;
+  // Certifications of type "award".
+  awards: Array<{ name: string; issuer: string; date: string }>;
+  memberships: Array<{ organization: string; role: string }>;
+  hasLanguagesOrCertifications: boolean;
+}
+
+// Pull request titles listed per contributed repository, largest changes first.
+const MAX_CONTRIBUTION_BULLETS = 3;
+
+const EMAIL_PATTERN = /^[\w.+-]+@[\w-]+(\.[\w-]+)+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]{8,}$/;
+
+function humanizeKey(key: string): string {
+  return key
+    .split(/[_-]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function normalizeUrl(url: string): string {
+  return /^[a-z][a-z0-9+.-]*:/i.test(url) ? url : `https://${url}`;
+}
+
+function stripProtocol(url: string): string {
+  return url.replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/+$/, '');
+}
+
+export function classifyContact(value: string): ContactItem {
+  const trimmed = value.trim();
+
+  if (EMAIL_PATTERN.test(trimmed)) {
+    return { kind: 'email', icon: 'envelope', label: trimmed, url: `mailto:${trimmed}` };
+  }
+
+  if (/linkedin\.com\//i.test(trimmed)) {
+    const url = normalizeUrl(trimmed);
+    const handle = stripProtocol(url).replace(/^[^/]*linkedin\.com\/in/i, '');
+    return { kind: 'linkedin', icon: 'linkedin', label: handle || stripProtocol(url), url };
+  }
+
+  if (/github\.com\//i.test(trimmed)) {
+    const url = normalizeUrl(trimmed);
+    const handle = stripProtocol(url).replace(/^github\.com/i, '');
+    return { kind: 'github', icon: 'github', label: handle || stripProtocol(url), url };
+  }
+
+  if (/^https?:\/\//i.test(trimmed)) {
+    return { kind: 'website', icon: 'globe', label: stripProtocol(trimmed), url: trimmed };
+  }
+
+  if (PHONE_PATTERN.test(trimmed)) {
+    return { kind: 'phone', icon: 'phone', label: trimmed, url: `tel:${trimmed.replace(/[^\d+]/g, '')}` };
+  }
+
+  return { kind: 'other', icon: 'info-circle', label: trimmed };
+}
+
+export function formatPeriod(start: string | undefined, end: string | undefined, locale: CVLocale): string {
+  const from = formatDate(start, locale);
+  const to = formatDate(end, locale);
+  if (from && to) return `${from} – ${to}`;
+  if (from) return `${from} – ${locale.labels.present}`;
+  return to;
+}
+
+function joinList(values: string[] | undefined): string {
+  return (values || []).filter(Boolean).join(', ');
+}
+
+function monthIndex(month: string): number {
+  const [year, value] = month.split('-').map(Number);
+  return year * 12 + value - 1;
+}
+
+// "TypeScript (3 years, current)" for languages with a commit timeline from the GitHub collector.
+function programmingLanguage(language: string, activity: LanguageActivity | undefined, locale: CVLocale): string {
+  if (!activity) return language;
+
+  const { labels } = locale;
+  const months = monthIndex(activity.last_used) - monthIndex(activity.first_used) + 1;
+  const years = Math.floor(months / 12);
+  const duration = months < 12
+    ? labels.experienceUnderAYear
+    : formatFact(years === 1 ? labels.experienceYear : labels.experienceYears, { count: years });
+  return `${language} (${activity.current ? `${duration}, ${labels.currentSkill}` : duration})`;
+}
+
+function experienceEntry(key: string, entry: ExperienceEntry, locale: CVLocale): Omit<CVEntry, 'hasDetails'> {
+  return {
+    key,
+    title: entry.title || humanizeKey(key),
+    subtitle: entry.company || '',
+    location: entry.location || '',
+    period: formatPeriod(entry.start_date, entry.end_date, locale),
+    technologies: joinList(entry.technologies),
+    bullets: [
+      ...(entry.description ? [entry.description] : []),
+      ...(entry.responsibilities || []),
+      ...(entry.achievements || [])
+    ]
+  };
+}
+
+function projectEntry(key: string, entry: ProjectEntry, locale: CVLocale): Omit<CVEntry, 'hasDetails'> {
+  // Technologies written by hand win over the language and the stack read from the repository's manifests.
+  const technologies = entry.technologies && entry.technologies.length > 0
+    ? entry.technologies
+    : Array.from(new Set([...(entry.language ? [entry.language] : []), ...(entry.details?.tech_stack || [])]));
+
+  return {
+    key,
+    title: entry.name || humanizeKey(key),
+    subtitle: '',
+    location: '',
+    period: formatPeriod(entry.start_date, entry.end_date, locale),
+    url: entry.url ? normalizeUrl(entry.url) : undefined,
+    urlLabel: entry.url ? stripProtocol(entry.url) : undefined,
+    description: entry.description || '',
+    technologies: joinList(technologies),
+    bullets: entry.details?.highlights || []
+  };
+}
+
+function contributionEntry(key: string, entry: OpenSourceContribution, locale: CVLocale): Omit<CVEntry, 'hasDetails'> {
+  const { labels } = locale;
+  const counts = [
+    ...(entry.pull_requests.length > 0 ? [`${labels.pullRequests}: ${entry.pull_requests.length}`] : []),
+    ...(entry.reviews > 0 ? [`${labels.reviews}: ${entry.reviews}`] : []),
+    ...(entry.additions + entry.deletions > 0 ? [`+${entry.additions}/-${entry.deletions} ${labels.linesChanged}`] : [])
+  ];
+  const largest = [...entry.pull_requests]
+    .sort((a, b) => (b.additions + b.deletions) - (a.additions + a.deletions))
+    .slice(0, MAX_CONTRIBUTION_BULLETS);
+
+  return {
+    key,
+    title: entry.repository || humanizeKey(key),
+    subtitle: '',
+    location: '',
+    period: entry.first_contribution === entry.last_contribution
+      ? formatDate(entry.first_contribution, locale)
+      : formatPeriod(entry.first_contribution, entry.last_contribution, locale),
+    url: entry.url ? normalizeUrl(entry.url) : undefined,
+    urlLabel: entry.url ? stripProtocol(entry.url) : undefined,
+    description: counts.join(' | '),
+    technologies: entry.language || '',
+    bullets: largest.map(pullRequest => pullRequest.title)
+  };
+}
+
+function researchEntry(key: string, entry: ResearchEntry, locale: CVLocale): Omit<CVEntry, 'hasDetails'> {
+  return {
+    key,
+    title: entry.title || humanizeKey(key),
+    subtitle: entry.institution || '',
+    location: entry.role || '',
+    period: formatPeriod(entry.start_date, entry.end_date, locale),
+    technologies: joinList(entry.topics),
+    bullets: entry.description ? [entry.description] : []
+  };
+}
+
+function educationEntry(key: string, entry: EducationEntry, locale: CVLocale): Omit<CVEntry, 'hasDetails'> {
+  const title = [entry.degree, entry.field].filter(Boolean).join(' — ');
+  return {
+    key,
+    title: title || humanizeKey(key),
+    subtitle: entry.institution || '',
+    location: entry.location || '',
+    period: formatPeriod(entry.start_date, entry.end_date, locale),
+    bullets: []
+  };
+}
+
+function withDetails(entry: Omit<CVEntry, 'hasDetails'>): CVEntry {
+  return { ...entry, hasDetails: Boolean(entry.description || entry.technologies || entry.bullets.length > 0) };
+}
+
+function certificationItem(entry: CertificationEntry, locale: CVLocale): { name: string; issuer: string; date: string } {
+  return { name: entry.name, issuer: entry.issuer || '', date: formatDate(entry.date, locale) };
+}
+
+function defaultSummary(profile: ProfileData): string {
+  if (profile.summary) return profile.summary;
+  return profile.facts.slice(0, 3).map(fact => fact.replace(/\.?$/, '.')).join(' ');
+}
+
+// Profile records keep the order of data/profile.json, so the same input always yields the same view.
+export function buildCVViewModel(profile: ProfileData, locale: CVLocale = loadLocale(DEFAULT_LOCALE)): CVViewModel {
+  const { labels } = locale;
+  const contacts: ContactItem[] = [];
+  if (profile.location) {
+    contacts.push({ kind: 'location', icon: 'map-marker-alt', label: profile.location });
+  }
+  contacts.push(...profile.contact.map(classifyContact));
+
+  const skills: CVSkills = {
+    programming_languages: joinList(profile.technical_skills?.programming_languages.map(language =>
+      programmingLanguage(language, profile.technical_skills?.language_activity?.[language], locale)
+    )),
+    tools_and_technologies: joinList(profile.technical_skills?.tools_and_technologies),
+    operating_systems: joinList(profile.technical_skills?.operating_systems),
+    areas_of_expertise: joinList(profile.technical_skills?.areas_of_expertise)
+  };
+
+  const skillGroups = [
+    { label: labels.programmingLanguages, items: skills.programming_languages },
+    { label: labels.toolsAndTechnologies, items: skills.tools_and_technologies },
+    { label: labels.areasOfExpertise, items: skills.areas_of_expertise },
+    { label: labels.operatingSystems, items: skills.operating_systems }
+  ].filter(group => group.items);
+
+  const languages = profile.languages.map(language => ({ name: language.name, proficiency: language.proficiency }));
+  const certifications = Object.values(profile.certifications).filter(entry => !isAward(entry)).map(entry => certificationItem(entry, locale));
+  const awards = Object.values(profile.certifications).filter(isAward).map(entry => certificationItem(entry, locale));
+  const memberships = Object.entries(profile.memberships || {}).map(([key, membership]) => ({
+    organization: membership.organization || humanizeKey(key),
+    role: membership.role || ''
+  }));
+
+  return {
+    locale: locale.code,
+    labels,
+    name: profile.name || '',
+    contacts,
+    summary: defaultSummary(profile),
+    skills,
+    skillGroups,
+    hasSkills: skillGroups.length > 0,
+    experience: Object.entries(profile.professional_experience).map(([key, entry]) => withDetails(experienceEntry(key, entry, locale))),
+    projects: Object.entries(profile.projects).map(([key, entry]) => withDetails(projectEntry(key, entry, locale))),
+    contributions: Object.entries(profile.open_source_contributions || {}).map(([key, entry]) => withDetails(contributionEntry(key, entry, locale))),
+    research: Object.entries(profile.academical_research).map(([key, entry]) => withDetails(researchEntry(key, entry, locale))),
+    education: Object.entries(profile.superior_education).map(([key, entry]) => withDetails(educationEntry(key, entry, locale))),
+    languages,
+    certifications,
+    awards,
+    memberships,
+    hasLanguagesOrCertifications: languages.length + certifications.length + memberships.length > 0
+  };
+}
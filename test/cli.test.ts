@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { run } from '../src/cli';
+import { createEmptyProfile } from '../src/profile';
+
+interface CliResult {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+// Runs the CLI in-process with stdout and stderr captured.
+async function cli(...args: string[]): Promise<CliResult> {
+  const writes = { stdout: process.stdout.write, stderr: process.stderr.write };
+  const output = { stdout: '', stderr: '' };
+  process.stdout.write = ((chunk: string | Uint8Array) => {
+    output.stdout += chunk.toString();
+    return true;
+  }) as typeof process.stdout.write;
+  process.stderr.write = ((chunk: string | Uint8Array) => {
+    output.stderr += chunk.toString();
+    return true;
+  }) as typeof process.stderr.write;
+
+  try {
+    return { code: await run(args), ...output };
+  } finally {
+    process.stdout.write = writes.stdout;
+    process.stderr.write = writes.stderr;
+  }
+}
+
+describe('autorriculum CLI', () => {
+  const env = { ...process.env };
+  let dir: string;
+  let profilePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'autorriculum-cli-'));
+    profilePath = path.join(dir, 'profile.json');
+    fs.writeFileSync(profilePath, JSON.stringify({ ...createEmptyProfile(), name: 'Jane Doe', summary: 'Builds APIs' }));
+    process.env.AUTORRICULUM_CONFIG = path.join(dir, 'missing.config.json');
+    delete process.env.LLM_PROVIDER;
+    delete process.env.LLM_API_KEY;
+    delete process.env.OPENAI_API_KEY;
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('usage mistakes exit with code 2 and show help', async () => {
+    const noCommand = await cli();
+    assert.equal(noCommand.code, 2);
+    assert.match(noCommand.stderr, /Usage: autorriculum <command>/);
+
+    assert.match((await cli('publish')).stderr, /Unknown command "publish"/);
+    for (const args of [['generate', '--color'], ['generate', '--mode', 'fancy'], ['generate', '-v', '-q'], ['validate', 'extra']]) {
+      const result = await cli(...args);
+      assert.equal(result.code, 2, args.join(' '));
+      assert.match(result.stderr, /Usage: autorriculum (generate|validate)/);
+    }
+  });
+
+  test('help for a command lists its options', async () => {
+    const result = await cli('help', 'generate');
+    assert.equal(result.code, 0);
+    assert.match(result.stdout, /-j, --job <file>/);
+  });
+
+  test('validate exits with code 3 for an invalid or unsafe profile', async () => {
+    assert.equal((await cli('validate', '-p', profilePath)).code, 0);
+
+    fs.writeFileSync(profilePath, JSON.stringify({ ...createEmptyProfile(), name: 42, summary: '\\input{/etc/passwd}' }));
+    const result = await cli('validate', '--profile', profilePath);
+    assert.equal(result.code, 3);
+    assert.match(result.stdout, /has 2 problem\(s\)/);
+    assert.match(result.stdout, /summary: LaTeX command \\input/);
+  });
+
+  test('preview prints the CV to stdout', async () => {
+    const result = await cli('preview', '-p', profilePath, '--format', 'md', '--locale', 'en');
+    assert.equal(result.code, 0);
+    assert.ok(result.stdout.startsWith('# Jane Doe\n'));
+    assert.equal((await cli('preview', '-p', profilePath, '--format', 'docx')).code, 2);
+  });
+
+  test('template documents need no LLM, but tailoring to a job does', async () => {
+    const out = path.join(dir, 'output');
+    const posting = path.join(dir, 'posting.md');
+    fs.writeFileSync(posting, '# Engineer\n## Requirements\n- Go');
+
+    const rendered = await cli('generate', '-p', profilePath, '-o', out, '--mode', 'template', '--formats', 'md', '--provider', 'openai', '-q');
+    assert.equal(rendered.code, 0);
+    assert.equal(fs.readdirSync(out).filter(file => file.endsWith('.md')).length, 1);
+
+    const tailored = await cli('generate', '-p', profilePath, '-o', out, '--mode', 'template', '--formats', 'md', '--provider', 'openai', '--job', posting);
+    assert.equal(tailored.code, 4);
+    assert.match(tailored.stderr, /OPENAI_API_KEY/);
+  });
+});
@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { checkTemplateConformance, extractPackages, extractSections } from '../src/latex/conformance';
+
+const TEMPLATE = [
+  '\\documentclass{article}',
+  '\\usepackage[utf8]{inputenc}',
+  '\\usepackage{hyperref,enumitem}',
+  '\\newcommand{\\resumeEntry}[4]{#1 #2 #3 #4}',
+  '\\begin{document}',
+  '\\section*{Resumo}',
+  '\\section*{Experiência Profissional}',
+  '\\end{document}'
+].join('\n');
+
+function document(body: string[], preamble: string[] = TEMPLATE.split('\n').slice(1, 4)): string {
+  return ['\\documentclass{article}', ...preamble, '\\begin{document}', ...body, '\\end{document}'].join('\n');
+}
+
+describe('checkTemplateConformance', () => {
+  test('a document with the template structure has no violations', () => {
+    const output = document([
+      '\\section*{Resumo}',
+      '% \\usepackage{fontspec} in a comment is ignored',
+      '\\section*{  Experiência   Profissional }',
+      '\\resumeEntry{Engineer}{ACME}{Remote}{2021 -- 2024}'
+    ]);
+
+    assert.deepEqual(checkTemplateConformance(output, TEMPLATE), []);
+  });
+
+  test('reports missing, extra and xelatex-only packages', () => {
+    const output = document(['\\section*{Resumo}', '\\section*{Experiência Profissional}'], [
+      '\\usepackage{hyperref}',
+      '\\usepackage{fontspec,tikz}',
+      '\\setmainfont{Arial}',
+      '\\newcommand{\\resumeEntry}[4]{}'
+    ]);
+
+    assert.deepEqual(checkTemplateConformance(output, TEMPLATE).map(violation => violation.message), [
+      'missing package "inputenc" used by the template',
+      'missing package "enumitem" used by the template',
+      'package "fontspec" is not allowed (requires xelatex/lualatex)',
+      'package "tikz" is not part of the template preamble',
+      'command \\setmainfont is not allowed with pdflatex'
+    ]);
+  });
+
+  test('reports sections that are missing, added or out of order', () => {
+    const reordered = checkTemplateConformance(document(['\\section*{Experiência Profissional}', '\\section*{Resumo}']), TEMPLATE);
+    assert.deepEqual(reordered.map(violation => violation.rule), ['section']);
+    assert.match(reordered[0].message, /Resumo → Experiência Profissional/);
+
+    const changed = checkTemplateConformance(document(['\\section*{Resumo}', '\\section*{Hobbies}']), TEMPLATE);
+    assert.deepEqual(changed.map(violation => violation.message), [
+      'section "Hobbies" is not in the template',
+      'section "Experiência Profissional" from the template is missing'
+    ]);
+  });
+
+  test('\\resumeEntry keeps its four arguments', () => {
+    const output = document([
+      '\\section*{Resumo}',
+      '\\section*{Experiência Profissional}',
+      '\\resumeEntry{Engineer}{ACME \\{Ltd\\}}{Remote}',
+      'text'
+    ]);
+
+    assert.deepEqual(checkTemplateConformance(output, TEMPLATE).map(violation => violation.message), [
+      '\\resumeEntry on line 8 has 3 argument(s), expected 4 ({title}{organization}{location}{period})'
+    ]);
+  });
+
+  test('something that is not a document is reported as such', () => {
+    const violations = checkTemplateConformance('Sure! Here is your CV.', TEMPLATE);
+    assert.equal(violations.filter(violation => violation.rule === 'document').length, 2);
+  });
+});
+
+describe('template structure', () => {
+  test('packages and sections are read outside comments', () => {
+    assert.deepEqual(extractPackages(TEMPLATE), ['inputenc', 'hyperref', 'enumitem']);
+    assert.deepEqual(extractSections('\\section{A}\n% \\section{B}\n\\section*{C 50\\%}'), ['A', 'C 50\\%']);
+  });
+});
@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { describe, test } from 'node:test';
+import { GraphQLRequest, fetchExternalContributions } from '../src/collectors';
+import { ProfileData, createEmptyProfile } from '../src/profile';
+import { buildCVViewModel, loadLocale, renderLatexCV } from '../src/template';
+
+const TEMPLATE_PATH = path.join(__dirname, '..', 'src', 'assets', 'templates', 'base-cv.template.tex');
+
+function repository(nameWithOwner: string, fields: Record<string, unknown> = {}) {
+  return {
+    nameWithOwner,
+    url: `https://github.com/${nameWithOwner}`,
+    description: null,
+    stargazerCount: 100,
+    isPrivate: false,
+    primaryLanguage: { name: 'Go' },
+    ...fields
+  };
+}
+
+function mergedPullRequest(title: string, repo: ReturnType<typeof repository>, mergedAt: string, additions: number) {
+  return { title, url: `${repo.url}/pull/${title.length}`, mergedAt, additions, deletions: 1, repository: repo };
+}
+
+// Serves one page per search query; merged pull requests come in two pages.
+function fakeSearch(): GraphQLRequest & { searches: string[] } {
+  const searches: string[] = [];
+  const kubernetes = repository('kubernetes/kubernetes', { description: 'Production-Grade Container Orchestration' });
+  const docs = repository('golang/go', { primaryLanguage: null });
+  const request = async <T>(query: string, variables: Record<string, unknown>): Promise<T> => {
+    searches.push(String(variables.query));
+    const page = (nodes: unknown[], endCursor: string | null = null) =>
+      ({ search: { pageInfo: { hasNextPage: endCursor !== null, endCursor }, nodes } }) as T;
+
+    if (query.includes('query ReviewedPullRequests')) {
+      return page([
+        { url: `${docs.url}/pull/9`, reviews: { nodes: [{ submittedAt: '2022-02-01T10:00:00Z' }] }, repository: docs },
+        { url: `${docs.url}/pull/10`, reviews: { nodes: [] }, repository: docs },
+        { url: 'https://github.com/acme/secret/pull/1', reviews: { nodes: [] }, repository: repository('acme/secret', { isPrivate: true }) }
+      ]);
+    }
+    if (!variables.cursor) {
+      return page([mergedPullRequest('Fix scheduler race', kubernetes, '2023-03-10T00:00:00Z', 40), {}], 'next');
+    }
+    return page([
+      mergedPullRequest('Add pod metrics', kubernetes, '2024-01-05T00:00:00Z', 400),
+      mergedPullRequest('Typo', kubernetes, '2023-07-01T00:00:00Z', 1),
+      mergedPullRequest('Clarify docs', docs, '2022-05-01T00:00:00Z', 5)
+    ]);
+  };
+  return Object.assign(request, { searches });
+}
+
+describe('fetchExternalContributions', () => {
+  test('groups merged pull requests and reviews by repository, most merged work first', async () => {
+    const request = fakeSearch();
+    const contributions = await fetchExternalContributions(request, 'jane');
+
+    assert.deepEqual(request.searches, [
+      'type:pr is:merged is:public author:jane -user:jane',
+      'type:pr is:merged is:public author:jane -user:jane',
+      'type:pr is:public reviewed-by:jane -author:jane -user:jane'
+    ]);
+    assert.deepEqual(Object.keys(contributions), ['kubernetes_kubernetes', 'golang_go']);
+
+    const kubernetes = contributions.kubernetes_kubernetes;
+    assert.deepEqual(kubernetes.pull_requests.map(pullRequest => pullRequest.merged_at), ['2024-01-05', '2023-07-01', '2023-03-10']);
+    assert.equal(kubernetes.description, 'Production-Grade Container Orchestration');
+    assert.equal(kubernetes.language, 'Go');
+    assert.deepEqual([kubernetes.additions, kubernetes.deletions, kubernetes.reviews], [441, 3, 0]);
+
+    const go = contributions.golang_go;
+    assert.equal(go.language, undefined);
+    assert.equal(go.reviews, 2);
+    assert.deepEqual([go.first_contribution, go.last_contribution], ['2022-02-01', '2022-05-01']);
+  });
+});
+
+describe('contribution entries', () => {
+  const profile: ProfileData = {
+    ...createEmptyProfile(),
+    name: 'Jane',
+    open_source_contributions: {
+      kubernetes_kubernetes: {
+        repository: 'kubernetes/kubernetes',
+        url: 'https://github.com/kubernetes/kubernetes',
+        language: 'Go',
+        pull_requests: [
+          { title: 'Typo', url: 'https://github.com/kubernetes/kubernetes/pull/1', merged_at: '2023-07-01', additions: 1, deletions: 1 },
+          { title: 'Add pod metrics', url: 'https://github.com/kubernetes/kubernetes/pull/2', merged_at: '2024-01-05', additions: 400, deletions: 1 }
+        ],
+        reviews: 3,
+        additions: 401,
+        deletions: 2,
+        first_contribution: '2023-07-01',
+        last_contribution: '2024-01-05'
+      },
+      golang_go: {
+        repository: 'golang/go',
+        url: 'https://github.com/golang/go',
+        pull_requests: [],
+        reviews: 1,
+        additions: 0,
+        deletions: 0,
+        first_contribution: '2022-02-01',
+        last_contribution: '2022-02-01'
+      }
+    }
+  };
+
+  test('show counts, the period and the largest pull requests', () => {
+    const en = loadLocale('en');
+    const [kubernetes, go] = buildCVViewModel(profile, en).contributions;
+
+    assert.equal(kubernetes.description, `${en.labels.pullRequests}: 2 | ${en.labels.reviews}: 3 | +401/-2 ${en.labels.linesChanged}`);
+    assert.deepEqual(kubernetes.bullets, ['Add pod metrics', 'Typo']);
+    assert.equal(kubernetes.technologies, 'Go');
+    assert.equal(kubernetes.period, 'Jul 2023 – Jan 2024');
+    assert.equal(go.period, 'Feb 2022');
+    assert.equal(go.description, `${en.labels.reviews}: 1`);
+  });
+
+  test('are rendered in their own LaTeX section', () => {
+    const en = loadLocale('en');
+    const latex = renderLatexCV(TEMPLATE_PATH, profile, { locale: en });
+
+    assert.ok(latex.includes(`\\section{${en.labels.contributions}}`));
+    assert.ok(latex.includes('{kubernetes/kubernetes}'));
+    assert.ok(latex.includes('\\item Add pod metrics'));
+    assert.equal(renderLatexCV(TEMPLATE_PATH, createEmptyProfile(), { locale: en }).includes(en.labels.contributions), false);
+  });
+});
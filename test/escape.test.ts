@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  UnsafeProfileValueError,
+  assertLatexSafeProfile,
+  escapeLatex,
+  escapeLatexUrl,
+  findDangerousCommand,
+  scanUnescapedSpecials
+} from '../src/latex/escape';
+import { checkTemplateConformance } from '../src/latex/conformance';
+
+describe('escapeLatex', () => {
+  test('escapes every special character and keeps accents', () => {
+    assert.equal(escapeLatex('R&D em C# ~ 100% {a_b} $5 ^ \\'),
+      'R\\&D em C\\# \\textasciitilde{} 100\\% \\{a\\_b\\} \\$5 \\textasciicircum{} \\textbackslash{}');
+    assert.equal(escapeLatex('Programação Concorrente'), 'Programação Concorrente');
+  });
+
+  test('drops emoji, control and zero-width characters and blank lines', () => {
+    assert.equal(escapeLatex('🚀 Fast\u200b\u0007 APIs\u00a0now\r\n\r\nDone'), ' Fast APIs now\nDone');
+  });
+});
+
+describe('escapeLatexUrl', () => {
+  test('escapes what hyperref does not read verbatim', () => {
+    assert.equal(escapeLatexUrl(' https://example.com/a b?q=50%#top '), 'https://example.com/a\\%20b?q=50\\%\\#top');
+    assert.equal(escapeLatexUrl('mailto:jane@example.com'), 'mailto:jane@example.com');
+  });
+
+  test('refuses schemes other than http(s), mailto and tel', () => {
+    assert.throws(() => escapeLatexUrl('javascript:alert(1)'), UnsafeProfileValueError);
+    assert.throws(() => escapeLatexUrl('file:///etc/passwd'), /unsupported URL scheme/);
+  });
+});
+
+describe('assertLatexSafeProfile', () => {
+  test('reports commands that read files or redefine input, with their path', () => {
+    assert.throws(
+      () => assertLatexSafeProfile({ name: 'Jane', projects: { cv: { technologies: ['Go', '\\input{/etc/passwd}'] } } }),
+      (error: unknown) => {
+        assert.ok(error instanceof UnsafeProfileValueError);
+        assert.deepEqual(error.values.map(item => [item.path, item.reason]), [['projects.cv.technologies[1]', 'LaTeX command \\input']]);
+        return true;
+      }
+    );
+  });
+
+  test('catches caret notation but lets harmless backslashes through', () => {
+    assert.equal(findDangerousCommand('^^5cinput{secret}'), '^^5c');
+    assert.equal(findDangerousCommand('\\immediate\\write18{rm -rf /}'), '\\immediate');
+    assert.equal(findDangerousCommand('C:\\Users\\jane and \\d+ regexes'), null);
+    assert.equal(findDangerousCommand('\\inputs are validated'), null);
+    assert.doesNotThrow(() => assertLatexSafeProfile({ summary: 'Wrote C:\\tools\\build.bat', years: 5 }));
+  });
+});
+
+describe('scanUnescapedSpecials', () => {
+  test('reports specials left in the body outside math, URLs, comments and tables', () => {
+    const tex = [
+      '\\documentclass{article}',
+      '\\newcommand{\\x}[1]{#1}',
+      '\\begin{document}',
+      'R&D and C\\# with $x_1$ % a_comment',
+      '\\href{https://example.com/#a_b}{site}',
+      'Reduced costs by 30% this year',
+      '\\begin{tabular}{ll}',
+      'a & b \\\\',
+      '\\end{tabular}',
+      'snake_case',
+      '\\end{document}'
+    ].join('\n');
+
+    assert.deepEqual(scanUnescapedSpecials(tex).map(special => [special.line, special.character]), [
+      [4, '&'],
+      [6, '%'],
+      [10, '_']
+    ]);
+  });
+
+  test('conformance reports them as unescaped violations', () => {
+    const tex = '\\documentclass{article}\n\\begin{document}\nC# dev\n\\end{document}';
+    const violations = checkTemplateConformance(tex, tex);
+    assert.deepEqual(violations.map(violation => violation.message), ['unescaped "#" on line 3: C# dev']);
+  });
+});
@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { MockProvider, createEmptyProfile, generate } from '../src';
+
+describe('generate', () => {
+  const profile = { ...createEmptyProfile(), name: 'Jane Doe', summary: 'Builds APIs' };
+  let outDir: string;
+
+  beforeEach(() => {
+    outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'autorriculum-generate-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outDir, { recursive: true, force: true });
+  });
+
+  test('renders every requested format and locale from a profile object', async () => {
+    const result = await generate({ profile, outDir, mode: 'template', formats: ['tex', 'md'], locales: ['en', 'es'] });
+
+    assert.equal(result.mode, 'template');
+    assert.equal(result.llm, undefined);
+    assert.deepEqual(result.files.map(file => [file.locale, file.format]).sort(), [['en', 'md'], ['en', 'tex'], ['es', 'md'], ['es', 'tex']]);
+    for (const file of result.files) {
+      assert.equal(path.dirname(file.path), outDir);
+      assert.ok(path.basename(file.path).startsWith(`cv-${result.timestamp}-${file.locale}.`));
+      assert.ok(fs.existsSync(file.path));
+    }
+  });
+
+  test('a provider instance is used as is and its usage reported', async () => {
+    const provider = new MockProvider({ responses: ['Polished summary'] });
+    const result = await generate({ profile, outDir, provider, mode: 'template', formats: ['txt'], polish: true });
+
+    assert.match(fs.readFileSync(result.files[0].path, 'utf-8'), /Polished summary/);
+    assert.equal(result.llm?.label, 'mock/mock');
+    assert.equal(result.llm?.usage.requests, 1);
+  });
+
+  test('tailoring writes its report and rewrites the summary', async () => {
+    const job = path.join(outDir, 'posting.md');
+    fs.writeFileSync(job, '# Engineer\n## Requirements\n- Go');
+    const provider = new MockProvider({ responses: ['Go engineer'] });
+
+    const result = await generate({ profile, outDir, provider, mode: 'template', formats: ['md'], job });
+
+    assert.ok(result.tailoringReportPath && fs.existsSync(result.tailoringReportPath));
+    assert.match(fs.readFileSync(result.files[0].path, 'utf-8'), /Go engineer/);
+  });
+});
@@ -0,0 +1,148 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { GitHubDataCollector, GraphQLRequest, fetchGraphQLSnapshot, summarizeContributionDays } from '../src/collectors';
+import { loadProfile } from '../src/profile';
+
+function repositoryNode(name: string, fields: Record<string, unknown> = {}) {
+  return {
+    name,
+    nameWithOwner: `jane/${name}`,
+    description: `${name} does useful things`,
+    url: `https://github.com/jane/${name}`,
+    isFork: false,
+    isArchived: false,
+    stargazerCount: 0,
+    forkCount: 0,
+    pushedAt: '2024-05-01T00:00:00Z',
+    primaryLanguage: { name: 'Go' },
+    repositoryTopics: { nodes: [] },
+    languages: { edges: [{ size: 1000, node: { name: 'Go' } }] },
+    ...fields
+  };
+}
+
+function day(date: string, contributionCount: number) {
+  return { date, contributionCount };
+}
+
+// Answers the profile query, then one page of repositories per call.
+function fakeGraphQL(pages: unknown[][]): GraphQLRequest & { queries: Array<Record<string, unknown>> } {
+  const queries: Array<Record<string, unknown>> = [];
+  const request = async <T>(query: string, variables: Record<string, unknown>): Promise<T> => {
+    queries.push(variables);
+    if (query.includes('query Profile')) {
+      return {
+        user: {
+          name: 'Jane Doe',
+          websiteUrl: 'https://jane.dev',
+          createdAt: '2015-01-01T00:00:00Z',
+          followers: { totalCount: 12 },
+          following: { totalCount: 3 },
+          repositories: { totalCount: 3 },
+          pinnedItems: { nodes: [{}, repositoryNode('tool', { nameWithOwner: 'acme/tool', stargazerCount: 40 })] },
+          organizations: { nodes: [{ login: 'acme', name: 'ACME Inc.' }, { login: 'golang', name: null }] },
+          contributionsCollection: {
+            startedAt: '2023-06-01T00:00:00Z',
+            endedAt: '2024-06-01T00:00:00Z',
+            totalCommitContributions: 120,
+            totalPullRequestContributions: 15,
+            totalPullRequestReviewContributions: 8,
+            totalIssueContributions: 4,
+            contributionCalendar: {
+              totalContributions: 147,
+              weeks: [{ contributionDays: [day('2024-05-30', 2), day('2024-05-31', 1), day('2024-06-01', 0)] }]
+            }
+          }
+        }
+      } as T;
+    }
+    const page = pages[queries.length - 2];
+    const last = queries.length - 1 === pages.length;
+    return {
+      user: { repositories: { pageInfo: { hasNextPage: !last, endCursor: last ? null : `page${queries.length}` }, nodes: page } }
+    } as T;
+  };
+  return Object.assign(request, { queries });
+}
+
+describe('summarizeContributionDays', () => {
+  test('counts active days and streaks in date order', () => {
+    const days = [day('2024-01-05', 1), day('2024-01-01', 3), day('2024-01-02', 1), day('2024-01-03', 0), day('2024-01-04', 2)];
+    assert.deepEqual(summarizeContributionDays(days), { active_days: 4, longest_streak: 2, current_streak: 2 });
+  });
+
+  test('a quiet today does not end the current streak, a quiet yesterday does', () => {
+    assert.equal(summarizeContributionDays([day('2024-01-01', 1), day('2024-01-02', 1), day('2024-01-03', 0)]).current_streak, 2);
+    assert.equal(summarizeContributionDays([day('2024-01-01', 1), day('2024-01-02', 0), day('2024-01-03', 0)]).current_streak, 0);
+  });
+});
+
+describe('fetchGraphQLSnapshot', () => {
+  test('pages through repositories and keeps pinned repositories only', async () => {
+    const request = fakeGraphQL([[repositoryNode('api')], [repositoryNode('cli', { languages: { edges: [] } })]]);
+    const snapshot = await fetchGraphQLSnapshot(request, 'jane');
+
+    assert.deepEqual(request.queries.map(variables => variables.cursor), [undefined, null, 'page2']);
+    assert.deepEqual(snapshot.repos.map(repo => [repo.name, repo.languages]), [['api', { Go: 1000 }], ['cli', {}]]);
+    assert.deepEqual(snapshot.pinned.map(repo => repo.fullName), ['acme/tool']);
+    assert.deepEqual(snapshot.organizations, ['ACME Inc.', 'golang']);
+    assert.deepEqual(snapshot.contributions, {
+      total: 147,
+      from: '2023-06-01T00:00:00Z',
+      to: '2024-06-01T00:00:00Z',
+      active_days: 2,
+      longest_streak: 2,
+      current_streak: 2,
+      commits: 120,
+      pull_requests: 15,
+      reviews: 8,
+      issues: 4
+    });
+  });
+
+  test('an unknown user is an error', async () => {
+    await assert.rejects(fetchGraphQLSnapshot(async <T>() => ({ user: null }) as T, 'ghost'), /GitHub user "ghost" not found/);
+  });
+});
+
+describe('GitHubDataCollector with the GraphQL API', () => {
+  const realFetch = globalThis.fetch;
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'autorriculum-github-'));
+  });
+
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('pinned repositories lead the projects and contributions are stored', async () => {
+    const request = fakeGraphQL([[repositoryNode('api', { stargazerCount: 2 })]]);
+    globalThis.fetch = async (_url, init) => {
+      const { query, variables } = JSON.parse(String(init?.body));
+      return Response.json({ data: await request(query, variables) });
+    };
+    const profilePath = path.join(dir, 'profile.json');
+
+    await new GitHubDataCollector({ token: 't', username: 'jane', api: 'graphql', profilePath }).collectAndUpdateProfile();
+    const profile = loadProfile(profilePath);
+
+    assert.deepEqual(profile.github_stats?.notable_repos.map(repo => [repo.name, repo.pinned]), [['tool', true], ['api', undefined]]);
+    assert.deepEqual(Object.keys(profile.projects), ['tool', 'api']);
+    assert.deepEqual(profile.github_stats?.organizations, ['ACME Inc.', 'golang']);
+    assert.equal(profile.github_stats?.contributions?.pull_requests, 15);
+    assert.deepEqual(profile.contact, ['https://github.com/jane', 'https://jane.dev']);
+  });
+
+  test('GraphQL errors are reported', async () => {
+    globalThis.fetch = async () => Response.json({ errors: [{ message: 'Bad credentials' }] });
+    const collector = new GitHubDataCollector({ token: 't', username: 'jane', api: 'graphql', profilePath: path.join(dir, 'profile.json') });
+
+    await assert.rejects(collector.collectAndUpdateProfile(), /GitHub GraphQL API error: Bad credentials/);
+  });
+});
@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { GitHubApiError, GitHubClient, GitHubRateLimitError, MissingFixtureError, defaultGraphQLUrl } from '../src/collectors';
+
+interface SentRequest {
+  url: string;
+  headers: Record<string, string>;
+}
+
+// Replaces fetch with a queue of responses and records what was sent.
+function stubFetch(responses: Array<() => Response>): SentRequest[] {
+  const sent: SentRequest[] = [];
+  globalThis.fetch = async (url, init) => {
+    sent.push({ url: String(url), headers: { ...(init?.headers as Record<string, string>) } });
+    const next = responses.shift();
+    if (!next) throw new Error(`Unexpected request to ${url}`);
+    return next();
+  };
+  return sent;
+}
+
+describe('GitHubClient', () => {
+  const realFetch = globalThis.fetch;
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'autorriculum-client-'));
+  });
+
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('GraphQL lives next to the REST API, also on GitHub Enterprise', () => {
+    assert.equal(defaultGraphQLUrl('https://api.github.com'), 'https://api.github.com/graphql');
+    assert.equal(defaultGraphQLUrl('https://git.acme.com/api/v3/'), 'https://git.acme.com/api/graphql');
+  });
+
+  test('cached responses are revalidated with their ETag', async () => {
+    const sent = stubFetch([
+      () => Response.json({ login: 'jane' }, { headers: { etag: '"v1"' } }),
+      () => new Response(null, { status: 304 })
+    ]);
+    const client = new GitHubClient({ token: 'secret', cacheDir: path.join(dir, 'cache') });
+
+    assert.deepEqual(await client.request('/users/jane'), { login: 'jane' });
+    assert.deepEqual(await client.request('/users/jane'), { login: 'jane' });
+    assert.equal(sent[0].headers['If-None-Match'], undefined);
+    assert.equal(sent[1].headers['If-None-Match'], '"v1"');
+    assert.equal(sent[1].headers.Authorization, 'Bearer secret');
+  });
+
+  test('server errors are retried and permission errors are not', async () => {
+    stubFetch([() => new Response('oops', { status: 502, statusText: 'Bad Gateway' }), () => Response.json([])]);
+    assert.deepEqual(await new GitHubClient({ token: 't', maxRetries: 1 }).request('/users/jane/repos'), []);
+
+    const sent = stubFetch([() => new Response('{"message":"Resource not accessible"}', { status: 403, statusText: 'Forbidden' })]);
+    await assert.rejects(new GitHubClient({ token: 't' }).request('/orgs/acme'), (error: unknown) =>
+      error instanceof GitHubApiError && !(error instanceof GitHubRateLimitError) && error.status === 403);
+    assert.equal(sent.length, 1);
+  });
+
+  test('a rate limit that resets too late fails fast with the reset time', async () => {
+    const reset = Math.floor(Date.now() / 1000) + 3600;
+    stubFetch([() => new Response('', { status: 403, headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(reset) } })]);
+
+    await assert.rejects(new GitHubClient({ token: 't' }).request('/users/jane'), (error: unknown) =>
+      error instanceof GitHubRateLimitError && error.resetAt?.getTime() === reset * 1000);
+  });
+
+  test('recorded responses replay without network access or token', async () => {
+    const fixtures = path.join(dir, 'fixtures');
+    stubFetch([
+      () => Response.json({ login: 'jane' }),
+      () => new Response('', { status: 404, statusText: 'Not Found' }),
+      () => Response.json({ data: { user: { name: 'Jane' } } })
+    ]);
+    const recorder = new GitHubClient({ token: 'secret', fixtures: { mode: 'record', dir: fixtures } });
+    await recorder.request('/users/jane');
+    await assert.rejects(recorder.request('/repos/jane/api/readme'), GitHubApiError);
+    await recorder.graphql('query { viewer { login } }', { login: 'jane' });
+
+    const files = fs.readdirSync(fixtures);
+    assert.equal(files.length, 3);
+    assert.ok(files.every(file => !fs.readFileSync(path.join(fixtures, file), 'utf-8').includes('secret')));
+
+    stubFetch([]);
+    const replayer = new GitHubClient({ token: '', fixtures: { mode: 'replay', dir: fixtures } });
+    assert.deepEqual(await replayer.request('/users/jane'), { login: 'jane' });
+    assert.deepEqual(await replayer.graphql('query { viewer { login } }', { login: 'jane' }), { user: { name: 'Jane' } });
+    await assert.rejects(replayer.request('/repos/jane/api/readme'), (error: unknown) =>
+      error instanceof GitHubApiError && error.status === 404);
+    await assert.rejects(replayer.request('/users/john'), MissingFixtureError);
+  });
+});
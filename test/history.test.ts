@@ -0,0 +1,142 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import {
+  HistoryConfigError,
+  HistoryError,
+  ProfileData,
+  createEmptyProfile,
+  diffProfiles,
+  formatProfileDiff,
+  labelSnapshot,
+  listSnapshots,
+  loadProfile,
+  loadSnapshot,
+  pruneHistory,
+  recordSnapshot,
+  resolveHistoryRetention,
+  restoreSnapshot,
+  saveProfile,
+  saveProfileVersion
+} from '../src/profile';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = new Date('2025-01-01T00:00:00Z');
+
+function day(n: number): Date {
+  return new Date(START.getTime() + n * DAY_MS);
+}
+
+function profile(headline: string): ProfileData {
+  return { ...createEmptyProfile(), headline };
+}
+
+describe('profile history', () => {
+  let dir: string;
+  let profilePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'autorriculum-history-'));
+    profilePath = path.join(dir, 'profile.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // One snapshot per day, v1 on day 0.
+  function record(count: number, retention = { keep: 100 }): void {
+    for (let n = 0; n < count; n++) {
+      saveProfile(profilePath, profile(`v${n + 1}`));
+      recordSnapshot(profilePath, { source: 'manual', retention, now: day(n) });
+    }
+  }
+
+  const remaining = () => listSnapshots(profilePath).map(snapshot => snapshot.version);
+
+  describe('retention', () => {
+    test('keeps the newest `keep` snapshots', () => {
+      record(5, { keep: 3 });
+      assert.deepEqual(remaining(), [3, 4, 5]);
+    });
+
+    test('keeps labelled snapshots outside the count', () => {
+      record(4);
+      labelSnapshot(profilePath, 'v1', 'before-move');
+
+      assert.deepEqual(pruneHistory(profilePath, { keep: 1 }, day(4)), [2, 3]);
+      assert.deepEqual(remaining(), [1, 4]);
+    });
+
+    test('drops snapshots older than maxAgeDays but never the latest', () => {
+      record(3);
+
+      assert.deepEqual(pruneHistory(profilePath, { maxAgeDays: 10 }, day(10.5)), [1]);
+      assert.deepEqual(pruneHistory(profilePath, { maxAgeDays: 1 }, day(30)), [2]);
+      assert.deepEqual(remaining(), [3]);
+    });
+
+    test('rejects settings that would keep nothing', () => {
+      assert.throws(() => resolveHistoryRetention({ keep: 0 }), HistoryConfigError);
+      assert.throws(() => resolveHistoryRetention({ maxAgeDays: -1 }), HistoryConfigError);
+      assert.deepEqual(resolveHistoryRetention({}), { keep: 20, maxAgeDays: null });
+    });
+  });
+
+  test('labels cannot look like versions', () => {
+    record(1);
+    assert.throws(() => labelSnapshot(profilePath, 'v1', 'latest'), HistoryError);
+    assert.throws(() => labelSnapshot(profilePath, 'v1', 'v2'), HistoryError);
+  });
+
+  test('snapshots are found by version, label or "latest"', () => {
+    record(3);
+    labelSnapshot(profilePath, '2', 'before-move');
+
+    assert.equal(loadSnapshot(profilePath, 'v1').profile.headline, 'v1');
+    assert.equal(loadSnapshot(profilePath, 'before-move').version, 2);
+    assert.equal(loadSnapshot(profilePath, 'latest').version, 3);
+    assert.throws(() => loadSnapshot(profilePath, '9'), /No snapshot v9/);
+    assert.throws(() => loadSnapshot(profilePath, 'after-move'), /No snapshot labelled "after-move"/);
+  });
+
+  test('hand edits since the latest snapshot are kept as a manual version first', () => {
+    saveProfileVersion(profilePath, profile('From GitHub'), undefined, { source: 'github', now: day(0) });
+    saveProfile(profilePath, profile('Edited by hand'));
+    saveProfileVersion(profilePath, profile('From LinkedIn'), undefined, { source: 'linkedin_pdf', now: day(1) });
+
+    assert.deepEqual(listSnapshots(profilePath).map(snapshot => [snapshot.version, snapshot.source]), [
+      [1, 'github'],
+      [2, 'manual'],
+      [3, 'linkedin_pdf']
+    ]);
+  });
+
+  test('a restore is recorded as a new version', () => {
+    record(2);
+    const restored = restoreSnapshot(profilePath, '1', { now: day(2) });
+
+    assert.equal(restored.version, 3);
+    assert.equal(restored.detail, 'restored v1');
+    assert.equal(loadProfile(profilePath).headline, 'v1');
+  });
+});
+
+describe('diffProfiles', () => {
+  test('lists field changes, with collected statistics value by value', () => {
+    const before = { ...profile('Engineer'), facts: ['Speaks at meetups'], github_stats: { total_stars: 10 } as ProfileData['github_stats'] };
+    const after = { ...profile('Staff Engineer'), location: 'São Paulo', github_stats: { total_stars: 12 } as ProfileData['github_stats'] };
+    const changes = diffProfiles(before, after);
+
+    assert.deepEqual(changes, [
+      { kind: 'update', path: 'headline', before: 'Engineer', after: 'Staff Engineer' },
+      { kind: 'remove', path: 'facts[speaks at meetups]', before: 'Speaks at meetups' },
+      { kind: 'update', path: 'github_stats.total_stars', before: 10, after: 12 },
+      { kind: 'add', path: 'location', after: 'São Paulo' }
+    ]);
+    assert.ok(formatProfileDiff(changes, 'v1', 'current').startsWith('v1 → current: 1 added, 2 changed, 1 removed\n\nfacts:\n'));
+    assert.equal(formatProfileDiff([], 'v1', 'v2'), 'No differences between v1 and v2');
+  });
+});
@@ -0,0 +1,156 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  ProfileData,
+  ProfileValidationError,
+  createEmptyProfile,
+  formatUnmappedReport,
+  jsonResumeToProfile,
+  parseJsonResume,
+  profileToJsonResume,
+  toIsoDate
+} from '../src/profile';
+
+function profile(fields: Partial<ProfileData> = {}): ProfileData {
+  return { ...createEmptyProfile(), ...fields };
+}
+
+describe('toIsoDate', () => {
+  test('reads free-text dates in English, Portuguese and Spanish', () => {
+    assert.deepEqual(
+      ['April 2024', 'abril de 2024', 'Sept. 2021', '03/2021', '2020-01', 'Atual', ''].map(value => toIsoDate(value).value),
+      ['2024-04', '2024-04', '2021-09', '2021-03', '2020-01', undefined, undefined]
+    );
+    assert.equal(toIsoDate('13/2021').ok, false);
+    assert.equal(toIsoDate('summer 2019').ok, false);
+  });
+});
+
+describe('profileToJsonResume', () => {
+  test('maps contacts, experience and skills and reports what has no counterpart', () => {
+    const { data, unmapped } = profileToJsonResume(profile({
+      name: 'Jane Doe',
+      location: 'São Paulo, SP',
+      contact: ['jane@example.com', 'linkedin.com/in/jane', '+55 11 99999-0000', 'Discord: jane#1234'],
+      facts: ['Speaks at meetups'],
+      professional_experience: {
+        acme: {
+          title: 'Engineer',
+          company: 'ACME',
+          start_date: 'Jan 2021',
+          end_date: 'someday',
+          responsibilities: ['Ran the API'],
+          achievements: ['Cut costs'],
+          technologies: ['Go']
+        }
+      },
+      technical_skills: { programming_languages: ['Go'], tools_and_technologies: [], operating_systems: [], areas_of_expertise: [] }
+    }));
+
+    assert.deepEqual(data.basics, {
+      name: 'Jane Doe',
+      email: 'jane@example.com',
+      phone: '+55 11 99999-0000',
+      location: { city: 'São Paulo', region: 'SP' },
+      profiles: [{ network: 'LinkedIn', username: 'jane', url: 'https://linkedin.com/in/jane' }]
+    });
+    assert.deepEqual(data.work, [{ name: 'ACME', position: 'Engineer', startDate: '2021-01', highlights: ['Ran the API', 'Cut costs'] }]);
+    assert.deepEqual(data.skills, [{ name: 'Programming Languages', keywords: ['Go'] }]);
+    assert.deepEqual(unmapped.map(field => field.path), [
+      'facts[0]',
+      'professional_experience.acme.technologies',
+      'professional_experience.acme.end_date',
+      'contact[3]'
+    ]);
+  });
+});
+
+describe('jsonResumeToProfile', () => {
+  test('builds unique keys, groups skills and keeps unknown fields in the report', () => {
+    const { data, unmapped } = jsonResumeToProfile({
+      basics: { name: 'Jane', email: 'jane@example.com', profiles: [{ network: 'GitHub', username: 'jane' }], image: 'me.png' },
+      work: [{ name: 'ACME', position: 'Engineer' }, { name: 'ACME', position: 'Lead', startDate: '2023-02' }],
+      skills: [{ name: 'Ferramentas', keywords: ['Docker'] }, { name: 'Kubernetes', level: 'Expert' }],
+      interests: [{ name: 'Chess' }]
+    } as Parameters<typeof jsonResumeToProfile>[0]);
+
+    assert.deepEqual(Object.keys(data.professional_experience), ['acme', 'acme_2']);
+    assert.equal(data.professional_experience.acme_2.start_date, '2023-02');
+    assert.deepEqual(data.technical_skills?.tools_and_technologies, ['Docker', 'Kubernetes']);
+    assert.deepEqual(data.contact, ['jane@example.com']);
+    assert.deepEqual(unmapped.map(field => field.path), ['interests', 'basics.image', 'basics.profiles[0]', 'skills[1].level']);
+  });
+
+  test('a profile survives the round trip', () => {
+    const original = profile({
+      name: 'Jane',
+      projects: { cv: { name: 'cv', url: 'https://example.com', technologies: ['TypeScript'], start_date: '2024-01' } },
+      languages: [{ name: 'Português', proficiency: 'Nativo' }]
+    });
+
+    const { data } = jsonResumeToProfile(profileToJsonResume(original).data);
+    assert.deepEqual(data.projects, original.projects);
+    assert.deepEqual(data.languages, original.languages);
+  });
+});
+
+describe('parseJsonResume', () => {
+  test('rejects documents that do not follow the schema', () => {
+    assert.throws(() => parseJsonResume({ work: 'ACME' }, 'resume.json'), ProfileValidationError);
+    assert.equal(formatUnmappedReport('Export', []), 'Export: every field was mapped.');
+  });
+});
+
+describe('JSON Resume conversion', () => {
+  const source = profile({
+    certifications: {
+      aws: { name: 'AWS Solutions Architect', issuer: 'Amazon', date: '2023-05' },
+      best_paper: { name: 'Best Paper Award', type: 'award', issuer: 'ACM', date: 'Jun 2022', description: 'For the paper on CV generation.' }
+    },
+    memberships: {
+      programaria: {
+        organization: 'Programaria',
+        role: 'Mentor',
+        since: 'Jan 2020',
+        end_date: 'Mar 2022',
+        cause: 'Education',
+        description: 'Mentoring women in tech.',
+        type: 'volunteering'
+      }
+    }
+  });
+
+  test('awards are exported apart from certificates', () => {
+    const { data, unmapped } = profileToJsonResume(source);
+
+    assert.deepEqual(data.certificates, [{ name: 'AWS Solutions Architect', issuer: 'Amazon', date: '2023-05' }]);
+    assert.deepEqual(data.awards, [{ title: 'Best Paper Award', awarder: 'ACM', date: '2022-06', summary: 'For the paper on CV generation.' }]);
+    assert.deepEqual(unmapped, []);
+  });
+
+  test('volunteering keeps its end date, and its cause leads the summary', () => {
+    const { data } = profileToJsonResume(source);
+
+    assert.deepEqual(data.volunteer, [{
+      organization: 'Programaria',
+      position: 'Mentor',
+      startDate: '2020-01',
+      endDate: '2022-03',
+      summary: 'Education — Mentoring women in tech.'
+    }]);
+  });
+
+  test('awards come back as certifications of type award', () => {
+    const { data, unmapped } = jsonResumeToProfile(profileToJsonResume(source).data);
+
+    assert.deepEqual(data.certifications.best_paper_award, {
+      name: 'Best Paper Award',
+      type: 'award',
+      issuer: 'ACM',
+      date: '2022-06',
+      description: 'For the paper on CV generation.'
+    });
+    assert.equal(data.memberships?.programaria.end_date, '2022-03');
+    assert.deepEqual(unmapped, []);
+  });
+});
@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { buildLanguageActivity, languageShares, monthOf } from '../src/collectors';
+import { createEmptyProfile, createEmptyTechnicalSkills } from '../src/profile';
+import { buildCVViewModel, loadLocale } from '../src/template';
+
+describe('languageShares', () => {
+  test('only main languages get credit, in proportion to their code', () => {
+    assert.deepEqual(languageShares({ TypeScript: 600, CSS: 350, Shell: 50 }, 'TypeScript'), { TypeScript: 600 / 950, CSS: 350 / 950 });
+    assert.deepEqual(languageShares({}, 'Python'), { Python: 1 });
+    assert.deepEqual(languageShares({}, null), {});
+  });
+});
+
+describe('buildLanguageActivity', () => {
+  test('spreads commit months over languages, most recently active first', () => {
+    const now = new Date('2024-06-15T00:00:00Z');
+    assert.equal(monthOf(now), '2024-06');
+
+    const activity = buildLanguageActivity([
+      { repository: 'jane/api', primaryLanguage: 'Go', languages: { Go: 900, Makefile: 50, Shell: 50 }, months: { '2024-05': 10, '2023-01': 4 } },
+      { repository: 'jane/web', primaryLanguage: 'TypeScript', languages: { TypeScript: 600, CSS: 400 }, months: { '2022-03': 10 } },
+      { repository: 'jane/old', primaryLanguage: 'Python', languages: {}, months: { '2020-01': 5, '2020-02': 0 } }
+    ], now);
+
+    assert.deepEqual(Object.keys(activity), ['Go', 'TypeScript', 'Python', 'CSS']);
+    assert.deepEqual(activity.Go, { first_used: '2023-01', last_used: '2024-05', active_months: 2, commits: 14, recent_share: 1, current: true });
+    assert.deepEqual(activity.CSS, { first_used: '2022-03', last_used: '2022-03', active_months: 1, commits: 4, recent_share: 0, current: false });
+    assert.equal(activity.Python.active_months, 1);
+  });
+});
+
+describe('programming languages on the CV', () => {
+  test('show how long and whether they are still used', () => {
+    const technical_skills = {
+      ...createEmptyTechnicalSkills(),
+      programming_languages: ['Go', 'TypeScript', 'Rust'],
+      language_activity: {
+        Go: { first_used: '2023-01', last_used: '2024-05', active_months: 2, commits: 14, recent_share: 1, current: true },
+        TypeScript: { first_used: '2022-03', last_used: '2022-03', active_months: 1, commits: 6, recent_share: 0, current: false }
+      }
+    };
+    const view = buildCVViewModel({ ...createEmptyProfile(), technical_skills }, loadLocale('en'));
+
+    assert.equal(view.skills.programming_languages, 'Go (1 year, current), TypeScript (under a year), Rust');
+  });
+});
@@ -0,0 +1,172 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { PDFDataExtractor, parseLanguageLine, parseLinkedInPdfText } from '../src/collectors';
+
+// pdf-parse text of an English export: sidebar first, then the main column, one line per text run.
+const ENGLISH_EXPORT = `
+Contact
+jane@example.com
+www.linkedin.com/in/jane-
+doe (LinkedIn)
+Top Skills
+TypeScript
+Distributed Systems
+Languages
+English (Full
+Professional)
+Certifications
+AWS Certified Developer
+Jane Doe
+Senior Software Engineer at ACME |
+Distributed Systems
+São Paulo, Brazil
+Summary
+I build backend systems.
+Page 1 of 2
+Experience
+ACME
+3 years 2 months
+Staff Engineer
+January 2023 - Present (1 year 6 months)
+Remote
+Leads the platform team.
+• Cut costs by 30%
+• Ran the on-call
+rotation
+Senior Engineer
+May 2021 - December 2022 (1 year 8 months)
+São Paulo, Brazil
+Globex
+Engineer
+March 2018 - April 2021 (3 years 2 months)
+Built the billing API.
+Education
+University of São Paulo
+Bachelor's degree, Computer Science · (2014 - 2018)
+`;
+
+const PORTUGUESE_EXPORT = `
+Contato
+jane@example.com
+Principais competências
+Go
+Idiomas
+Português (Nativo ou bilíngue)
+Jane Doe
+Engenheira de Software
+São Paulo, Brasil
+Resumo
+Desenvolvo APIs.
+Experiência
+Globex
+Engenheira
+março de 2020 - o momento (4 anos 3 meses)
+Formação acadêmica
+Universidade de São Paulo
+Bacharelado, Ciência da Computação · (2014 - 2018)
+`;
+
+describe('parseLinkedInPdfText', () => {
+  test('reads the sidebar and the identity of an English export', () => {
+    const profile = parseLinkedInPdfText(ENGLISH_EXPORT);
+
+    assert.deepEqual(profile.contact, ['jane@example.com', 'https://www.linkedin.com/in/jane-doe']);
+    assert.deepEqual(profile.topSkills, ['TypeScript', 'Distributed Systems']);
+    assert.deepEqual(profile.languages, [{ name: 'English', proficiency: 'Full Professional', level: 'full_professional' }]);
+    assert.deepEqual(profile.certifications, ['AWS Certified Developer']);
+    assert.equal(profile.name, 'Jane Doe');
+    assert.equal(profile.headline, 'Senior Software Engineer at ACME | Distributed Systems');
+    assert.equal(profile.location, 'São Paulo, Brazil');
+    assert.equal(profile.summary, 'I build backend systems.');
+  });
+
+  test('several roles at one company share its header until their dates cover its duration', () => {
+    const { experience, education } = parseLinkedInPdfText(ENGLISH_EXPORT);
+
+    assert.deepEqual(experience.map(position => [position.company, position.title, position.start_date, position.end_date]), [
+      ['ACME', 'Staff Engineer', 'January 2023', 'Present'],
+      ['ACME', 'Senior Engineer', 'May 2021', 'December 2022'],
+      ['Globex', 'Engineer', 'March 2018', 'April 2021']
+    ]);
+    assert.deepEqual(experience[0], {
+      title: 'Staff Engineer',
+      company: 'ACME',
+      start_date: 'January 2023',
+      end_date: 'Present',
+      duration: '1 year 6 months',
+      location: 'Remote',
+      description: 'Leads the platform team.',
+      bullets: ['Cut costs by 30%', 'Ran the on-call rotation']
+    });
+    assert.equal(experience[1].location, 'São Paulo, Brazil');
+    assert.equal(experience[2].description, 'Built the billing API.');
+    assert.deepEqual(education, [{
+      institution: 'University of São Paulo',
+      degree: "Bachelor's degree",
+      field: 'Computer Science',
+      start_date: '2014',
+      end_date: '2018'
+    }]);
+  });
+
+  test('reads a Portuguese export', () => {
+    const profile = parseLinkedInPdfText(PORTUGUESE_EXPORT);
+
+    assert.equal(profile.name, 'Jane Doe');
+    assert.equal(profile.headline, 'Engenheira de Software');
+    assert.equal(profile.location, 'São Paulo, Brasil');
+    assert.deepEqual(profile.languages, [{ name: 'Português', proficiency: 'Nativo ou bilíngue', level: 'native_or_bilingual' }]);
+    assert.equal(profile.summary, 'Desenvolvo APIs.');
+    assert.deepEqual(profile.experience.map(position => [position.company, position.title, position.start_date, position.end_date]), [
+      ['Globex', 'Engenheira', 'março de 2020', 'o momento']
+    ]);
+    assert.deepEqual(profile.education[0], {
+      institution: 'Universidade de São Paulo',
+      degree: 'Bacharelado',
+      field: 'Ciência da Computação',
+      start_date: '2014',
+      end_date: '2018'
+    });
+  });
+});
+
+describe('parseLanguageLine', () => {
+  test('maps English and Portuguese proficiency labels to LinkedIn levels', () => {
+    assert.deepEqual(
+      ['Elementary', 'Limited Working', 'Professional Working', 'Full Professional', 'Native or Bilingual',
+        'Nível básico', 'Competência profissional limitada', 'Competência profissional', 'Competência profissional completa'
+      ].map(label => parseLanguageLine(`English (${label})`).level),
+      ['elementary', 'limited_working', 'professional_working', 'full_professional', 'native_or_bilingual',
+        'elementary', 'limited_working', 'professional_working', 'full_professional']
+    );
+    assert.deepEqual(parseLanguageLine('Klingon (Qapla)'), { name: 'Klingon', proficiency: 'Qapla' });
+    assert.deepEqual(parseLanguageLine('Spanish'), { name: 'Spanish' });
+  });
+});
+
+describe('PDFDataExtractor', () => {
+  test('positions become profile entries keyed by company and title', () => {
+    const data = new PDFDataExtractor().parseExtractedText(ENGLISH_EXPORT);
+
+    assert.deepEqual(Object.keys(data.professional_experience || {}), ['acme_staff_engineer', 'acme_senior_engineer', 'globex_engineer']);
+    assert.deepEqual(data.professional_experience?.acme_staff_engineer.responsibilities, ['Cut costs by 30%', 'Ran the on-call rotation']);
+    assert.equal(data.headline, 'Senior Software Engineer at ACME | Distributed Systems');
+    assert.deepEqual(data.contact, ['jane@example.com', 'https://www.linkedin.com/in/jane-doe']);
+  });
+
+  test('spoken languages come from the Languages section, programming languages from whole words', () => {
+    const data = new PDFDataExtractor().parseExtractedText(`${ENGLISH_EXPORT}Go teams, R&D and C-level reviews.\nWrote services in Go and Rust on Docker.\n`);
+
+    assert.deepEqual(data.languages, [
+      { name: 'English', proficiency: 'Full Professional', level: 'full_professional', context: 'Extracted from PDF' }
+    ]);
+    assert.deepEqual(data.technical_skills?.programming_languages, ['TypeScript', 'Go', 'Rust']);
+    assert.deepEqual(data.technical_skills?.tools_and_technologies, ['Distributed Systems', 'Docker', 'AWS']);
+  });
+
+  test('"Go" and "R" starting a sentence or in "R&D" are not languages', () => {
+    const data = new PDFDataExtractor().parseExtractedText('Go further. Led R&D for the C-level. R. Smith joined.');
+
+    assert.equal(data.technical_skills, undefined);
+  });
+});
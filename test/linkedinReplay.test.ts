@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import pdf from 'pdf-parse';
+import { chromium } from 'playwright';
+import { parseLinkedInPdfText } from '../src/collectors/linkedinPdf';
+import { LinkedInCheckpointError, exportLinkedInProfilePdf, fixtureFile } from '../src/collectors/linkedin';
+
+// Portuguese pages: the selectors must not depend on the interface language.
+const FIXTURES = path.join(__dirname, 'fixtures', 'linkedin');
+// The profile page sends the browser to a CAPTCHA.
+const CAPTCHA_FIXTURES = path.join(__dirname, 'fixtures', 'linkedin-captcha');
+const BROWSER = fs.existsSync(chromium.executablePath()) ? false : 'Playwright\'s Chromium is not installed (npx playwright install chromium)';
+
+const CREDENTIALS = { email: 'jane.doe@example.com', password: 'fixture', username: 'jane-doe' };
+
+describe('LinkedIn fixtures', () => {
+  test('map URLs to files by path', () => {
+    assert.equal(fixtureFile(FIXTURES, 'https://www.linkedin.com/login?trk=guest'), path.join(FIXTURES, 'login.html'));
+    assert.equal(fixtureFile(FIXTURES, 'https://www.linkedin.com/in/jane-doe/'), path.join(FIXTURES, 'in', 'jane-doe.html'));
+    assert.equal(fixtureFile(FIXTURES, 'https://www.linkedin.com/media/profile.pdf'), path.join(FIXTURES, 'media', 'profile.pdf'));
+    assert.equal(fixtureFile(FIXTURES, 'https://www.linkedin.com/'), path.join(FIXTURES, 'index.html'));
+    assert.equal(fixtureFile(FIXTURES, 'https://www.linkedin.com/..%2f..%2fetc%2fpasswd'), path.join(FIXTURES, 'index.html'));
+  });
+
+  test('the sample export parses as a Portuguese LinkedIn PDF', async () => {
+    const { text } = await pdf(fs.readFileSync(path.join(FIXTURES, 'media', 'profile.pdf')));
+    const profile = parseLinkedInPdfText(text);
+
+    assert.equal(profile.name, 'Jane Doe');
+    assert.equal(profile.headline, 'Engenheira de Software');
+    assert.deepEqual(profile.topSkills, ['TypeScript', 'Docker', 'Playwright']);
+    assert.deepEqual(profile.experience.map(position => [position.company, position.title, position.start_date]), [
+      ['ACME', 'Engenheira de Software', 'janeiro de 2021']
+    ]);
+  });
+});
+
+describe('LinkedIn export against fixtures', { skip: BROWSER }, () => {
+  let dir: string;
+  let statePath: string;
+  let outputPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'autorriculum-linkedin-'));
+    statePath = path.join(dir, 'linkedin-state.json');
+    outputPath = path.join(dir, 'profile.pdf');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const sessionCookie = () => JSON.parse(fs.readFileSync(statePath, 'utf-8')).cookies.find((cookie: { name: string }) => cookie.name === 'li_at');
+  const exportPdf = (fixturesDir = FIXTURES) =>
+    exportLinkedInProfilePdf({ ...CREDENTIALS, headless: true, fixturesDir, statePath, outputPath });
+
+  test('signs in, opens the profile and saves the PDF through the "More" menu', async () => {
+    assert.equal(await exportPdf(), outputPath);
+
+    assert.deepEqual(fs.readFileSync(outputPath), fs.readFileSync(path.join(FIXTURES, 'media', 'profile.pdf')));
+    assert.ok(sessionCookie(), 'the session is saved');
+  });
+
+  test('reuses a saved session and signs in again once it has expired', async () => {
+    await exportPdf();
+    await exportPdf();
+    assert.ok(sessionCookie());
+
+    fs.writeFileSync(statePath, JSON.stringify({ cookies: [], origins: [] }));
+    await exportPdf();
+    assert.ok(sessionCookie(), 'the expired session is replaced');
+  });
+
+  test('fails with the kind of check when a headless run meets a CAPTCHA', async () => {
+    await assert.rejects(exportPdf(CAPTCHA_FIXTURES), (error: unknown) => {
+      assert.ok(error instanceof LinkedInCheckpointError);
+      assert.equal(error.kind, 'captcha');
+      assert.match(error.message, /without --headless/);
+      return true;
+    });
+    assert.equal(fs.existsSync(outputPath), false);
+  });
+});
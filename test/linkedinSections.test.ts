@@ -0,0 +1,129 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { LinkedInListItem, linkedInWebToProfileData, parseLinkedInSections } from '../src/collectors/linkedin/sections';
+import { createEmptyProfile, createEmptyProvenance, mergeProfile } from '../src/profile';
+
+function item(lines: string[], links: string[] = []): LinkedInListItem {
+  return { lines, links };
+}
+
+const SAMPLE = {
+  projects: [
+    item(['CV builder', 'Jan 2023 - Present', 'Builds CVs from a profile.', 'Skills: TypeScript · LaTeX', 'Associated with ACME'], ['https://github.com/jane/cv'])
+  ],
+  recommendations: [
+    item(['John Smith', '· 2nd', 'Engineering Manager at ACME', 'March 5, 2021, John managed Jane directly', 'Jane led the migration.']),
+    item(['John Smith', 'Engineering Manager at ACME', 'June 1, 2019, John worked with Jane on the same team', 'Jane is a great mentor.'])
+  ],
+  volunteering: [
+    item(['Mentora', 'Programaria', 'jan. de 2020 - o momento · 4 anos', 'Educação', 'Mentoria de mulheres em tecnologia.'])
+  ],
+  honors: [
+    item(['Best Paper Award', 'Issued by ACM · Jun 2022', 'For the paper on CV generation.'])
+  ],
+  publications: [
+    item(['Fast CVs', 'ACM Journal · Jan 1, 2020', 'How to build a CV in seconds.'], ['https://doi.org/10.1000/cv'])
+  ],
+  skills: [item(['TypeScript']), item(['Docker']), item(['typescript'])]
+};
+
+describe('parseLinkedInSections', () => {
+  const web = parseLinkedInSections(SAMPLE);
+
+  test('projects keep their dates, skills and link', () => {
+    assert.deepEqual(web.projects, [{
+      name: 'CV builder',
+      start_date: 'Jan 2023',
+      end_date: 'Present',
+      skills: ['TypeScript', 'LaTeX'],
+      description: 'Builds CVs from a profile.',
+      url: 'https://github.com/jane/cv'
+    }]);
+  });
+
+  test('recommendations split the headline and the dated context from the text', () => {
+    assert.deepEqual(web.recommendations, [
+      {
+        author: 'John Smith',
+        headline: 'Engineering Manager at ACME',
+        context: 'March 5, 2021, John managed Jane directly',
+        text: 'Jane led the migration.'
+      },
+      {
+        author: 'John Smith',
+        headline: 'Engineering Manager at ACME',
+        context: 'June 1, 2019, John worked with Jane on the same team',
+        text: 'Jane is a great mentor.'
+      }
+    ]);
+  });
+
+  test('volunteering reads Portuguese dates and the cause', () => {
+    assert.deepEqual(web.volunteering, [{
+      role: 'Mentora',
+      organization: 'Programaria',
+      start_date: 'jan. de 2020',
+      end_date: 'o momento',
+      cause: 'Educação',
+      description: 'Mentoria de mulheres em tecnologia.'
+    }]);
+  });
+
+  test('honors and publications take the issuer or publisher from the dated line', () => {
+    assert.deepEqual(web.honors, [{ title: 'Best Paper Award', date: 'Jun 2022', issuer: 'ACM', description: 'For the paper on CV generation.' }]);
+    assert.deepEqual(web.publications, [{
+      title: 'Fast CVs',
+      date: 'Jan 1, 2020',
+      publisher: 'ACM Journal',
+      description: 'How to build a CV in seconds.',
+      url: 'https://doi.org/10.1000/cv'
+    }]);
+  });
+
+  test('skills are listed once, whatever their case', () => {
+    assert.deepEqual(web.skills, ['TypeScript', 'Docker']);
+  });
+});
+
+describe('linkedInWebToProfileData', () => {
+  const data = linkedInWebToProfileData(parseLinkedInSections(SAMPLE));
+
+  test('honors become certifications of type award', () => {
+    assert.deepEqual(data.certifications, {
+      best_paper_award: {
+        name: 'Best Paper Award',
+        type: 'award',
+        issuer: 'ACM',
+        date: 'Jun 2022',
+        description: 'For the paper on CV generation.',
+        scraped_from_linkedin: true
+      }
+    });
+  });
+
+  test('volunteering becomes a membership with its period and cause', () => {
+    assert.deepEqual(Object.values(data.memberships || {}), [{
+      organization: 'Programaria',
+      role: 'Mentora',
+      since: 'jan. de 2020',
+      end_date: 'o momento',
+      cause: 'Educação',
+      description: 'Mentoria de mulheres em tecnologia.',
+      type: 'volunteering',
+      scraped_from_linkedin: true
+    }]);
+  });
+
+  test('two recommendations by one author are both kept, and found again on the next run', () => {
+    assert.deepEqual(Object.keys(data.recommendations || {}), ['john_smith', 'john_smith_2']);
+
+    const now = new Date('2025-01-01T00:00:00Z');
+    const first = mergeProfile(createEmptyProfile(), data, createEmptyProvenance(), { source: 'linkedin_web', now });
+    assert.equal(Object.keys(first.profile.recommendations || {}).length, 2);
+
+    const reordered = { recommendations: { john_smith: data.recommendations!.john_smith_2, john_smith_2: data.recommendations!.john_smith } };
+    const second = mergeProfile(first.profile, reordered, first.provenance, { source: 'linkedin_web', now });
+    assert.deepEqual(second.profile.recommendations, first.profile.recommendations);
+    assert.equal(second.changes.length, 0);
+  });
+});
@@ -0,0 +1,140 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, test } from 'node:test';
+import {
+  CompletionRequest,
+  LLMClient,
+  LLMConfigError,
+  LLMProvider,
+  LLMRequestError,
+  MockProvider,
+  OpenAICompatibleProvider,
+  createProvider,
+  resolveLLMConfig
+} from '../src/llm';
+
+const ASK: CompletionRequest = { messages: [{ role: 'user', content: 'Hello' }] };
+
+// Fails with each error in turn, then answers.
+function flakyProvider(errors: Error[]): LLMProvider & { calls: number } {
+  const reply = new MockProvider({ responses: ['done'] });
+  return {
+    name: 'flaky',
+    model: 'test',
+    calls: 0,
+    async complete(request) {
+      const error = errors[this.calls++];
+      if (error) throw error;
+      return reply.complete(request);
+    }
+  };
+}
+
+describe('resolveLLMConfig', () => {
+  test('overrides win over the environment, which wins over the config file', () => {
+    const config = resolveLLMConfig(
+      { model: 'from-flag' },
+      { provider: 'openai', model: 'from-file', maxRetries: 5, timeoutMs: 1000 },
+      { LLM_MODEL: 'from-env', LLM_MAX_RETRIES: '1', OPENAI_API_KEY: 'sk-test' }
+    );
+
+    assert.equal(config.provider, 'openai');
+    assert.equal(config.model, 'from-flag');
+    assert.equal(config.maxRetries, 1);
+    assert.equal(config.timeoutMs, 1000);
+    assert.equal(config.apiKey, 'sk-test');
+    assert.equal(config.baseUrl, 'https://api.openai.com/v1');
+  });
+
+  test('unknown providers and settings that are not numbers are configuration errors', () => {
+    assert.throws(() => resolveLLMConfig({}, {}, { LLM_PROVIDER: 'gpt' }), LLMConfigError);
+    assert.throws(() => resolveLLMConfig({}, {}, { LLM_TIMEOUT_MS: 'soon' }), /LLM_TIMEOUT_MS must be a number, got "soon"/);
+    assert.throws(() => resolveLLMConfig({}, {}, { LLM_MAX_RETRIES: '-1' }), LLMConfigError);
+  });
+
+  test('number settings from the config file are checked the same way', () => {
+    const fromFile = (settings: object) => () => resolveLLMConfig({}, settings as Parameters<typeof resolveLLMConfig>[1], {});
+
+    assert.throws(fromFile({ maxRetries: '3' }), /llm\.maxRetries in the config file must be a number, got "3"/);
+    assert.throws(fromFile({ timeoutMs: -5 }), /llm\.timeoutMs in the config file must not be negative/);
+    assert.equal(resolveLLMConfig({}, { provider: 'mock', temperature: 0 }, {}).temperature, 0);
+  });
+
+  test('a provider that needs an API key fails before any request without one', () => {
+    assert.throws(() => createProvider(resolveLLMConfig({}, {}, {})), (error: unknown) => {
+      assert.ok(error instanceof LLMConfigError);
+      assert.match(error.message, /GITHUB_TOKEN/);
+      return true;
+    });
+    assert.equal(createProvider(resolveLLMConfig({ provider: 'ollama' }, {}, {})).name, 'ollama');
+  });
+});
+
+describe('LLMClient', () => {
+  test('retries retryable errors and counts usage of the successful request only', async () => {
+    const provider = flakyProvider([new LLMRequestError('busy', { status: 503, retryable: true, retryAfterMs: 0 })]);
+    const client = new LLMClient(provider, { timeoutMs: 1000, maxRetries: 2 });
+
+    assert.equal((await client.complete(ASK)).content, 'done');
+    assert.equal(provider.calls, 2);
+    assert.equal(client.getUsage().requests, 1);
+    assert.ok(client.getUsage().totalTokens > 0);
+  });
+
+  test('does not retry other errors', async () => {
+    const provider = flakyProvider([new LLMRequestError('bad request', { status: 400 })]);
+    const client = new LLMClient(provider, { timeoutMs: 1000, maxRetries: 2 });
+
+    await assert.rejects(client.complete(ASK), /bad request/);
+    assert.equal(provider.calls, 1);
+  });
+
+  test('a request that takes too long is aborted', async () => {
+    const slow: LLMProvider = {
+      name: 'slow',
+      model: 'test',
+      complete: request => new Promise((_, reject) => request.signal?.addEventListener('abort', () => reject(new Error('aborted'))))
+    };
+    const client = new LLMClient(slow, { timeoutMs: 20, maxRetries: 0 });
+
+    await assert.rejects(client.complete(ASK), (error: unknown) => {
+      assert.ok(error instanceof LLMRequestError);
+      assert.equal(error.retryable, true);
+      assert.match(error.message, /slow\/test timed out after 20ms/);
+      return true;
+    });
+  });
+});
+
+describe('HTTP providers', () => {
+  const realFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  test('rate limits are retryable and honour Retry-After', async () => {
+    globalThis.fetch = async () => new Response('slow down', { status: 429, statusText: 'Too Many Requests', headers: { 'Retry-After': '7' } });
+    const provider = new OpenAICompatibleProvider({ name: 'openai', baseUrl: 'https://api.example.com/v1', model: 'gpt', apiKey: 'key' });
+
+    await assert.rejects(provider.complete(ASK), (error: unknown) => {
+      assert.ok(error instanceof LLMRequestError);
+      assert.deepEqual([error.status, error.retryable, error.retryAfterMs], [429, true, 7000]);
+      return true;
+    });
+  });
+
+  test('replies are read with their token usage', async () => {
+    let sent: { url: string; init?: RequestInit } | undefined;
+    globalThis.fetch = async (url, init) => {
+      sent = { url: String(url), init };
+      return Response.json({ choices: [{ message: { content: 'Hi' } }], usage: { prompt_tokens: 3, completion_tokens: 1 } });
+    };
+    const provider = new OpenAICompatibleProvider({ name: 'openai', baseUrl: 'https://api.example.com/v1/', model: 'gpt', apiKey: 'key' });
+
+    const result = await provider.complete(ASK);
+
+    assert.equal(sent?.url, 'https://api.example.com/v1/chat/completions');
+    assert.equal((sent?.init?.headers as Record<string, string>).Authorization, 'Bearer key');
+    assert.deepEqual(result, { content: 'Hi', model: 'gpt', usage: { promptTokens: 3, completionTokens: 1, totalTokens: 4 } });
+  });
+});
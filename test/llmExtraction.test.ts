@@ -0,0 +1,115 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { LLMExtractionError, extractProfileWithLLM, formatFieldAnnotations, parseJsonReply } from '../src/collectors';
+import { LLMClient, MockProvider } from '../src/llm';
+
+const TEXT = 'Engineer at ACME since 2020. Maybe a role at some other company.';
+
+function value(text: string | null, confidence = 1, source: string | null = text) {
+  return { value: text, confidence, source };
+}
+
+function role(title: string, company: string, confidence: number) {
+  return {
+    title: value(title, confidence),
+    company: value(company, confidence),
+    location: value(null),
+    start_date: value(null),
+    end_date: value(null),
+    description: value(null),
+    responsibilities: [],
+    achievements: [],
+    technologies: []
+  };
+}
+
+function reply(experience: unknown[], fields: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    name: value('Jane Doe'),
+    headline: value(null),
+    location: value(null),
+    summary: value(null),
+    contact: [],
+    languages: [],
+    professional_experience: experience,
+    superior_education: [],
+    certifications: [],
+    projects: [],
+    academical_research: [],
+    memberships: [],
+    technical_skills: null,
+    ...fields
+  });
+}
+
+function client(content: string): LLMClient {
+  return new LLMClient(new MockProvider({ responses: [content] }), { timeoutMs: 1000, maxRetries: 0 });
+}
+
+describe('parseJsonReply', () => {
+  test('takes the object out of fences and prose', () => {
+    assert.deepEqual(parseJsonReply('```json\n{"name": "Jane"}\n```'), { name: 'Jane' });
+    assert.deepEqual(parseJsonReply('Here is the data: {"name": "Jane"} Hope it helps.'), { name: 'Jane' });
+    assert.throws(() => parseJsonReply('I could not read the CV.'), LLMExtractionError);
+    assert.throws(() => parseJsonReply('{"name": }'), /The LLM reply is not valid JSON/);
+  });
+});
+
+describe('extractProfileWithLLM', () => {
+  test('fills the profile with confident values and annotates every value', async () => {
+    const result = await extractProfileWithLLM(client(reply([role('Engineer', 'ACME', 0.9)], {
+      contact: [value('jane@example.com')],
+      languages: [
+        { name: value('English', 1, 'English (Full Professional)'), proficiency: value('Full Professional'), level: value('full_professional') },
+        { name: value('Spanish'), proficiency: value(null), level: value('fluent') }
+      ],
+      technical_skills: { programming_languages: [value('Go', 0.8, 'in Go')], tools_and_technologies: [], operating_systems: [], areas_of_expertise: [] }
+    })), 'Jane Doe, jane@example.com. Engineer at ACME. English (Full Professional). Writes services in Go.');
+
+    assert.equal(result.profile.name, 'Jane Doe');
+    assert.deepEqual(result.profile.contact, ['jane@example.com']);
+    assert.deepEqual(result.profile.languages, [
+      { name: 'English', proficiency: 'Full Professional', level: 'full_professional', context: 'Extracted from PDF' },
+      { name: 'Spanish', proficiency: '', context: 'Extracted from PDF' }
+    ]);
+    assert.deepEqual(result.profile.technical_skills?.programming_languages, ['Go']);
+    assert.equal(result.profile.professional_experience.acme_engineer.extracted_from_pdf, true);
+    assert.equal(result.model, 'mock/mock');
+
+    assert.deepEqual(result.issues, [{ path: 'languages[1].level', message: 'expected one of elementary, limited_working, professional_working, full_professional, native_or_bilingual' }]);
+    const spanish = result.fields.find(field => field.path === 'languages[1].name');
+    assert.equal(spanish?.source_found, false);
+    assert.match(formatFieldAnnotations(result.fields), /^1\.00  name: Jane Doe \(quoted\)$/m);
+    assert.match(formatFieldAnnotations(result.fields), /^1\.00  languages\[1\]\.name: Spanish \(unquoted\)$/m);
+  });
+
+  test('keeps the annotations of a dropped entry apart from the kept entry after it', async () => {
+    const result = await extractProfileWithLLM(
+      client(reply([role('Guess Role', 'Maybe Corp', 0.1), role('Engineer', 'ACME', 0.9)])),
+      TEXT
+    );
+
+    assert.deepEqual(Object.keys(result.profile.professional_experience), ['acme_engineer']);
+    const kept = result.fields.filter(field => field.path.startsWith('professional_experience.acme_engineer.'));
+    assert.deepEqual(kept.map(field => [field.path, field.value, field.kept]), [
+      ['professional_experience.acme_engineer.title', 'Engineer', true],
+      ['professional_experience.acme_engineer.company', 'ACME', true]
+    ]);
+    const dropped = result.fields.filter(field => field.path.startsWith('professional_experience[dropped:0]'));
+    assert.deepEqual(dropped.map(field => [field.path, field.value, field.kept]), [
+      ['professional_experience[dropped:0].title', 'Guess Role', false],
+      ['professional_experience[dropped:0].company', 'Maybe Corp', false]
+    ]);
+  });
+
+  test('keeps low-confidence fields of a kept entry with that entry', async () => {
+    const partial = { ...role('Engineer', 'ACME', 0.9), location: value('Remote', 0.2) };
+    const result = await extractProfileWithLLM(client(reply([partial])), TEXT);
+
+    const location = result.fields.find(field => field.value === 'Remote');
+    assert.equal(location?.path, 'professional_experience.acme_engineer.location');
+    assert.equal(location?.kept, false);
+    assert.equal(location?.source_found, false);
+    assert.equal(result.profile.professional_experience.acme_engineer.location, undefined);
+  });
+});
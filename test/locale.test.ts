@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, test } from 'node:test';
+import { ProfileData, createEmptyProfile, parseProfileDate } from '../src/profile';
+import {
+  LOCALE_CODES,
+  buildCVViewModel,
+  formatDate,
+  formatFact,
+  generatedFactPattern,
+  loadLocale,
+  localizeSectionTitles,
+  parseLocaleCodes,
+  renderLatexCV
+} from '../src/template';
+
+const TEMPLATE_PATH = path.join(__dirname, '..', 'src', 'assets', 'templates', 'base-cv.template.tex');
+
+function profile(fields: Partial<ProfileData> = {}): ProfileData {
+  return { ...createEmptyProfile(), ...fields };
+}
+
+describe('locales', () => {
+  test('every shipped dictionary is complete', () => {
+    for (const code of LOCALE_CODES) {
+      assert.equal(loadLocale(code).code, code);
+    }
+  });
+
+  test('a dictionary with missing keys names them', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'autorriculum-locale-'));
+    try {
+      fs.writeFileSync(path.join(dir, 'en.json'), JSON.stringify({ language: 'English', labels: {}, facts: {}, months: [] }));
+      assert.throws(() => loadLocale('en', dir), /missing: labels\.summary, .*facts\.githubStars, .*months \(12 names\)/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('codes are matched loosely and deduplicated', () => {
+    assert.deepEqual(parseLocaleCodes('pt-br, EN,en,es'), ['pt-BR', 'en', 'es']);
+    assert.deepEqual(parseLocaleCodes('pt'), ['pt-BR']);
+    assert.throws(() => parseLocaleCodes('en,fr'), /Unknown locale "fr"/);
+  });
+});
+
+describe('dates', () => {
+  test('free-text profile dates are printed in the output language', () => {
+    assert.deepEqual(parseProfileDate('abril de 2024'), { year: 2024, month: 4 });
+    assert.equal(parseProfileDate('Presente'), null);
+
+    const en = loadLocale('en');
+    assert.deepEqual(['abril de 2024', '03/2021', '2019', 'Atual', 'summer 2019'].map(value => formatDate(value, en)),
+      ['Apr 2024', 'Mar 2021', '2019', en.labels.present, 'summer 2019']);
+  });
+});
+
+describe('facts', () => {
+  test('generated facts are recognised in every language', () => {
+    const pattern = generatedFactPattern('githubStars');
+    for (const code of LOCALE_CODES) {
+      assert.match(formatFact(loadLocale(code).facts.githubStars, { count: 42 }), pattern);
+    }
+    assert.doesNotMatch('Speaks at 42 meetups', pattern);
+    assert.equal(formatFact('{count} stars, {unknown}', { count: 3 }), '3 stars, {unknown}');
+  });
+});
+
+describe('localized output', () => {
+  const sample = profile({
+    name: 'Jane',
+    summary: 'Builds APIs',
+    professional_experience: { acme: { title: 'Engineer', company: 'ACME', start_date: 'Jan 2021', end_date: 'Present' } },
+    projects: { cli: { name: 'cli', technologies: ['Go'] } }
+  });
+
+  test('the view model and the LaTeX template use the locale labels', () => {
+    const es = loadLocale('es');
+    const view = buildCVViewModel(sample, es);
+    assert.equal(view.labels.experience, es.labels.experience);
+    assert.equal(view.experience[0].period, `${es.months[0]} 2021 – ${es.labels.present}`);
+
+    const latex = renderLatexCV(TEMPLATE_PATH, sample, { locale: loadLocale('en') });
+    assert.ok(latex.includes(`\\section{${loadLocale('en').labels.projects}}`));
+    assert.ok(latex.includes(`\\textbf{${loadLocale('en').labels.technologies}:} Go`));
+  });
+
+  test('section titles written in Portuguese are renamed', () => {
+    const pt = loadLocale('pt-BR');
+    const en = loadLocale('en');
+    const tex = `\\section{${pt.labels.summary}}\n\\section*{${pt.labels.education}}`;
+
+    assert.equal(localizeSectionTitles(tex, pt, en), `\\section{${en.labels.summary}}\n\\section*{${en.labels.education}}`);
+    assert.equal(localizeSectionTitles(tex, pt, pt), tex);
+  });
+});
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { formatLatexError, latexErrorKey, parseLatexLog } from '../src/latex/logParser';
+
+const LOG = [
+  'This is pdfTeX, Version 3.141592653',
+  '! Undefined control sequence.',
+  'l.42 \\textbf{Go} \\faGithub',
+  '                             {jane}',
+  '! LaTeX Error: File `fontawesome5.sty\' not found.',
+  '',
+  'l.7 \\usepackage',
+  '! Misplaced alignment tab character &.',
+  'l.50 R&D',
+  '! Missing $ inserted.',
+  '<inserted text>',
+  'l.61 cv_tool',
+  'Runaway argument?',
+  '{Engineer',
+  '! Paragraph ended before \\resumeEntry was complete.',
+  '<to be read again>',
+  'l.70',
+  '! Emergency stop.'
+].join('\n');
+
+describe('parseLatexLog', () => {
+  const errors = parseLatexLog(LOG);
+
+  test('classifies each error with its line', () => {
+    assert.deepEqual(errors.map(error => [error.kind, error.line, error.command || error.package || error.character]), [
+      ['undefined-control-sequence', 42, '\\faGithub'],
+      ['missing-package', 7, 'fontawesome5'],
+      ['unescaped-character', 50, '&'],
+      ['unescaped-character', 61, '_'],
+      ['runaway-argument', 70, '\\resumeEntry'],
+      ['other', undefined, undefined]
+    ]);
+  });
+
+  test('keeps the offending source as context', () => {
+    assert.equal(errors[0].context, '\\textbf{Go} \\faGithub {jane}');
+    assert.equal(formatLatexError(errors[2]), '[unescaped-character] line 50: Misplaced alignment tab character &. (&) near "R&D"');
+    assert.equal(formatLatexError(errors[5]), '[other] unknown line: Emergency stop.');
+  });
+
+  test('the same mistake on another line has the same key', () => {
+    const [again] = parseLatexLog('! Undefined control sequence.\nl.90 \\faGithub');
+    assert.equal(latexErrorKey(again), latexErrorKey(errors[0]));
+    assert.deepEqual(parseLatexLog('Output written on cv.pdf (1 page).'), []);
+  });
+});
@@ -0,0 +1,165 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  IncomingProfileData,
+  MergeOptions,
+  MergeResult,
+  ProfileData,
+  ProvenanceLog,
+  createEmptyProfile,
+  createEmptyProvenance,
+  mergeProfile,
+  pinFields
+} from '../src/profile';
+
+function profile(fields: Partial<ProfileData> = {}): ProfileData {
+  return { ...createEmptyProfile(), ...fields };
+}
+
+function merge(
+  current: ProfileData,
+  incoming: IncomingProfileData,
+  options: MergeOptions,
+  log: ProvenanceLog = createEmptyProvenance()
+): MergeResult {
+  return mergeProfile(current, incoming, log, { now: new Date('2025-01-01T00:00:00Z'), ...options });
+}
+
+describe('mergeProfile', () => {
+  describe('pins', () => {
+    test('a pinned value survives overwrite', () => {
+      const current = profile({ headline: 'Staff Engineer' });
+      const log = createEmptyProvenance();
+      pinFields(log, current, ['headline']);
+
+      const result = merge(current, { headline: 'Software Engineer' }, { source: 'linkedin_pdf', overwrite: true }, log);
+
+      assert.equal(result.profile.headline, 'Staff Engineer');
+      assert.deepEqual(result.conflicts.map(conflict => [conflict.path, conflict.pinned]), [['headline', true]]);
+      assert.equal(result.provenance.fields.headline.pinned, true);
+    });
+
+    test('an unpinned manual value gives way to overwrite', () => {
+      const result = merge(profile({ headline: 'Staff Engineer' }), { headline: 'Software Engineer' }, { source: 'linkedin_pdf', overwrite: true });
+
+      assert.equal(result.profile.headline, 'Software Engineer');
+      assert.deepEqual(result.changes.map(change => [change.kind, change.path, change.from]), [['update', 'headline', 'manual']]);
+      assert.equal(result.conflicts.length, 0);
+    });
+
+    test('a pinned list item is not removed as stale', () => {
+      const current = profile({ facts: ['Old fact'] });
+      const log = createEmptyProvenance();
+      pinFields(log, current, ['facts']);
+
+      const result = merge(current, { facts: ['New fact'] }, { source: 'github', stale: () => true }, log);
+
+      assert.deepEqual(result.profile.facts, ['Old fact', 'New fact']);
+    });
+  });
+
+  describe('refreshing', () => {
+    const first = merge(profile(), {
+      headline: 'Engineer',
+      facts: ['12 repositories'],
+      projects: { cli: { name: 'cli', url: 'https://github.com/jane/cli', stars: 1 } }
+    }, { source: 'github' });
+
+    test('a source refreshes the values it wrote itself', () => {
+      const second = merge(first.profile, {
+        projects: { cli: { name: 'cli', url: 'https://github.com/jane/cli', stars: 5 } }
+      }, { source: 'github' }, first.provenance);
+
+      assert.equal(second.profile.projects.cli.stars, 5);
+      assert.deepEqual(second.changes.map(change => [change.kind, change.path, change.from]), [['update', 'projects.cli.stars', 'github']]);
+      assert.equal(second.conflicts.length, 0);
+    });
+
+    test('values edited by hand since are kept as manual', () => {
+      const edited = profile({ ...first.profile, projects: { cli: { ...first.profile.projects.cli, stars: 3 } } });
+      const second = merge(edited, {
+        projects: { cli: { name: 'cli', url: 'https://github.com/jane/cli', stars: 5 } }
+      }, { source: 'github' }, first.provenance);
+
+      assert.equal(second.profile.projects.cli.stars, 3);
+      assert.deepEqual(second.conflicts.map(conflict => [conflict.path, conflict.currentSource]), [['projects.cli.stars', 'manual']]);
+    });
+
+    test('values of another source are kept and reported', () => {
+      const second = merge(first.profile, { headline: 'Senior Engineer' }, { source: 'linkedin_pdf' }, first.provenance);
+
+      assert.equal(second.profile.headline, 'Engineer');
+      assert.deepEqual(second.conflicts.map(conflict => [conflict.path, conflict.currentSource]), [['headline', 'github']]);
+    });
+
+    test('stale items are replaced, unless the run offers them again', () => {
+      const second = merge(first.profile, { facts: ['15 repositories'] }, { source: 'github', stale: () => true }, first.provenance);
+      assert.deepEqual(second.profile.facts, ['15 repositories']);
+      assert.deepEqual(second.changes.filter(change => change.kind === 'remove').map(change => change.before), ['12 repositories']);
+
+      const again = merge(first.profile, { facts: ['12 repositories'] }, { source: 'github', stale: () => true }, first.provenance);
+      assert.deepEqual(again.profile.facts, ['12 repositories']);
+      assert.equal(again.changes.length, 0);
+    });
+  });
+
+  describe('duplicates', () => {
+    test('the same project under another key is merged by URL', () => {
+      const current = merge(profile(), {
+        projects: { autorriculum: { name: 'autorriculum', url: 'https://github.com/jane/autorriculum' } }
+      }, { source: 'github' });
+
+      const result = merge(current.profile, {
+        projects: { cv_builder: { name: 'CV Builder', url: 'https://www.github.com/jane/autorriculum/', description: 'Builds CVs' } }
+      }, { source: 'linkedin_pdf' }, current.provenance);
+
+      assert.deepEqual(Object.keys(result.profile.projects), ['autorriculum']);
+      assert.equal(result.profile.projects.autorriculum.description, 'Builds CVs');
+      assert.deepEqual(result.duplicates, [{
+        path: 'projects.cv_builder',
+        existingPath: 'projects.autorriculum',
+        similarity: 1,
+        merged: true,
+        reason: 'same URL'
+      }]);
+    });
+
+    test('a reworded certification is merged into the existing one', () => {
+      const current = profile({ certifications: { aws_cert: { name: 'AWS Certified Solutions Architect – Associate', issuer: 'Amazon' } } });
+
+      const result = merge(current, {
+        certifications: { aws_sa: { name: 'AWS Solutions Architect Associate', date: '2023' } }
+      }, { source: 'linkedin_pdf' });
+
+      assert.deepEqual(Object.keys(result.profile.certifications), ['aws_cert']);
+      assert.equal(result.profile.certifications.aws_cert.date, '2023');
+      assert.equal(result.duplicates.length, 1);
+      assert.equal(result.duplicates[0].merged, true);
+      assert.ok(result.duplicates[0].similarity >= 0.85);
+    });
+
+    test('a less similar certification is added separately and reported for review', () => {
+      const current = profile({ certifications: { python: { name: 'Python' } } });
+
+      const result = merge(current, {
+        certifications: { python_data: { name: 'Python for Data Science' } }
+      }, { source: 'linkedin_pdf' });
+
+      assert.deepEqual(Object.keys(result.profile.certifications), ['python', 'python_data']);
+      assert.deepEqual(result.duplicates.map(match => [match.path, match.existingPath, match.merged]), [
+        ['certifications.python_data', 'certifications.python', false]
+      ]);
+    });
+
+    test('positions with different start dates are never merged', () => {
+      const current = profile({ professional_experience: { acme: { company: 'ACME', title: 'Engineer', start_date: '2018-01' } } });
+
+      const result = merge(current, {
+        professional_experience: { acme_2: { company: 'ACME', title: 'Engineer', start_date: '2022-03' } }
+      }, { source: 'linkedin_pdf' });
+
+      assert.deepEqual(Object.keys(result.profile.professional_experience), ['acme', 'acme_2']);
+      assert.equal(result.duplicates.length, 0);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { condenseReadme, deriveTechStack, readmeDescription, readmeToText } from '../src/collectors';
+import { LLMClient, MockProvider } from '../src/llm';
+import { createEmptyProfile } from '../src/profile';
+import { buildCVViewModel, loadLocale } from '../src/template';
+
+describe('deriveTechStack', () => {
+  test('names the runtime and notable dependencies of every manifest', () => {
+    const stack = deriveTechStack({
+      'go.mod': 'module example.com/api\n\nrequire github.com/labstack/echo/v4 v4.11.0\nrequire (\n\tgorm.io/gorm v1.25.0 // indirect\n\tgithub.com/google/uuid v1.6.0\n)',
+      'package.json': JSON.stringify({ dependencies: { react: '^18.0.0', 'left-pad': '1.0.0' }, devDependencies: { typescript: '^5.0.0' } }),
+      'requirements.txt': '# tools\nDjango>=4.2\nscikit_learn==1.4\n-r dev.txt\n',
+      'Cargo.toml': '[package]\nname = "cli"\n\n[dependencies]\nclap = "4"\n\n[target.x.dev-dependencies]\ntokio = { version = "1" }'
+    });
+
+    assert.deepEqual(stack.technologies, [
+      'Node.js', 'React', 'TypeScript', 'Python', 'Django', 'scikit-learn', 'Rust', 'clap', 'Tokio', 'Go', 'Echo', 'GORM'
+    ]);
+    assert.deepEqual(stack.sources, ['package.json', 'requirements.txt', 'Cargo.toml', 'go.mod']);
+  });
+
+  test('a manifest that does not parse is skipped', () => {
+    assert.deepEqual(deriveTechStack({ 'package.json': '{ not json', 'go.mod': 'module x' }), { technologies: ['Go'], sources: ['go.mod'] });
+  });
+});
+
+describe('README text', () => {
+  const readme = [
+    '# Tool',
+    '[![CI](https://ci.example/badge.svg)](https://ci.example) <img src="logo.png">',
+    '',
+    'A **fast** [CLI](https://example.com) that turns `profile.json` into CVs.',
+    '',
+    '```sh\nnpm install tool\n```',
+    '- feature list'
+  ].join('\n');
+
+  test('drops badges, HTML, code blocks and link targets', () => {
+    const text = readmeToText(readme);
+    assert.doesNotMatch(text, /badge|<img|npm install|https:/);
+    assert.match(text, /A fast CLI that turns profile\.json into CVs\./);
+  });
+
+  test('the first prose paragraph is the description, cut at a sentence end when long', () => {
+    assert.equal(readmeDescription(readme), 'A fast CLI that turns profile.json into CVs.');
+    assert.equal(readmeDescription('# Title\n\n- only a list'), undefined);
+
+    const long = `${'This sentence is about the tool. '.repeat(12)}And more.`;
+    const description = readmeDescription(long) as string;
+    assert.ok(description.length <= 300);
+    assert.ok(description.endsWith('tool.'));
+  });
+});
+
+describe('condenseReadme', () => {
+  test('keeps at most three bullets from the reply', async () => {
+    const prompts: string[] = [];
+    const provider = new MockProvider({
+      respond: request => {
+        prompts.push(request.messages[1].content);
+        return 'Here you go:\n- Renders CVs\n* Reads GitHub\n• Writes PDF\n- Fourth bullet';
+      }
+    });
+    const llm = new LLMClient(provider, { timeoutMs: 1000, maxRetries: 0 });
+
+    assert.deepEqual(await condenseReadme(llm, 'jane/tool', '# Tool\n\nRenders CVs.', 'English'), ['Renders CVs', 'Reads GitHub', 'Writes PDF']);
+    assert.match(prompts[0], /README of jane\/tool into 2 or 3 short bullets in English/);
+  });
+});
+
+describe('project entries', () => {
+  test('use the derived stack and README highlights unless technologies were written by hand', () => {
+    const details = { tech_stack: ['Node.js', 'TypeScript'], tech_stack_sources: ['package.json'], highlights: ['Renders CVs'], collected_at: '2024-01-01' };
+    const view = buildCVViewModel({
+      ...createEmptyProfile(),
+      projects: {
+        tool: { name: 'tool', language: 'TypeScript', details },
+        site: { name: 'site', technologies: ['Hugo'], details }
+      }
+    }, loadLocale('en'));
+
+    assert.deepEqual(view.projects.map(project => [project.technologies, project.bullets, project.hasDetails]), [
+      ['TypeScript, Node.js', ['Renders CVs'], true],
+      ['Hugo', ['Renders CVs'], true]
+    ]);
+  });
+});
@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { inflateRawSync } from 'zlib';
+import { ProfileData, createEmptyProfile } from '../src/profile';
+import {
+  createZip,
+  parseOutputFormats,
+  renderDocx,
+  renderHtml,
+  renderMarkdown,
+  renderPlainText
+} from '../src/renderers';
+import { buildCVViewModel } from '../src/template';
+
+// Walks the local file headers of an archive written by createZip.
+function readZip(archive: Buffer): Map<string, string> {
+  const files = new Map<string, string>();
+  let offset = 0;
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const name = archive.subarray(offset + 30, offset + 30 + nameLength).toString('utf8');
+    const start = offset + 30 + nameLength;
+    files.set(name, inflateRawSync(archive.subarray(start, start + compressedSize)).toString('utf8'));
+    offset = start + compressedSize;
+  }
+  return files;
+}
+
+function profile(fields: Partial<ProfileData> = {}): ProfileData {
+  return { ...createEmptyProfile(), ...fields };
+}
+
+const view = buildCVViewModel(profile({
+  name: 'Jane <Doe>',
+  contact: ['jane@example.com', 'github.com/jane'],
+  summary: 'Builds *fast* APIs & tools',
+  professional_experience: {
+    acme: { title: 'Engineer', company: 'ACME', start_date: '2021', technologies: ['Go', 'C#'] }
+  },
+  projects: {
+    evil: { name: 'evil', url: 'javascript:alert(1)', description: 'A (tricky) project' }
+  }
+}));
+
+describe('document renderers', () => {
+  test('HTML escapes text and never links to script URLs', () => {
+    const html = renderHtml(view);
+
+    assert.ok(html.includes('Jane &lt;Doe&gt;'));
+    assert.ok(html.includes('Builds *fast* APIs &amp; tools'));
+    assert.ok(html.includes('href="https://github.com/jane"'));
+    assert.ok(!html.includes('href="javascript:'));
+    assert.ok(!/<script|<link|src="http/.test(html));
+  });
+
+  test('Markdown escapes its own syntax', () => {
+    const markdown = renderMarkdown(view);
+
+    assert.ok(markdown.startsWith('# Jane \\<Doe\\>\n'));
+    assert.ok(markdown.includes('Builds \\*fast\\* APIs & tools'));
+    assert.ok(markdown.includes('- **Tecnologias:** Go, C\\#'));
+  });
+
+  test('plain text uses uppercase headings and full URLs', () => {
+    const text = renderPlainText(view);
+
+    assert.ok(text.startsWith('JANE <DOE>\njane@example.com\nhttps://github.com/jane\n'));
+    assert.match(text, /^EXPERIÊNCIA PROFISSIONAL\nEngineer - ACME$/m);
+    assert.ok(!text.includes('**'));
+  });
+
+  test('DOCX is a deterministic OOXML package', () => {
+    const docx = renderDocx(view);
+    const files = readZip(docx);
+
+    assert.deepEqual(renderDocx(view), docx);
+    assert.deepEqual([...files.keys()], [
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'word/document.xml',
+      'word/_rels/document.xml.rels',
+      'word/styles.xml'
+    ]);
+    assert.ok(files.get('word/document.xml')?.includes('Jane &lt;Doe&gt;'));
+    assert.ok(files.get('word/_rels/document.xml.rels')?.includes('Target="https://github.com/jane"'));
+  });
+});
+
+describe('createZip', () => {
+  test('entries round-trip and the central directory counts them', () => {
+    const archive = createZip([{ name: 'a.txt', data: 'hello' }, { name: 'ç/b.bin', data: Buffer.from([0, 1, 2]) }]);
+    const end = archive.subarray(archive.length - 22);
+
+    assert.equal(end.readUInt32LE(0), 0x06054b50);
+    assert.equal(end.readUInt16LE(10), 2);
+    assert.deepEqual([...readZip(archive).entries()], [['a.txt', 'hello'], ['ç/b.bin', '\u0000\u0001\u0002']]);
+  });
+});
+
+describe('parseOutputFormats', () => {
+  test('reads a comma-separated list without duplicates', () => {
+    assert.deepEqual(parseOutputFormats(' PDF, html,,pdf '), ['pdf', 'html']);
+    assert.throws(() => parseOutputFormats('pdf,rtf'), /Unknown output format\(s\): rtf/);
+  });
+});
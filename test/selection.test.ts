@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  CollectedRepo,
+  DEFAULT_REPO_SELECTION,
+  RepoSelectionConfigError,
+  formatSelectionReport,
+  resolveRepoSelection,
+  scoreRepository,
+  selectRepositories
+} from '../src/collectors';
+
+const NOW = new Date('2024-06-01T00:00:00Z');
+
+function repo(name: string, fields: Partial<CollectedRepo> = {}): CollectedRepo {
+  return {
+    name,
+    fullName: `jane/${name}`,
+    description: null,
+    url: `https://github.com/jane/${name}`,
+    language: null,
+    stars: 0,
+    forks: 0,
+    topics: [],
+    fork: false,
+    archived: false,
+    pushedAt: null,
+    size: 0,
+    languages: {},
+    ...fields
+  };
+}
+
+describe('resolveRepoSelection', () => {
+  test('fills in defaults and single weights', () => {
+    const config = resolveRepoSelection({ minScore: 4, weights: { stars: 10 } as never });
+    assert.equal(config.minScore, 4);
+    assert.equal(config.weights.stars, 10);
+    assert.equal(config.weights.forks, DEFAULT_REPO_SELECTION.weights.forks);
+  });
+
+  test('rejects values of the wrong type', () => {
+    assert.throws(() => resolveRepoSelection({ exclude: 'dotfiles' as never }), /github\.selection\.exclude must be a list of strings/);
+    assert.throws(() => resolveRepoSelection({ weights: { recency: -1 } as never }), RepoSelectionConfigError);
+    assert.throws(() => resolveRepoSelection({ recencyHorizonMonths: 0 }), /greater than 0/);
+    assert.throws(() => resolveRepoSelection({ includeForks: 'yes' as never }), /includeForks must be true or false/);
+  });
+});
+
+describe('scoreRepository', () => {
+  test('weights every signal', () => {
+    const breakdown = scoreRepository(repo('api', {
+      stars: 7,
+      forks: 1,
+      pushedAt: '2023-06-01T00:00:00Z',
+      size: 10000,
+      topics: ['go', 'api'],
+      language: 'Go',
+      description: 'HTTP API for invoices'
+    }), DEFAULT_REPO_SELECTION, ['go'], NOW);
+
+    assert.deepEqual(breakdown, { stars: 9, forks: 2, recency: 1, size: 1, topics: 0.4, language: 1, description: 1 });
+  });
+
+  test('configured languages replace the most used ones', () => {
+    const config = resolveRepoSelection({ languages: ['Rust'] });
+    assert.equal(scoreRepository(repo('api', { language: 'Go' }), config, ['Go'], NOW).language, 0);
+  });
+});
+
+describe('selectRepositories', () => {
+  test('keeps pinned and included repositories and explains every decision', () => {
+    const config = resolveRepoSelection({ include: ['jane/fork-*'], exclude: ['dotfiles'], maxMonthsSincePush: 36, maxProjects: 1 });
+    const decisions = selectRepositories([
+      repo('api', { stars: 7, pushedAt: '2024-05-01T00:00:00Z' }),
+      repo('dotfiles', { stars: 50 }),
+      repo('fork-of-go', { fork: true }),
+      repo('gone', { fork: true, stars: 50 }),
+      repo('stale', { stars: 50, pushedAt: '2019-01-01T00:00:00Z' }),
+      repo('tiny', { pushedAt: '2021-07-01T00:00:00Z' })
+    ], [repo('tool', { fullName: 'acme/tool' })], config, [], NOW);
+
+    assert.deepEqual(decisions.map(decision => [decision.repo.name, decision.kept, decision.reasons[0]]), [
+      ['tool', true, 'pinned'],
+      ['api', true, `score ${decisions[1].score} reaches the minimum of 1`],
+      ['fork-of-go', true, 'included by "jane/fork-*"'],
+      ['dotfiles', false, 'excluded by "dotfiles"'],
+      ['gone', false, 'fork'],
+      ['stale', false, 'last push 64 months ago, more than 36'],
+      ['tiny', false, 'score 0 below the minimum of 1']
+    ]);
+
+    const report = formatSelectionReport(decisions, config);
+    assert.ok(report.startsWith('3 of 7 repositories kept: up to 1 become projects'));
+    assert.match(report, /^project\s+0\.00\s+acme\/tool\s+pinned$/m);
+    assert.match(report, /^notable\s+\d+\.\d\d\s+jane\/api\s+score .* \(stars 9, recency 1\.\d+\)$/m);
+  });
+});
@@ -0,0 +1,136 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { ProfileData, createEmptyProfile } from '../src/profile';
+import { formatTailoringReport, parseJobPosting, tailorProfile } from '../src/tailoring';
+
+function profile(fields: Partial<ProfileData> = {}): ProfileData {
+  return { ...createEmptyProfile(), ...fields };
+}
+
+function posting(...requirements: string[]) {
+  return parseJobPosting(['# Backend Engineer', '', '## Requirements', ...requirements.map(text => `- ${text}`)].join('\n'), 'backend.md');
+}
+
+describe('parseJobPosting', () => {
+  test('reads requirements and nice-to-haves under their headings', () => {
+    const job = parseJobPosting([
+      '# Backend Engineer',
+      'We build payment APIs.',
+      '',
+      '## About us',
+      '- Founded in 2010',
+      '',
+      'Requisitos:',
+      '- Experiência com TypeScript',
+      '',
+      '## Nice to have',
+      '* Kubernetes'
+    ].join('\n'), 'jobs/backend.md');
+
+    assert.equal(job.title, 'Backend Engineer');
+    assert.deepEqual(job.requirements, [
+      { text: 'Experiência com TypeScript', section: 'Requisitos', optional: false },
+      { text: 'Kubernetes', section: 'Nice to have', optional: true }
+    ]);
+  });
+
+  test('perks whose headings only mention bonus, plus or skills are not requirements', () => {
+    const job = parseJobPosting([
+      '# Backend Engineer',
+      '## Skills',
+      '- Go',
+      '## Benefits & Bonus',
+      '- Health insurance',
+      '## Salary plus equity',
+      '- Stock options',
+      '## Soft skills we value at the office',
+      '- Free lunch',
+      '## Bonus points',
+      '- Kafka'
+    ].join('\n'));
+
+    assert.deepEqual(job.requirements.map(requirement => [requirement.text, requirement.optional]), [
+      ['Go', false],
+      ['Kafka', true]
+    ]);
+  });
+
+  test('falls back to every bullet when no heading names requirements', () => {
+    const job = parseJobPosting('Backend Engineer\n\n- Python\n- SQL', 'postings/backend-engineer.txt');
+
+    assert.equal(job.title, 'Backend Engineer');
+    assert.deepEqual(job.requirements.map(requirement => requirement.text), ['Python', 'SQL']);
+  });
+});
+
+describe('tailorProfile', () => {
+  test('a requirement is covered when most of its terms are in the profile', () => {
+    const result = tailorProfile(profile({ facts: ['Built services in C# on Azure'] }), posting(
+      'C# and .NET',
+      'C#, Azure or AWS',
+      'Docker'
+    ));
+
+    assert.deepEqual(result.coverage.map(item => [item.matchedTerms, item.covered]), [
+      [['C#'], false],
+      [['C#', 'Azure'], true],
+      [[], false]
+    ]);
+  });
+
+  test('terms match whole words, and single letters only as capitalized languages', () => {
+    const result = tailorProfile(profile({
+      facts: ['Reported to the C-level', 'Led R&D at ACME', 'Managed by John C. Smith', 'Wrote a Golang CLI', 'Used Javascripting']
+    }), posting('C', 'R', 'Go', 'JavaScript'));
+
+    assert.deepEqual(result.coverage.map(item => item.covered), [false, false, false, false]);
+    assert.equal(tailorProfile(profile({ facts: ['Wrote drivers in C and scripts in R'] }), posting('C', 'R')).coverage
+      .every(item => item.covered), true);
+  });
+
+  test('roles and certifications are reordered by relevance, never dropped by default', () => {
+    const result = tailorProfile(profile({
+      professional_experience: {
+        bakery: { company: 'Bakery', title: 'Cashier' },
+        acme: { company: 'ACME', title: 'Engineer', technologies: ['Python', 'Docker'] }
+      },
+      certifications: { first_aid: { name: 'First Aid' }, aws: { name: 'AWS Certified Developer' } }
+    }), posting('Python', 'Docker', 'AWS'));
+
+    assert.deepEqual(Object.keys(result.profile.professional_experience), ['acme', 'bakery']);
+    assert.deepEqual(Object.keys(result.profile.certifications), ['aws', 'first_aid']);
+    assert.deepEqual(result.dropped, []);
+  });
+
+  test('dropUnmatched leaves out unmatched certifications but keeps at least the roles', () => {
+    const result = tailorProfile(profile({
+      professional_experience: { bakery: { company: 'Bakery', title: 'Cashier' } },
+      certifications: { first_aid: { name: 'First Aid' }, aws: { name: 'AWS Certified Developer' } }
+    }), posting('AWS'), { dropUnmatched: true });
+
+    assert.deepEqual(Object.keys(result.profile.professional_experience), ['bakery']);
+    assert.deepEqual(Object.keys(result.profile.certifications), ['aws']);
+    assert.deepEqual(result.dropped.map(item => `${item.section}.${item.key}`), ['certifications.first_aid']);
+  });
+
+  test('projects are limited to the best matches', () => {
+    const result = tailorProfile(profile({
+      projects: {
+        blog: { name: 'blog', technologies: ['Hugo'] },
+        api: { name: 'api', technologies: ['Python'] },
+        cli: { name: 'cli', technologies: ['Python', 'Docker'] }
+      }
+    }), posting('Python', 'Docker'), { maxProjects: 1 });
+
+    assert.deepEqual(Object.keys(result.profile.projects), ['cli']);
+    assert.deepEqual(result.dropped.map(item => item.key), ['api', 'blog']);
+  });
+
+  test('the report lists what a missing requirement partly matched', () => {
+    const result = tailorProfile(profile({ facts: ['Ships Python services'] }), posting('Python, Django and Celery'));
+    const report = formatTailoringReport(result);
+
+    assert.match(report, /Requirements covered: 0\/1/);
+    assert.match(report, /- Python, Django and Celery — only matched: Python/);
+  });
+});
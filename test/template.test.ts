@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { describe, test } from 'node:test';
+import { ProfileData, createEmptyProfile } from '../src/profile';
+import { TemplateError, buildCVViewModel, classifyContact, renderLatexCV, renderTemplate } from '../src/template';
+
+const TEMPLATE_PATH = path.join(__dirname, '..', 'src', 'assets', 'templates', 'base-cv.template.tex');
+const upper = { escape: (value: string) => value.toUpperCase() };
+
+function profile(fields: Partial<ProfileData> = {}): ProfileData {
+  return { ...createEmptyProfile(), ...fields };
+}
+
+describe('renderTemplate', () => {
+  test('escapes values unless they are raw or filtered', () => {
+    const output = renderTemplate('<<name>> <<&name>> <<name | quote>>', { name: 'ada' }, {
+      ...upper,
+      filters: { quote: value => `"${value}"` }
+    });
+
+    assert.equal(output, 'ADA ada "ada"');
+  });
+
+  test('loops and conditionals leave no blank lines behind', () => {
+    const source = [
+      '<<#each items>>',
+      '<<@index>>: <<this>><<#unless @last>>,<</unless>>',
+      '<</each>>',
+      '<<#if empty>>',
+      'never',
+      '<<else>>',
+      'nothing to list',
+      '<</if>>',
+      ''
+    ].join('\n');
+
+    assert.equal(renderTemplate(source, { items: ['a', 'b'], empty: [] }, upper), '0: A,\n1: B\nnothing to list\n');
+  });
+
+  test('reports the line of a broken block', () => {
+    assert.throws(() => renderTemplate('one\n<<#if a>>\nthree', {}, upper), (error: unknown) => {
+      assert.ok(error instanceof TemplateError);
+      assert.match(error.message, /template line 2/);
+      return true;
+    });
+    assert.throws(() => renderTemplate('<<a | missing>>', { a: 'x' }, upper), /Unknown filter "missing"/);
+  });
+});
+
+describe('buildCVViewModel', () => {
+  test('classifies contacts', () => {
+    assert.deepEqual(
+      ['jane@example.com', 'linkedin.com/in/jane', 'https://github.com/jane', '+55 11 99999-0000'].map(value => classifyContact(value).kind),
+      ['email', 'linkedin', 'github', 'phone']
+    );
+  });
+
+  test('falls back to the first facts when there is no summary', () => {
+    const view = buildCVViewModel(profile({ facts: ['Ships TypeScript', 'Mentors juniors.', 'Speaks at meetups', 'Plays chess'] }));
+    assert.equal(view.summary, 'Ships TypeScript. Mentors juniors. Speaks at meetups.');
+  });
+});
+
+describe('renderLatexCV', () => {
+  const sample = profile({
+    name: 'Jane Doe',
+    summary: 'Builds 100% reliable APIs & tools',
+    projects: {
+      cv_tool: { name: 'cv_tool', url: 'https://example.com/a#b', technologies: ['TypeScript'] }
+    },
+    professional_experience: {
+      acme: { title: 'Engineer', company: 'ACME', start_date: '2021', technologies: ['Go'] }
+    }
+  });
+
+  test('renders the same document for the same profile', () => {
+    assert.equal(renderLatexCV(TEMPLATE_PATH, sample), renderLatexCV(TEMPLATE_PATH, sample));
+  });
+
+  test('escapes profile text and URLs', () => {
+    const latex = renderLatexCV(TEMPLATE_PATH, sample);
+
+    assert.ok(latex.includes('Builds 100\\% reliable APIs \\& tools'));
+    assert.ok(latex.includes('\\href{https://example.com/a\\#b}'));
+    assert.ok(latex.includes('cv\\_tool'));
+  });
+
+  test('entries without a description keep their technologies', () => {
+    const latex = renderLatexCV(TEMPLATE_PATH, sample);
+
+    assert.match(latex, /\\item \\textbf\{Tecnologias:\} TypeScript/);
+    assert.match(latex, /\\item \\textbf\{Tecnologias:\} Go/);
+    assert.doesNotMatch(latex, /Descrição:\}\s*\n/);
+  });
+
+  test('a polished summary replaces the profile one', () => {
+    const latex = renderLatexCV(TEMPLATE_PATH, sample, { overrides: { summary: 'Polished' } });
+    assert.ok(latex.includes('Polished'));
+    assert.ok(!latex.includes('reliable APIs'));
+  });
+});
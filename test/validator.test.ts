@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import {
+  ProfileValidationError,
+  createEmptyProfile,
+  loadProfile,
+  saveProfile,
+  validateProfile
+} from '../src/profile';
+
+describe('validateProfile', () => {
+  test('accepts an empty profile', () => {
+    assert.deepEqual(validateProfile(createEmptyProfile()), { valid: true, issues: [] });
+  });
+
+  test('reports each problem with its path', () => {
+    const result = validateProfile({
+      ...createEmptyProfile(),
+      contact: ['jane@example.com', 42],
+      projects: { cli: { name: 'cli', stars: 'many' } },
+      certifications: { aws: { issuer: 'Amazon' } }
+    });
+
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.issues, [
+      { path: 'contact[1]', message: 'expected string, got number' },
+      { path: 'projects.cli.stars', message: 'expected number, got string' },
+      { path: 'certifications.aws.name', message: 'is required' }
+    ]);
+  });
+
+  test('rejects unknown top-level sections but keeps extra entry fields', () => {
+    const result = validateProfile({
+      ...createEmptyProfile(),
+      hobbies: ['chess'],
+      projects: { cli: { name: 'cli', scraped_from_linkedin: true } }
+    });
+
+    assert.deepEqual(result.issues, [{ path: 'hobbies', message: 'is not a known field' }]);
+  });
+
+  test('requires the list sections', () => {
+    const { contact, ...withoutContact } = createEmptyProfile();
+    assert.deepEqual(validateProfile(withoutContact).issues, [{ path: 'contact', message: 'is required' }]);
+    assert.deepEqual(validateProfile([]).issues, [{ path: '(root)', message: 'expected object, got array' }]);
+  });
+
+  test('spoken language levels must be one of LinkedIn\'s five', () => {
+    const result = validateProfile({
+      ...createEmptyProfile(),
+      languages: [{ name: 'English', proficiency: 'Fluent', level: 'full_professional' }, { name: 'Spanish', proficiency: 'Basic', level: 'basic' }]
+    });
+
+    assert.equal(result.issues.length, 1);
+    assert.equal(result.issues[0].path, 'languages[1].level');
+    assert.match(result.issues[0].message, /^expected one of elementary, .*native_or_bilingual, got string$/);
+  });
+});
+
+describe('profile store', () => {
+  let dir: string;
+  let profilePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'autorriculum-profile-'));
+    profilePath = path.join(dir, 'profile.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('an empty profile stands in for a missing file only when allowed', () => {
+    assert.deepEqual(loadProfile(profilePath, { allowMissing: true }), createEmptyProfile());
+    assert.throws(() => loadProfile(profilePath), /Profile file not found/);
+  });
+
+  test('malformed JSON is a validation error naming the file', () => {
+    fs.writeFileSync(profilePath, '{ "contact": [');
+    assert.throws(() => loadProfile(profilePath), (error: unknown) => {
+      assert.ok(error instanceof ProfileValidationError);
+      assert.equal(error.issues[0].path, '(root)');
+      assert.match(error.message, /malformed JSON/);
+      assert.ok(error.message.includes(profilePath));
+      return true;
+    });
+  });
+
+  test('an invalid profile is never written', () => {
+    saveProfile(profilePath, { ...createEmptyProfile(), name: 'Jane' });
+    const invalid = { ...createEmptyProfile(), facts: 'not a list' } as unknown as ReturnType<typeof createEmptyProfile>;
+
+    assert.throws(() => saveProfile(profilePath, invalid), ProfileValidationError);
+    assert.equal(loadProfile(profilePath).name, 'Jane');
+  });
+});